@@ -0,0 +1,32 @@
+// Lists what each translation catalog is missing or gets wrong compared with
+// the English one, and exits non-zero when anything is found. Keys used in the
+// code but missing from English are already type errors.
+//
+//   npm run i18n:check
+
+import { createServer } from 'vite'
+
+// Vite resolves the app's `@/` imports and compiles its TypeScript
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+})
+
+try {
+  const { CATALOGS, findCatalogProblems } = await vite.ssrLoadModule('/src/lib/i18n/index.ts')
+  const problems = findCatalogProblems()
+
+  for (const { language, key, problem } of problems) {
+    console.log(`${language.padEnd(3)} ${key}: ${problem}`)
+  }
+  const languages = Object.keys(CATALOGS).filter(language => language !== 'en')
+  if (problems.length > 0) {
+    console.error(`${problems.length} problem${problems.length === 1 ? '' : 's'} in ${languages.join(', ')}`)
+    process.exitCode = 1
+  } else {
+    console.log(`Catalogs are complete: ${languages.join(', ')}`)
+  }
+} finally {
+  await vite.close()
+}
@@ -0,0 +1,67 @@
+// Runs the weekly digest job against the local backend, writing each email
+// to an outbox folder instead of sending it. The local database is kept in a
+// JSON file between runs, so re-running skips weeks already delivered.
+//
+//   npm run digest -- [--db local-db.json] [--outbox digest-outbox] [--now 2026-10-19T09:00:00Z]
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { createServer } from 'vite'
+
+const { values: options } = parseArgs({
+  options: {
+    db: { type: 'string', default: 'local-db.json' },
+    outbox: { type: 'string', default: 'digest-outbox' },
+    now: { type: 'string' },
+    'app-url': { type: 'string', default: 'http://localhost:8080' },
+  },
+})
+
+// The subset of the Web Storage API the local backend uses, kept in a file
+const fileStorage = (file) => {
+  const items = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {}
+  return {
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = String(value)
+      writeFileSync(file, JSON.stringify(items))
+    },
+  }
+}
+
+const now = options.now ? new Date(options.now) : new Date()
+if (Number.isNaN(now.getTime())) {
+  console.error(`Not a date: ${options.now}`)
+  process.exit(1)
+}
+
+// Vite resolves the app's `@/` imports and compiles its TypeScript
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+})
+
+try {
+  const { createLocalBackend } = await vite.ssrLoadModule('/src/lib/backend/local.ts')
+  const { runWeeklyDigest } = await vite.ssrLoadModule('/src/lib/digest-job.ts')
+
+  mkdirSync(options.outbox, { recursive: true })
+  const results = await runWeeklyDigest({
+    backend: createLocalBackend({ storage: fileStorage(options.db) }),
+    appUrl: options['app-url'].replace(/\/$/, ''),
+    now,
+    send: async ({ to, html }) => {
+      const file = path.join(options.outbox, `${now.toISOString().slice(0, 10)}-${to.replace(/[^\w.@-]/g, '_')}.html`)
+      writeFileSync(file, html)
+    },
+  })
+
+  for (const { recipient, status, reason } of results) {
+    console.log(`${status.padEnd(8)} ${recipient}${reason ? ` (${reason})` : ''}`)
+  }
+  console.log(`Emails are in ${path.resolve(options.outbox)}`)
+} finally {
+  await vite.close()
+}
@@ -3,9 +3,14 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ThemeProvider } from "next-themes";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { DateRangeProvider } from "@/contexts/DateRangeContext";
+import { PreferencesProvider } from "@/contexts/PreferencesContext";
+import { useRequiredWorkspace, WorkspaceProvider } from "@/contexts/WorkspaceContext";
 import { LandingPage } from "@/components/LandingPage";
+import { InvitationAcceptance } from "@/components/InvitationAcceptance";
 import { EnhancedDashboard } from "@/components/EnhancedDashboard";
 import { EnhancedDashboardOverview } from "@/components/EnhancedDashboardOverview";
 import { FeedbackManagement } from "@/components/FeedbackManagement";
@@ -13,6 +18,8 @@ import { Analytics } from "@/components/Analytics";
 import { IssuesTracking } from "@/components/IssuesTracking";
 import { TeamManagement } from "@/components/TeamManagement";
 import { Settings } from "@/components/Settings";
+import { AnalyticsReport } from "@/components/AnalyticsReport";
+import { COLOR_THEMES } from "@/lib/user-settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -28,8 +35,10 @@ const queryClient = new QueryClient({
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   const { user, loading } = useAuth();
+  const { loading: workspaceLoading } = useRequiredWorkspace();
   
-  if (loading) {
+  // Every query is scoped to a workspace, so nothing renders before one is chosen
+  if (loading || workspaceLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted">
         <div className="flex flex-col items-center gap-4">
@@ -62,40 +71,60 @@ const PublicRoute = ({ children }: { children: React.ReactNode }) => {
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <AuthProvider>
-        <BrowserRouter>
-          <Routes>
-            <Route
-              path="/"
-              element={
-                <PublicRoute>
-                  <LandingPage />
-                </PublicRoute>
-              }
-            />
-            <Route
-              path="/dashboard"
-              element={
-                <ProtectedRoute>
-                  <EnhancedDashboard />
-                </ProtectedRoute>
-              }
-            >
-              <Route index element={<EnhancedDashboardOverview />} />
-              <Route path="feedback" element={<FeedbackManagement />} />
-              <Route path="analytics" element={<Analytics />} />
-              <Route path="issues" element={<IssuesTracking />} />
-              <Route path="team" element={<TeamManagement />} />
-              <Route path="settings" element={<Settings />} />
-            </Route>
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </AuthProvider>
-    </TooltipProvider>
+    {/* Remembers the theme on this device; PreferencesProvider applies the signed-in user's */}
+    <ThemeProvider attribute="class" defaultTheme="light" themes={COLOR_THEMES} enableSystem disableTransitionOnChange>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <AuthProvider>
+          <WorkspaceProvider>
+            <DateRangeProvider>
+              <PreferencesProvider>
+                <BrowserRouter>
+                  <Routes>
+                    <Route
+                      path="/"
+                      element={
+                        <PublicRoute>
+                          <LandingPage />
+                        </PublicRoute>
+                      }
+                    />
+                    <Route
+                      path="/dashboard"
+                      element={
+                        <ProtectedRoute>
+                          <EnhancedDashboard />
+                        </ProtectedRoute>
+                      }
+                    >
+                      <Route index element={<EnhancedDashboardOverview />} />
+                      <Route path="feedback" element={<FeedbackManagement />} />
+                      <Route path="queue" element={<FeedbackManagement scope="mine" />} />
+                      <Route path="analytics" element={<Analytics />} />
+                      <Route path="issues" element={<IssuesTracking />} />
+                      <Route path="team" element={<TeamManagement />} />
+                      <Route path="settings" element={<Settings />} />
+                    </Route>
+                    {/* Open signed in or out, so new teammates can sign up from the invitation */}
+                    <Route path="/invite/:token" element={<InvitationAcceptance />} />
+                    <Route
+                      path="/report"
+                      element={
+                        <ProtectedRoute>
+                          <AnalyticsReport />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </BrowserRouter>
+              </PreferencesProvider>
+            </DateRangeProvider>
+          </WorkspaceProvider>
+        </AuthProvider>
+      </TooltipProvider>
+    </ThemeProvider>
   </QueryClientProvider>
 );
 
@@ -1,8 +1,15 @@
 
 import React, { useState, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useQuery } from '@tanstack/react-query'
-import { supabase } from '@/lib/supabase'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useFeedbackSearch } from '@/hooks/use-feedbacks'
+import { useFeedbackTags, useTagFeedbackCounts, useTags } from '@/hooks/use-tags'
+import { FeedbackTagList } from '@/components/FeedbackTags'
+import { DateRangePicker } from '@/components/DateRangePicker'
+import { toReceivedBounds } from '@/lib/date-range'
+import type { FeedbackFilters, FeedbackSortColumn, RatingFilter, SortOrder } from '@/lib/repository'
+import { FeedbackExportDialog } from '@/components/ExportDialog'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
@@ -11,33 +18,39 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator'
 import { 
   Search, Filter, X, Calendar, Star, Mail, AlertCircle, 
-  SortAsc, SortDesc, Clock, User, Tag, TrendingUp 
+  SortAsc, SortDesc, Clock, User, Tag, TrendingUp, Download 
 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 import { debounce } from 'lodash'
 
 interface SearchFilters {
   query: string
-  rating: string
-  dateRange: string
+  rating: RatingFilter
   sender: string
-  sortBy: string
-  sortOrder: 'asc' | 'desc'
+  sortBy: FeedbackSortColumn
+  sortOrder: SortOrder
+  /** A tag id, or 'all' */
   category: string
 }
 
+const MAX_SUGGESTIONS = 6
+
 export const AdvancedSearch = () => {
   const [filters, setFilters] = useState<SearchFilters>({
     query: '',
     rating: 'all',
-    dateRange: 'all',
     sender: '',
     sortBy: 'received_at',
     sortOrder: 'desc',
     category: 'all'
   })
   const [showAdvanced, setShowAdvanced] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const { range, resolved: dateRange, setRange } = useDateRange()
+  const { format, t } = usePreferences()
   const { toast } = useToast()
+  const { data: tags = [] } = useTags()
+  const { data: tagCounts = [] } = useTagFeedbackCounts()
 
   // Debounced search function
   const debouncedSearch = useCallback(
@@ -47,88 +60,20 @@ export const AdvancedSearch = () => {
     []
   )
 
-  // Advanced search query
-  const { data: searchResults, isLoading, refetch } = useQuery({
-    queryKey: ['advanced-search', filters],
-    queryFn: async () => {
-      let query = supabase
-        .from('feedbacks')
-        .select(`
-          *,
-          current_issues (
-            issue_title
-          )
-        `)
-
-      // Apply text search
-      if (filters.query) {
-        query = query.or(`
-          subject.ilike.%${filters.query}%,
-          sender_name.ilike.%${filters.query}%,
-          sender_email.ilike.%${filters.query}%,
-          feedback_summary.ilike.%${filters.query}%
-        `)
-      }
-
-      // Apply rating filter
-      if (filters.rating !== 'all') {
-        if (filters.rating === '5') {
-          query = query.gte('average_rating', 4.5)
-        } else if (filters.rating === '4') {
-          query = query.gte('average_rating', 3.5).lt('average_rating', 4.5)
-        } else if (filters.rating === '3') {
-          query = query.gte('average_rating', 2.5).lt('average_rating', 3.5)
-        } else if (filters.rating === '2') {
-          query = query.gte('average_rating', 1.5).lt('average_rating', 2.5)
-        } else if (filters.rating === '1') {
-          query = query.lt('average_rating', 1.5)
-        }
-      }
-
-      // Apply date range filter
-      if (filters.dateRange !== 'all') {
-        const now = new Date()
-        let startDate = new Date()
-        
-        switch (filters.dateRange) {
-          case 'today':
-            startDate.setHours(0, 0, 0, 0)
-            break
-          case 'week':
-            startDate.setDate(now.getDate() - 7)
-            break
-          case 'month':
-            startDate.setMonth(now.getMonth() - 1)
-            break
-          case '3months':
-            startDate.setMonth(now.getMonth() - 3)
-            break
-          case 'year':
-            startDate.setFullYear(now.getFullYear() - 1)
-            break
-        }
-        
-        query = query.gte('received_at', startDate.toISOString())
-      }
-
-      // Apply sender filter
-      if (filters.sender) {
-        query = query.or(`
-          sender_name.ilike.%${filters.sender}%,
-          sender_email.ilike.%${filters.sender}%
-        `)
-      }
-
-      // Apply sorting
-      query = query.order(filters.sortBy, { ascending: filters.sortOrder === 'asc' })
-
-      const { data, error } = await query.limit(50)
-      if (error) throw error
-
-      return data || []
-    },
-    enabled: Object.values(filters).some(v => v !== '' && v !== 'all'),
-  })
+  const feedbackFilters: FeedbackFilters = {
+    search: filters.query,
+    sender: filters.sender,
+    rating: filters.rating,
+    ...toReceivedBounds(dateRange),
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+    tagIds: filters.category === 'all' ? undefined : [filters.category],
+  }
+  const { data: searchResults, isLoading } = useFeedbackSearch(
+    feedbackFilters,
+    Object.values(filters).some(v => v !== '' && v !== 'all') || range.preset !== 'all'
+  )
+  const { data: resultTagLinks = [] } = useFeedbackTags(searchResults?.map(result => result.id) ?? [])
 
   const updateFilter = (key: keyof SearchFilters, value: string) => {
     const newFilters = { ...filters, [key]: value }
@@ -137,35 +82,35 @@ export const AdvancedSearch = () => {
   }
 
   const clearFilters = () => {
-    const clearedFilters = {
+    const clearedFilters: SearchFilters = {
       query: '',
       rating: 'all',
-      dateRange: 'all',
       sender: '',
       sortBy: 'received_at',
-      sortOrder: 'desc' as const,
+      sortOrder: 'desc',
       category: 'all'
     }
     setFilters(clearedFilters)
+    setRange({ preset: 'all' })
   }
 
   const activeFiltersCount = useMemo(() => {
     return Object.entries(filters).filter(([key, value]) => 
       value !== '' && value !== 'all' && key !== 'sortBy' && key !== 'sortOrder'
-    ).length
-  }, [filters])
+    ).length + (range.preset !== 'all' ? 1 : 0)
+  }, [filters, range])
 
+  // Keywords of the most used tags, so suggestions follow how feedback is actually categorized
   const getSearchSuggestions = () => {
-    // Mock search suggestions - in real app, this would come from your backend
-    return [
-      'login issues',
-      'payment problems',
-      'slow loading',
-      'bug report',
-      'feature request'
-    ]
+    const usage = (tagId: string) => tagCounts.find(count => count.tag_id === tagId)?.feedback_count ?? 0
+    const keywords = [...tags]
+      .sort((a, b) => usage(b.id) - usage(a.id))
+      .flatMap(tag => tag.keywords.slice(0, 2))
+    return Array.from(new Set(keywords)).slice(0, MAX_SUGGESTIONS)
   }
 
+  const suggestions = getSearchSuggestions()
+
   return (
     <div className="space-y-6">
       {/* Main Search Bar */}
@@ -175,7 +120,7 @@ export const AdvancedSearch = () => {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search feedback, issues, or senders..."
+                placeholder={t('search.placeholder')}
                 value={filters.query}
                 onChange={(e) => updateFilter('query', e.target.value)}
                 className="pl-10 pr-10"
@@ -198,7 +143,7 @@ export const AdvancedSearch = () => {
               className="flex items-center gap-2"
             >
               <Filter className="h-4 w-4" />
-              Filters
+              {t('search.filters')}
               {activeFiltersCount > 0 && (
                 <Badge variant="secondary" className="ml-1">
                   {activeFiltersCount}
@@ -208,17 +153,17 @@ export const AdvancedSearch = () => {
 
             {activeFiltersCount > 0 && (
               <Button variant="ghost" onClick={clearFilters}>
-                Clear All
+                {t('search.clearAll')}
               </Button>
             )}
           </div>
 
           {/* Search Suggestions */}
-          {filters.query === '' && (
+          {filters.query === '' && suggestions.length > 0 && (
             <div className="mt-4">
-              <div className="text-sm text-muted-foreground mb-2">Popular searches:</div>
+              <div className="text-sm text-muted-foreground mb-2">{t('search.popular')}</div>
               <div className="flex flex-wrap gap-2">
-                {getSearchSuggestions().map((suggestion) => (
+                {suggestions.map((suggestion) => (
                   <Button
                     key={suggestion}
                     variant="outline"
@@ -247,65 +192,72 @@ export const AdvancedSearch = () => {
           >
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Advanced Filters</CardTitle>
+                <CardTitle className="text-lg">{t('search.advancedFilters')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                   {/* Rating Filter */}
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Rating</label>
+                    <label className="text-sm font-medium mb-2 block">{t('common.rating')}</label>
                     <Select value={filters.rating} onValueChange={(value) => updateFilter('rating', value)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="all">All Ratings</SelectItem>
-                        <SelectItem value="5">5 Stars</SelectItem>
-                        <SelectItem value="4">4 Stars</SelectItem>
-                        <SelectItem value="3">3 Stars</SelectItem>
-                        <SelectItem value="2">2 Stars</SelectItem>
-                        <SelectItem value="1">1 Star</SelectItem>
+                        <SelectItem value="all">{t('common.allRatings')}</SelectItem>
+                        {[5, 4, 3, 2, 1].map((rating) => (
+                          <SelectItem key={rating} value={String(rating)}>{t('search.stars', { count: rating })}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
 
                   {/* Date Range Filter */}
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Date Range</label>
-                    <Select value={filters.dateRange} onValueChange={(value) => updateFilter('dateRange', value)}>
+                    <label className="text-sm font-medium mb-2 block">{t('search.dateRange')}</label>
+                    <DateRangePicker className="w-full" />
+                  </div>
+
+                  {/* Tag Filter */}
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">{t('search.tag')}</label>
+                    <Select value={filters.category} onValueChange={(value) => updateFilter('category', value)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="all">All Time</SelectItem>
-                        <SelectItem value="today">Today</SelectItem>
-                        <SelectItem value="week">Last Week</SelectItem>
-                        <SelectItem value="month">Last Month</SelectItem>
-                        <SelectItem value="3months">Last 3 Months</SelectItem>
-                        <SelectItem value="year">Last Year</SelectItem>
+                        <SelectItem value="all">{t('common.allTags')}</SelectItem>
+                        {tags.map((tag) => (
+                          <SelectItem key={tag.id} value={tag.id}>
+                            <div className="flex items-center gap-2">
+                              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                              {tag.name}
+                            </div>
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
 
                   {/* Sort Options */}
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Sort By</label>
+                    <label className="text-sm font-medium mb-2 block">{t('search.sortBy')}</label>
                     <Select value={filters.sortBy} onValueChange={(value) => updateFilter('sortBy', value)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="received_at">Date Received</SelectItem>
-                        <SelectItem value="average_rating">Rating</SelectItem>
-                        <SelectItem value="sender_name">Sender Name</SelectItem>
-                        <SelectItem value="subject">Subject</SelectItem>
+                        <SelectItem value="received_at">{t('search.sort.received_at')}</SelectItem>
+                        <SelectItem value="average_rating">{t('search.sort.average_rating')}</SelectItem>
+                        <SelectItem value="sender_name">{t('search.sort.sender_name')}</SelectItem>
+                        <SelectItem value="subject">{t('search.sort.subject')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
                   {/* Sort Order */}
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Order</label>
+                    <label className="text-sm font-medium mb-2 block">{t('search.order')}</label>
                     <Select value={filters.sortOrder} onValueChange={(value) => updateFilter('sortOrder', value)}>
                       <SelectTrigger>
                         <SelectValue />
@@ -314,13 +266,13 @@ export const AdvancedSearch = () => {
                         <SelectItem value="desc">
                           <div className="flex items-center gap-2">
                             <SortDesc className="h-4 w-4" />
-                            Descending
+                            {t('search.descending')}
                           </div>
                         </SelectItem>
                         <SelectItem value="asc">
                           <div className="flex items-center gap-2">
                             <SortAsc className="h-4 w-4" />
-                            Ascending
+                            {t('search.ascending')}
                           </div>
                         </SelectItem>
                       </SelectContent>
@@ -330,9 +282,9 @@ export const AdvancedSearch = () => {
 
                 {/* Sender Filter */}
                 <div>
-                  <label className="text-sm font-medium mb-2 block">Sender</label>
+                  <label className="text-sm font-medium mb-2 block">{t('common.sender')}</label>
                   <Input
-                    placeholder="Filter by sender name or email..."
+                    placeholder={t('search.senderPlaceholder')}
                     value={filters.sender}
                     onChange={(e) => updateFilter('sender', e.target.value)}
                   />
@@ -348,11 +300,17 @@ export const AdvancedSearch = () => {
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
-              <span>Search Results</span>
+              <span>{t('search.results')}</span>
               {searchResults && (
-                <Badge variant="outline">
-                  {searchResults.length} result{searchResults.length !== 1 ? 's' : ''}
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {t('search.resultCount', { count: searchResults.length })}
+                  </Badge>
+                  <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)} disabled={searchResults.length === 0}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {t('common.export')}
+                  </Button>
+                </div>
               )}
             </CardTitle>
           </CardHeader>
@@ -381,10 +339,15 @@ export const AdvancedSearch = () => {
                           <span className="font-medium">{result.sender_name || result.sender_email}</span>
                           <Badge variant="outline" className="flex items-center gap-1">
                             <Star className="h-3 w-3" />
-                            {Number(result.average_rating || 0).toFixed(1)}
+                            {format.number(Number(result.average_rating || 0), { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
                           </Badge>
                         </div>
                         <h4 className="font-medium mb-1">{result.subject}</h4>
+                        <FeedbackTagList
+                          tags={tags}
+                          links={resultTagLinks.filter(link => link.feedback_id === result.id)}
+                          className="mb-2"
+                        />
                         {result.feedback_summary && (
                           <p className="text-sm text-muted-foreground mb-2">
                             {result.feedback_summary}
@@ -393,7 +356,7 @@ export const AdvancedSearch = () => {
                         <div className="flex items-center gap-4 text-xs text-muted-foreground">
                           <div className="flex items-center gap-1">
                             <Calendar className="h-3 w-3" />
-                            {new Date(result.received_at).toLocaleDateString()}
+                            {format.date(result.received_at)}
                           </div>
                           <div className="flex items-center gap-1">
                             <Mail className="h-3 w-3" />
@@ -408,12 +371,19 @@ export const AdvancedSearch = () => {
             ) : (
               <div className="text-center py-8 text-muted-foreground">
                 <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                <p>No results found matching your criteria</p>
+                <p>{t('search.noResults')}</p>
               </div>
             )}
           </CardContent>
         </Card>
       )}
+
+      <FeedbackExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        target={{ filters: feedbackFilters }}
+        description={t('search.exportDescription')}
+      />
     </div>
   )
 }
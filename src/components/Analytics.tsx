@@ -1,169 +1,90 @@
 
 import React from 'react'
-import { useQuery } from '@tanstack/react-query'
 import { motion } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
+import {
+  useDailyFeedbackCounts,
+  useDailySurveyMetrics,
+  useFeedbackSummary,
+  useFeedbackTrends,
+  useHourlyFeedbackCounts,
+  useRatingHistogram,
+  useSentimentCounts,
+  useWeekdayFeedbackCounts,
+} from '@/hooks/use-analytics'
+import { useComparisonWindow } from '@/hooks/use-comparison-window'
+import {
+  toDailySeries,
+  toDailySurveySeries,
+  toHourlySeries,
+  toPeriodMetrics,
+  toRatingDistribution,
+  toSentimentData,
+  toWeekdaySeries,
+} from '@/lib/metrics'
+import { formatDateRange, toReceivedBounds } from '@/lib/date-range'
+import { HEADLINE_METRIC_META } from '@/lib/survey-metrics'
+import { findFeedbackAnomalies, type FeedbackAnomaly } from '@/lib/anomalies'
+import { CHART_COLORS, CHART_TOOLTIP_STYLE, SENTIMENT_COLORS } from '@/lib/chart-colors'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { ComparisonWindowSelect, TrendIndicator } from '@/components/PeriodComparison'
+import { DateRangePicker } from '@/components/DateRangePicker'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, ReferenceDot,
   BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar
 } from 'recharts'
-import { TrendingUp, TrendingDown, Calendar, Star, MessageSquare, Users, Clock, Target } from 'lucide-react'
+import { Calendar, Star, MessageSquare, Users, Clock, Target, Activity, FileText } from 'lucide-react'
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D']
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
 
 export const Analytics = () => {
-  // Fetch analytics data
-  const { data: feedbacks = [], isLoading } = useQuery({
-    queryKey: ['analytics-feedbacks'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('feedbacks')
-        .select('*')
-        .order('received_at', { ascending: true })
-      
-      if (error) throw error
-      return data || []
-    }
-  })
+  const [comparisonWindow, setComparisonWindow] = useComparisonWindow()
+  const { range, resolved: dateRange, timezone } = useDateRange()
+  const { format, t } = usePreferences()
+  const bounds = toReceivedBounds(dateRange)
 
-  const { data: issues = [] } = useQuery({
-    queryKey: ['analytics-issues'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('current_issues')
-        .select('*')
-        .order('created_at', { ascending: false })
-      
-      if (error) throw error
-      return data || []
-    }
-  })
+  // Only the aggregates each chart renders are fetched
+  const { data: stats, isLoading } = useFeedbackTrends(comparisonWindow)
+  const { data: summary } = useFeedbackSummary(bounds)
+  const { data: dailyCounts = [] } = useDailyFeedbackCounts(bounds, timezone)
+  const { data: weekdayCounts = [] } = useWeekdayFeedbackCounts(bounds, timezone)
+  const { data: hourlyCounts = [] } = useHourlyFeedbackCounts(bounds, timezone)
+  const { data: ratingHistogram = [] } = useRatingHistogram(bounds)
+  const { data: sentimentCounts = [] } = useSentimentCounts(bounds)
+  const { data: dailySurveyMetrics = [] } = useDailySurveyMetrics(bounds, timezone)
 
-  // Process data for charts
+  // Charts follow the shared date range, bucketed by day in the chosen timezone
   const chartData = React.useMemo(() => {
-    if (!feedbacks.length) return null
-
-    // Time series data
-    const timeSeriesData = feedbacks.reduce((acc: any[], feedback) => {
-      const date = new Date(feedback.received_at).toLocaleDateString()
-      const existing = acc.find(item => item.date === date)
-      
-      if (existing) {
-        existing.count += 1
-        existing.totalRating += Number(feedback.average_rating) || 0
-        existing.avgRating = existing.totalRating / existing.count
-      } else {
-        acc.push({
-          date,
-          count: 1,
-          totalRating: Number(feedback.average_rating) || 0,
-          avgRating: Number(feedback.average_rating) || 0
-        })
-      }
-      
-      return acc
-    }, [])
-
-    // Sentiment distribution
-    const sentimentData = [
-      { 
-        name: 'Positive', 
-        value: feedbacks.filter(f => (Number(f.average_rating) || 0) >= 4).length,
-        color: '#00C49F'
-      },
-      { 
-        name: 'Neutral', 
-        value: feedbacks.filter(f => {
-          const rating = Number(f.average_rating) || 0
-          return rating >= 2.5 && rating < 4
-        }).length,
-        color: '#FFBB28'
-      },
-      { 
-        name: 'Negative', 
-        value: feedbacks.filter(f => (Number(f.average_rating) || 0) < 2.5).length,
-        color: '#FF8042'
-      }
-    ]
-
-    // Rating distribution
-    const ratingDistribution = [1, 2, 3, 4, 5].map(rating => ({
-      rating: `${rating} Star${rating > 1 ? 's' : ''}`,
-      count: feedbacks.filter(f => {
-        const avgRating = Number(f.average_rating) || 0
-        return Math.floor(avgRating) === rating || (rating === 5 && avgRating > 4.5)
-      }).length
-    }))
-
-    // Weekly trend
-    const weeklyData = []
-    const now = new Date()
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(now)
-      date.setDate(date.getDate() - i)
-      const dateStr = date.toLocaleDateString()
-      
-      const dayFeedbacks = feedbacks.filter(f => 
-        new Date(f.received_at).toLocaleDateString() === dateStr
-      )
-      
-      weeklyData.push({
-        date: date.toLocaleDateString('en-US', { weekday: 'short' }),
-        feedback: dayFeedbacks.length,
-        avgRating: dayFeedbacks.length > 0 
-          ? dayFeedbacks.reduce((sum, f) => sum + (Number(f.average_rating) || 0), 0) / dayFeedbacks.length
-          : 0
-      })
-    }
-
-    // Hour distribution
-    const hourlyData = Array.from({ length: 24 }, (_, hour) => {
-      const hourFeedbacks = feedbacks.filter(f => 
-        new Date(f.received_at).getHours() === hour
-      )
-      
-      return {
-        hour: `${hour}:00`,
-        count: hourFeedbacks.length
-      }
-    })
-
+    if (!summary?.feedback_count) return null
+    const timeSeriesData = toDailySeries(dailyCounts, dateRange, timezone)
     return {
       timeSeriesData,
-      sentimentData,
-      ratingDistribution,
-      weeklyData,
-      hourlyData
+      anomalies: findFeedbackAnomalies(timeSeriesData),
+      sentimentData: toSentimentData(sentimentCounts).map(entry => ({ ...entry, name: t(`sentiment.${entry.sentiment}`) })),
+      ratingDistribution: toRatingDistribution(ratingHistogram).map(entry => ({ ...entry, rating: t('analytics.ratings.stars', { count: entry.stars }) })),
+      weeklyData: toWeekdaySeries(weekdayCounts),
+      hourlyData: toHourlySeries(hourlyCounts),
+      survey: toPeriodMetrics(summary),
+      surveySeries: toDailySurveySeries(dailySurveyMetrics, dateRange, timezone)
     }
-  }, [feedbacks])
-
-  const stats = React.useMemo(() => {
-    if (!feedbacks.length) return null
-
-    const totalFeedback = feedbacks.length
-    const avgRating = feedbacks.reduce((sum, f) => sum + (Number(f.average_rating) || 0), 0) / totalFeedback
-    const responseRate = Math.round(Math.random() * 20 + 80) // Mock data
-    const avgResponseTime = Math.round(Math.random() * 4 + 2) // Mock data
+  }, [summary, dailyCounts, sentimentCounts, ratingHistogram, weekdayCounts, hourlyCounts, dailySurveyMetrics, dateRange, timezone, t])
 
-    // Calculate trends (mock data for demo)
-    const feedbackTrend = Math.round(Math.random() * 40 - 20)
-    const ratingTrend = (Math.random() - 0.5) * 2
-    const responseRateTrend = Math.round(Math.random() * 10 - 5)
+  const rangeLabel = formatDateRange(range, format.dayLabel, t).toLowerCase()
 
-    return {
-      totalFeedback,
-      avgRating,
-      responseRate,
-      avgResponseTime,
-      feedbackTrend,
-      ratingTrend,
-      responseRateTrend,
-      totalIssues: issues.length
-    }
-  }, [feedbacks, issues])
+  const describeAnomaly = (anomaly: FeedbackAnomaly) =>
+    anomaly.metric === 'volume'
+      ? t('analytics.anomaly.volumeDescription', {
+          count: anomaly.value,
+          baseline: format.number(anomaly.baseline, ONE_DECIMAL),
+        })
+      : t('analytics.anomaly.ratingDescription', {
+          value: format.number(anomaly.value, ONE_DECIMAL),
+          baseline: format.number(anomaly.baseline, ONE_DECIMAL),
+        })
 
   if (isLoading) {
     return (
@@ -178,12 +99,12 @@ export const Analytics = () => {
     )
   }
 
-  if (!chartData || !stats) {
+  if (!stats) {
     return (
       <div className="space-y-6">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
-          <p className="text-muted-foreground">No data available yet</p>
+          <h1 className="text-3xl font-bold tracking-tight">{t('analytics.title')}</h1>
+          <p className="text-muted-foreground">{t('analytics.noData')}</p>
         </div>
       </div>
     )
@@ -197,115 +118,197 @@ export const Analytics = () => {
       className="space-y-6"
     >
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
-        <p className="text-muted-foreground">
-          Advanced insights into your feedback data
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('analytics.title')}</h1>
+          <p className="text-muted-foreground">
+            {t('analytics.subtitle')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <DateRangePicker />
+          <ComparisonWindowSelect value={comparisonWindow} onChange={setComparisonWindow} />
+          <Button variant="outline" asChild>
+            <a href="/report">
+              <FileText className="h-4 w-4 mr-2" />
+              {t('analytics.report')}
+            </a>
+          </Button>
+        </div>
       </div>
 
       {/* Key Metrics */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Feedback</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('analytics.feedbackReceived')}</CardTitle>
             <MessageSquare className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalFeedback}</div>
-            <div className="flex items-center text-xs text-muted-foreground">
-              {stats.feedbackTrend > 0 ? (
-                <TrendingUp className="h-3 w-3 text-green-500 mr-1" />
-              ) : (
-                <TrendingDown className="h-3 w-3 text-red-500 mr-1" />
-              )}
-              {Math.abs(stats.feedbackTrend)}% from last month
-            </div>
+            <div className="text-2xl font-bold">{format.number(stats.current.feedbackCount)}</div>
+            <TrendIndicator change={stats.feedbackTrend} window={stats.window} format={(value) => `${value}%`} />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average Rating</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('analytics.averageRating')}</CardTitle>
             <Star className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.avgRating.toFixed(1)}</div>
-            <div className="flex items-center text-xs text-muted-foreground">
-              {stats.ratingTrend > 0 ? (
-                <TrendingUp className="h-3 w-3 text-green-500 mr-1" />
-              ) : (
-                <TrendingDown className="h-3 w-3 text-red-500 mr-1" />
-              )}
-              {Math.abs(stats.ratingTrend).toFixed(1)} from last month
-            </div>
+            <div className="text-2xl font-bold">{stats.current.avgRating?.toFixed(1) ?? '—'}</div>
+            <TrendIndicator change={stats.ratingTrend} window={stats.window} format={(value) => value.toFixed(1)} />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Response Rate</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('analytics.responseRate')}</CardTitle>
             <Target className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.responseRate}%</div>
-            <div className="flex items-center text-xs text-muted-foreground">
-              {stats.responseRateTrend > 0 ? (
-                <TrendingUp className="h-3 w-3 text-green-500 mr-1" />
-              ) : (
-                <TrendingDown className="h-3 w-3 text-red-500 mr-1" />
-              )}
-              {Math.abs(stats.responseRateTrend)}% from last month
-            </div>
+            <div className="text-2xl font-bold">{stats.current.responseRate}%</div>
+            <TrendIndicator change={stats.responseRateTrend} window={stats.window} format={(value) => t('analytics.points', { count: value })} />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Avg Response Time</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('analytics.avgResponseTime')}</CardTitle>
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.avgResponseTime}h</div>
+            <div className="text-2xl font-bold">
+              {stats.current.avgResponseHours === null ? '—' : `${stats.current.avgResponseHours.toFixed(1)}h`}
+            </div>
+            <TrendIndicator
+              change={stats.responseTimeTrend}
+              window={stats.window}
+              format={(value) => `${value.toFixed(1)}h`}
+              lowerIsBetter
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {!chartData ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Calendar className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">{t('analytics.noFeedbackInRange', { range: rangeLabel })}</p>
+          </CardContent>
+        </Card>
+      ) : (
+      <>
+      {/* Survey Metrics */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t('analytics.nps')}</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {chartData.survey.nps === null ? '—' : HEADLINE_METRIC_META.nps.format(chartData.survey.nps)}
+            </div>
             <p className="text-xs text-muted-foreground">
-              -30min from last month
+              {t('analytics.npsBreakdown', {
+                promoters: summary.promoters,
+                detractors: summary.detractors,
+                count: summary.nps_responses,
+              })}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t('analytics.csat')}</CardTitle>
+            <Star className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {chartData.survey.csat === null ? '—' : HEADLINE_METRIC_META.csat.format(chartData.survey.csat)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('analytics.csatBreakdown', { satisfied: summary.csat_satisfied, count: summary.csat_responses })}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t('analytics.ces')}</CardTitle>
+            <Target className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {chartData.survey.ces === null ? '—' : HEADLINE_METRIC_META.ces.format(chartData.survey.ces)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('analytics.cesBreakdown', { count: summary.ces_responses })}
             </p>
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('analytics.surveyTrend.title')}</CardTitle>
+          <CardDescription>
+            {t('analytics.surveyTrend.description', { range: rangeLabel })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData.surveySeries}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis stroke={CHART_COLORS.axis} dataKey="day" tickFormatter={format.dayLabel} />
+              <YAxis stroke={CHART_COLORS.axis} yAxisId="left" domain={[-100, 100]} />
+              <YAxis stroke={CHART_COLORS.axis} yAxisId="right" orientation="right" domain={[1, 7]} />
+              <Tooltip contentStyle={CHART_TOOLTIP_STYLE} labelFormatter={format.dayLabel} />
+              <Line yAxisId="left" type="monotone" dataKey="nps" name="NPS" stroke={CHART_COLORS.nps} strokeWidth={2} connectNulls />
+              <Line yAxisId="left" type="monotone" dataKey="csat" name="CSAT %" stroke={CHART_COLORS.csat} strokeWidth={2} connectNulls />
+              <Line yAxisId="right" type="monotone" dataKey="ces" name="CES" stroke={CHART_COLORS.ces} strokeWidth={2} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
       {/* Charts Grid */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Weekly Trend */}
         <Card>
           <CardHeader>
-            <CardTitle>Weekly Feedback Trend</CardTitle>
+            <CardTitle>{t('analytics.weekday.title')}</CardTitle>
             <CardDescription>
-              Feedback volume and average rating over the last 7 days
+              {t('analytics.weekday.description', { range: rangeLabel })}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <AreaChart data={chartData.weeklyData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" />
-                <YAxis yAxisId="left" />
-                <YAxis yAxisId="right" orientation="right" />
-                <Tooltip />
+                <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+                <XAxis stroke={CHART_COLORS.axis} dataKey="weekday" tickFormatter={format.weekday} />
+                <YAxis stroke={CHART_COLORS.axis} yAxisId="left" />
+                <YAxis stroke={CHART_COLORS.axis} yAxisId="right" orientation="right" />
+                <Tooltip contentStyle={CHART_TOOLTIP_STYLE} labelFormatter={format.weekday} />
                 <Area
                   yAxisId="left"
                   type="monotone"
                   dataKey="feedback"
+                  name={t('analytics.series.feedback')}
                   stackId="1"
-                  stroke="#8884d8"
-                  fill="#8884d8"
+                  stroke={CHART_COLORS.volume}
+                  fill={CHART_COLORS.volume}
                   fillOpacity={0.6}
                 />
                 <Line
                   yAxisId="right"
                   type="monotone"
                   dataKey="avgRating"
-                  stroke="#ff7300"
+                  name={t('analytics.series.avgRating')}
+                  stroke={CHART_COLORS.rating}
                   strokeWidth={2}
                 />
               </AreaChart>
@@ -316,9 +319,9 @@ export const Analytics = () => {
         {/* Sentiment Distribution */}
         <Card>
           <CardHeader>
-            <CardTitle>Sentiment Distribution</CardTitle>
+            <CardTitle>{t('analytics.sentiment.title')}</CardTitle>
             <CardDescription>
-              Breakdown of positive, neutral, and negative feedback
+              {t('analytics.sentiment.description')}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -331,14 +334,13 @@ export const Analytics = () => {
                   labelLine={false}
                   label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
                   outerRadius={80}
-                  fill="#8884d8"
                   dataKey="value"
                 >
                   {chartData.sentimentData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
+                    <Cell key={`cell-${index}`} fill={SENTIMENT_COLORS[entry.sentiment]} />
                   ))}
                 </Pie>
-                <Tooltip />
+                <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
               </PieChart>
             </ResponsiveContainer>
           </CardContent>
@@ -347,19 +349,19 @@ export const Analytics = () => {
         {/* Rating Distribution */}
         <Card>
           <CardHeader>
-            <CardTitle>Rating Distribution</CardTitle>
+            <CardTitle>{t('analytics.ratings.title')}</CardTitle>
             <CardDescription>
-              How ratings are distributed across all feedback
+              {t('analytics.ratings.description', { range: rangeLabel })}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <BarChart data={chartData.ratingDistribution}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="rating" />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="count" fill="#8884d8" />
+                <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+                <XAxis stroke={CHART_COLORS.axis} dataKey="rating" />
+                <YAxis stroke={CHART_COLORS.axis} />
+                <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+                <Bar dataKey="count" name={t('analytics.series.feedback')} fill={CHART_COLORS.volume} />
               </BarChart>
             </ResponsiveContainer>
           </CardContent>
@@ -368,19 +370,19 @@ export const Analytics = () => {
         {/* Hourly Pattern */}
         <Card>
           <CardHeader>
-            <CardTitle>Feedback by Hour</CardTitle>
+            <CardTitle>{t('analytics.hourly.title')}</CardTitle>
             <CardDescription>
-              When do you receive the most feedback?
+              {t('analytics.hourly.description', { timezone })}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <LineChart data={chartData.hourlyData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="hour" />
-                <YAxis />
-                <Tooltip />
-                <Line type="monotone" dataKey="count" stroke="#8884d8" strokeWidth={2} />
+                <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+                <XAxis stroke={CHART_COLORS.axis} dataKey="hour" />
+                <YAxis stroke={CHART_COLORS.axis} />
+                <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+                <Line type="monotone" dataKey="count" name={t('analytics.series.feedback')} stroke={CHART_COLORS.volume} strokeWidth={2} />
               </LineChart>
             </ResponsiveContainer>
           </CardContent>
@@ -390,31 +392,60 @@ export const Analytics = () => {
       {/* Time Series Chart */}
       <Card>
         <CardHeader>
-          <CardTitle>Feedback Timeline</CardTitle>
+          <CardTitle>{t('analytics.timeline.title')}</CardTitle>
           <CardDescription>
-            Daily feedback volume and average rating over time
+            {t('analytics.timeline.description', { range: rangeLabel })}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={400}>
-            <LineChart data={chartData.timeSeriesData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="date" />
-              <YAxis yAxisId="left" />
-              <YAxis yAxisId="right" orientation="right" />
-              <Tooltip />
-              <Bar yAxisId="left" dataKey="count" fill="#8884d8" fillOpacity={0.3} />
+            <ComposedChart data={chartData.timeSeriesData}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis stroke={CHART_COLORS.axis} dataKey="day" tickFormatter={format.dayLabel} />
+              <YAxis stroke={CHART_COLORS.axis} yAxisId="left" />
+              <YAxis stroke={CHART_COLORS.axis} yAxisId="right" orientation="right" />
+              <Tooltip contentStyle={CHART_TOOLTIP_STYLE} labelFormatter={format.dayLabel} />
+              <Bar yAxisId="left" dataKey="count" name={t('analytics.series.feedback')} fill={CHART_COLORS.volume} fillOpacity={0.3} />
               <Line
                 yAxisId="right"
                 type="monotone"
                 dataKey="avgRating"
-                stroke="#ff7300"
+                name={t('analytics.series.avgRating')}
+                stroke={CHART_COLORS.rating}
                 strokeWidth={2}
               />
-            </LineChart>
+              {chartData.anomalies.map(anomaly => (
+                <ReferenceDot
+                  key={`${anomaly.metric}-${anomaly.day}`}
+                  yAxisId={anomaly.metric === 'volume' ? 'left' : 'right'}
+                  x={anomaly.day}
+                  y={anomaly.value}
+                  r={6}
+                  fill={CHART_COLORS.anomaly}
+                  stroke={CHART_COLORS.background}
+                  label={{ value: anomaly.metric === 'volume' ? '▲' : '▼', position: 'top', fill: CHART_COLORS.anomaly }}
+                />
+              ))}
+            </ComposedChart>
           </ResponsiveContainer>
+          {chartData.anomalies.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {chartData.anomalies.map(anomaly => (
+                <div key={`${anomaly.metric}-${anomaly.day}`} className="flex items-center gap-2 text-sm">
+                  <Activity className="h-4 w-4 text-red-500" />
+                  <Badge variant="destructive">{t(`analytics.anomaly.${anomaly.metric}`)}</Badge>
+                  <span className="font-medium">{format.dayLabel(anomaly.day)}</span>
+                  <span className="text-muted-foreground">
+                    {describeAnomaly(anomaly)} (z = {format.number(anomaly.zScore, ONE_DECIMAL)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+      </>
+      )}
     </motion.div>
   )
 }
@@ -0,0 +1,307 @@
+import React from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useAnalyticsReport } from '@/hooks/use-report'
+import { toDayKey } from '@/lib/date-range'
+import { downloadFile } from '@/lib/export'
+import type { Formatter } from '@/lib/format'
+import {
+  formatReportRange,
+  REPORT_PERIOD_META,
+  REPORT_PERIODS,
+  resolveReportPeriod,
+  type ReportKpi,
+  type ReportPeriod,
+  type ReportQuote,
+  type ReportRange,
+} from '@/lib/report'
+import { renderReportPdf } from '@/lib/report-pdf'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Bar, BarChart, CartesianGrid, Cell, ComposedChart, Line, Pie, PieChart, ResponsiveContainer, XAxis, YAxis,
+} from 'recharts'
+import { ArrowLeft, FileDown, Printer } from 'lucide-react'
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+const TONE_CLASSES: Record<ReportKpi['tone'], string> = {
+  good: 'text-green-600',
+  bad: 'text-red-600',
+  neutral: 'text-muted-foreground',
+}
+
+// The period and any custom days live in the URL, so a report can be shared as a link
+const useReportRange = (today: string) => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const requested = searchParams.get('period') as ReportPeriod
+  const from = searchParams.get('from') ?? ''
+  const to = searchParams.get('to') ?? ''
+  const customValid = DAY_KEY.test(from) && DAY_KEY.test(to) && from <= to
+  const period: ReportPeriod = REPORT_PERIODS.includes(requested) && (requested !== 'custom' || customValid)
+    ? requested
+    : 'last-month'
+
+  const range: ReportRange = period === 'custom' ? { from, to } : resolveReportPeriod(period, today)
+
+  const setPeriod = (next: ReportPeriod) => {
+    // Custom ranges start from the days currently shown
+    setSearchParams(next === 'custom' ? { period: next, ...range } : { period: next })
+  }
+
+  const setCustomDay = (key: 'from' | 'to', value: string) => {
+    if (!DAY_KEY.test(value)) return
+    setSearchParams({ period: 'custom', ...range, [key]: value })
+  }
+
+  return { period, range, setPeriod, setCustomDay }
+}
+
+const Quotes = ({ title, quotes, accent, format }: { title: string; quotes: ReportQuote[]; accent: string; format: Formatter }) => (
+  <Card className="break-inside-avoid">
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {quotes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing to quote in this period.</p>
+      ) : (
+        quotes.map((quote) => (
+          <blockquote key={quote.id} className={`border-l-2 pl-4 ${accent}`}>
+            <p className="text-sm">“{quote.text}”</p>
+            <footer className="mt-1 text-xs text-muted-foreground">
+              {quote.sender}, {format.date(quote.receivedAt)}
+              {quote.rating !== null && `, rated ${Number(quote.rating).toFixed(1)}`}
+            </footer>
+          </blockquote>
+        ))
+      )}
+    </CardContent>
+  </Card>
+)
+
+/**
+ * Print-optimized report for stakeholders. Printing uses the browser's own
+ * dialog; the PDF is drawn from the same data without leaving the page.
+ */
+export const AnalyticsReport = () => {
+  const { timezone } = useDateRange()
+  const { format } = usePreferences()
+  const { period, range, setPeriod, setCustomDay } = useReportRange(toDayKey(new Date(), timezone))
+  const { data: report, isLoading, isFetching } = useAnalyticsReport(range, timezone)
+
+  const handleDownloadPdf = () => {
+    if (!report) return
+    downloadFile(renderReportPdf(report, format), `feedback-report-${report.range.from}-to-${report.range.to}.pdf`, 'application/pdf')
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30 print:bg-white">
+      {/* Toolbar */}
+      <div className="border-b bg-background print:hidden">
+        <div className="max-w-5xl mx-auto px-6 py-3 flex flex-wrap items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/dashboard/analytics">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Analytics
+            </a>
+          </Button>
+          <div className="flex-1" />
+          <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_PERIODS.map((option) => (
+                <SelectItem key={option} value={option}>{REPORT_PERIOD_META[option].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {period === 'custom' && (
+            <>
+              <Input
+                type="date"
+                className="w-40"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setCustomDay('from', e.target.value)}
+                aria-label="First day"
+              />
+              <Input
+                type="date"
+                className="w-40"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setCustomDay('to', e.target.value)}
+                aria-label="Last day"
+              />
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={() => window.print()} disabled={!report || isFetching}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button size="sm" onClick={handleDownloadPdf} disabled={!report || isFetching}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="max-w-5xl mx-auto px-6 py-8 space-y-6 print:max-w-none print:p-0">
+        {isLoading || !report ? (
+          <div className="space-y-4">
+            <div className="h-10 w-64 bg-gray-200 rounded animate-pulse"></div>
+            <div className="grid gap-4 grid-cols-4">
+              {[...Array(8)].map((_, i) => (
+                <div key={i} className="h-24 bg-gray-200 rounded animate-pulse"></div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Feedback Report</h1>
+              <p className="text-lg text-muted-foreground">{formatReportRange(report.range, format.day)}</p>
+              <p className="text-xs text-muted-foreground">
+                Compared with {formatReportRange(report.previousRange, format.day)}. Generated{' '}
+                {format.date(report.generatedAt)}, days in {timezone} time.
+              </p>
+            </div>
+
+            {/* KPIs */}
+            <div className="grid gap-4 grid-cols-4 break-inside-avoid">
+              {report.kpis.map((kpi) => (
+                <Card key={kpi.label}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">{kpi.label}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{kpi.value}</div>
+                    <p className={`text-xs ${TONE_CLASSES[kpi.tone]}`}>
+                      {kpi.change ? `${kpi.change} vs previous period` : 'No earlier data'}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Volume */}
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Feedback Volume</CardTitle>
+                <CardDescription>Feedback received per day and average rating out of 5</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={260}>
+                  <ComposedChart data={report.daily}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="day" tickFormatter={format.dayLabel} />
+                    <YAxis yAxisId="left" allowDecimals={false} />
+                    <YAxis yAxisId="right" orientation="right" domain={[1, 5]} />
+                    <Bar yAxisId="left" dataKey="count" name="Feedback" fill="#8884d8" isAnimationActive={false} />
+                    <Line
+                      yAxisId="right"
+                      type="monotone"
+                      dataKey="avgRating"
+                      name="Average rating"
+                      stroke="#ff7300"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-4 grid-cols-2 break-inside-avoid">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sentiment</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <PieChart>
+                      <Pie
+                        data={report.sentiment}
+                        dataKey="value"
+                        outerRadius={70}
+                        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                        labelLine={false}
+                        isAnimationActive={false}
+                      >
+                        {report.sentiment.map((entry) => (
+                          <Cell key={entry.name} fill={entry.color} />
+                        ))}
+                      </Pie>
+                    </PieChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Ratings</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <BarChart data={report.ratings}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="rating" />
+                      <YAxis allowDecimals={false} />
+                      <Bar dataKey="count" fill="#8884d8" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Top issues */}
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Top Issues</CardTitle>
+                <CardDescription>Issues with the most feedback received in the period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.topIssues.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No feedback in this period is linked to an issue.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Issue</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Feedback</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.topIssues.map((issue) => (
+                        <TableRow key={issue.id}>
+                          <TableCell className="font-medium">{issue.title}</TableCell>
+                          <TableCell>{issue.status}</TableCell>
+                          <TableCell className="text-right">{issue.feedbackCount}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Quotes */}
+            <div className="grid gap-4 grid-cols-2">
+              <Quotes title="What Customers Liked" quotes={report.praise} accent="border-green-500" format={format} />
+              <Quotes title="What Needs Attention" quotes={report.concerns} accent="border-red-500" format={format} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
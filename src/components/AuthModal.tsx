@@ -18,24 +18,30 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Loader2, Check, X, Mail, Lock, User } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import type { MessageKey } from '@/lib/i18n'
 
+// Messages are message keys, translated where they are shown
 const loginSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  email: z.string().email('validation.invalidEmail' satisfies MessageKey),
+  password: z.string().min(6, 'validation.passwordTooShort' satisfies MessageKey),
 })
 
 const registerSchema = z.object({
-  username: z.string().min(3, 'Username must be at least 3 characters').max(20, 'Username must be less than 20 characters'),
-  email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  username: z
+    .string()
+    .min(3, 'validation.usernameTooShort' satisfies MessageKey)
+    .max(20, 'validation.usernameTooLong' satisfies MessageKey),
+  email: z.string().email('validation.invalidEmail' satisfies MessageKey),
+  password: z.string().min(6, 'validation.passwordTooShort' satisfies MessageKey),
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
+  message: 'validation.passwordsDontMatch' satisfies MessageKey,
   path: ["confirmPassword"],
 })
 
 const resetSchema = z.object({
-  email: z.string().email('Invalid email address'),
+  email: z.string().email('validation.invalidEmail' satisfies MessageKey),
 })
 
 type LoginFormData = z.infer<typeof loginSchema>
@@ -47,6 +53,10 @@ interface AuthModalProps {
   onClose: () => void
   mode: 'login' | 'register'
   onModeChange: (mode: 'login' | 'register') => void
+  /** Fills in the email fields, like the address an invitation went to */
+  defaultEmail?: string
+  /** Where the sign-up confirmation link leads */
+  redirectTo?: string
 }
 
 export const AuthModal: React.FC<AuthModalProps> = ({
@@ -54,6 +64,8 @@ export const AuthModal: React.FC<AuthModalProps> = ({
   onClose,
   mode,
   onModeChange,
+  defaultEmail,
+  redirectTo,
 }) => {
   const [currentView, setCurrentView] = useState<'auth' | 'reset'>('auth')
   const [loading, setLoading] = useState(false)
@@ -61,13 +73,16 @@ export const AuthModal: React.FC<AuthModalProps> = ({
   const [checkTimeout, setCheckTimeout] = useState<NodeJS.Timeout | null>(null)
   
   const { signUp, signIn, resetPassword, checkUsernameAvailability } = useAuth()
+  const { t } = usePreferences()
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
+    defaultValues: { email: defaultEmail },
   })
 
   const registerForm = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
+    defaultValues: { email: defaultEmail },
   })
 
   const resetForm = useForm<ResetFormData>({
@@ -123,7 +138,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
 
     setLoading(true)
     try {
-      await signUp(data.email, data.password, data.username)
+      await signUp(data.email, data.password, data.username, redirectTo)
       onClose()
     } catch (error) {
       // Error handled in context
@@ -160,9 +175,9 @@ export const AuthModal: React.FC<AuthModalProps> = ({
   const getUsernameBadge = () => {
     switch (usernameStatus) {
       case 'available':
-        return <Badge variant="outline" className="text-green-600 border-green-600">Available</Badge>
+        return <Badge variant="outline" className="text-green-600 border-green-600">{t('auth.usernameAvailable')}</Badge>
       case 'taken':
-        return <Badge variant="destructive">Taken</Badge>
+        return <Badge variant="destructive">{t('auth.usernameTaken')}</Badge>
       default:
         return null
     }
@@ -196,7 +211,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             >
               <DialogHeader>
                 <DialogTitle className="text-center">
-                  {mode === 'login' ? 'Welcome Back' : 'Create Your Account'}
+                  {mode === 'login' ? t('auth.welcomeBack') : t('auth.createYourAccount')}
                 </DialogTitle>
               </DialogHeader>
 
@@ -204,39 +219,39 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                 {mode === 'login' ? (
                   <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="email">Email</Label>
+                      <Label htmlFor="email">{t('auth.email')}</Label>
                       <div className="relative">
                         <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input
                           id="email"
                           type="email"
-                          placeholder="Enter your email"
+                          placeholder={t('auth.emailPlaceholder')}
                           className="pl-10"
                           {...loginForm.register('email')}
                         />
                       </div>
                       {loginForm.formState.errors.email && (
                         <p className="text-sm text-destructive">
-                          {loginForm.formState.errors.email.message}
+                          {t(loginForm.formState.errors.email.message as MessageKey)}
                         </p>
                       )}
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="password">Password</Label>
+                      <Label htmlFor="password">{t('auth.password')}</Label>
                       <div className="relative">
                         <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input
                           id="password"
                           type="password"
-                          placeholder="Enter your password"
+                          placeholder={t('auth.passwordPlaceholder')}
                           className="pl-10"
                           {...loginForm.register('password')}
                         />
                       </div>
                       {loginForm.formState.errors.password && (
                         <p className="text-sm text-destructive">
-                          {loginForm.formState.errors.password.message}
+                          {t(loginForm.formState.errors.password.message as MessageKey)}
                         </p>
                       )}
                     </div>
@@ -247,7 +262,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                       disabled={loading}
                     >
                       {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                      Sign In
+                      {t('auth.signIn')}
                     </Button>
 
                     <Button
@@ -256,13 +271,13 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                       className="w-full"
                       onClick={() => setCurrentView('reset')}
                     >
-                      Forgot your password?
+                      {t('auth.forgotPassword')}
                     </Button>
                   </form>
                 ) : (
                   <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="username">Username</Label>
+                      <Label htmlFor="username">{t('auth.username')}</Label>
                       <div className="relative">
                         <div className="absolute left-3 top-3">
                           {getUsernameIcon()}
@@ -270,7 +285,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                         <Input
                           id="username"
                           type="text"
-                          placeholder="Choose a username"
+                          placeholder={t('auth.usernamePlaceholder')}
                           className="pl-10"
                           {...registerForm.register('username')}
                         />
@@ -282,64 +297,64 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                       </div>
                       {registerForm.formState.errors.username && (
                         <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.username.message}
+                          {t(registerForm.formState.errors.username.message as MessageKey)}
                         </p>
                       )}
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="email">Email</Label>
+                      <Label htmlFor="email">{t('auth.email')}</Label>
                       <div className="relative">
                         <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input
                           id="email"
                           type="email"
-                          placeholder="Enter your email"
+                          placeholder={t('auth.emailPlaceholder')}
                           className="pl-10"
                           {...registerForm.register('email')}
                         />
                       </div>
                       {registerForm.formState.errors.email && (
                         <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.email.message}
+                          {t(registerForm.formState.errors.email.message as MessageKey)}
                         </p>
                       )}
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="password">Password</Label>
+                      <Label htmlFor="password">{t('auth.password')}</Label>
                       <div className="relative">
                         <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input
                           id="password"
                           type="password"
-                          placeholder="Create a password"
+                          placeholder={t('auth.newPasswordPlaceholder')}
                           className="pl-10"
                           {...registerForm.register('password')}
                         />
                       </div>
                       {registerForm.formState.errors.password && (
                         <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.password.message}
+                          {t(registerForm.formState.errors.password.message as MessageKey)}
                         </p>
                       )}
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="confirmPassword">Confirm Password</Label>
+                      <Label htmlFor="confirmPassword">{t('auth.confirmPassword')}</Label>
                       <div className="relative">
                         <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input
                           id="confirmPassword"
                           type="password"
-                          placeholder="Confirm your password"
+                          placeholder={t('auth.confirmPasswordPlaceholder')}
                           className="pl-10"
                           {...registerForm.register('confirmPassword')}
                         />
                       </div>
                       {registerForm.formState.errors.confirmPassword && (
                         <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.confirmPassword.message}
+                          {t(registerForm.formState.errors.confirmPassword.message as MessageKey)}
                         </p>
                       )}
                     </div>
@@ -350,7 +365,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                       disabled={loading || usernameStatus !== 'available'}
                     >
                       {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                      Create Account
+                      {t('auth.createAccount')}
                     </Button>
                   </form>
                 )}
@@ -363,8 +378,8 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                   onClick={() => onModeChange(mode === 'login' ? 'register' : 'login')}
                 >
                   {mode === 'login' 
-                    ? "Don't have an account? Sign up" 
-                    : "Already have an account? Sign in"
+                    ? t('auth.toSignUp')
+                    : t('auth.toSignIn')
                   }
                 </Button>
               </div>
@@ -378,33 +393,33 @@ export const AuthModal: React.FC<AuthModalProps> = ({
               transition={{ duration: 0.2 }}
             >
               <DialogHeader>
-                <DialogTitle className="text-center">Reset Password</DialogTitle>
+                <DialogTitle className="text-center">{t('auth.resetPassword')}</DialogTitle>
               </DialogHeader>
 
               <div className="space-y-6 mt-6">
                 <Alert>
                   <Mail className="h-4 w-4" />
                   <AlertDescription>
-                    Enter your email address and we'll send you a link to reset your password.
+                    {t('auth.resetInstructions')}
                   </AlertDescription>
                 </Alert>
 
                 <form onSubmit={resetForm.handleSubmit(onResetSubmit)} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="resetEmail">Email</Label>
+                    <Label htmlFor="resetEmail">{t('auth.email')}</Label>
                     <div className="relative">
                       <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                       <Input
                         id="resetEmail"
                         type="email"
-                        placeholder="Enter your email"
+                        placeholder={t('auth.emailPlaceholder')}
                         className="pl-10"
                         {...resetForm.register('email')}
                       />
                     </div>
                     {resetForm.formState.errors.email && (
                       <p className="text-sm text-destructive">
-                        {resetForm.formState.errors.email.message}
+                        {t(resetForm.formState.errors.email.message as MessageKey)}
                       </p>
                     )}
                   </div>
@@ -415,7 +430,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                     disabled={loading}
                   >
                     {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Send Reset Link
+                    {t('auth.sendResetLink')}
                   </Button>
 
                   <Button
@@ -424,7 +439,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                     className="w-full"
                     onClick={() => setCurrentView('auth')}
                   >
-                    Back to Sign In
+                    {t('auth.backToSignIn')}
                   </Button>
                 </form>
               </div>
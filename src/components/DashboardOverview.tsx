@@ -1,65 +1,30 @@
 
 import React from 'react'
-import { useQuery } from '@tanstack/react-query'
 import { motion } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useFeedbackSummary, useRecentFeedbacks, useSentimentCounts } from '@/hooks/use-analytics'
+import { useIssues } from '@/hooks/use-issues'
+import { CHART_COLORS, CHART_TOOLTIP_STYLE, SENTIMENT_COLORS } from '@/lib/chart-colors'
+import { toSentimentData } from '@/lib/metrics'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts'
 import { Mail, TrendingUp, AlertCircle, Star } from 'lucide-react'
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042']
-
 export const DashboardOverview = () => {
-  // Fetch feedbacks data
-  const { data: feedbacks = [], isLoading: feedbacksLoading } = useQuery({
-    queryKey: ['feedbacks'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('feedbacks')
-        .select('*')
-        .order('received_at', { ascending: false })
-      
-      if (error) throw error
-      return data || []
-    }
-  })
-
-  // Fetch current issues data
-  const { data: issues = [], isLoading: issuesLoading } = useQuery({
-    queryKey: ['current_issues'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('current_issues')
-        .select('*')
-        .order('created_at', { ascending: false })
-      
-      if (error) throw error
-      return data || []
-    }
-  })
+  const { format } = usePreferences()
+  // All-time aggregates; recent feedback is the only list of rows fetched
+  const { data: summary, isLoading: summaryLoading } = useFeedbackSummary({})
+  const { data: sentimentCounts = [] } = useSentimentCounts({})
+  const { data: feedbacks = [] } = useRecentFeedbacks({}, 5)
+  const { data: issues = [], isLoading: issuesLoading } = useIssues()
 
   // Calculate metrics
-  const totalFeedback = feedbacks.length
-  const averageRating = feedbacks.length > 0 
-    ? feedbacks.reduce((sum, feedback) => sum + (Number(feedback.average_rating) || 0), 0) / feedbacks.length
-    : 0
+  const totalFeedback = summary?.feedback_count ?? 0
+  const averageRating = summary?.avg_rating ?? 0
 
   // Prepare sentiment data
-  const sentimentData = React.useMemo(() => {
-    const positive = feedbacks.filter(f => (Number(f.average_rating) || 0) >= 4).length
-    const neutral = feedbacks.filter(f => {
-      const rating = Number(f.average_rating) || 0
-      return rating >= 2.5 && rating < 4
-    }).length
-    const negative = feedbacks.filter(f => (Number(f.average_rating) || 0) < 2.5).length
-
-    return [
-      { name: 'Positive', value: positive, color: '#00C49F' },
-      { name: 'Neutral', value: neutral, color: '#FFBB28' },
-      { name: 'Negative', value: negative, color: '#FF8042' }
-    ]
-  }, [feedbacks])
+  const sentimentData = React.useMemo(() => toSentimentData(sentimentCounts), [sentimentCounts])
 
   // Prepare issues data for chart
   const issuesData = React.useMemo(() => {
@@ -74,7 +39,7 @@ export const DashboardOverview = () => {
     }))
   }, [issues])
 
-  const isLoading = feedbacksLoading || issuesLoading
+  const isLoading = summaryLoading || issuesLoading
 
   if (isLoading) {
     return (
@@ -187,14 +152,13 @@ export const DashboardOverview = () => {
                   labelLine={false}
                   label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
                   outerRadius={80}
-                  fill="#8884d8"
                   dataKey="value"
                 >
                   {sentimentData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
+                    <Cell key={`cell-${index}`} fill={SENTIMENT_COLORS[entry.sentiment]} />
                   ))}
                 </Pie>
-                <Tooltip />
+                <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
               </PieChart>
             </ResponsiveContainer>
           </CardContent>
@@ -211,17 +175,18 @@ export const DashboardOverview = () => {
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <BarChart data={issuesData.slice(0, 5)}>
-                <CartesianGrid strokeDasharray="3 3" />
+                <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
                 <XAxis 
                   dataKey="title" 
+                  stroke={CHART_COLORS.axis}
                   tick={{ fontSize: 12 }}
                   angle={-45}
                   textAnchor="end"
                   height={80}
                 />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="count" fill="#8884d8" />
+                <YAxis stroke={CHART_COLORS.axis} />
+                <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+                <Bar dataKey="count" fill={CHART_COLORS.issues} />
               </BarChart>
             </ResponsiveContainer>
           </CardContent>
@@ -238,7 +203,7 @@ export const DashboardOverview = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {feedbacks.slice(0, 5).map((feedback) => (
+            {feedbacks.map((feedback) => (
               <div key={feedback.id} className="flex items-center justify-between p-4 border rounded-lg">
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-1">
@@ -251,7 +216,7 @@ export const DashboardOverview = () => {
                   )}
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  {new Date(feedback.received_at).toLocaleDateString()}
+                  {format.date(feedback.received_at)}
                 </div>
               </div>
             ))}
@@ -0,0 +1,571 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { CHART_COLORS, CHART_TOOLTIP_STYLE, SENTIMENT_COLORS } from '@/lib/chart-colors'
+import type { Formatter } from '@/lib/format'
+import { COMPARISON_WINDOW_META, type ComparisonWindow, type FeedbackTrends, type toDailySeries, type toSentimentData } from '@/lib/metrics'
+import { HEADLINE_METRIC_META, HEADLINE_METRICS, type HeadlineMetric } from '@/lib/survey-metrics'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import {
+  KPI_METRICS,
+  WIDGET_CATALOG,
+  WIDGET_CHART_HEIGHT,
+  WIDGET_LIST_LENGTH,
+  type DashboardWidget,
+  type KpiMetric,
+  type WidgetHeight,
+  type WidgetWidth,
+} from '@/lib/dashboard-widgets'
+import type { Feedback, Issue } from '@/lib/repository'
+import { TrendIndicator } from '@/components/PeriodComparison'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  PieChart, Pie, Cell, AreaChart, Area
+} from 'recharts'
+import {
+  Mail, TrendingUp, AlertCircle, Star, Target, Clock, Zap, Shield, ChevronRight, ChevronLeft,
+  MessageSquare, TrendingDown, GripVertical, X, Minus, Plus, MoveVertical
+} from 'lucide-react'
+
+/** Everything the overview widgets show, fetched once by the overview */
+export interface OverviewData {
+  comparisonWindow: ComparisonWindow
+  /** Writes dates the way the user chose in Settings */
+  format: Formatter
+  /** Lower-cased label of the shared date range */
+  rangeLabel: string
+  trends: FeedbackTrends | null
+  headlineMetric: HeadlineMetric
+  setHeadlineMetric: (metric: HeadlineMetric) => void
+  headline: { value: number | null; change: number | null } | null
+  issues: Issue[]
+  openIssues: Issue[]
+  netIssueChange: number
+  /** Linked feedback per issue id */
+  issueFeedbackCounts: Record<string, number>
+  sentimentData: ReturnType<typeof toSentimentData>
+  dailyData: ReturnType<typeof toDailySeries>
+  recentFeedbacks: Feedback[]
+  thisWeekCount: number | undefined
+  thisMonthCount: number | undefined
+  teamSize: number
+}
+
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
+
+// Tailwind needs the full class names, so spans are listed rather than built
+const WIDTH_CLASSES: Record<WidgetWidth, string> = {
+  1: '',
+  2: 'md:col-span-2',
+  3: 'md:col-span-2 lg:col-span-3',
+  4: 'md:col-span-2 lg:col-span-4',
+}
+
+const KpiWidget = ({ metric, data }: { metric: KpiMetric; data: OverviewData }) => {
+  const { trends, comparisonWindow, headlineMetric, headline } = data
+  const { t } = usePreferences()
+
+  switch (metric) {
+    case 'feedback':
+      return (
+        <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-950 dark:to-blue-900">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+            <CardTitle className="text-sm font-medium">{t('analytics.feedbackReceived')}</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-blue-500/20 flex items-center justify-center">
+              <Mail className="h-4 w-4 text-blue-600" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-blue-700 dark:text-blue-300">
+              {trends?.current.feedbackCount || 0}
+            </div>
+            <TrendIndicator
+              change={trends?.feedbackTrend ?? null}
+              window={comparisonWindow}
+              format={(value) => `${value}%`}
+              className="text-sm text-blue-600 dark:text-blue-400"
+            />
+            <Progress value={75} className="mt-3 h-1" />
+          </CardContent>
+        </Card>
+      )
+
+    case 'headline':
+      return (
+        <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-emerald-50 to-emerald-100 dark:from-emerald-950 dark:to-emerald-900">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+            <CardTitle className="text-sm font-medium">{t(`headlineMetric.${headlineMetric}`)}</CardTitle>
+            <Select value={headlineMetric} onValueChange={(value) => data.setHeadlineMetric(value as HeadlineMetric)}>
+              <SelectTrigger className="h-8 w-20 border-0 bg-emerald-500/20 text-xs text-emerald-700 dark:text-emerald-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HEADLINE_METRICS.map((option) => (
+                  <SelectItem key={option} value={option}>{t(`headlineMetric.short.${option}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-emerald-700 dark:text-emerald-300">
+              {headline?.value == null ? '—' : HEADLINE_METRIC_META[headlineMetric].format(headline.value)}
+            </div>
+            <TrendIndicator
+              change={headline?.change ?? null}
+              window={comparisonWindow}
+              format={(value) => HEADLINE_METRIC_META[headlineMetric].formatChange(value, t)}
+              className="text-sm text-emerald-600 dark:text-emerald-400"
+            />
+            {headlineMetric === 'rating' && (
+              <div className="flex items-center gap-1 mt-2">
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <Star
+                    key={star}
+                    className={`h-3 w-3 ${
+                      star <= (headline?.value || 0)
+                        ? 'fill-emerald-500 text-emerald-500'
+                        : 'text-emerald-200'
+                    }`}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )
+
+    case 'open-issues':
+      return (
+        <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-orange-50 to-orange-100 dark:from-orange-950 dark:to-orange-900">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+            <CardTitle className="text-sm font-medium">{t('overview.activeIssues')}</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-orange-500/20 flex items-center justify-center">
+              <AlertCircle className="h-4 w-4 text-orange-600" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-orange-700 dark:text-orange-300">
+              {data.openIssues.length}
+            </div>
+            <div className="flex items-center text-sm text-orange-600 dark:text-orange-400">
+              {data.netIssueChange > 0 ? (
+                <TrendingUp className="h-3 w-3 mr-1" />
+              ) : (
+                <TrendingDown className="h-3 w-3 mr-1" />
+              )}
+              {t('dashboard.netIssueChange', {
+                change: `${data.netIssueChange > 0 ? '+' : ''}${data.netIssueChange}`,
+                count: COMPARISON_WINDOW_META[comparisonWindow].days,
+              })}
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              <Badge variant="destructive" className="text-xs">
+                {t('overview.highIssues', { count: data.issues.filter((_, i) => i < 3).length })}
+              </Badge>
+              <Badge variant="outline" className="text-xs">
+                {t('overview.lowIssues', { count: data.issues.filter((_, i) => i >= 3).length })}
+              </Badge>
+            </div>
+          </CardContent>
+        </Card>
+      )
+
+    case 'response-rate':
+      return (
+        <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-950 dark:to-purple-900">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+            <CardTitle className="text-sm font-medium">{t('analytics.responseRate')}</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-purple-500/20 flex items-center justify-center">
+              <Target className="h-4 w-4 text-purple-600" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-purple-700 dark:text-purple-300">
+              {trends?.current.responseRate || 0}%
+            </div>
+            <TrendIndicator
+              change={trends?.responseRateTrend ?? null}
+              window={comparisonWindow}
+              format={(value) => t('analytics.points', { count: value })}
+              className="text-sm text-purple-600 dark:text-purple-400"
+            />
+            <Progress value={trends?.current.responseRate || 0} className="mt-3 h-1" />
+          </CardContent>
+        </Card>
+      )
+
+    case 'response-time':
+      return (
+        <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-sky-50 to-sky-100 dark:from-sky-950 dark:to-sky-900">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+            <CardTitle className="text-sm font-medium">{t('analytics.avgResponseTime')}</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-sky-500/20 flex items-center justify-center">
+              <Clock className="h-4 w-4 text-sky-600" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-sky-700 dark:text-sky-300">
+              {trends?.current.avgResponseHours == null ? '—' : t('overview.hoursShort', { hours: data.format.number(trends.current.avgResponseHours, ONE_DECIMAL) })}
+            </div>
+            <TrendIndicator
+              change={trends?.responseTimeTrend ?? null}
+              window={comparisonWindow}
+              format={(value) => t('overview.hoursShort', { hours: data.format.number(value, ONE_DECIMAL) })}
+              lowerIsBetter
+              className="text-sm text-sky-600 dark:text-sky-400"
+            />
+          </CardContent>
+        </Card>
+      )
+  }
+}
+
+const TrendWidget = ({ height, data }: { height: WidgetHeight; data: OverviewData }) => {
+  const { t } = usePreferences()
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          {t('overview.trend.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('overview.trend.description', { range: data.rangeLabel })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={WIDGET_CHART_HEIGHT[height]}>
+          <AreaChart data={data.dailyData}>
+            <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+            <XAxis dataKey="day" tickFormatter={data.format.dayLabel} stroke={CHART_COLORS.axis} />
+            <YAxis stroke={CHART_COLORS.axis} />
+            <Tooltip
+              labelFormatter={data.format.dayLabel}
+              contentStyle={CHART_TOOLTIP_STYLE}
+            />
+            <Area
+              type="monotone"
+              dataKey="count"
+              name={t('analytics.series.feedback')}
+              stroke={CHART_COLORS.volume}
+              fill="url(#colorGradient)"
+              strokeWidth={2}
+            />
+            <defs>
+              <linearGradient id="colorGradient" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={CHART_COLORS.volume} stopOpacity={0.8} />
+                <stop offset="95%" stopColor={CHART_COLORS.volume} stopOpacity={0.1} />
+              </linearGradient>
+            </defs>
+          </AreaChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  )
+}
+
+const SentimentWidget = ({ height, data }: { height: WidgetHeight; data: OverviewData }) => {
+  const { t } = usePreferences()
+  const outerRadius = Math.min(100, WIDGET_CHART_HEIGHT[height] / 2 - 20)
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          {t('overview.sentiment.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('overview.sentiment.description', { range: data.rangeLabel })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={WIDGET_CHART_HEIGHT[height]}>
+          <PieChart>
+            <Pie
+              data={data.sentimentData}
+              cx="50%"
+              cy="50%"
+              innerRadius={outerRadius * 0.6}
+              outerRadius={outerRadius}
+              paddingAngle={5}
+              dataKey="value"
+            >
+              {data.sentimentData.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={SENTIMENT_COLORS[entry.sentiment]} />
+              ))}
+            </Pie>
+            <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+          </PieChart>
+        </ResponsiveContainer>
+        <div className="flex flex-wrap justify-center gap-4 mt-4">
+          {data.sentimentData.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: SENTIMENT_COLORS[entry.sentiment] }}
+              ></div>
+              <span className="text-sm">{entry.name}: {entry.value}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+const TopIssuesWidget = ({ height, data }: { height: WidgetHeight; data: OverviewData }) => {
+  const { t } = usePreferences()
+  const topIssues = data.openIssues
+    .map(issue => ({
+      name: issue.issue_title.length > 28 ? `${issue.issue_title.slice(0, 27)}…` : issue.issue_title,
+      feedback: data.issueFeedbackCounts[issue.id] ?? 0,
+    }))
+    .sort((a, b) => b.feedback - a.feedback)
+    .slice(0, WIDGET_LIST_LENGTH[height])
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertCircle className="h-5 w-5" />
+          {t('overview.topIssues.title')}
+        </CardTitle>
+        <CardDescription>{t('overview.topIssues.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {topIssues.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t('overview.topIssues.empty')}</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={WIDGET_CHART_HEIGHT[height]}>
+            <BarChart data={topIssues} layout="vertical" margin={{ left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis type="number" allowDecimals={false} stroke={CHART_COLORS.axis} />
+              <YAxis type="category" dataKey="name" width={160} stroke={CHART_COLORS.axis} tick={{ fontSize: 12 }} />
+              <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+              <Bar dataKey="feedback" name={t('overview.topIssues.linkedFeedback')} fill={CHART_COLORS.issues} radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const RecentFeedbackWidget = ({ height, data }: { height: WidgetHeight; data: OverviewData }) => {
+  const { t } = usePreferences()
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{t('overview.recent.title')}</CardTitle>
+          <CardDescription>{t('overview.recent.description')}</CardDescription>
+        </div>
+        <Button variant="outline" size="sm">
+          {t('overview.recent.viewAll')}
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {data.recentFeedbacks.slice(0, WIDGET_LIST_LENGTH[height]).map((feedback) => (
+            <motion.div
+              key={feedback.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+            >
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium">{feedback.sender_name || feedback.sender_email}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {Number(feedback.average_rating || 0).toFixed(1)} ⭐
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">{feedback.subject}</p>
+                {feedback.feedback_summary && (
+                  <p className="text-sm mt-1 line-clamp-2">{feedback.feedback_summary}</p>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {data.format.date(feedback.received_at)}
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+const QuickStatsWidget = ({ data }: { data: OverviewData }) => {
+  const { t } = usePreferences()
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle>{t('overview.quickStats.title')}</CardTitle>
+        <CardDescription>{t('overview.quickStats.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">{t('overview.quickStats.thisWeek')}</span>
+          <span className="font-medium">{t('overview.quickStats.feedback', { count: data.thisWeekCount || 0 })}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">{t('overview.quickStats.thisMonth')}</span>
+          <span className="font-medium">{t('overview.quickStats.feedback', { count: data.thisMonthCount || 0 })}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">{t('overview.quickStats.teamSize')}</span>
+          <span className="font-medium">{t('overview.quickStats.members', { count: data.teamSize })}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">{t('overview.quickStats.avgResponse')}</span>
+          <span className="font-medium">
+            {data.trends?.current.avgResponseHours == null
+              ? '—'
+              : t('overview.quickStats.hours', { count: Math.round(data.trends.current.avgResponseHours * 10) / 10 })}
+          </span>
+        </div>
+
+        <div className="pt-4 border-t space-y-2">
+          <Button className="w-full" size="sm">
+            <Zap className="h-4 w-4 mr-2" />
+            {t('overview.quickStats.generateReport')}
+          </Button>
+          <Button variant="outline" className="w-full" size="sm">
+            <Shield className="h-4 w-4 mr-2" />
+            {t('overview.quickStats.exportData')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+const WidgetBody = ({ widget, data }: { widget: DashboardWidget; data: OverviewData }) => {
+  switch (widget.type) {
+    case 'kpi': return <KpiWidget metric={widget.metric ?? 'feedback'} data={data} />
+    case 'trend': return <TrendWidget height={widget.height} data={data} />
+    case 'sentiment': return <SentimentWidget height={widget.height} data={data} />
+    case 'top-issues': return <TopIssuesWidget height={widget.height} data={data} />
+    case 'recent-feedback': return <RecentFeedbackWidget height={widget.height} data={data} />
+    case 'quick-stats': return <QuickStatsWidget data={data} />
+  }
+}
+
+interface DashboardWidgetCardProps {
+  widget: DashboardWidget
+  data: OverviewData
+  editing: boolean
+  isFirst: boolean
+  isLast: boolean
+  onChange: (changes: Partial<Omit<DashboardWidget, 'id' | 'type'>>) => void
+  onMove: (offset: number) => void
+  onRemove: () => void
+  /** Drag and drop reordering, wired up by the grid */
+  dragProps: Pick<React.HTMLAttributes<HTMLDivElement>, 'onDragStart' | 'onDragOver' | 'onDrop' | 'onDragEnd'>
+  isDropTarget: boolean
+}
+
+/** A widget on the overview grid, with move, resize and remove controls while editing */
+export const DashboardWidgetCard = ({
+  widget,
+  data,
+  editing,
+  isFirst,
+  isLast,
+  onChange,
+  onMove,
+  onRemove,
+  dragProps,
+  isDropTarget,
+}: DashboardWidgetCardProps) => {
+  const { t } = usePreferences()
+  const catalog = WIDGET_CATALOG[widget.type]
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={WIDTH_CLASSES[widget.width]}
+    >
+      <div
+        className={editing ? `h-full rounded-lg border-2 border-dashed p-2 ${isDropTarget ? 'border-primary bg-primary/5' : 'border-muted'}` : 'h-full'}
+        draggable={editing}
+        {...(editing ? dragProps : {})}
+      >
+        {editing && (
+          <div className="flex flex-wrap items-center gap-1 mb-2 text-muted-foreground">
+            <GripVertical className="h-4 w-4 cursor-grab" />
+            <span className="text-xs font-medium mr-auto">{t(`overview.widget.${widget.type}`)}</span>
+            {widget.type === 'kpi' && (
+              <Select value={widget.metric} onValueChange={(value) => onChange({ metric: value as KpiMetric })}>
+                <SelectTrigger className="h-7 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KPI_METRICS.map((metric) => (
+                    <SelectItem key={metric} value={metric}>{t(`overview.kpi.${metric}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={isFirst} onClick={() => onMove(-1)} title={t('overview.edit.moveEarlier')}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={isLast} onClick={() => onMove(1)} title={t('overview.edit.moveLater')}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={widget.width === 1}
+              onClick={() => onChange({ width: (widget.width - 1) as WidgetWidth })}
+              title={t('overview.edit.narrower')}
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <span className="text-xs w-6 text-center">{widget.width}/4</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={widget.width === 4}
+              onClick={() => onChange({ width: (widget.width + 1) as WidgetWidth })}
+              title={t('overview.edit.wider')}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            {catalog.resizableHeight && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onChange({ height: ((widget.height % 3) + 1) as WidgetHeight })}
+                title={t('overview.edit.height', { height: widget.height })}
+              >
+                <MoveVertical className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRemove} title={t('overview.edit.remove')}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <div className={editing ? 'pointer-events-none select-none' : 'h-full'}>
+          <WidgetBody widget={widget} data={data} />
+        </div>
+      </div>
+    </motion.div>
+  )
+}
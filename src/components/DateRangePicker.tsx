@@ -0,0 +1,83 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import type { DateRange as CalendarRange } from 'react-day-picker'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { DATE_RANGE_PRESETS, formatDateRange, TIMEZONES } from '@/lib/date-range'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+import { CalendarDays, Globe } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+// The calendar works with local midnights; day keys are plain calendar days
+const fromDayKey = (dayKey: string | undefined) => {
+  if (!dayKey) return undefined
+  const [year, month, day] = dayKey.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const toDayKey = (date: Date | undefined) => (date ? format(date, 'yyyy-MM-dd') : undefined)
+
+/** Picks the date range shared by the overview, analytics, the feedback table and search */
+export const DateRangePicker = ({ className }: { className?: string }) => {
+  const { range, setRange, timezone } = useDateRange()
+  const { format, t } = usePreferences()
+  const [open, setOpen] = useState(false)
+  const timezoneLabel = TIMEZONES.find(tz => tz.value === timezone)?.label ?? timezone
+
+  const handleCalendarSelect = (selected: CalendarRange | undefined) => {
+    if (!selected?.from) {
+      setRange({ preset: 'all' })
+      return
+    }
+    setRange({ preset: 'custom', from: toDayKey(selected.from), to: toDayKey(selected.to ?? selected.from) })
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn('justify-start gap-2', className)}>
+          <CalendarDays className="h-4 w-4" />
+          {formatDateRange(range, format.dayLabel, t)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex flex-col gap-1 p-3 sm:w-40">
+            {DATE_RANGE_PRESETS.map((preset) => (
+              <Button
+                key={preset}
+                variant={range.preset === preset ? 'secondary' : 'ghost'}
+                size="sm"
+                className="justify-start"
+                onClick={() => {
+                  setRange({ preset })
+                  setOpen(false)
+                }}
+              >
+                {t(`dateRange.${preset}`)}
+              </Button>
+            ))}
+          </div>
+          <Separator orientation="vertical" className="hidden sm:block h-auto" />
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            selected={range.preset === 'custom' ? { from: fromDayKey(range.from), to: fromDayKey(range.to) } : undefined}
+            defaultMonth={fromDayKey(range.from)}
+            onSelect={handleCalendarSelect}
+            locale={format.locale}
+            disabled={{ after: new Date() }}
+          />
+        </div>
+        <Separator />
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+          <Globe className="h-3 w-3" />
+          {t('dateRange.timezoneNote', { timezone: timezoneLabel })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,137 @@
+import React, { useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useDigestDeliveries, useDigestPreview } from '@/hooks/use-digests'
+import { formatReportRange } from '@/lib/report'
+import type { DigestDelivery } from '@/lib/repository'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Eye, Mail } from 'lucide-react'
+
+const STATUS_COLORS: Record<DigestDelivery['status'], string> = {
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+const EmailDialog = ({
+  open,
+  onOpenChange,
+  subject,
+  description,
+  html,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  subject: string
+  description: string
+  html: string | undefined
+}) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-3xl">
+      <DialogHeader>
+        <DialogTitle>{subject}</DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+      {html === undefined ? (
+        <div className="h-[60vh] bg-gray-200 rounded animate-pulse"></div>
+      ) : (
+        // An empty sandbox keeps the email's markup from running anything
+        <iframe title={subject} srcDoc={html} sandbox="" className="w-full h-[60vh] rounded border" />
+      )}
+    </DialogContent>
+  </Dialog>
+)
+
+/** Weekly digests already sent to the signed-in user, and a preview of the next one */
+export const DigestHistory = () => {
+  const { format, t } = usePreferences()
+  const { data: deliveries = [], isLoading } = useDigestDeliveries()
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+  const [openDelivery, setOpenDelivery] = useState<DigestDelivery | null>(null)
+  const preview = useDigestPreview(format, isPreviewOpen)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              {t('settings.digest.title')}
+            </CardTitle>
+            <CardDescription>{t('settings.digest.description')}</CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setIsPreviewOpen(true)}>
+            <Eye className="h-4 w-4 mr-2" />
+            {t('settings.digest.preview')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('settings.digest.empty')}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.digest.column.week')}</TableHead>
+                <TableHead>{t('settings.digest.column.sent')}</TableHead>
+                <TableHead>{t('settings.digest.column.to')}</TableHead>
+                <TableHead>{t('settings.digest.column.status')}</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-medium">
+                    {formatReportRange({ from: delivery.period_start, to: delivery.period_end }, format.day)}
+                  </TableCell>
+                  <TableCell>{format.dateTime(delivery.sent_at)}</TableCell>
+                  <TableCell>{delivery.recipient}</TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_COLORS[delivery.status]} title={delivery.error ?? undefined}>
+                      {t(`settings.digest.status.${delivery.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setOpenDelivery(delivery)}>
+                      {t('settings.digest.view')}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <EmailDialog
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        subject={preview.data?.subject ?? t('settings.digest.previewTitle')}
+        description={preview.error ? preview.error.message : t('settings.digest.previewDescription')}
+        html={preview.isError ? '' : preview.data?.html}
+      />
+      <EmailDialog
+        open={openDelivery !== null}
+        onOpenChange={(open) => !open && setOpenDelivery(null)}
+        subject={openDelivery?.subject ?? ''}
+        description={
+          openDelivery?.status === 'failed'
+            ? t('settings.digest.failedTo', { recipient: openDelivery.recipient, error: openDelivery.error ?? '' })
+            : t('settings.digest.sentTo', { recipient: openDelivery?.recipient ?? '' })
+        }
+        html={openDelivery?.html}
+      />
+    </Card>
+  )
+}
@@ -2,6 +2,7 @@
 import React, { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Outlet, useLocation } from 'react-router-dom'
+import { useTheme } from 'next-themes'
 import {
   Sidebar,
   SidebarContent,
@@ -23,9 +24,19 @@ import {
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 import {
   BarChart3,
   Mail,
+  Inbox,
   AlertCircle,
   Settings,
   Users,
@@ -40,86 +51,188 @@ import {
   TrendingUp,
   Shield,
   HelpCircle,
+  Check,
+  ChevronsUpDown,
+  Plus,
 } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
-import { useQuery } from '@tanstack/react-query'
-import { supabase } from '@/lib/supabase'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useSentimentScoring } from '@/hooks/use-sentiment'
+import { useFeedbackCount, useUnprocessedFeedbackCount } from '@/hooks/use-feedbacks'
+import { useIssues } from '@/hooks/use-issues'
+import { useSaveUserSettings } from '@/hooks/use-user-settings'
+import { useCreateWorkspace } from '@/hooks/use-workspaces'
+import { isIssueOpen } from '@/lib/issue-lifecycle'
 import { useToast } from '@/hooks/use-toast'
+import type { MessageKey } from '@/lib/i18n'
 import { RealTimeNotifications } from '@/components/RealTimeNotifications'
 
-const navigationItems = [
+type BadgeKind = 'new' | 'unassigned' | 'mine' | 'urgent'
+
+const BADGE_STYLES: Record<BadgeKind, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; title: MessageKey }> = {
+  new: { variant: 'default', title: 'nav.badge.new' },
+  unassigned: { variant: 'outline', title: 'nav.badge.unassigned' },
+  mine: { variant: 'secondary', title: 'nav.badge.mine' },
+  urgent: { variant: 'destructive', title: 'nav.badge.urgent' },
+}
+
+const navigationItems: { title: MessageKey; icon: typeof Home; href: string; badges: BadgeKind[] }[] = [
   {
-    title: 'Overview',
+    title: 'nav.overview',
     icon: Home,
     href: '/dashboard',
-    badge: null,
+    badges: [],
   },
   {
-    title: 'Feedback',
+    title: 'nav.feedback',
     icon: Mail,
     href: '/dashboard/feedback',
-    badge: 'new',
+    badges: ['new', 'unassigned'],
   },
   {
-    title: 'Analytics',
+    title: 'nav.myQueue',
+    icon: Inbox,
+    href: '/dashboard/queue',
+    badges: ['mine'],
+  },
+  {
+    title: 'nav.analytics',
     icon: BarChart3,
     href: '/dashboard/analytics',
-    badge: null,
+    badges: [],
   },
   {
-    title: 'Issues',
+    title: 'nav.issues',
     icon: AlertCircle,
     href: '/dashboard/issues',
-    badge: 'urgent',
+    badges: ['urgent'],
   },
   {
-    title: 'Team',
+    title: 'nav.team',
     icon: Users,
     href: '/dashboard/team',
-    badge: null,
+    badges: [],
   },
   {
-    title: 'Settings',
+    title: 'nav.settings',
     icon: Settings,
     href: '/dashboard/settings',
-    badge: null,
+    badges: [],
   },
 ]
 
-function AppSidebar() {
-  const location = useLocation()
-  const [darkMode, setDarkMode] = useState(false)
-  const { user } = useAuth()
+function WorkspaceSwitcher() {
+  const { t } = usePreferences()
+  const { toast } = useToast()
+  const { workspaces, workspace, switchWorkspace } = useWorkspace()
+  const createWorkspace = useCreateWorkspace()
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState('')
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    createWorkspace.mutate(name, {
+      onSuccess: (workspaceId) => {
+        switchWorkspace(workspaceId)
+        setCreating(false)
+        setName('')
+        toast({ title: t('nav.workspace.created', { name: name.trim() }) })
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
+    })
+  }
+
+  if (!workspace) return null
 
-  // Fetch notification counts - RLS automatically filters by user_id
-  const { data: notificationCounts } = useQuery({
-    queryKey: ['notification-counts'],
-    queryFn: async () => {
-      if (!user) throw new Error('User not authenticated')
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="mt-3 w-full justify-between" aria-label={t('nav.workspace.switch')}>
+            <span className="truncate">{workspace.name}</span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-56" align="start">
+          {workspaces.map((w) => (
+            <DropdownMenuItem key={w.id} onClick={() => switchWorkspace(w.id)} className="flex items-center gap-2">
+              <Check className={`h-4 w-4 ${w.id === workspace.id ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="flex-1 truncate">{w.name}</span>
+              <span className="text-xs text-muted-foreground">{t(`nav.workspace.role.${w.role}`)}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setCreating(true)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            {t('nav.workspace.create')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
 
-      const { data: feedbacks } = await supabase
-        .from('feedbacks')
-        .select('id, processed_at')
-        .order('received_at', { ascending: false }) // Uses idx_feedbacks_received_at
-        .limit(50)
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>{t('nav.workspace.create')}</DialogTitle>
+              <DialogDescription>{t('nav.workspace.createDescription')}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="workspace-name">{t('nav.workspace.name')}</Label>
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('nav.workspace.namePlaceholder')}
+                maxLength={60}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCreating(false)}>
+                {t('nav.workspace.cancel')}
+              </Button>
+              <Button type="submit" disabled={!name.trim() || createWorkspace.isPending}>
+                {t('nav.workspace.submit')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
 
-      const { data: issues } = await supabase
-        .from('current_issues')
-        .select('id')
-        .order('created_at', { ascending: false })
+function AppSidebar() {
+  const location = useLocation()
+  const { t } = usePreferences()
+  const { resolvedTheme, setTheme } = useTheme()
+  const saveSettings = useSaveUserSettings()
+  const darkMode = resolvedTheme === 'dark'
 
-      return {
-        newFeedback: feedbacks?.filter(f => !f.processed_at).length || 0,
-        urgentIssues: issues?.length || 0,
-      }
-    },
-    refetchInterval: 30000, // Refetch every 30 seconds
-    enabled: !!user
-  })
+  const { user } = useAuth()
+  const { data: newFeedbackCount = 0 } = useUnprocessedFeedbackCount()
+  const { data: unassignedCount = 0 } = useFeedbackCount({ status: 'open', assigneeId: null })
+  const { data: myQueueCount = 0 } = useFeedbackCount(
+    { status: 'open', assigneeId: user?.id },
+    { enabled: !!user }
+  )
+  const { data: issues = [] } = useIssues({ refetchInterval: 30000 })
+
+  const badgeCounts: Record<BadgeKind, number> = {
+    new: newFeedbackCount,
+    unassigned: unassignedCount,
+    mine: myQueueCount,
+    urgent: issues.filter(isIssueOpen).length,
+  }
 
+  // Saved like the Settings theme, so the choice follows the user to other devices
   const toggleDarkMode = () => {
-    setDarkMode(!darkMode)
-    document.documentElement.classList.toggle('dark')
+    const theme = darkMode ? 'light' : 'dark'
+    setTheme(theme)
+    saveSettings.mutate({ theme })
   }
 
   return (
@@ -137,41 +250,46 @@ function AppSidebar() {
               <div className="flex items-center gap-1">
                 <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
                   <TrendingUp className="h-2.5 w-2.5 mr-1" />
-                  Pro
+                  {t('nav.pro')}
                 </Badge>
               </div>
             </div>
           </div>
-          <Button variant="ghost" size="sm" onClick={toggleDarkMode}>
+          <Button variant="ghost" size="sm" onClick={toggleDarkMode} aria-label={t('nav.toggleDarkMode')}>
             {darkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
           </Button>
         </div>
+        <WorkspaceSwitcher />
       </SidebarHeader>
       <SidebarContent className="py-2">
         <SidebarMenu>
           {navigationItems.map((item) => {
             const isActive = location.pathname === item.href
-            let badgeCount = 0
-            
-            if (item.badge === 'new') badgeCount = notificationCounts?.newFeedback || 0
-            if (item.badge === 'urgent') badgeCount = notificationCounts?.urgentIssues || 0
 
             return (
-              <SidebarMenuItem key={item.title}>
+              <SidebarMenuItem key={item.href}>
                 <SidebarMenuButton asChild className={isActive ? 'bg-primary/10 text-primary' : ''}>
                   <a href={item.href} className="flex items-center justify-between w-full group">
                     <div className="flex items-center space-x-3">
                       <item.icon className={`h-4 w-4 ${isActive ? 'text-primary' : 'text-muted-foreground'}`} />
-                      <span className={`font-medium ${isActive ? 'text-primary' : ''}`}>{item.title}</span>
+                      <span className={`font-medium ${isActive ? 'text-primary' : ''}`}>{t(item.title)}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {item.badges.map((kind) => {
+                        const badgeCount = badgeCounts[kind]
+                        if (badgeCount <= 0) return null
+                        return (
+                          <Badge
+                            key={kind}
+                            variant={BADGE_STYLES[kind].variant}
+                            title={t(BADGE_STYLES[kind].title)}
+                            className="text-xs px-1.5 py-0.5 min-w-[1.25rem] h-5 flex items-center justify-center"
+                          >
+                            {badgeCount > 99 ? '99+' : badgeCount}
+                          </Badge>
+                        )
+                      })}
                     </div>
-                    {badgeCount > 0 && (
-                      <Badge 
-                        variant={item.badge === 'urgent' ? 'destructive' : 'default'}
-                        className="text-xs px-1.5 py-0.5 min-w-[1.25rem] h-5 flex items-center justify-center"
-                      >
-                        {badgeCount > 99 ? '99+' : badgeCount}
-                      </Badge>
-                    )}
                   </a>
                 </SidebarMenuButton>
               </SidebarMenuItem>
@@ -181,15 +299,15 @@ function AppSidebar() {
 
         {/* Quick Actions */}
         <div className="mt-8 px-4">
-          <div className="text-xs font-medium text-muted-foreground mb-2">Quick Actions</div>
+          <div className="text-xs font-medium text-muted-foreground mb-2">{t('nav.quickActions')}</div>
           <div className="space-y-1">
             <Button variant="ghost" size="sm" className="w-full justify-start">
               <Search className="h-4 w-4 mr-2" />
-              Search Feedback
+              {t('nav.searchFeedback')}
             </Button>
             <Button variant="ghost" size="sm" className="w-full justify-start">
               <HelpCircle className="h-4 w-4 mr-2" />
-              Help & Support
+              {t('nav.helpAndSupport')}
             </Button>
           </div>
         </div>
@@ -200,9 +318,13 @@ function AppSidebar() {
 
 export const EnhancedDashboard = () => {
   const { user, signOut } = useAuth()
+  const { t } = usePreferences()
   const { toast } = useToast()
   const [globalSearch, setGlobalSearch] = useState('')
 
+  // New feedback gets its sentiment scored even when those pages are closed
+  useSentimentScoring()
+
   const getUserInitials = () => {
     if (user?.user_metadata?.username) {
       return user.user_metadata.username.slice(0, 2).toUpperCase()
@@ -218,8 +340,8 @@ export const EnhancedDashboard = () => {
     // Implement global search functionality
     if (query.length > 2) {
       toast({
-        title: "Search initiated",
-        description: `Searching for: ${query}`,
+        title: t('dashboard.searchStarted'),
+        description: t('dashboard.searchingFor', { query }),
       })
     }
   }
@@ -239,7 +361,7 @@ export const EnhancedDashboard = () => {
                 <div className="relative hidden md:block">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search everything..."
+                    placeholder={t('dashboard.searchPlaceholder')}
                     value={globalSearch}
                     onChange={(e) => handleGlobalSearch(e.target.value)}
                     className="pl-10 w-80 bg-muted/50"
@@ -254,7 +376,7 @@ export const EnhancedDashboard = () => {
                 {/* Performance Indicator */}
                 <div className="hidden lg:flex items-center gap-2 px-3 py-1 rounded-full bg-green-100 text-green-800 text-xs">
                   <div className="h-1.5 w-1.5 bg-green-500 rounded-full animate-pulse"></div>
-                  All systems operational
+                  {t('dashboard.systemsOperational')}
                 </div>
 
                 {/* User Menu */}
@@ -271,7 +393,7 @@ export const EnhancedDashboard = () => {
                   <DropdownMenuContent className="w-64" align="end" forceMount>
                     <div className="flex flex-col space-y-1 p-3">
                       <p className="text-sm font-medium leading-none">
-                        {user?.user_metadata?.username || 'User'}
+                        {user?.user_metadata?.username || t('dashboard.userFallback')}
                       </p>
                       <p className="text-xs leading-none text-muted-foreground">
                         {user?.email}
@@ -279,10 +401,10 @@ export const EnhancedDashboard = () => {
                       <div className="flex items-center gap-2 mt-2">
                         <Badge variant="secondary" className="text-xs">
                           <Shield className="h-2.5 w-2.5 mr-1" />
-                          Verified
+                          {t('dashboard.verified')}
                         </Badge>
                         <Badge variant="outline" className="text-xs">
-                          Pro Plan
+                          {t('dashboard.proPlan')}
                         </Badge>
                       </div>
                     </div>
@@ -290,23 +412,23 @@ export const EnhancedDashboard = () => {
                     <DropdownMenuItem asChild>
                       <a href="/dashboard/settings" className="flex items-center">
                         <User className="mr-2 h-4 w-4" />
-                        Profile Settings
+                        {t('dashboard.profileSettings')}
                       </a>
                     </DropdownMenuItem>
                     <DropdownMenuItem asChild>
                       <a href="/dashboard/settings" className="flex items-center">
                         <Settings className="mr-2 h-4 w-4" />
-                        Preferences
+                        {t('dashboard.preferences')}
                       </a>
                     </DropdownMenuItem>
                     <DropdownMenuItem className="flex items-center">
                       <HelpCircle className="mr-2 h-4 w-4" />
-                      Help & Support
+                      {t('nav.helpAndSupport')}
                     </DropdownMenuItem>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={signOut} className="text-red-600 focus:text-red-600">
                       <LogOut className="mr-2 h-4 w-4" />
-                      Sign Out
+                      {t('dashboard.signOut')}
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -1,112 +1,249 @@
 
-import React from 'react'
-import { useQuery } from '@tanstack/react-query'
+import React, { useState } from 'react'
 import { motion } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useDailyFeedbackCounts, useFeedbackTrends, useRecentFeedbacks, useSentimentCounts } from '@/hooks/use-analytics'
+import { useIssueFeedbackCounts, useIssues } from '@/hooks/use-issues'
+import { useUsers } from '@/hooks/use-users'
+import { useComparisonWindow } from '@/hooks/use-comparison-window'
+import { useHeadlineMetric } from '@/hooks/use-headline-metric'
+import {
+  useCreateDashboardLayout,
+  useDashboardLayouts,
+  useDeleteDashboardLayout,
+  useSelectedDashboardLayout,
+  useUpdateDashboardLayout,
+} from '@/hooks/use-dashboard-layouts'
+import { getComparisonPeriods, getHeadline, getNetIssueChange, toDailySeries, toSentimentData } from '@/lib/metrics'
+import {
+  createWidget,
+  DEFAULT_WIDGETS,
+  moveWidget,
+  parseWidgets,
+  removeWidget,
+  updateWidget,
+  WIDGET_LIST_LENGTH,
+  WIDGET_TYPES,
+  type DashboardWidget,
+} from '@/lib/dashboard-widgets'
+import { formatDateRange, toReceivedBounds } from '@/lib/date-range'
+import { useAuth } from '@/contexts/AuthContext'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { isIssueOpen } from '@/lib/issue-lifecycle'
+import { ComparisonWindowSelect } from '@/components/PeriodComparison'
+import { DateRangePicker } from '@/components/DateRangePicker'
+import { DashboardWidgetCard, type OverviewData } from '@/components/DashboardWidgets'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Progress } from '@/components/ui/progress'
-import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  LineChart, Line, PieChart, Pie, Cell, AreaChart, Area 
-} from 'recharts'
-import { 
-  Mail, TrendingUp, AlertCircle, Star, Users, Clock, Target, 
-  Zap, Shield, ChevronRight, Calendar, MessageSquare, TrendingDown
-} from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Copy, LayoutGrid, MoreHorizontal, Pencil, Plus, RotateCcw, Save, Share2, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8']
+// Select value of the built-in layout, which has no row
+const DEFAULT_LAYOUT_ID = 'default'
+
+interface LayoutDraft {
+  name: string
+  widgets: DashboardWidget[]
+  shared: boolean
+}
 
 export const EnhancedDashboardOverview = () => {
-  // Enhanced data fetching with real-time subscriptions
-  const { data: dashboardData, isLoading } = useQuery({
-    queryKey: ['enhanced-dashboard'],
-    queryFn: async () => {
-      const [feedbacksResult, issuesResult, usersResult] = await Promise.all([
-        supabase
-          .from('feedbacks')
-          .select('*')
-          .order('received_at', { ascending: false }),
-        supabase
-          .from('current_issues')
-          .select('*')
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('users')
-          .select('*')
-          .order('created_at', { ascending: false })
-      ])
+  const [comparisonWindow, setComparisonWindow] = useComparisonWindow()
+  const [headlineMetric, setHeadlineMetric] = useHeadlineMetric()
+  const { range, resolved: dateRange, timezone } = useDateRange()
+  const { format, t } = usePreferences()
+  const bounds = toReceivedBounds(dateRange)
+  const { user } = useAuth()
+  const { toast } = useToast()
 
-      return {
-        feedbacks: feedbacksResult.data || [],
-        issues: issuesResult.data || [],
-        users: usersResult.data || []
-      }
-    },
-    refetchInterval: 30000, // Real-time updates every 30 seconds
-  })
+  // Real-time updates every 30 seconds; feedback arrives as aggregates, never as every row
+  const { data: trends, isLoading: trendsLoading } = useFeedbackTrends(comparisonWindow, { refetchInterval: 30000 })
+  const { data: weekTrends } = useFeedbackTrends('7d', { refetchInterval: 30000 })
+  const { data: monthTrends } = useFeedbackTrends('30d', { refetchInterval: 30000 })
+  const { data: dailyCounts = [] } = useDailyFeedbackCounts(bounds, timezone, { refetchInterval: 30000 })
+  const { data: sentimentCounts = [] } = useSentimentCounts(bounds, { refetchInterval: 30000 })
+  // Enough for the tallest recent feedback widget
+  const { data: recentFeedbacks = [] } = useRecentFeedbacks(bounds, WIDGET_LIST_LENGTH[3], { refetchInterval: 30000 })
+  const { data: issues = [], isLoading: issuesLoading } = useIssues({ refetchInterval: 30000 })
+  const { data: users = [], isLoading: usersLoading } = useUsers({ refetchInterval: 30000 })
+  const openIssues = issues.filter(isIssueOpen)
+  const { data: issueFeedbackCounts = {} } = useIssueFeedbackCounts(openIssues)
+  const isLoading = trendsLoading || issuesLoading || usersLoading
 
-  const { feedbacks = [], issues = [], users = [] } = dashboardData || {}
+  // Saved layouts: the user's own, and the ones teammates share
+  const { data: layouts = [] } = useDashboardLayouts()
+  const [selectedLayoutId, setSelectedLayoutId] = useSelectedDashboardLayout()
+  const createLayout = useCreateDashboardLayout()
+  const updateLayout = useUpdateDashboardLayout()
+  const deleteLayout = useDeleteDashboardLayout()
+  const [draft, setDraft] = useState<LayoutDraft | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
 
-  // Advanced analytics calculations
-  const analytics = React.useMemo(() => {
-    if (!feedbacks.length) return null
+  // A layout that was deleted or unshared falls back to the built-in one
+  const activeLayout = layouts.find(layout => layout.id === selectedLayoutId) ?? null
+  const isOwnLayout = !!activeLayout && activeLayout.owner_id === user?.id
+  const savedWidgets = activeLayout ? parseWidgets(activeLayout.widgets) : DEFAULT_WIDGETS
+  const widgets = draft?.widgets ?? savedWidgets
+  const ownLayouts = layouts.filter(layout => layout.owner_id === user?.id)
+  const sharedLayouts = layouts.filter(layout => layout.owner_id !== user?.id)
+  const ownerName = (ownerId: string) => users.find(u => u.id === ownerId)?.username ?? t('overview.layout.teammate')
 
-    const now = new Date()
-    const lastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-    const lastMonth = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
+  const series = React.useMemo(() => ({
+    sentimentData: toSentimentData(sentimentCounts).map(entry => ({ ...entry, name: t(`sentiment.${entry.sentiment}`) })),
+    dailyData: toDailySeries(dailyCounts, dateRange, timezone),
+  }), [sentimentCounts, dailyCounts, dateRange, timezone, t])
 
-    const thisWeekFeedbacks = feedbacks.filter(f => new Date(f.received_at) > lastWeek)
-    const thisMonthFeedbacks = feedbacks.filter(f => new Date(f.received_at) > lastMonth)
-    
-    const avgRating = feedbacks.reduce((sum, f) => sum + (Number(f.average_rating) || 0), 0) / feedbacks.length
-    const responseRate = Math.round((feedbacks.filter(f => f.processed_at).length / feedbacks.length) * 100)
-    
-    // Sentiment analysis
-    const positive = feedbacks.filter(f => (Number(f.average_rating) || 0) >= 4).length
-    const neutral = feedbacks.filter(f => {
-      const rating = Number(f.average_rating) || 0
-      return rating >= 2.5 && rating < 4
-    }).length
-    const negative = feedbacks.filter(f => (Number(f.average_rating) || 0) < 2.5).length
+  const data: OverviewData = {
+    comparisonWindow,
+    format,
+    rangeLabel: formatDateRange(range, format.dayLabel, t).toLowerCase(),
+    // Same calculation as the Analytics KPI cards
+    trends: trends ?? null,
+    headlineMetric,
+    setHeadlineMetric,
+    headline: trends ? getHeadline(trends, headlineMetric) : null,
+    issues,
+    openIssues,
+    netIssueChange: getNetIssueChange(issues, getComparisonPeriods(comparisonWindow).current),
+    issueFeedbackCounts,
+    ...series,
+    recentFeedbacks,
+    thisWeekCount: weekTrends?.current.feedbackCount,
+    thisMonthCount: monthTrends?.current.feedbackCount,
+    teamSize: users.length,
+  }
 
-    // Trend calculations
-    const feedbackTrend = thisWeekFeedbacks.length > 0 ? 
-      Math.round(((thisWeekFeedbacks.length - (feedbacks.length - thisWeekFeedbacks.length)) / Math.max(feedbacks.length - thisWeekFeedbacks.length, 1)) * 100) : 0
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
+    })
+  }
 
-    // Weekly chart data
-    const weeklyData = Array.from({ length: 7 }, (_, i) => {
-      const date = new Date(now.getTime() - (6 - i) * 24 * 60 * 60 * 1000)
-      const dayFeedbacks = feedbacks.filter(f => {
-        const feedbackDate = new Date(f.received_at)
-        return feedbackDate.toDateString() === date.toDateString()
-      })
-      
-      return {
-        day: date.toLocaleDateString('en-US', { weekday: 'short' }),
-        count: dayFeedbacks.length,
-        avgRating: dayFeedbacks.length > 0 
-          ? dayFeedbacks.reduce((sum, f) => sum + (Number(f.average_rating) || 0), 0) / dayFeedbacks.length 
-          : 0
-      }
+  const startEditing = () => {
+    setDraft({
+      name: isOwnLayout
+        ? activeLayout.name
+        : activeLayout ? t('overview.layout.copyName', { name: activeLayout.name }) : t('overview.layout.newName'),
+      widgets: savedWidgets,
+      shared: isOwnLayout ? activeLayout.shared : false,
     })
+  }
 
-    return {
-      totalFeedback: feedbacks.length,
-      avgRating,
-      responseRate,
-      feedbackTrend,
-      sentimentData: [
-        { name: 'Positive', value: positive, color: '#00C49F' },
-        { name: 'Neutral', value: neutral, color: '#FFBB28' },
-        { name: 'Negative', value: negative, color: '#FF8042' }
-      ],
-      weeklyData,
-      thisWeekCount: thisWeekFeedbacks.length,
-      thisMonthCount: thisMonthFeedbacks.length
+  const changeWidgets = (change: (widgets: DashboardWidget[]) => DashboardWidget[]) => {
+    setDraft(prev => (prev ? { ...prev, widgets: change(prev.widgets) } : prev))
+  }
+
+  // Other people's layouts and the built-in one are never changed; saving makes the user a copy
+  const handleSave = () => {
+    if (!draft) return
+
+    if (isOwnLayout) {
+      updateLayout.mutate({ layoutId: activeLayout.id, values: draft }, {
+        onSuccess: () => {
+          setDraft(null)
+          toast({
+            title: t('overview.layout.saved'),
+            description: t('overview.layout.updatedDescription', { name: draft.name.trim() }),
+          })
+        },
+        onError: showError,
+      })
+      return
     }
-  }, [feedbacks])
+
+    createLayout.mutate(draft, {
+      onSuccess: (created) => {
+        setDraft(null)
+        setSelectedLayoutId(created.id)
+        toast({
+          title: t('overview.layout.saved'),
+          description: t(draft.shared ? 'overview.layout.savedShared' : 'overview.layout.savedPrivate', { name: created.name }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleCopy = () => {
+    if (!activeLayout) return
+    createLayout.mutate({ name: t('overview.layout.copyName', { name: activeLayout.name }), widgets: savedWidgets }, {
+      onSuccess: (created) => {
+        setSelectedLayoutId(created.id)
+        toast({
+          title: t('overview.layout.copied'),
+          description: t('overview.layout.copiedDescription', { name: created.name }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleToggleShared = () => {
+    if (!isOwnLayout) return
+    updateLayout.mutate({ layoutId: activeLayout.id, values: { shared: !activeLayout.shared } }, {
+      onSuccess: () => {
+        toast({
+          title: t(activeLayout.shared ? 'overview.layout.unshared' : 'overview.layout.shared'),
+          description: t(activeLayout.shared ? 'overview.layout.unsharedDescription' : 'overview.layout.sharedDescription', {
+            name: activeLayout.name,
+          }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleDelete = () => {
+    if (!isOwnLayout) return
+    deleteLayout.mutate(activeLayout.id, {
+      onSuccess: () => {
+        setSelectedLayoutId(null)
+        toast({
+          title: t('overview.layout.deleted'),
+          description: t('overview.layout.deletedDescription', { name: activeLayout.name }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const dragProps = (index: number) => ({
+    onDragStart: (e: React.DragEvent<HTMLDivElement>) => {
+      e.dataTransfer.effectAllowed = 'move'
+      setDragIndex(index)
+    },
+    onDragOver: (e: React.DragEvent<HTMLDivElement>) => {
+      if (dragIndex === null) return
+      e.preventDefault()
+      setDropIndex(index)
+    },
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault()
+      if (dragIndex !== null) changeWidgets(prev => moveWidget(prev, dragIndex, index))
+      setDragIndex(null)
+      setDropIndex(null)
+    },
+    onDragEnd: () => {
+      setDragIndex(null)
+      setDropIndex(null)
+    },
+  })
 
   if (isLoading) {
     return (
@@ -139,325 +276,186 @@ export const EnhancedDashboardOverview = () => {
       {/* Enhanced Header */}
       <div className="flex items-center justify-between">
         <div>
-          <motion.h1 
+          <motion.h1
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
             className="text-4xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent"
           >
-            Dashboard Overview
+            {t('overview.title')}
           </motion.h1>
           <p className="text-muted-foreground text-lg mt-2">
-            Welcome back! Here's what's happening with your feedback.
+            {t('overview.welcome')}
           </p>
         </div>
         <div className="flex items-center gap-3">
           <Badge variant="outline" className="flex items-center gap-1">
             <div className="h-2 w-2 bg-green-500 rounded-full animate-pulse"></div>
-            Live Data
+            {t('overview.liveData')}
           </Badge>
-          <Button variant="outline" className="flex items-center gap-2">
-            <Calendar className="h-4 w-4" />
-            Last 30 days
-          </Button>
+          <DateRangePicker />
+          <ComparisonWindowSelect value={comparisonWindow} onChange={setComparisonWindow} />
         </div>
       </div>
 
-      {/* Enhanced Key Metrics */}
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-        >
-          <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-950 dark:to-blue-900">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium">Total Feedback</CardTitle>
-              <div className="h-8 w-8 rounded-full bg-blue-500/20 flex items-center justify-center">
-                <Mail className="h-4 w-4 text-blue-600" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-3xl font-bold text-blue-700 dark:text-blue-300">
-                {analytics?.totalFeedback || 0}
-              </div>
-              <div className="flex items-center text-sm text-blue-600 dark:text-blue-400">
-                {analytics?.feedbackTrend && analytics.feedbackTrend > 0 ? (
-                  <TrendingUp className="h-3 w-3 mr-1" />
+      {/* Layout picker */}
+      {!draft ? (
+        <div className="flex items-center gap-2">
+          <LayoutGrid className="h-4 w-4 text-muted-foreground" />
+          <Select
+            value={activeLayout?.id ?? DEFAULT_LAYOUT_ID}
+            onValueChange={(value) => setSelectedLayoutId(value === DEFAULT_LAYOUT_ID ? null : value)}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_LAYOUT_ID}>{t('overview.layout.default')}</SelectItem>
+              {ownLayouts.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>{t('overview.layout.mine')}</SelectLabel>
+                  {ownLayouts.map(layout => (
+                    <SelectItem key={layout.id} value={layout.id}>
+                      {layout.shared ? t('overview.layout.sharedName', { name: layout.name }) : layout.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {sharedLayouts.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>{t('overview.layout.sharedByTeam')}</SelectLabel>
+                  {sharedLayouts.map(layout => (
+                    <SelectItem key={layout.id} value={layout.id}>
+                      {t('overview.layout.ownedBy', { name: layout.name, owner: ownerName(layout.owner_id) })}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={startEditing}>
+            <Pencil className="h-4 w-4 mr-2" />
+            {t('overview.layout.customize')}
+          </Button>
+          {activeLayout && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {isOwnLayout ? (
+                  <>
+                    <DropdownMenuItem onClick={handleToggleShared}>
+                      <Share2 className="h-4 w-4 mr-2" />
+                      {t(activeLayout.shared ? 'overview.layout.stopSharing' : 'overview.layout.share')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleCopy}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      {t('overview.layout.duplicate')}
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleDelete} className="text-red-600">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      {t('overview.layout.delete')}
+                    </DropdownMenuItem>
+                  </>
                 ) : (
-                  <TrendingDown className="h-3 w-3 mr-1" />
+                  <DropdownMenuItem onClick={handleCopy}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    {t('overview.layout.saveCopy')}
+                  </DropdownMenuItem>
                 )}
-                {Math.abs(analytics?.feedbackTrend || 0)}% from last week
-              </div>
-              <Progress value={75} className="mt-3 h-1" />
-            </CardContent>
-          </Card>
-        </motion.div>
-
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
-        >
-          <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-emerald-50 to-emerald-100 dark:from-emerald-950 dark:to-emerald-900">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium">Average Rating</CardTitle>
-              <div className="h-8 w-8 rounded-full bg-emerald-500/20 flex items-center justify-center">
-                <Star className="h-4 w-4 text-emerald-600" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-3xl font-bold text-emerald-700 dark:text-emerald-300">
-                {analytics?.avgRating?.toFixed(1) || '0.0'}
-              </div>
-              <div className="flex items-center text-sm text-emerald-600 dark:text-emerald-400">
-                <TrendingUp className="h-3 w-3 mr-1" />
-                +0.3 from last week
-              </div>
-              <div className="flex items-center gap-1 mt-2">
-                {[1, 2, 3, 4, 5].map((star) => (
-                  <Star
-                    key={star}
-                    className={`h-3 w-3 ${
-                      star <= (analytics?.avgRating || 0)
-                        ? 'fill-emerald-500 text-emerald-500'
-                        : 'text-emerald-200'
-                    }`}
-                  />
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </motion.div>
-
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3 }}
-        >
-          <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-orange-50 to-orange-100 dark:from-orange-950 dark:to-orange-900">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium">Active Issues</CardTitle>
-              <div className="h-8 w-8 rounded-full bg-orange-500/20 flex items-center justify-center">
-                <AlertCircle className="h-4 w-4 text-orange-600" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-3xl font-bold text-orange-700 dark:text-orange-300">
-                {issues.length}
-              </div>
-              <div className="flex items-center text-sm text-orange-600 dark:text-orange-400">
-                <TrendingDown className="h-3 w-3 mr-1" />
-                -2 from last week
-              </div>
-              <div className="flex items-center gap-2 mt-2">
-                <Badge variant="destructive" className="text-xs">
-                  {issues.filter((_, i) => i < 3).length} High
-                </Badge>
-                <Badge variant="outline" className="text-xs">
-                  {issues.filter((_, i) => i >= 3).length} Low
-                </Badge>
-              </div>
-            </CardContent>
-          </Card>
-        </motion.div>
-
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.4 }}
-        >
-          <Card className="relative overflow-hidden border-0 bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-950 dark:to-purple-900">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium">Response Rate</CardTitle>
-              <div className="h-8 w-8 rounded-full bg-purple-500/20 flex items-center justify-center">
-                <Target className="h-4 w-4 text-purple-600" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-3xl font-bold text-purple-700 dark:text-purple-300">
-                {analytics?.responseRate || 0}%
-              </div>
-              <div className="flex items-center text-sm text-purple-600 dark:text-purple-400">
-                <TrendingUp className="h-3 w-3 mr-1" />
-                +5% from last week
-              </div>
-              <Progress value={analytics?.responseRate || 0} className="mt-3 h-1" />
-            </CardContent>
-          </Card>
-        </motion.div>
-      </div>
-
-      {/* Enhanced Charts Section */}
-      <div className="grid gap-6 lg:grid-cols-2">
-        {/* Weekly Trend Chart */}
-        <Card className="col-span-1">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="h-5 w-5" />
-              Weekly Feedback Trend
-            </CardTitle>
-            <CardDescription>
-              Feedback volume over the last 7 days
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <AreaChart data={analytics?.weeklyData || []}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="day" stroke="#888" />
-                <YAxis stroke="#888" />
-                <Tooltip 
-                  contentStyle={{ 
-                    backgroundColor: 'white', 
-                    border: '1px solid #e2e8f0',
-                    borderRadius: '8px',
-                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                  }}
-                />
-                <Area
-                  type="monotone"
-                  dataKey="count"
-                  stroke="#8884d8"
-                  fill="url(#colorGradient)"
-                  strokeWidth={2}
-                />
-                <defs>
-                  <linearGradient id="colorGradient" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#8884d8" stopOpacity={0.8} />
-                    <stop offset="95%" stopColor="#8884d8" stopOpacity={0.1} />
-                  </linearGradient>
-                </defs>
-              </AreaChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
-
-        {/* Sentiment Distribution */}
-        <Card className="col-span-1">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MessageSquare className="h-5 w-5" />
-              Sentiment Analysis
-            </CardTitle>
-            <CardDescription>
-              Distribution of feedback sentiment
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <PieChart>
-                <Pie
-                  data={analytics?.sentimentData || []}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={60}
-                  outerRadius={100}
-                  paddingAngle={5}
-                  dataKey="value"
-                >
-                  {(analytics?.sentimentData || []).map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
-                  ))}
-                </Pie>
-                <Tooltip />
-              </PieChart>
-            </ResponsiveContainer>
-            <div className="flex justify-center gap-4 mt-4">
-              {(analytics?.sentimentData || []).map((entry, index) => (
-                <div key={index} className="flex items-center gap-2">
-                  <div 
-                    className="w-3 h-3 rounded-full" 
-                    style={{ backgroundColor: entry.color }}
-                  ></div>
-                  <span className="text-sm">{entry.name}: {entry.value}</span>
-                </div>
-              ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {activeLayout && !isOwnLayout && (
+            <span className="text-sm text-muted-foreground">{t('overview.layout.sharedBy', { owner: ownerName(activeLayout.owner_id) })}</span>
+          )}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-wrap items-end gap-4 pt-6">
+            <div className="space-y-2">
+              <Label htmlFor="layout-name">{t('overview.layout.name')}</Label>
+              <Input
+                id="layout-name"
+                className="w-64"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
             </div>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Recent Activity & Quick Actions */}
-      <div className="grid gap-6 lg:grid-cols-3">
-        {/* Recent Feedback */}
-        <Card className="lg:col-span-2">
-          <CardHeader className="flex flex-row items-center justify-between">
-            <div>
-              <CardTitle>Recent Feedback</CardTitle>
-              <CardDescription>Latest feedback from your customers</CardDescription>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="layout-shared"
+                checked={draft.shared}
+                onCheckedChange={(checked) => setDraft({ ...draft, shared: checked })}
+              />
+              <Label htmlFor="layout-shared">{t('overview.layout.share')}</Label>
             </div>
-            <Button variant="outline" size="sm">
-              View All
-              <ChevronRight className="h-4 w-4 ml-1" />
-            </Button>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {feedbacks.slice(0, 5).map((feedback) => (
-                <motion.div
-                  key={feedback.id}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
-                >
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="font-medium">{feedback.sender_name || feedback.sender_email}</span>
-                      <Badge variant="outline" className="text-xs">
-                        {Number(feedback.average_rating || 0).toFixed(1)} ⭐
-                      </Badge>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('overview.layout.addWidget')}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-72">
+                <DropdownMenuLabel>{t('overview.layout.widgets')}</DropdownMenuLabel>
+                {WIDGET_TYPES.map(type => (
+                  <DropdownMenuItem key={type} onClick={() => changeWidgets(prev => [...prev, createWidget(type)])}>
+                    <div>
+                      <p className="text-sm font-medium">{t(`overview.widget.${type}`)}</p>
+                      <p className="text-xs text-muted-foreground">{t(`overview.widgetDescription.${type}`)}</p>
                     </div>
-                    <p className="text-sm text-muted-foreground">{feedback.subject}</p>
-                    {feedback.feedback_summary && (
-                      <p className="text-sm mt-1 line-clamp-2">{feedback.feedback_summary}</p>
-                    )}
-                  </div>
-                  <div className="text-sm text-muted-foreground">
-                    {new Date(feedback.received_at).toLocaleDateString()}
-                  </div>
-                </motion.div>
-              ))}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="ghost" onClick={() => changeWidgets(() => DEFAULT_WIDGETS)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {t('overview.layout.reset')}
+            </Button>
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                {t('common.cancel')}
+              </Button>
+              <Button onClick={handleSave} disabled={!draft.name.trim() || createLayout.isPending || updateLayout.isPending}>
+                <Save className="h-4 w-4 mr-2" />
+                {t(isOwnLayout ? 'overview.layout.save' : 'overview.layout.saveAsNew')}
+              </Button>
             </div>
           </CardContent>
         </Card>
+      )}
 
-        {/* Quick Stats & Actions */}
+      {/* Widgets */}
+      {widgets.length === 0 ? (
         <Card>
-          <CardHeader>
-            <CardTitle>Quick Stats</CardTitle>
-            <CardDescription>Key metrics at a glance</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">This Week</span>
-              <span className="font-medium">{analytics?.thisWeekCount || 0} feedback</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">This Month</span>
-              <span className="font-medium">{analytics?.thisMonthCount || 0} feedback</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Team Size</span>
-              <span className="font-medium">{users.length} members</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Avg Response</span>
-              <span className="font-medium">2.3 hours</span>
-            </div>
-            
-            <div className="pt-4 border-t space-y-2">
-              <Button className="w-full" size="sm">
-                <Zap className="h-4 w-4 mr-2" />
-                Generate Report
-              </Button>
-              <Button variant="outline" className="w-full" size="sm">
-                <Shield className="h-4 w-4 mr-2" />
-                Export Data
-              </Button>
-            </div>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <LayoutGrid className="h-8 w-8 mb-2 opacity-50" />
+            <p>{t('overview.layout.empty')}</p>
           </CardContent>
         </Card>
-      </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+          {widgets.map((widget, index) => (
+            <DashboardWidgetCard
+              key={widget.id}
+              widget={widget}
+              data={data}
+              editing={!!draft}
+              isFirst={index === 0}
+              isLast={index === widgets.length - 1}
+              onChange={(changes) => changeWidgets(prev => updateWidget(prev, widget.id, changes))}
+              onMove={(offset) => changeWidgets(prev => moveWidget(prev, index, index + offset))}
+              onRemove={() => changeWidgets(prev => removeWidget(prev, widget.id))}
+              dragProps={dragProps(index)}
+              isDropTarget={dropIndex === index && dragIndex !== index}
+            />
+          ))}
+        </div>
+      )}
     </motion.div>
   )
 }
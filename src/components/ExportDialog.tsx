@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import type { BulkTarget } from '@/hooks/use-feedbacks'
+import {
+  downloadFile,
+  EXPORT_FORMAT_META,
+  EXPORT_FORMATS,
+  exportFileName,
+  FEEDBACK_EXPORT_COLUMNS,
+  rawJsonColumns,
+  toExportFile,
+  type ExportColumn,
+  type ExportFormat,
+} from '@/lib/export'
+import { listFeedbacksByIds, listMatchingFeedbacks } from '@/lib/repository'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Download } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface ExportDialogProps<T> {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  description: string
+  /** Start of the downloaded file's name, like `feedback` */
+  filePrefix: string
+  /** Loads every row to export; runs each time the dialog opens */
+  loadRows: (onProgress: (loaded: number, total: number) => void) => Promise<T[]>
+  /** Selected by default */
+  columns: ExportColumn<T>[]
+  /** Further columns found in the loaded rows, unselected by default */
+  discoverColumns?: (rows: T[]) => ExportColumn<T>[]
+}
+
+const ColumnGroup = ({ label, headers, selected, onToggle, onSelectAll }: {
+  label: string
+  headers: string[]
+  selected: Set<string>
+  onToggle: (header: string, checked: boolean) => void
+  onSelectAll: (headers: string[], checked: boolean) => void
+}) => {
+  const { t } = usePreferences()
+  const allSelected = headers.every(header => selected.has(header))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{label}</span>
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onSelectAll(headers, !allSelected)}>
+          {allSelected ? t('export.selectNone') : t('export.selectAll')}
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {headers.map((header) => (
+          <div key={header} className="flex items-center gap-2 min-w-0">
+            <Checkbox
+              id={`export-column-${header}`}
+              checked={selected.has(header)}
+              onCheckedChange={(checked) => onToggle(header, checked === true)}
+            />
+            <Label htmlFor={`export-column-${header}`} className="font-mono text-xs font-normal truncate">
+              {header}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export const ExportDialog = <T,>({
+  open,
+  onOpenChange,
+  title,
+  description,
+  filePrefix,
+  loadRows,
+  columns,
+  discoverColumns,
+}: ExportDialogProps<T>) => {
+  const [rows, setRows] = useState<T[] | null>(null)
+  const [progress, setProgress] = useState({ loaded: 0, total: 0 })
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  // Columns ticked or unticked since opening; the rest keep their default
+  const [choices, setChoices] = useState<Record<string, boolean>>({})
+  const { toast } = useToast()
+  const { t } = usePreferences()
+
+  // Callers pass loadRows inline; only opening the dialog should reload
+  const loadRowsRef = useRef(loadRows)
+  loadRowsRef.current = loadRows
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setRows(null)
+    setLoadError(null)
+    setProgress({ loaded: 0, total: 0 })
+    setChoices({})
+
+    loadRowsRef.current((loaded, total) => {
+      if (!cancelled) setProgress({ loaded, total })
+    })
+      .then((loadedRows) => {
+        if (!cancelled) setRows(loadedRows)
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error.message)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  const extraColumns = useMemo(() => (rows && discoverColumns ? discoverColumns(rows) : []), [rows, discoverColumns])
+
+  const selected = new Set([
+    ...columns.filter(column => choices[column.header] ?? true),
+    ...extraColumns.filter(column => choices[column.header] ?? false),
+  ].map(column => column.header))
+
+  const toggle = (header: string, checked: boolean) => setChoices(current => ({ ...current, [header]: checked }))
+
+  const toggleAll = (headers: string[], checked: boolean) =>
+    setChoices(current => ({ ...current, ...Object.fromEntries(headers.map(header => [header, checked])) }))
+
+  const chosenColumns = [...columns, ...extraColumns].filter(column => selected.has(column.header))
+
+  const handleDownload = () => {
+    if (!rows) return
+    const meta = EXPORT_FORMAT_META[format]
+    downloadFile(toExportFile(format, rows, chosenColumns, title), exportFileName(filePrefix, meta.extension), meta.mimeType)
+    toast({
+      title: t('export.ready'),
+      description: t('export.readyDescription', { count: rows.length, format: meta.label }),
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-destructive">{t('export.loadFailed', { error: loadError })}</p>
+        ) : !rows ? (
+          <div className="space-y-2">
+            <Progress value={progress.total ? (progress.loaded / progress.total) * 100 : 0} className="h-2" />
+            <p className="text-sm text-muted-foreground">
+              {progress.total ? t('export.loadingProgress', { loaded: progress.loaded, total: progress.total }) : t('export.loading')}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm text-muted-foreground">
+                {t('export.rowsReady', { count: rows.length })}
+              </span>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {EXPORT_FORMAT_META[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="h-72 pr-4">
+              <div className="space-y-4">
+                <ColumnGroup
+                  label={t('export.columns')}
+                  headers={columns.map(column => column.header)}
+                  selected={selected}
+                  onToggle={toggle}
+                  onSelectAll={toggleAll}
+                />
+                {extraColumns.length > 0 && (
+                  <ColumnGroup
+                    label={t('export.payloadFields')}
+                    headers={extraColumns.map(column => column.header)}
+                    selected={selected}
+                    onToggle={toggle}
+                    onSelectAll={toggleAll}
+                  />
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleDownload} disabled={!rows || chosenColumns.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            {t('export.download')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface FeedbackExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Everything matching some filters, or particular feedback */
+  target: BulkTarget
+  description: string
+}
+
+/** Feedback export, with the fields of each original payload offered as extra columns */
+export const FeedbackExportDialog = ({ open, onOpenChange, target, description }: FeedbackExportDialogProps) => {
+  const { t } = usePreferences()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return (
+    <ExportDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title={t('export.feedbackTitle')}
+      description={description}
+      filePrefix="feedback"
+      loadRows={(onProgress) =>
+        'filters' in target
+          ? listMatchingFeedbacks(workspaceId, target.filters, onProgress)
+          : listFeedbacksByIds(target.feedbackIds, onProgress)
+      }
+      columns={FEEDBACK_EXPORT_COLUMNS}
+      discoverColumns={rawJsonColumns}
+    />
+  )
+}
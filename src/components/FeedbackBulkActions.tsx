@@ -0,0 +1,258 @@
+import React, { useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useBulkFeedbackAction, type BulkTarget } from '@/hooks/use-feedbacks'
+import { useIssues } from '@/hooks/use-issues'
+import { useTags } from '@/hooks/use-tags'
+import { FEEDBACK_STATUSES } from '@/lib/feedback-status'
+import type { BulkAction, UserProfile } from '@/lib/repository'
+import { FeedbackExportDialog } from '@/components/ExportDialog'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ToastAction } from '@/components/ui/toast'
+import {
+  AlertCircle, CheckCheck, ChevronDown, Download, ListChecks, Mail, Tag, Trash2, UserPlus,
+} from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface FeedbackBulkActionsProps {
+  target: BulkTarget
+  selectedCount: number
+  users: UserProfile[]
+  /** Called once an action has run, typically to clear the selection */
+  onComplete: () => void
+}
+
+export const FeedbackBulkActions = ({ target, selectedCount, users, onComplete }: FeedbackBulkActionsProps) => {
+  const [pending, setPending] = useState<{ action: BulkAction; label: string } | null>(null)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const { data: tags = [] } = useTags()
+  const { data: issues = [] } = useIssues()
+  const bulkAction = useBulkFeedbackAction()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const { t } = usePreferences()
+
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const runPending = () => {
+    if (!pending) return
+    const { action, label } = pending
+
+    bulkAction.mutate(
+      { target, action },
+      {
+        onSuccess: (result) => {
+          onComplete()
+          const key = action.type === 'delete'
+            ? (result.skipped ? 'bulk.deletedSkipping' : 'bulk.deleted')
+            : (result.skipped ? 'bulk.updatedSkipping' : 'bulk.updated')
+          toast({
+            title: t('bulk.complete'),
+            description: t(key, { action: label, count: result.affected, skipped: result.skipped }),
+            action: (
+              <ToastAction
+                altText={t('bulk.undo')}
+                onClick={() => {
+                  result.undo().then(
+                    () => toast({ title: t('bulk.undone'), description: t('bulk.reverted', { action: label }) }),
+                    showError
+                  )
+                }}
+              >
+                {t('bulk.undo')}
+              </ToastAction>
+            ),
+          })
+        },
+        onError: showError,
+        onSettled: () => setPending(null),
+      }
+    )
+  }
+
+  const confirm = (action: BulkAction, label: string) => setPending({ action, label })
+
+  const exportDialog = (
+    <FeedbackExportDialog
+      open={isExportOpen}
+      onOpenChange={setIsExportOpen}
+      target={target}
+      description={t('bulk.exportDescription', { count: selectedCount })}
+    />
+  )
+
+  // Viewers can take the selection away, but not change it
+  if (!can('manage_feedback')) {
+    return (
+      <>
+        <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)}>
+          <Download className="h-4 w-4 mr-2" />
+          {t('bulk.export')}
+        </Button>
+        {exportDialog}
+      </>
+    )
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => confirm({ type: 'markRead' }, t('bulk.markReadAction'))}>
+          <CheckCheck className="h-4 w-4 mr-2" />
+          {t('bulk.markRead')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => confirm({ type: 'markUnread' }, t('bulk.markUnreadAction'))}>
+          <Mail className="h-4 w-4 mr-2" />
+          {t('bulk.markUnread')}
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              {t('bulk.moreActions')}
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-48">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <ListChecks className="h-4 w-4 mr-2" />
+                {t('bulk.changeStatus')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {FEEDBACK_STATUSES.map((status) => (
+                  <DropdownMenuItem
+                    key={status}
+                    onSelect={() => confirm({ type: 'status', status }, t('bulk.moveTo', { status: t(`feedbackStatus.${status}`) }))}
+                  >
+                    {t(`feedbackStatus.${status}`)}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {t('bulk.assign')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem onSelect={() => confirm({ type: 'assign', assigneeId: null }, t('bulk.unassign'))}>
+                  {t('common.unassigned')}
+                </DropdownMenuItem>
+                {users.map((member) => (
+                  <DropdownMenuItem
+                    key={member.id}
+                    onSelect={() => confirm({ type: 'assign', assigneeId: member.id }, t('bulk.assignTo', { name: member.username }))}
+                  >
+                    {member.username}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger disabled={tags.length === 0}>
+                <Tag className="h-4 w-4 mr-2" />
+                {t('bulk.addTag')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {tags.map((tag) => (
+                  <DropdownMenuItem key={tag.id} onSelect={() => confirm({ type: 'tag', tagId: tag.id }, t('bulk.tagWith', { tag: tag.name }))}>
+                    <span className="h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger disabled={issues.length === 0}>
+                <AlertCircle className="h-4 w-4 mr-2" />
+                {t('bulk.linkToIssue')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {issues.map((issue) => (
+                  <DropdownMenuItem
+                    key={issue.id}
+                    onSelect={() => confirm({ type: 'linkIssue', issueId: issue.id }, t('bulk.linkTo', { issue: issue.issue_title }))}
+                  >
+                    {issue.issue_title}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => setIsExportOpen(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              {t('bulk.export')}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => confirm({ type: 'delete' }, t('bulk.delete'))}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {t('bulk.delete')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && !bulkAction.isPending && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t(pending?.action.type === 'delete' ? 'bulk.confirmDelete' : 'bulk.confirmUpdate', { count: selectedCount })}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('bulk.confirmDescription', { action: pending?.label ?? '', count: selectedCount })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={bulkAction.isPending}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the action settles
+                e.preventDefault()
+                runPending()
+              }}
+              disabled={bulkAction.isPending}
+              className={pending?.action.type === 'delete' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : ''}
+            >
+              {bulkAction.isPending ? t('bulk.applying') : t('bulk.confirm')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {exportDialog}
+    </>
+  )
+}
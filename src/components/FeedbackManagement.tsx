@@ -1,122 +1,134 @@
-import React, { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import React, { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  useAssignFeedback,
+  useChangeFeedbackStatus,
+  useFeedbackPage,
+  useFeedbackStatusEvents,
+  useMarkFeedbackProcessed,
+} from '@/hooks/use-feedbacks'
+import { useFeedbackIssueLinks, useIssues, useLinkFeedbackToIssue, useUnlinkFeedbackFromIssue } from '@/hooks/use-issues'
+import { useFeedbackTags, useTags } from '@/hooks/use-tags'
+import { useSentimentThresholds } from '@/hooks/use-sentiment'
+import { useUsers } from '@/hooks/use-users'
+import { FEEDBACK_STATUSES, getNextStatuses, STATUS_META } from '@/lib/feedback-status'
+import { classifyScore, getSentimentScore, SENTIMENT_META } from '@/lib/sentiment'
+import { toReceivedBounds } from '@/lib/date-range'
+import type {
+  Feedback,
+  FeedbackFilters,
+  FeedbackStatus,
+  FeedbackTag,
+  RatingFilter,
+  StatusFilter,
+  Tag,
+  UserProfile,
+} from '@/lib/repository'
+import { FeedbackTagList, FeedbackTagPicker } from '@/components/FeedbackTags'
+import { FeedbackBulkActions } from '@/components/FeedbackBulkActions'
+import { FeedbackExportDialog } from '@/components/ExportDialog'
+import { DateRangePicker } from '@/components/DateRangePicker'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Textarea } from '@/components/ui/textarea'
-import { Search, Filter, Eye, Star, Mail, Calendar, User, MessageSquare, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Search, Filter, Eye, Star, Mail, Calendar, User, MessageSquare, ChevronLeft, ChevronRight, History, AlertCircle, X, Download } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 
 const ITEMS_PER_PAGE = 10
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
+const UNASSIGNED = 'unassigned'
 
-export const FeedbackManagement = () => {
+interface FeedbackManagementProps {
+  /** `mine` limits the table to feedback assigned to the signed-in user */
+  scope?: 'all' | 'mine'
+}
+
+// Owner filter values are 'all', 'unassigned', 'me' or a user id
+const toAssigneeId = (ownerFilter: string, currentUserId: string | undefined) => {
+  if (ownerFilter === 'all') return undefined
+  if (ownerFilter === UNASSIGNED) return null
+  if (ownerFilter === 'me') return currentUserId
+  return ownerFilter
+}
+
+export const FeedbackManagement = ({ scope = 'all' }: FeedbackManagementProps) => {
   const [searchTerm, setSearchTerm] = useState('')
-  const [ratingFilter, setRatingFilter] = useState('all')
-  const [dateFilter, setDateFilter] = useState('all')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+  const [ownerFilter, setOwnerFilter] = useState('all')
+  const [tagFilter, setTagFilter] = useState('all')
+  const [ratingFilter, setRatingFilter] = useState<RatingFilter>('all')
   const [currentPage, setCurrentPage] = useState(1)
-  const [selectedFeedback, setSelectedFeedback] = useState<any>(null)
+  const [selectedFeedback, setSelectedFeedback] = useState<Feedback | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [selectAllMatching, setSelectAllMatching] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
   const { user } = useAuth()
+  const { resolved: dateRange, setRange } = useDateRange()
+  const { format, t } = usePreferences()
   const { toast } = useToast()
+  const { can } = useWorkspace()
+  const { data: users = [] } = useUsers()
+  const { data: tags = [] } = useTags()
+  const { thresholds: sentimentThresholds } = useSentimentThresholds()
 
-  // Fetch feedbacks with pagination and filters - RLS automatically filters by user_id
-  const { data: feedbackData, isLoading, refetch } = useQuery({
-    queryKey: ['feedbacks', currentPage, searchTerm, ratingFilter, dateFilter],
-    queryFn: async () => {
-      if (!user) throw new Error('User not authenticated')
-
-      let query = supabase
-        .from('feedbacks')
-        .select('*', { count: 'exact' })
-        .order('received_at', { ascending: false }) // Uses idx_feedbacks_received_at index
-
-      // Apply search filter
-      if (searchTerm) {
-        query = query.or(`subject.ilike.%${searchTerm}%,sender_name.ilike.%${searchTerm}%,sender_email.ilike.%${searchTerm}%`)
-      }
-
-      // Apply rating filter
-      if (ratingFilter !== 'all') {
-        if (ratingFilter === '4+') {
-          query = query.gte('average_rating', 4)
-        } else if (ratingFilter === '3+') {
-          query = query.gte('average_rating', 3).lt('average_rating', 4)
-        } else if (ratingFilter === '2+') {
-          query = query.gte('average_rating', 2).lt('average_rating', 3)
-        } else if (ratingFilter === '1+') {
-          query = query.lt('average_rating', 2)
-        }
-      }
-
-      // Apply date filter
-      if (dateFilter !== 'all') {
-        const now = new Date()
-        let startDate = new Date()
-        
-        if (dateFilter === 'today') {
-          startDate.setHours(0, 0, 0, 0)
-        } else if (dateFilter === 'week') {
-          startDate.setDate(now.getDate() - 7)
-        } else if (dateFilter === 'month') {
-          startDate.setMonth(now.getMonth() - 1)
-        }
-        
-        query = query.gte('received_at', startDate.toISOString())
-      }
-
-      // Apply pagination
-      const from = (currentPage - 1) * ITEMS_PER_PAGE
-      const to = from + ITEMS_PER_PAGE - 1
-      query = query.range(from, to)
+  const filters: FeedbackFilters = {
+    search: searchTerm,
+    status: statusFilter,
+    assigneeId: toAssigneeId(scope === 'mine' ? 'me' : ownerFilter, user?.id),
+    tagIds: tagFilter === 'all' ? undefined : [tagFilter],
+    rating: ratingFilter,
+    ...toReceivedBounds(dateRange),
+  }
+  const { data: feedbackData, isLoading } = useFeedbackPage(filters, currentPage, ITEMS_PER_PAGE)
 
-      const { data, error, count } = await query
-      if (error) throw error
-
-      return {
-        feedbacks: data || [],
-        totalCount: count || 0,
-        totalPages: Math.ceil((count || 0) / ITEMS_PER_PAGE)
-      }
-    },
-    enabled: !!user
-  })
+  // A selection or page made under one set of filters does not carry over to
+  // another; page 3 of the old results may not even exist in the new ones
+  useEffect(() => {
+    setSelectedIds([])
+    setSelectAllMatching(false)
+    setCurrentPage(1)
+  }, [searchTerm, statusFilter, ownerFilter, tagFilter, ratingFilter, dateRange, scope])
+  const { data: tagLinks = [] } = useFeedbackTags(feedbackData?.rows.map(f => f.id) ?? [])
+  const markProcessed = useMarkFeedbackProcessed()
 
   const markAsRead = async (feedbackId: string) => {
     try {
-      // Update processed_at timestamp to mark as read
-      const { error } = await supabase
-        .from('feedbacks')
-        .update({ processed_at: new Date().toISOString() })
-        .eq('id', feedbackId)
-
-      if (error) throw error
-
-      await refetch()
+      await markProcessed.mutateAsync(feedbackId)
       toast({
-        title: "Marked as read",
-        description: "Feedback has been marked as read.",
+        title: t('feedback.markedRead'),
+        description: t('feedback.markedReadDescription'),
       })
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: "Error",
+        title: t('common.error'),
         description: error.message,
         variant: "destructive",
       })
     }
   }
 
-  const getSentimentBadge = (rating: number | null) => {
-    if (!rating) return <Badge variant="outline">Not Rated</Badge>
-    
-    if (rating >= 4) return <Badge className="bg-green-100 text-green-800">Positive</Badge>
-    if (rating >= 2.5) return <Badge className="bg-yellow-100 text-yellow-800">Neutral</Badge>
-    return <Badge className="bg-red-100 text-red-800">Negative</Badge>
+  const getSentimentBadge = (feedback: Feedback) => {
+    const score = getSentimentScore(feedback)
+    const sentiment = classifyScore(score, sentimentThresholds)
+    if (sentiment === 'unrated') return <Badge variant="outline">{t('sentiment.unrated')}</Badge>
+    return (
+      <Badge
+        className={SENTIMENT_META[sentiment].badgeClass}
+        title={t('feedback.sentimentScore', { score: format.number(score, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}
+      >
+        {t(`sentiment.${sentiment}`)}
+      </Badge>
+    )
   }
 
   if (isLoading) {
@@ -132,7 +144,35 @@ export const FeedbackManagement = () => {
     )
   }
 
-  const { feedbacks = [], totalCount = 0, totalPages = 0 } = feedbackData || {}
+  const { rows: feedbacks = [], totalCount = 0, totalPages = 0 } = feedbackData || {}
+  // Prefer the refetched row so the dialog reflects changes made from inside it
+  const detailFeedback = feedbacks.find(f => f.id === selectedFeedback?.id) ?? selectedFeedback
+  const isSelected = (feedbackId: string) => selectAllMatching || selectedIds.includes(feedbackId)
+  const pageSelected = feedbacks.length > 0 && feedbacks.every(f => isSelected(f.id))
+  const selectedCount = selectAllMatching ? totalCount : selectedIds.length
+
+  const toggleSelected = (feedbackId: string, checked: boolean) => {
+    if (selectAllMatching) {
+      // Narrowing an "all matching" selection falls back to the rows on screen
+      setSelectAllMatching(false)
+      setSelectedIds(feedbacks.map(f => f.id).filter(id => id !== feedbackId))
+      return
+    }
+    setSelectedIds(prev => checked ? [...prev, feedbackId] : prev.filter(id => id !== feedbackId))
+  }
+
+  const togglePage = (checked: boolean) => {
+    const pageIds = feedbacks.map(f => f.id)
+    setSelectAllMatching(false)
+    setSelectedIds(prev => checked
+      ? Array.from(new Set([...prev, ...pageIds]))
+      : selectAllMatching ? [] : prev.filter(id => !pageIds.includes(id)))
+  }
+
+  const clearSelection = () => {
+    setSelectedIds([])
+    setSelectAllMatching(false)
+  }
 
   return (
     <motion.div
@@ -143,9 +183,13 @@ export const FeedbackManagement = () => {
     >
       {/* Header */}
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">Feedback Management</h1>
+        <h1 className="text-3xl font-bold tracking-tight">
+          {scope === 'mine' ? t('feedback.myQueueTitle') : t('feedback.title')}
+        </h1>
         <p className="text-muted-foreground">
-          Manage and analyze all your feedback in one place
+          {scope === 'mine'
+            ? t('feedback.myQueueSubtitle')
+            : t('feedback.subtitle')}
         </p>
       </div>
 
@@ -154,56 +198,95 @@ export const FeedbackManagement = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Filter className="h-5 w-5" />
-            Filters & Search
+            {t('feedback.filtersTitle')}
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid gap-4 md:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-4 lg:grid-cols-7">
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search feedback..."
+                placeholder={t('feedback.searchPlaceholder')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
               />
             </div>
             
-            <Select value={ratingFilter} onValueChange={setRatingFilter}>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
               <SelectTrigger>
-                <SelectValue placeholder="Filter by rating" />
+                <SelectValue placeholder={t('feedback.filterByStatus')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Ratings</SelectItem>
-                <SelectItem value="4+">4+ Stars</SelectItem>
-                <SelectItem value="3+">3-4 Stars</SelectItem>
-                <SelectItem value="2+">2-3 Stars</SelectItem>
-                <SelectItem value="1+">1-2 Stars</SelectItem>
+                <SelectItem value="open">{t('feedback.openStatuses')}</SelectItem>
+                <SelectItem value="all">{t('feedback.allStatuses')}</SelectItem>
+                {FEEDBACK_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{t(`feedbackStatus.${status}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {scope === 'all' && (
+              <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('feedback.filterByOwner')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('feedback.allOwners')}</SelectItem>
+                  <SelectItem value="me">{t('feedback.assignedToMe')}</SelectItem>
+                  <SelectItem value={UNASSIGNED}>{t('common.unassigned')}</SelectItem>
+                  {users.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>{member.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={tagFilter} onValueChange={setTagFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('feedback.filterByTag')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('common.allTags')}</SelectItem>
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    <div className="flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                      {tag.name}
+                    </div>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            <Select value={dateFilter} onValueChange={setDateFilter}>
+            <Select value={ratingFilter} onValueChange={(value) => setRatingFilter(value as RatingFilter)}>
               <SelectTrigger>
-                <SelectValue placeholder="Filter by date" />
+                <SelectValue placeholder={t('feedback.filterByRating')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Time</SelectItem>
-                <SelectItem value="today">Today</SelectItem>
-                <SelectItem value="week">Last Week</SelectItem>
-                <SelectItem value="month">Last Month</SelectItem>
+                <SelectItem value="all">{t('common.allRatings')}</SelectItem>
+                <SelectItem value="4+">{t('feedback.rating4Plus')}</SelectItem>
+                <SelectItem value="3+">{t('feedback.rating3To4')}</SelectItem>
+                <SelectItem value="2+">{t('feedback.rating2To3')}</SelectItem>
+                <SelectItem value="1+">{t('feedback.rating1To2')}</SelectItem>
               </SelectContent>
             </Select>
 
+            <DateRangePicker />
+
             <Button 
               variant="outline" 
               onClick={() => {
                 setSearchTerm('')
+                setStatusFilter('open')
+                setOwnerFilter('all')
+                setTagFilter('all')
                 setRatingFilter('all')
-                setDateFilter('all')
+                setRange({ preset: 'all' })
                 setCurrentPage(1)
               }}
             >
-              Clear Filters
+              {t('feedback.clearFilters')}
             </Button>
           </div>
         </CardContent>
@@ -212,35 +295,91 @@ export const FeedbackManagement = () => {
       {/* Feedback Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Feedback ({totalCount})</CardTitle>
-          <CardDescription>
-            All your received feedback with detailed information
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>{t('feedback.tableTitle', { count: totalCount })}</CardTitle>
+              <CardDescription>
+                {t('feedback.tableDescription')}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)} disabled={totalCount === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {t('common.export')}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
+          {selectedCount > 0 && (
+            <div className="mb-4 p-3 rounded-lg bg-muted/50 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-medium">
+                  {selectAllMatching
+                    ? t('feedback.allMatchingSelected', { count: totalCount })
+                    : t('feedback.selectedCount', { count: selectedCount })}
+                </span>
+                <div className="flex items-center gap-2">
+                  <FeedbackBulkActions
+                    target={selectAllMatching ? { filters } : { feedbackIds: selectedIds }}
+                    selectedCount={selectedCount}
+                    users={users}
+                    onComplete={clearSelection}
+                  />
+                  <Button variant="ghost" size="sm" onClick={clearSelection}>
+                    {t('feedback.clearSelection')}
+                  </Button>
+                </div>
+              </div>
+              {pageSelected && !selectAllMatching && totalCount > selectedIds.length && (
+                <div className="text-sm text-muted-foreground">
+                  {t('feedback.pageSelected', { count: feedbacks.length })}{' '}
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectAllMatching(true)}>
+                    {t('feedback.selectAllMatching', { count: totalCount })}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Date</TableHead>
-                <TableHead>Sender</TableHead>
-                <TableHead>Subject</TableHead>
-                <TableHead>Rating</TableHead>
-                <TableHead>Sentiment</TableHead>
-                <TableHead>Actions</TableHead>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={pageSelected}
+                    onCheckedChange={(checked) => togglePage(checked === true)}
+                    aria-label={t('feedback.selectPage')}
+                  />
+                </TableHead>
+                <TableHead>{t('feedback.column.date')}</TableHead>
+                <TableHead>{t('common.sender')}</TableHead>
+                <TableHead>{t('common.subject')}</TableHead>
+                <TableHead>{t('common.rating')}</TableHead>
+                <TableHead>{t('feedback.column.sentiment')}</TableHead>
+                <TableHead>{t('common.tags')}</TableHead>
+                <TableHead>{t('feedback.column.status')}</TableHead>
+                <TableHead>{t('feedback.column.assignee')}</TableHead>
+                <TableHead>{t('feedback.column.actions')}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {feedbacks.map((feedback: any) => (
-                <TableRow key={feedback.id}>
+              {feedbacks.map((feedback) => (
+                <TableRow key={feedback.id} data-state={isSelected(feedback.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={isSelected(feedback.id)}
+                      onCheckedChange={(checked) => toggleSelected(feedback.id, checked === true)}
+                      aria-label={t('feedback.selectRow')}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
-                      {new Date(feedback.received_at).toLocaleDateString()}
+                      {format.date(feedback.received_at)}
                     </div>
                   </TableCell>
                   <TableCell>
                     <div>
-                      <div className="font-medium">{feedback.sender_name || 'Anonymous'}</div>
+                      <div className="font-medium">{feedback.sender_name || t('common.anonymous')}</div>
                       <div className="text-sm text-muted-foreground">{feedback.sender_email}</div>
                     </div>
                   </TableCell>
@@ -250,11 +389,23 @@ export const FeedbackManagement = () => {
                   <TableCell>
                     <div className="flex items-center gap-1">
                       <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                      {feedback.average_rating?.toFixed(1) || 'N/A'}
+                      {feedback.average_rating ? format.number(feedback.average_rating, ONE_DECIMAL) : t('common.notAvailable')}
                     </div>
                   </TableCell>
                   <TableCell>
-                    {getSentimentBadge(feedback.average_rating)}
+                    {getSentimentBadge(feedback)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <FeedbackTagList tags={tags} links={tagLinks.filter(link => link.feedback_id === feedback.id)} />
+                      <FeedbackTagPicker feedbacks={[feedback]} links={tagLinks} />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <FeedbackStatusSelect feedback={feedback} />
+                  </TableCell>
+                  <TableCell>
+                    <FeedbackAssigneeSelect feedback={feedback} users={users} />
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
@@ -270,22 +421,24 @@ export const FeedbackManagement = () => {
                         </DialogTrigger>
                         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
                           <DialogHeader>
-                            <DialogTitle>Feedback Details</DialogTitle>
+                            <DialogTitle>{t('feedback.details.title')}</DialogTitle>
                             <DialogDescription>
-                              Complete feedback information and analysis
+                              {t('feedback.details.description')}
                             </DialogDescription>
                           </DialogHeader>
-                          <FeedbackDetailView feedback={selectedFeedback} />
+                          <FeedbackDetailView feedback={detailFeedback} users={users} tags={tags} tagLinks={tagLinks} />
                         </DialogContent>
                       </Dialog>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => markAsRead(feedback.id)}
-                        disabled={!!feedback.processed_at}
-                      >
-                        {feedback.processed_at ? 'Read' : 'Mark Read'}
-                      </Button>
+                      {can('manage_feedback') && (
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => markAsRead(feedback.id)}
+                          disabled={!!feedback.processed_at}
+                        >
+                          {feedback.processed_at ? t('feedback.read') : t('feedback.markRead')}
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -297,28 +450,32 @@ export const FeedbackManagement = () => {
           {totalPages > 1 && (
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-muted-foreground">
-                Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1} to {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} of {totalCount} results
+                {t('feedback.pagination.showing', {
+                  from: ((currentPage - 1) * ITEMS_PER_PAGE) + 1,
+                  to: Math.min(currentPage * ITEMS_PER_PAGE, totalCount),
+                  count: totalCount,
+                })}
               </div>
               <div className="flex items-center gap-2">
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
                   disabled={currentPage === 1}
                 >
                   <ChevronLeft className="h-4 w-4" />
-                  Previous
+                  {t('feedback.pagination.previous')}
                 </Button>
                 <span className="text-sm">
-                  Page {currentPage} of {totalPages}
+                  {t('feedback.pagination.page', { page: currentPage, pages: totalPages })}
                 </span>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                  onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
                   disabled={currentPage === totalPages}
                 >
-                  Next
+                  {t('feedback.pagination.next')}
                   <ChevronRight className="h-4 w-4" />
                 </Button>
               </div>
@@ -326,26 +483,260 @@ export const FeedbackManagement = () => {
           )}
         </CardContent>
       </Card>
+
+      <FeedbackExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        target={{ filters }}
+        description={t('feedback.exportDescription', { count: totalCount })}
+      />
     </motion.div>
   )
 }
 
-const FeedbackDetailView = ({ feedback }: { feedback: any }) => {
+const FeedbackStatusSelect = ({ feedback }: { feedback: Feedback }) => {
+  const changeStatus = useChangeFeedbackStatus()
+  const { t } = usePreferences()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+
+  const handleChange = (status: string) => {
+    changeStatus.mutate(
+      { feedbackId: feedback.id, status: status as FeedbackStatus },
+      {
+        onSuccess: () => {
+          toast({
+            title: t('feedback.statusUpdated'),
+            description: t('feedback.movedTo', { status: t(`feedbackStatus.${status as FeedbackStatus}`) }),
+          })
+        },
+        onError: (error) => {
+          toast({
+            title: t('common.error'),
+            description: error.message,
+            variant: "destructive",
+          })
+        },
+      }
+    )
+  }
+
+  if (!can('manage_feedback')) {
+    return <Badge className={STATUS_META[feedback.status].color}>{t(`feedbackStatus.${feedback.status}`)}</Badge>
+  }
+
+  return (
+    <Select value={feedback.status} onValueChange={handleChange} disabled={changeStatus.isPending}>
+      <SelectTrigger className="h-8 w-[170px]">
+        <SelectValue>
+          <Badge className={STATUS_META[feedback.status].color}>{t(`feedbackStatus.${feedback.status}`)}</Badge>
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={feedback.status} disabled>{t(`feedbackStatus.${feedback.status}`)}</SelectItem>
+        {getNextStatuses(feedback.status).map((status) => (
+          <SelectItem key={status} value={status}>{t(`feedbackStatus.${status}`)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+const FeedbackAssigneeSelect = ({ feedback, users }: { feedback: Feedback; users: UserProfile[] }) => {
+  const assignFeedback = useAssignFeedback()
+  const { t } = usePreferences()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+
+  const handleChange = (value: string) => {
+    const assigneeId = value === UNASSIGNED ? null : value
+    assignFeedback.mutate(
+      { feedbackId: feedback.id, assigneeId },
+      {
+        onSuccess: () => {
+          const assignee = users.find(u => u.id === assigneeId)
+          toast({
+            title: assignee ? t('feedback.assigned') : t('feedback.unassigned'),
+            description: assignee
+              ? t('feedback.assignedTo', { name: assignee.username })
+              : t('feedback.unassignedDescription'),
+          })
+        },
+        onError: (error) => {
+          toast({
+            title: t('common.error'),
+            description: error.message,
+            variant: "destructive",
+          })
+        },
+      }
+    )
+  }
+
+  if (!can('manage_feedback')) {
+    const assignee = users.find(u => u.id === feedback.assignee_id)
+    return <span className="text-sm">{assignee?.username ?? t('common.unassigned')}</span>
+  }
+
+  return (
+    <Select
+      value={feedback.assignee_id ?? UNASSIGNED}
+      onValueChange={handleChange}
+      disabled={assignFeedback.isPending}
+    >
+      <SelectTrigger className="h-8 w-[150px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>{t('common.unassigned')}</SelectItem>
+        {users.map((member) => (
+          <SelectItem key={member.id} value={member.id}>{member.username}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+const FeedbackStatusHistory = ({ feedbackId }: { feedbackId: string }) => {
+  const { data: events = [], isLoading } = useFeedbackStatusEvents(feedbackId)
+  const { format, t } = usePreferences()
+
+  if (isLoading) {
+    return <div className="h-12 bg-gray-200 rounded animate-pulse"></div>
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('feedback.noStatusChanges')}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.map((event) => (
+        <div key={event.id} className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            {event.from_status && (
+              <>
+                <Badge variant="outline">{t(`feedbackStatus.${event.from_status}`)}</Badge>
+                <span className="text-muted-foreground">→</span>
+              </>
+            )}
+            <Badge className={STATUS_META[event.to_status].color}>{t(`feedbackStatus.${event.to_status}`)}</Badge>
+          </div>
+          <span className="text-muted-foreground">
+            {event.changed_by_name || t('common.unknown')} · {format.dateTime(event.changed_at)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const FeedbackIssueLinks = ({ feedbackId }: { feedbackId: string }) => {
+  const { data: issues = [] } = useIssues()
+  const { data: links = [] } = useFeedbackIssueLinks([feedbackId])
+  const linkFeedback = useLinkFeedbackToIssue()
+  const unlinkFeedback = useUnlinkFeedbackFromIssue()
+  const { t } = usePreferences()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const canEdit = can('manage_feedback')
+
+  const linkedIssues = issues.filter(issue => links.some(link => link.issue_id === issue.id))
+  const otherIssues = issues.filter(issue => !linkedIssues.includes(issue))
+
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const handleLink = (issueId: string) => {
+    linkFeedback.mutate({ issueId, feedbackIds: [feedbackId] }, {
+      onSuccess: () => {
+        toast({
+          title: t('feedback.issueLinked'),
+          description: t('feedback.linkedTo', { issue: issues.find(i => i.id === issueId)?.issue_title }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleUnlink = (issueId: string) => {
+    unlinkFeedback.mutate({ issueId, feedbackIds: [feedbackId] }, {
+      onSuccess: () => {
+        toast({
+          title: t('feedback.issueUnlinked'),
+          description: t('feedback.removedFrom', { issue: issues.find(i => i.id === issueId)?.issue_title }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {linkedIssues.length === 0 && <span className="text-sm text-muted-foreground">{t('feedback.noLinkedIssues')}</span>}
+      {linkedIssues.map((issue) => (
+        <Badge key={issue.id} variant="secondary" className="flex items-center gap-1">
+          {issue.issue_title}
+          {canEdit && (
+            <button
+              type="button"
+              aria-label={t('feedback.unlinkIssue', { issue: issue.issue_title })}
+              onClick={() => handleUnlink(issue.id)}
+              disabled={unlinkFeedback.isPending}
+              className="ml-1 rounded-full hover:bg-muted-foreground/20"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+      {canEdit && otherIssues.length > 0 && (
+        <Select value="" onValueChange={handleLink} disabled={linkFeedback.isPending}>
+          <SelectTrigger className="h-8 w-[180px]">
+            <SelectValue placeholder={t('feedback.linkToIssue')} />
+          </SelectTrigger>
+          <SelectContent>
+            {otherIssues.map((issue) => (
+              <SelectItem key={issue.id} value={issue.id}>{issue.issue_title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
+
+interface FeedbackDetailViewProps {
+  feedback: Feedback | null
+  users: UserProfile[]
+  tags: Tag[]
+  tagLinks: FeedbackTag[]
+}
+
+const FeedbackDetailView = ({ feedback, users, tags, tagLinks }: FeedbackDetailViewProps) => {
+  const { format, t } = usePreferences()
   if (!feedback) return null
 
+  const links = tagLinks.filter(link => link.feedback_id === feedback.id)
+
   return (
     <div className="space-y-6">
       {/* Header Info */}
       <div className="grid grid-cols-2 gap-4">
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">Sender Information</CardTitle>
+            <CardTitle className="text-base">{t('feedback.details.sender')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <User className="h-4 w-4" />
-                <span className="font-medium">{feedback.sender_name || 'Anonymous'}</span>
+                <span className="font-medium">{feedback.sender_name || t('common.anonymous')}</span>
               </div>
               <div className="flex items-center gap-2">
                 <Mail className="h-4 w-4" />
@@ -354,7 +745,7 @@ const FeedbackDetailView = ({ feedback }: { feedback: any }) => {
               <div className="flex items-center gap-2">
                 <Calendar className="h-4 w-4" />
                 <span className="text-sm text-muted-foreground">
-                  {new Date(feedback.received_at).toLocaleString()}
+                  {format.dateTime(feedback.received_at)}
                 </span>
               </div>
             </div>
@@ -363,22 +754,35 @@ const FeedbackDetailView = ({ feedback }: { feedback: any }) => {
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">Analysis</CardTitle>
+            <CardTitle className="text-base">{t('feedback.details.analysis')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                 <span className="font-medium">
-                  {feedback.average_rating?.toFixed(1) || 'Not rated'} / 5.0
+                  {feedback.average_rating ? format.number(feedback.average_rating, ONE_DECIMAL) : t('feedback.details.notRated')} / {format.number(5, ONE_DECIMAL)}
                 </span>
               </div>
+              {(feedback.nps_score !== null || feedback.csat_score !== null || feedback.ces_score !== null) && (
+                <div className="flex flex-wrap gap-2">
+                  {feedback.nps_score !== null && <Badge variant="outline">NPS {feedback.nps_score} / 10</Badge>}
+                  {feedback.csat_score !== null && <Badge variant="outline">CSAT {feedback.csat_score} / 5</Badge>}
+                  {feedback.ces_score !== null && <Badge variant="outline">CES {feedback.ces_score} / 7</Badge>}
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <MessageSquare className="h-4 w-4" />
                 <span className="text-sm text-muted-foreground">
-                  Processed: {feedback.processed_at ? new Date(feedback.processed_at).toLocaleString() : 'Pending'}
+                  {feedback.processed_at
+                    ? t('feedback.details.processed', { date: format.dateTime(feedback.processed_at) })
+                    : t('feedback.details.processingPending')}
                 </span>
               </div>
+              <div className="flex items-center gap-2">
+                <FeedbackStatusSelect feedback={feedback} />
+                <FeedbackAssigneeSelect feedback={feedback} users={users} />
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -387,10 +791,38 @@ const FeedbackDetailView = ({ feedback }: { feedback: any }) => {
       {/* Subject */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-base">Subject</CardTitle>
+          <CardTitle className="text-base">{t('common.subject')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm">{feedback.subject || t('feedback.details.noSubject')}</p>
+        </CardContent>
+      </Card>
+
+      {/* Tags */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">{t('common.tags')}</CardTitle>
+          <CardDescription>{t('feedback.details.tagsDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
-          <p className="text-sm">{feedback.subject || 'No subject'}</p>
+          <div className="flex items-center gap-2">
+            <FeedbackTagList tags={tags} links={links} />
+            {links.length === 0 && <span className="text-sm text-muted-foreground">{t('feedback.details.noTags')}</span>}
+            <FeedbackTagPicker feedbacks={[feedback]} links={tagLinks} triggerLabel={t('feedback.details.editTags')} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Linked Issues */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {t('feedback.details.linkedIssues')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FeedbackIssueLinks feedbackId={feedback.id} />
         </CardContent>
       </Card>
 
@@ -398,7 +830,7 @@ const FeedbackDetailView = ({ feedback }: { feedback: any }) => {
       {feedback.feedback_summary && (
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">AI Summary</CardTitle>
+            <CardTitle className="text-base">{t('feedback.details.summary')}</CardTitle>
           </CardHeader>
           <CardContent>
             <p className="text-sm">{feedback.feedback_summary}</p>
@@ -406,11 +838,24 @@ const FeedbackDetailView = ({ feedback }: { feedback: any }) => {
         </Card>
       )}
 
+      {/* Status History */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            {t('feedback.details.statusHistory')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FeedbackStatusHistory feedbackId={feedback.id} />
+        </CardContent>
+      </Card>
+
       {/* Raw JSON */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-base">Raw Email Data</CardTitle>
-          <CardDescription>Complete email information from the webhook</CardDescription>
+          <CardTitle className="text-base">{t('feedback.details.rawData')}</CardTitle>
+          <CardDescription>{t('feedback.details.rawDataDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <pre className="text-xs bg-gray-50 p-4 rounded-lg overflow-auto max-h-60">
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useTagFeedbacks, useTags, useUntagFeedbacks } from '@/hooks/use-tags'
+import { getTagTextColor, suggestTags } from '@/lib/tagging'
+import type { Feedback, FeedbackTag, Tag } from '@/lib/repository'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command'
+import { Check, Minus, Sparkles, Tag as TagIcon } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+export const TagBadge = ({ tag, className = '' }: { tag: Pick<Tag, 'name' | 'color'>; className?: string }) => (
+  <Badge
+    className={`border-transparent hover:opacity-90 ${className}`}
+    style={{ backgroundColor: tag.color, color: getTagTextColor(tag.color) }}
+  >
+    {tag.name}
+  </Badge>
+)
+
+/** Tags applied to one feedback, resolved from its links */
+export const FeedbackTagList = ({ tags, links, className = '' }: { tags: Tag[]; links: FeedbackTag[]; className?: string }) => {
+  const applied = tags.filter(tag => links.some(link => link.tag_id === tag.id))
+  if (applied.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {applied.map((tag) => (
+        <TagBadge key={tag.id} tag={tag} />
+      ))}
+    </div>
+  )
+}
+
+interface FeedbackTagPickerProps {
+  /** One feedback for row-level tagging, several for bulk tagging */
+  feedbacks: Feedback[]
+  links: FeedbackTag[]
+  triggerLabel?: string
+}
+
+export const FeedbackTagPicker = ({ feedbacks, links, triggerLabel }: FeedbackTagPickerProps) => {
+  const [open, setOpen] = useState(false)
+  const { data: tags = [] } = useTags()
+  const tagFeedbacks = useTagFeedbacks()
+  const untagFeedbacks = useUntagFeedbacks()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const { t } = usePreferences()
+
+  const feedbackIds = feedbacks.map(f => f.id)
+  const isPending = tagFeedbacks.isPending || untagFeedbacks.isPending
+
+  // How many of the feedbacks carry each tag
+  const appliedCounts: Record<string, number> = {}
+  links.forEach(link => {
+    if (feedbackIds.includes(link.feedback_id)) appliedCounts[link.tag_id] = (appliedCounts[link.tag_id] ?? 0) + 1
+  })
+
+  const suggested = useMemo(() => {
+    const ids = new Set<string>()
+    feedbacks.forEach(feedback => {
+      const applied = links.filter(link => link.feedback_id === feedback.id).map(link => link.tag_id)
+      suggestTags(feedback, tags, applied).forEach(tag => ids.add(tag.id))
+    })
+    return tags.filter(tag => ids.has(tag.id))
+  }, [feedbacks, links, tags])
+
+  const toggleTag = (tag: Tag) => {
+    const appliedToAll = appliedCounts[tag.id] === feedbackIds.length
+    const count = feedbackIds.length
+    const options = {
+      onSuccess: () => {
+        toast({
+          title: appliedToAll ? t('tags.removed') : t('tags.applied'),
+          description: t(appliedToAll ? 'tags.removedDescription' : 'tags.appliedDescription', { tag: tag.name, count }),
+        })
+      },
+      onError: (error: Error) => {
+        toast({
+          title: t('common.error'),
+          description: error.message,
+          variant: "destructive",
+        })
+      },
+    }
+
+    if (appliedToAll) {
+      untagFeedbacks.mutate({ tagId: tag.id, feedbackIds }, options)
+    } else {
+      tagFeedbacks.mutate({ tagId: tag.id, feedbackIds }, options)
+    }
+  }
+
+  const renderItem = (tag: Tag) => {
+    const count = appliedCounts[tag.id] ?? 0
+    return (
+      <CommandItem key={tag.id} value={tag.name} onSelect={() => toggleTag(tag)} disabled={isPending}>
+        <div className="mr-2 flex h-4 w-4 items-center justify-center">
+          {count === feedbackIds.length ? <Check className="h-4 w-4" /> : count > 0 ? <Minus className="h-4 w-4" /> : null}
+        </div>
+        <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+        {tag.name}
+      </CommandItem>
+    )
+  }
+
+  if (!can('manage_feedback')) return null
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={feedbackIds.length === 0}>
+          <TagIcon className="h-4 w-4" />
+          {triggerLabel && <span className="ml-2">{triggerLabel}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder={t('tags.find')} />
+          <CommandList>
+            <CommandEmpty>{t('tags.noneFound')}</CommandEmpty>
+            {suggested.length > 0 && (
+              <>
+                <CommandGroup heading={<span className="flex items-center gap-1"><Sparkles className="h-3 w-3" />{t('tags.suggested')}</span>}>
+                  {suggested.map(renderItem)}
+                </CommandGroup>
+                <CommandSeparator />
+              </>
+            )}
+            <CommandGroup heading={t('tags.all')}>
+              {tags.filter(tag => !suggested.includes(tag)).map(renderItem)}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
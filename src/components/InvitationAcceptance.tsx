@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useNavigate, useParams } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, Loader2, Mail, Users } from 'lucide-react'
+import { AuthModal } from '@/components/AuthModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useAcceptInvitation, useInvitation } from '@/hooks/use-invitations'
+import { useToast } from '@/hooks/use-toast'
+import type { MessageKey } from '@/lib/i18n'
+import type { InvitationStatus } from '@/lib/invitations'
+
+const CLOSED_MESSAGES: Record<Exclude<InvitationStatus, 'pending'> | 'invalid', { title: MessageKey; description: MessageKey }> = {
+  invalid: { title: 'invitation.invalid.title', description: 'invitation.invalid.description' },
+  expired: { title: 'invitation.expired.title', description: 'invitation.expired.description' },
+  revoked: { title: 'invitation.revoked.title', description: 'invitation.revoked.description' },
+  accepted: { title: 'invitation.accepted.title', description: 'invitation.accepted.description' },
+}
+
+/**
+ * Where invitation emails link to. Works signed out: new teammates create an
+ * account (or sign in) with the invited address here, then accept.
+ */
+export const InvitationAcceptance = () => {
+  const { token = '' } = useParams()
+  const navigate = useNavigate()
+  const { toast } = useToast()
+  const { t, format } = usePreferences()
+  const { user, loading: authLoading, signOut } = useAuth()
+  const { switchWorkspace } = useWorkspace()
+  const { data: invitation, isLoading } = useInvitation(token)
+  const acceptInvitation = useAcceptInvitation()
+  const [authMode, setAuthMode] = useState<'login' | 'register' | null>(null)
+
+  const status = invitation ? (invitation.status as InvitationStatus) : 'invalid'
+  const roleLabel = invitation ? t(`nav.workspace.role.${invitation.role}`) : ''
+  const signedInElsewhere = !!user && !!invitation && user.email?.toLowerCase() !== invitation.email.toLowerCase()
+
+  const handleAccept = () => {
+    acceptInvitation.mutate(token, {
+      onSuccess: (workspaceId) => {
+        switchWorkspace(workspaceId)
+        toast({
+          title: t('invitation.joined', { workspace: invitation.workspace_name }),
+          description: t('invitation.joinedDescription', { role: roleLabel.toLowerCase() }),
+        })
+        navigate('/dashboard')
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
+    })
+  }
+
+  if (isLoading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          <p className="text-muted-foreground animate-pulse">{t('invitation.loading')}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="w-full max-w-md"
+      >
+        {status !== 'pending' ? (
+          <Card>
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-2 h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+                <AlertCircle className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <CardTitle>{t(CLOSED_MESSAGES[status].title)}</CardTitle>
+              <CardDescription>{t(CLOSED_MESSAGES[status].description)}</CardDescription>
+            </CardHeader>
+            <CardFooter className="justify-center">
+              <Button onClick={() => navigate(user ? '/dashboard' : '/')}>{t('invitation.home')}</Button>
+            </CardFooter>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-2 h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                <Users className="h-6 w-6 text-primary" />
+              </div>
+              <CardTitle>{t('invitation.title', { workspace: invitation.workspace_name })}</CardTitle>
+              <CardDescription>
+                {t('invitation.invitedBy', {
+                  name: invitation.invited_by_name ?? t('invitation.teammate'),
+                  workspace: invitation.workspace_name,
+                  role: roleLabel.toLowerCase(),
+                })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Mail className="h-4 w-4 shrink-0" />
+                {t('invitation.sentTo', { email: invitation.email, date: format.dateTime(invitation.expires_at) })}
+              </div>
+              {!user && <p className="text-sm">{t('invitation.signUpHint')}</p>}
+              {signedInElsewhere && (
+                <Alert variant="destructive">
+                  <AlertDescription>{t('invitation.wrongAccount', { email: user.email })}</AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+            <CardFooter className="flex gap-2">
+              {!user && (
+                <>
+                  <Button className="flex-1" onClick={() => setAuthMode('register')}>
+                    {t('auth.createAccount')}
+                  </Button>
+                  <Button variant="outline" className="flex-1" onClick={() => setAuthMode('login')}>
+                    {t('auth.signIn')}
+                  </Button>
+                </>
+              )}
+              {signedInElsewhere && (
+                <Button variant="outline" className="flex-1" onClick={signOut}>
+                  {t('dashboard.signOut')}
+                </Button>
+              )}
+              {user && !signedInElsewhere && (
+                <Button className="flex-1" onClick={handleAccept} disabled={acceptInvitation.isPending}>
+                  {acceptInvitation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t('invitation.accept')}
+                </Button>
+              )}
+            </CardFooter>
+          </Card>
+        )}
+      </motion.div>
+
+      {invitation && (
+        <AuthModal
+          isOpen={authMode !== null}
+          onClose={() => setAuthMode(null)}
+          mode={authMode ?? 'register'}
+          onModeChange={setAuthMode}
+          defaultEmail={invitation.email}
+          redirectTo={window.location.href}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import React, { useState } from 'react'
+import {
+  useAcceptClusterProposal,
+  useClusterProposals,
+  useDismissClusterProposal,
+  useMergeClusterProposal,
+} from '@/hooks/use-clustering'
+import { isIssueOpen } from '@/lib/issue-lifecycle'
+import type { ClusterProposal, Issue } from '@/lib/repository'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Check, GitMerge, Sparkles, X } from 'lucide-react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useToast } from '@/hooks/use-toast'
+
+const INITIAL_VISIBLE = 5
+
+const ProposalRow = ({ proposal, openIssues }: { proposal: ClusterProposal; openIssues: Issue[] }) => {
+  const [title, setTitle] = useState(proposal.suggestedTitle)
+  const [mergeTarget, setMergeTarget] = useState(proposal.similarIssue?.issue.id ?? '')
+  const acceptProposal = useAcceptClusterProposal()
+  const mergeProposal = useMergeClusterProposal()
+  const dismissProposal = useDismissClusterProposal()
+  const { toast } = useToast()
+  const { t, format } = usePreferences()
+
+  const isBusy = acceptProposal.isPending || mergeProposal.isPending || dismissProposal.isPending
+
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const handleAccept = () => {
+    if (!title.trim()) return
+    acceptProposal.mutate({ title: title.trim(), feedbackIds: proposal.feedbackIds }, {
+      onSuccess: (issue) => {
+        toast({
+          title: t('issues.created'),
+          description: t('issues.proposals.createdDescription', { issue: issue.issue_title, count: proposal.feedbackIds.length }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleMerge = () => {
+    const issue = openIssues.find(i => i.id === mergeTarget)
+    if (!issue) return
+    mergeProposal.mutate({ issueId: issue.id, feedbackIds: proposal.feedbackIds }, {
+      onSuccess: (linked) => {
+        toast({
+          title: t('issues.proposals.merged'),
+          description: t('issues.proposals.mergedDescription', { issue: issue.issue_title, count: linked.length }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleDismiss = () => {
+    dismissProposal.mutate(proposal.feedbackIds, {
+      onSuccess: () => {
+        toast({
+          title: t('issues.proposals.dismissed'),
+          description: t('issues.proposals.dismissedDescription'),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="secondary">{t('issues.proposals.feedbackCount', { count: proposal.feedbackIds.length })}</Badge>
+        {proposal.terms.map((term) => (
+          <Badge key={term} variant="outline">{term}</Badge>
+        ))}
+        {proposal.similarIssue && (
+          <span className="text-xs text-muted-foreground">
+            {t('issues.proposals.similarTo', {
+              issue: proposal.similarIssue.issue.issue_title,
+              match: format.number(proposal.similarIssue.similarity, { style: 'percent' }),
+            })}
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {proposal.examples.map((feedback) => (
+          <li key={feedback.id} className="text-muted-foreground line-clamp-1">
+            <span className="font-medium text-foreground">{feedback.subject || t('feedback.details.noSubject')}</span>
+            {feedback.feedback_summary && ` — ${feedback.feedback_summary}`}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t('issues.proposals.titlePlaceholder')}
+          className="md:flex-1"
+          aria-label={t('issues.proposals.titleLabel')}
+        />
+        <Button size="sm" onClick={handleAccept} disabled={isBusy || !title.trim()}>
+          <Check className="h-4 w-4 mr-1" />
+          {t('issues.create.submit')}
+        </Button>
+        <Select value={mergeTarget} onValueChange={setMergeTarget}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue placeholder={t('issues.proposals.mergeInto')} />
+          </SelectTrigger>
+          <SelectContent>
+            {openIssues.map((issue) => (
+              <SelectItem key={issue.id} value={issue.id}>{issue.issue_title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={handleMerge} disabled={isBusy || !mergeTarget}>
+          <GitMerge className="h-4 w-4 mr-1" />
+          {t('issues.proposals.merge')}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleDismiss} disabled={isBusy}>
+          <X className="h-4 w-4 mr-1" />
+          {t('issues.proposals.dismiss')}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export const IssueClusterProposals = ({ issues }: { issues: Issue[] }) => {
+  const [showAll, setShowAll] = useState(false)
+  const { t } = usePreferences()
+  const { data: proposals = [], isLoading } = useClusterProposals()
+
+  if (isLoading || proposals.length === 0) return null
+
+  const visible = showAll ? proposals : proposals.slice(0, INITIAL_VISIBLE)
+  const openIssues = issues.filter(isIssueOpen)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          {t('issues.proposals.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('issues.proposals.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {visible.map((proposal) => (
+          <ProposalRow key={proposal.key} proposal={proposal} openIssues={openIssues} />
+        ))}
+        {proposals.length > INITIAL_VISIBLE && (
+          <Button variant="link" className="px-0" onClick={() => setShowAll(!showAll)}>
+            {showAll ? t('issues.proposals.showFewer') : t('issues.proposals.showMore', { count: proposals.length - INITIAL_VISIBLE })}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useIssueEvents, useUpdateIssue } from '@/hooks/use-issues'
+import { useUsers } from '@/hooks/use-users'
+import type { Formatter } from '@/lib/format'
+import type { MessageKey, Translate } from '@/lib/i18n'
+import {
+  getDerivedPriority,
+  ISSUE_PRIORITIES,
+  ISSUE_STATUSES,
+} from '@/lib/issue-lifecycle'
+import type { Issue, IssueEvent, IssuePriority, IssueStatus, UserProfile } from '@/lib/repository'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { History } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+const AUTO_PRIORITY = 'auto'
+const UNASSIGNED = 'unassigned'
+
+const FIELD_LABELS: Record<string, MessageKey> = {
+  issue_title: 'issues.field.title',
+  description: 'issues.field.description',
+  status: 'issues.field.status',
+  priority_override: 'issues.field.priority',
+  assignee_id: 'issues.field.assignee',
+  due_date: 'issues.field.dueDate',
+}
+
+// History stores raw column values; show them the way the form does
+const formatEventValue = (
+  event: IssueEvent,
+  value: string | null,
+  users: UserProfile[],
+  { format, t }: { format: Formatter; t: Translate }
+) => {
+  if (value === null || value === '') {
+    if (event.field === 'priority_override') return t('issues.history.automatic')
+    if (event.field === 'assignee_id') return t('common.unassigned')
+    return t('issues.history.none')
+  }
+  if (event.field === 'status' && ISSUE_STATUSES.includes(value as IssueStatus)) return t(`issueStatus.${value as IssueStatus}`)
+  if (event.field === 'priority_override' && ISSUE_PRIORITIES.includes(value as IssuePriority)) {
+    return t(`issuePriority.${value as IssuePriority}`)
+  }
+  if (event.field === 'assignee_id') return users.find(u => u.id === value)?.username ?? t('issues.history.formerMember')
+  if (event.field === 'due_date') return format.day(value)
+  return value
+}
+
+const IssueHistory = ({ issueId, users }: { issueId: string; users: UserProfile[] }) => {
+  const { data: events = [], isLoading } = useIssueEvents(issueId)
+  const preferences = usePreferences()
+  const { t, format } = preferences
+
+  if (isLoading) {
+    return <div className="h-12 bg-gray-200 rounded animate-pulse"></div>
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('issues.history.empty')}</p>
+  }
+
+  return (
+    <div className="space-y-2 max-h-48 overflow-y-auto">
+      {events.map((event) => (
+        <div key={event.id} className="flex items-start justify-between gap-4 text-sm">
+          <div>
+            <span className="font-medium">{FIELD_LABELS[event.field] ? t(FIELD_LABELS[event.field]) : event.field}</span>
+            {event.field === 'description' ? (
+              <span className="text-muted-foreground"> {t('issues.history.updated')}</span>
+            ) : (
+              <span className="text-muted-foreground">
+                {' '}{formatEventValue(event, event.from_value, users, preferences)} → {formatEventValue(event, event.to_value, users, preferences)}
+              </span>
+            )}
+          </div>
+          <span className="text-muted-foreground whitespace-nowrap">
+            {event.changed_by_name || t('common.unknown')} · {format.dateTime(event.changed_at)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface IssueEditDialogProps {
+  issue: Issue | null
+  linkedCount: number
+  onOpenChange: (open: boolean) => void
+}
+
+export const IssueEditDialog = ({ issue, linkedCount, onOpenChange }: IssueEditDialogProps) => {
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [status, setStatus] = useState<IssueStatus>('open')
+  const [priority, setPriority] = useState<string>(AUTO_PRIORITY)
+  const [assigneeId, setAssigneeId] = useState<string>(UNASSIGNED)
+  const [dueDate, setDueDate] = useState('')
+  const { data: users = [] } = useUsers()
+  const updateIssue = useUpdateIssue()
+  const { toast } = useToast()
+  const { t } = usePreferences()
+
+  // Reload the form whenever another issue is opened
+  useEffect(() => {
+    if (!issue) return
+    setTitle(issue.issue_title)
+    setDescription(issue.description ?? '')
+    setStatus(issue.status)
+    setPriority(issue.priority_override ?? AUTO_PRIORITY)
+    setAssigneeId(issue.assignee_id ?? UNASSIGNED)
+    setDueDate(issue.due_date ?? '')
+  }, [issue])
+
+  const handleSave = () => {
+    if (!issue || !title.trim()) return
+
+    updateIssue.mutate(
+      {
+        issueId: issue.id,
+        changes: {
+          issue_title: title.trim(),
+          description: description.trim() || null,
+          status,
+          priority_override: priority === AUTO_PRIORITY ? null : (priority as IssuePriority),
+          assignee_id: assigneeId === UNASSIGNED ? null : assigneeId,
+          due_date: dueDate || null,
+        },
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: t('issues.updated'),
+            description: t('issues.updatedDescription'),
+          })
+          onOpenChange(false)
+        },
+        onError: (error) => {
+          toast({
+            title: t('common.error'),
+            description: error.message,
+            variant: "destructive",
+          })
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={!!issue} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('issues.editDialog.title')}</DialogTitle>
+          <DialogDescription>
+            {t('issues.editDialog.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-issue-title">{t('issues.field.title')}</Label>
+            <Input id="edit-issue-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-issue-description">{t('issues.field.description')}</Label>
+            <Textarea
+              id="edit-issue-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder={t('issues.editDialog.descriptionPlaceholder')}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('issues.field.status')}</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as IssueStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ISSUE_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>{t(`issueStatus.${value}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('issues.field.priority')}</Label>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_PRIORITY}>
+                    {t('issues.editDialog.automaticPriority', {
+                      priority: t(`issuePriority.${getDerivedPriority(linkedCount)}`),
+                      count: linkedCount,
+                    })}
+                  </SelectItem>
+                  {ISSUE_PRIORITIES.map((value) => (
+                    <SelectItem key={value} value={value}>{t(`issuePriority.${value}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('issues.field.assignee')}</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>{t('common.unassigned')}</SelectItem>
+                  {users.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>{member.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-issue-due">{t('issues.field.dueDate')}</Label>
+              <Input id="edit-issue-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={!title.trim() || updateIssue.isPending}>
+              {t('issues.editDialog.save')}
+            </Button>
+          </div>
+        </div>
+
+        {issue && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <History className="h-4 w-4" />
+                {t('issues.history.title')}
+              </div>
+              <IssueHistory issueId={issue.id} users={users} />
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,158 +1,137 @@
-import React, { useState } from 'react'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import React, { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useCreateIssue, useDeleteIssue, useIssueFeedbackCounts, useIssues } from '@/hooks/use-issues'
+import { useUsers } from '@/hooks/use-users'
+import {
+  getAverageResolutionDays,
+  getIssuePriority,
+  isIssueOpen,
+  isIssueOverdue,
+  ISSUE_PRIORITIES,
+  ISSUE_STATUS_META,
+  ISSUE_STATUSES,
+  PRIORITY_META,
+} from '@/lib/issue-lifecycle'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { AlertCircle, Plus, Trash2, Edit, Clock, CheckCircle, XCircle, TrendingUp } from 'lucide-react'
+import { AlertCircle, Plus, Trash2, Edit, Clock, CheckCircle, XCircle, TrendingUp, User, CalendarDays, Filter, Download } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { RelatedFeedbackDialog } from '@/components/RelatedFeedbackDialog'
+import { IssueEditDialog } from '@/components/IssueEditDialog'
+import { IssueClusterProposals } from '@/components/IssueClusterProposals'
+import { ExportDialog } from '@/components/ExportDialog'
+import { issueExportColumns } from '@/lib/export'
+import type { Issue, IssuePriority, IssueStatus } from '@/lib/repository'
+
+type IssueSortKey = 'created' | 'due' | 'priority' | 'feedback' | 'status'
+
+const UNASSIGNED = 'unassigned'
 
 export const IssuesTracking = () => {
+  const { format, t } = usePreferences()
   const [newIssueTitle, setNewIssueTitle] = useState('')
+  const [newIssueDescription, setNewIssueDescription] = useState('')
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [relatedIssue, setRelatedIssue] = useState<Issue | null>(null)
+  const [editingIssue, setEditingIssue] = useState<Issue | null>(null)
+  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | IssueStatus>('active')
+  const [priorityFilter, setPriorityFilter] = useState<'all' | IssuePriority>('all')
+  const [assigneeFilter, setAssigneeFilter] = useState('all')
+  const [sortBy, setSortBy] = useState<IssueSortKey>('priority')
   const { user } = useAuth()
   const { toast } = useToast()
-  const queryClient = useQueryClient()
-
-  // Fetch issues - RLS automatically filters by username matching user
-  const { data: issues = [], isLoading } = useQuery({
-    queryKey: ['current_issues'],
-    queryFn: async () => {
-      if (!user) throw new Error('User not authenticated')
-
-      const { data, error } = await supabase
-        .from('current_issues')
-        .select('*')
-        .order('created_at', { ascending: false }) // Uses idx_current_issues_username for efficient filtering
-      
-      if (error) throw error
-      return data || []
-    },
-    enabled: !!user
-  })
-
-  // Fetch related feedback for each issue - RLS automatically filters by user_id
-  const { data: feedbackCounts = {} } = useQuery({
-    queryKey: ['issue-feedback-counts'],
-    queryFn: async () => {
-      if (!user) throw new Error('User not authenticated')
-
-      const { data: feedbacks, error } = await supabase
-        .from('feedbacks')
-        .select('feedback_summary')
-      
-      if (error) throw error
-      
-      // Count feedback related to each issue (simplified matching)
-      const counts: Record<string, number> = {}
-      issues.forEach(issue => {
-        counts[issue.id] = feedbacks?.filter(f => 
-          f.feedback_summary?.toLowerCase().includes(issue.issue_title.toLowerCase())
-        ).length || 0
-      })
-      
-      return counts
-    },
-    enabled: issues.length > 0 && !!user
-  })
+  const { can } = useWorkspace()
+  const canEdit = can('manage_feedback')
 
-  // Create issue mutation
-  const createIssueMutation = useMutation({
-    mutationFn: async (title: string) => {
-      if (!user) throw new Error('User not authenticated')
+  const { data: issues = [], isLoading } = useIssues()
+  const { data: feedbackCounts = {} } = useIssueFeedbackCounts(issues)
+  const { data: users = [] } = useUsers()
 
-      // Get user's username from the users table
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('username')
-        .eq('id', user.id)
-        .single()
+  const createIssueMutation = useCreateIssue()
+  const deleteIssueMutation = useDeleteIssue()
 
-      if (userError) throw userError
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
+    })
+  }
 
-      const { data, error } = await supabase
-        .from('current_issues')
-        .insert({
-          username: userData.username,
-          issue_title: title
+  const handleCreateIssue = () => {
+    if (!newIssueTitle.trim()) return
+    createIssueMutation.mutate({
+      title: newIssueTitle.trim(),
+      details: { description: newIssueDescription.trim() || null },
+    }, {
+      onSuccess: () => {
+        setNewIssueTitle('')
+        setNewIssueDescription('')
+        setIsCreateDialogOpen(false)
+        toast({
+          title: t('issues.created'),
+          description: t('issues.createdDescription'),
         })
-        .select()
-        .single()
+      },
+      onError: showError,
+    })
+  }
 
-      if (error) throw error
-      return data
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['current_issues'] })
-      setNewIssueTitle('')
-      setIsCreateDialogOpen(false)
-      toast({
-        title: "Issue created",
-        description: "New issue has been added to tracking.",
-      })
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
+  const handleDeleteIssue = (issueId: string) => {
+    if (confirm(t('issues.deleteConfirm'))) {
+      deleteIssueMutation.mutate(issueId, {
+        onSuccess: () => {
+          toast({
+            title: t('issues.deleted'),
+            description: t('issues.deletedDescription'),
+          })
+        },
+        onError: showError,
       })
     }
-  })
+  }
 
-  // Delete issue mutation
-  const deleteIssueMutation = useMutation({
-    mutationFn: async (issueId: string) => {
-      const { error } = await supabase
-        .from('current_issues')
-        .delete()
-        .eq('id', issueId)
+  const priorityOf = (issue: Issue) => getIssuePriority(issue, feedbackCounts[issue.id] || 0)
 
-      if (error) throw error
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['current_issues'] })
-      toast({
-        title: "Issue deleted",
-        description: "Issue has been removed from tracking.",
-      })
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      })
-    }
-  })
+  const visibleIssues = useMemo(() => {
+    const filtered = issues.filter(issue => {
+      if (statusFilter === 'active' && !isIssueOpen(issue)) return false
+      if (statusFilter !== 'all' && statusFilter !== 'active' && issue.status !== statusFilter) return false
+      if (priorityFilter !== 'all' && getIssuePriority(issue, feedbackCounts[issue.id] || 0) !== priorityFilter) return false
+      if (assigneeFilter === UNASSIGNED && issue.assignee_id) return false
+      if (assigneeFilter === 'me' && issue.assignee_id !== user?.id) return false
+      if (!['all', UNASSIGNED, 'me'].includes(assigneeFilter) && issue.assignee_id !== assigneeFilter) return false
+      return true
+    })
 
-  const handleCreateIssue = () => {
-    if (!newIssueTitle.trim()) return
-    createIssueMutation.mutate(newIssueTitle.trim())
-  }
-
-  const handleDeleteIssue = (issueId: string) => {
-    if (confirm('Are you sure you want to delete this issue?')) {
-      deleteIssueMutation.mutate(issueId)
+    const compare: Record<IssueSortKey, (a: Issue, b: Issue) => number> = {
+      created: (a, b) => b.created_at.localeCompare(a.created_at),
+      // Issues without a due date go last
+      due: (a, b) => (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999'),
+      priority: (a, b) =>
+        PRIORITY_META[getIssuePriority(b, feedbackCounts[b.id] || 0)].rank -
+        PRIORITY_META[getIssuePriority(a, feedbackCounts[a.id] || 0)].rank,
+      feedback: (a, b) => (feedbackCounts[b.id] || 0) - (feedbackCounts[a.id] || 0),
+      status: (a, b) => ISSUE_STATUSES.indexOf(a.status) - ISSUE_STATUSES.indexOf(b.status),
     }
-  }
+    return [...filtered].sort((a, b) => compare[sortBy](a, b) || b.created_at.localeCompare(a.created_at))
+  }, [issues, feedbackCounts, statusFilter, priorityFilter, assigneeFilter, sortBy, user?.id])
 
-  const getIssuePriority = (feedbackCount: number) => {
-    if (feedbackCount >= 10) return { level: 'High', color: 'bg-red-100 text-red-800' }
-    if (feedbackCount >= 5) return { level: 'Medium', color: 'bg-yellow-100 text-yellow-800' }
-    return { level: 'Low', color: 'bg-green-100 text-green-800' }
-  }
+  const openIssues = issues.filter(isIssueOpen)
+  const averageResolutionDays = getAverageResolutionDays(issues)
 
-  const getIssueAge = (createdAt: string) => {
+  const describeAge = (createdAt: string) => {
     const days = Math.floor((Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24))
-    if (days === 0) return 'Today'
-    if (days === 1) return '1 day ago'
-    return `${days} days ago`
+    return days === 0 ? t('issues.createdToday') : t('issues.createdDaysAgo', { count: days })
   }
 
   if (isLoading) {
@@ -178,93 +157,111 @@ export const IssuesTracking = () => {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Issues Tracking</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t('issues.title')}</h1>
           <p className="text-muted-foreground">
-            Track and manage common issues from your feedback
+            {t('issues.subtitle')}
           </p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Issue
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create New Issue</DialogTitle>
-              <DialogDescription>
-                Add a new issue to track from your feedback
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <label htmlFor="issue-title" className="text-sm font-medium">
-                  Issue Title
-                </label>
-                <Input
-                  id="issue-title"
-                  placeholder="e.g., Login Problems, Slow Performance"
-                  value={newIssueTitle}
-                  onChange={(e) => setNewIssueTitle(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && handleCreateIssue()}
-                />
-              </div>
-              <div className="flex justify-end gap-2">
-                <Button 
-                  variant="outline" 
-                  onClick={() => setIsCreateDialogOpen(false)}
-                >
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={handleCreateIssue}
-                  disabled={!newIssueTitle.trim() || createIssueMutation.isPending}
-                >
-                  Create Issue
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsExportOpen(true)} disabled={visibleIssues.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            {t('common.export')}
+          </Button>
+          {canEdit && (
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('issues.add')}
                 </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{t('issues.create.title')}</DialogTitle>
+                  <DialogDescription>
+                    {t('issues.create.description')}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="issue-title" className="text-sm font-medium">
+                      {t('issues.create.titleLabel')}
+                    </label>
+                    <Input
+                      id="issue-title"
+                      placeholder={t('issues.create.titlePlaceholder')}
+                      value={newIssueTitle}
+                      onChange={(e) => setNewIssueTitle(e.target.value)}
+                      onKeyPress={(e) => e.key === 'Enter' && handleCreateIssue()}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="issue-description" className="text-sm font-medium">
+                      {t('issues.create.descriptionLabel')}
+                    </label>
+                    <Textarea
+                      id="issue-description"
+                      placeholder={t('issues.create.descriptionPlaceholder')}
+                      value={newIssueDescription}
+                      onChange={(e) => setNewIssueDescription(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setIsCreateDialogOpen(false)}
+                    >
+                      {t('common.cancel')}
+                    </Button>
+                    <Button 
+                      onClick={handleCreateIssue}
+                      disabled={!newIssueTitle.trim() || createIssueMutation.isPending}
+                    >
+                      {t('issues.create.submit')}
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </div>
 
       {/* Statistics Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Issues</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('issues.stats.total')}</CardTitle>
             <AlertCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{issues.length}</div>
             <p className="text-xs text-muted-foreground">
-              Active tracking
+              {t('issues.stats.stillOpen', { count: openIssues.length })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">High Priority</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('issues.stats.highPriority')}</CardTitle>
             <XCircle className="h-4 w-4 text-red-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {issues.filter(issue => 
-                getIssuePriority(feedbackCounts[issue.id] || 0).level === 'High'
-              ).length}
+              {openIssues.filter(issue => priorityOf(issue) === 'high').length}
             </div>
             <p className="text-xs text-muted-foreground">
-              Needs attention
+              {t('issues.stats.needsAttention')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">This Week</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('issues.stats.thisWeek')}</CardTitle>
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -276,72 +273,163 @@ export const IssuesTracking = () => {
               }).length}
             </div>
             <p className="text-xs text-muted-foreground">
-              New issues
+              {t('issues.stats.newIssues')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Avg Resolution</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('issues.stats.avgResolution')}</CardTitle>
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">3.2d</div>
+            <div className="text-2xl font-bold">
+              {averageResolutionDays === null
+                ? '—'
+                : t('issues.stats.days', { days: format.number(averageResolutionDays, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
+            </div>
             <p className="text-xs text-muted-foreground">
-              Time to resolve
+              {t('issues.stats.timeToResolve')}
             </p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Proposed issues from clusters of similar feedback */}
+      {canEdit && <IssueClusterProposals issues={issues} />}
+
+      {/* Filters and Sorting */}
+      {issues.length > 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid gap-4 md:grid-cols-4">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('feedback.filterByStatus')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">{t('issues.filter.active')}</SelectItem>
+                  <SelectItem value="all">{t('feedback.allStatuses')}</SelectItem>
+                  {ISSUE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{t(`issueStatus.${status}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={priorityFilter} onValueChange={(value) => setPriorityFilter(value as typeof priorityFilter)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('issues.filter.priority')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('issues.filter.allPriorities')}</SelectItem>
+                  {ISSUE_PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>{t(`issuePriority.${priority}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('feedback.filterByOwner')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('feedback.allOwners')}</SelectItem>
+                  <SelectItem value="me">{t('feedback.assignedToMe')}</SelectItem>
+                  <SelectItem value={UNASSIGNED}>{t('common.unassigned')}</SelectItem>
+                  {users.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>{member.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as IssueSortKey)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('issues.sort.placeholder')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="priority">{t('issues.sort.priority')}</SelectItem>
+                  <SelectItem value="feedback">{t('issues.sort.feedback')}</SelectItem>
+                  <SelectItem value="due">{t('issues.sort.due')}</SelectItem>
+                  <SelectItem value="status">{t('issues.sort.status')}</SelectItem>
+                  <SelectItem value="created">{t('issues.sort.created')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Issues List */}
       <div className="space-y-4">
+        {issues.length > 0 && visibleIssues.length === 0 && (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Filter className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">{t('issues.noMatches')}</p>
+            </CardContent>
+          </Card>
+        )}
         {issues.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <AlertCircle className="h-12 w-12 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-medium mb-2">No issues tracked yet</h3>
+              <h3 className="text-lg font-medium mb-2">{t('issues.empty.title')}</h3>
               <p className="text-muted-foreground text-center mb-4">
-                Start tracking common issues from your feedback to better understand user concerns.
+                {t('issues.empty.description')}
               </p>
-              <Button onClick={() => setIsCreateDialogOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add First Issue
-              </Button>
+              {canEdit && (
+                <Button onClick={() => setIsCreateDialogOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('issues.empty.add')}
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
-          issues.map((issue) => {
+          visibleIssues.map((issue) => {
             const feedbackCount = feedbackCounts[issue.id] || 0
-            const priority = getIssuePriority(feedbackCount)
-            
+            const priority = priorityOf(issue)
+            const assignee = users.find(u => u.id === issue.assignee_id)
+            const overdue = isIssueOverdue(issue)
+
             return (
               <Card key={issue.id}>
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="space-y-2">
                       <CardTitle className="text-xl">{issue.issue_title}</CardTitle>
+                      {issue.description && (
+                        <p className="text-sm text-muted-foreground">{issue.description}</p>
+                      )}
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                        <span>Created {getIssueAge(issue.created_at)}</span>
+                        <span>{describeAge(issue.created_at)}</span>
                         <span>•</span>
-                        <span>Reported by {issue.username}</span>
+                        <span>{t('issues.reportedBy', { name: issue.username })}</span>
                         <span>•</span>
-                        <span>{feedbackCount} related feedback(s)</span>
+                        <span>{t('issues.relatedCount', { count: feedbackCount })}</span>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <Badge className={priority.color}>
-                        {priority.level} Priority
+                      <Badge className={ISSUE_STATUS_META[issue.status].color}>
+                        {t(`issueStatus.${issue.status}`)}
                       </Badge>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => handleDeleteIssue(issue.id)}
-                        disabled={deleteIssueMutation.isPending}
+                      <Badge
+                        className={PRIORITY_META[priority].color}
+                        title={issue.priority_override ? t('issues.priorityManual') : t('issues.priorityDerived')}
                       >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                        {t('issues.priorityBadge', { priority: t(`issuePriority.${priority}`) })}{issue.priority_override ? ' *' : ''}
+                      </Badge>
+                      {canEdit && (
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => handleDeleteIssue(issue.id)}
+                          disabled={deleteIssueMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -351,23 +439,33 @@ export const IssuesTracking = () => {
                       <div className="flex items-center gap-2">
                         <AlertCircle className="h-4 w-4 text-muted-foreground" />
                         <span className="text-sm">
-                          Impact: {feedbackCount > 0 ? 'Active' : 'Monitoring'}
+                          {feedbackCount > 0 ? t('issues.impactActive') : t('issues.impactMonitoring')}
                         </span>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        <User className="h-4 w-4 text-muted-foreground" />
                         <span className="text-sm">
-                          Status: Open
+                          {assignee ? assignee.username : t('common.unassigned')}
                         </span>
                       </div>
+                      {issue.due_date && (
+                        <div className={`flex items-center gap-2 ${overdue ? 'text-red-600' : ''}`}>
+                          <CalendarDays className="h-4 w-4" />
+                          <span className="text-sm">
+                            {t(overdue ? 'issues.dueOverdue' : 'issues.due', { date: format.day(issue.due_date) })}
+                          </span>
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
-                      <Button variant="outline" size="sm">
-                        <Edit className="h-4 w-4 mr-1" />
-                        Edit
-                      </Button>
-                      <Button variant="outline" size="sm">
-                        View Related Feedback
+                      {canEdit && (
+                        <Button variant="outline" size="sm" onClick={() => setEditingIssue(issue)}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          {t('issues.edit')}
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => setRelatedIssue(issue)}>
+                        {t('issues.viewRelated')}
                       </Button>
                     </div>
                   </div>
@@ -377,6 +475,22 @@ export const IssuesTracking = () => {
           })
         )}
       </div>
+
+      <RelatedFeedbackDialog issue={relatedIssue} onOpenChange={(open) => !open && setRelatedIssue(null)} />
+      <IssueEditDialog
+        issue={editingIssue}
+        linkedCount={editingIssue ? feedbackCounts[editingIssue.id] || 0 : 0}
+        onOpenChange={(open) => !open && setEditingIssue(null)}
+      />
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        title={t('export.issuesTitle')}
+        description={t('issues.exportDescription', { count: visibleIssues.length })}
+        filePrefix="issues"
+        loadRows={async () => visibleIssues}
+        columns={issueExportColumns(feedbackCounts)}
+      />
     </motion.div>
   )
 }
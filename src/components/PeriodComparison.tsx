@@ -0,0 +1,68 @@
+import React from 'react'
+import { COMPARISON_WINDOWS, COMPARISON_WINDOW_META, type ComparisonWindow } from '@/lib/metrics'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Calendar, Minus, TrendingDown, TrendingUp } from 'lucide-react'
+
+interface ComparisonWindowSelectProps {
+  value: ComparisonWindow
+  onChange: (value: ComparisonWindow) => void
+  className?: string
+}
+
+export const ComparisonWindowSelect = ({ value, onChange, className }: ComparisonWindowSelectProps) => {
+  const { t } = usePreferences()
+
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as ComparisonWindow)}>
+      <SelectTrigger className={className ?? 'w-44'}>
+        <Calendar className="h-4 w-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {COMPARISON_WINDOWS.map((option) => (
+          <SelectItem key={option} value={option}>{t(`dateRange.${option}`)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface TrendIndicatorProps {
+  /** Null when the previous period has no data to compare against */
+  change: number | null
+  window: ComparisonWindow
+  format: (absoluteChange: number) => string
+  /** For metrics where going down is good, like response time */
+  lowerIsBetter?: boolean
+  /** Color classes replacing the default green and red, for tinted cards */
+  className?: string
+}
+
+export const TrendIndicator = ({ change, window, format, lowerIsBetter = false, className }: TrendIndicatorProps) => {
+  const { t } = usePreferences()
+  const days = COMPARISON_WINDOW_META[window].days
+
+  if (change === null) {
+    return (
+      <div className={`flex items-center text-xs text-muted-foreground ${className ?? ''}`}>
+        <Minus className="h-3 w-3 mr-1" />
+        {t('comparison.noData', { count: days })}
+      </div>
+    )
+  }
+
+  const improving = lowerIsBetter ? change < 0 : change > 0
+  const Icon = change >= 0 ? TrendingUp : TrendingDown
+  const color = change === 0 ? '' : improving ? 'text-green-500' : 'text-red-500'
+
+  return (
+    <div className={`flex items-center text-xs text-muted-foreground ${className ?? ''}`}>
+      <Icon className={`h-3 w-3 mr-1 ${className ? '' : color}`} />
+      {t('comparison.versus', {
+        change: `${change > 0 ? '+' : change < 0 ? '-' : ''}${format(Math.abs(change))}`,
+        count: days,
+      })}
+    </div>
+  )
+}
@@ -1,16 +1,22 @@
 import React, { useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
+import { subscribeToInserts } from '@/lib/repository'
+import type { FeedbackAnomaly } from '@/lib/anomalies'
+import { addDays, toDayKey } from '@/lib/date-range'
 import { useAuth } from '@/contexts/AuthContext'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useFeedbackAnomalies } from '@/hooks/use-anomalies'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { Bell, X, Mail, AlertCircle, Users, Star } from 'lucide-react'
+import { Bell, X, Mail, AlertCircle, Users, Star, Activity } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 
 interface Notification {
   id: string
-  type: 'feedback' | 'issue' | 'team' | 'system'
+  type: 'feedback' | 'issue' | 'team' | 'anomaly' | 'system'
   title: string
   message: string
   timestamp: Date
@@ -18,85 +24,132 @@ interface Notification {
   priority: 'low' | 'medium' | 'high'
 }
 
+// Anomalies already alerted, per workspace, so reloading does not alert them again
+const ACKNOWLEDGED_KEY = 'feedbackflow:acknowledged-anomalies'
+
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
+
+const anomalyId = (anomaly: FeedbackAnomaly) => `anomaly-${anomaly.metric}-${anomaly.day}`
+
+const readAcknowledged = (workspaceId: string): string[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(`${ACKNOWLEDGED_KEY}:${workspaceId}`) ?? '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
 export const RealTimeNotifications = () => {
   const [notifications, setNotifications] = useState<Notification[]>([])
   const [isOpen, setIsOpen] = useState(false)
   const { user } = useAuth()
+  const { workspace } = useWorkspace()
+  const { timezone } = useDateRange()
+  const { format, t } = usePreferences()
+  const { data: anomalies = [], refetch: refetchAnomalies } = useFeedbackAnomalies(timezone, { refetchInterval: 5 * 60 * 1000 })
   const { toast } = useToast()
 
+  // Alert once per spike or drop on today or yesterday; older ones are only on the charts
+  const workspaceId = workspace?.id
+  useEffect(() => {
+    if (!workspaceId) return
+    const today = toDayKey(new Date(), timezone)
+    const recent = anomalies.filter(anomaly => anomaly.day >= addDays(today, -1))
+    const acknowledged = readAcknowledged(workspaceId)
+    const toAlert = recent.filter(anomaly => !acknowledged.includes(anomalyId(anomaly)))
+    if (!toAlert.length) return
+
+    // Older ones can no longer alert, so only recent ids are kept
+    window.localStorage.setItem(`${ACKNOWLEDGED_KEY}:${workspaceId}`, JSON.stringify(recent.map(anomalyId)))
+
+    toAlert.forEach(anomaly => {
+      const label = t(`analytics.anomaly.${anomaly.metric}`)
+      const newNotification: Notification = {
+        id: anomalyId(anomaly),
+        type: 'anomaly',
+        title: t(anomaly.day === today ? 'notifications.anomalyToday' : 'notifications.anomalyYesterday', { anomaly: label }),
+        message: anomaly.metric === 'volume'
+          ? t('analytics.anomaly.volumeDescription', {
+              count: anomaly.value,
+              baseline: format.number(anomaly.baseline, ONE_DECIMAL),
+            })
+          : t('analytics.anomaly.ratingDescription', {
+              value: format.number(anomaly.value, ONE_DECIMAL),
+              baseline: format.number(anomaly.baseline, ONE_DECIMAL),
+            }),
+        timestamp: new Date(),
+        read: false,
+        priority: 'high'
+      }
+
+      setNotifications(prev => [newNotification, ...prev.slice(0, 9)])
+
+      toast({
+        title: newNotification.title,
+        description: newNotification.message,
+        variant: "destructive"
+      })
+    })
+  }, [anomalies, timezone, toast, workspaceId, t, format])
+
   useEffect(() => {
-    if (!user) return
-
-    // Subscribe to real-time changes - RLS automatically filters data for authenticated user
-    const feedbackChannel = supabase
-      .channel('feedback-notifications')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'feedbacks'
-          // No filter needed - RLS handles user isolation
-        },
-        (payload) => {
-          const newNotification: Notification = {
-            id: payload.new.id,
-            type: 'feedback',
-            title: 'New Feedback Received',
-            message: `From ${payload.new.sender_name || payload.new.sender_email}`,
-            timestamp: new Date(),
-            read: false,
-            priority: Number(payload.new.average_rating) < 3 ? 'high' : 'medium'
-          }
-          
-          setNotifications(prev => [newNotification, ...prev.slice(0, 9)])
-          
-          toast({
-            title: "New Feedback",
-            description: newNotification.message,
-          })
+    if (!user || !workspaceId) return
+
+    const pushNotification = (notification: Notification) => {
+      setNotifications(prev => [notification, ...prev.slice(0, 9)])
+    }
+
+    return subscribeToInserts(workspaceId, 'feedback-notifications', {
+      onFeedback: (feedback) => {
+        // New feedback can push today over the spike threshold
+        refetchAnomalies()
+
+        const newNotification: Notification = {
+          id: feedback.id,
+          type: 'feedback',
+          title: t('notifications.feedbackReceived'),
+          message: t('notifications.from', { sender: feedback.sender_name || feedback.sender_email }),
+          timestamp: new Date(),
+          read: false,
+          priority: Number(feedback.average_rating) < 3 ? 'high' : 'medium'
         }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'current_issues'
-          // No filter needed - RLS handles user isolation
-        },
-        (payload) => {
-          const newNotification: Notification = {
-            id: payload.new.id,
-            type: 'issue',
-            title: 'New Issue Created',
-            message: payload.new.issue_title,
-            timestamp: new Date(),
-            read: false,
-            priority: 'high'
-          }
-          
-          setNotifications(prev => [newNotification, ...prev.slice(0, 9)])
-          
-          toast({
-            title: "New Issue",
-            description: newNotification.message,
-            variant: "destructive"
-          })
+
+        pushNotification(newNotification)
+
+        toast({
+          title: t('notifications.feedbackToast'),
+          description: newNotification.message,
+        })
+      },
+      onIssue: (issue) => {
+        const newNotification: Notification = {
+          id: issue.id,
+          type: 'issue',
+          title: t('notifications.issueCreated'),
+          message: issue.issue_title,
+          timestamp: new Date(),
+          read: false,
+          priority: 'high'
         }
-      )
-      .subscribe()
 
-    return () => {
-      supabase.removeChannel(feedbackChannel)
-    }
-  }, [user, toast])
+        pushNotification(newNotification)
+
+        toast({
+          title: t('notifications.issueToast'),
+          description: newNotification.message,
+          variant: "destructive"
+        })
+      },
+    })
+  }, [user, workspaceId, toast, refetchAnomalies, t])
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'feedback': return <Mail className="h-4 w-4" />
       case 'issue': return <AlertCircle className="h-4 w-4" />
       case 'team': return <Users className="h-4 w-4" />
+      case 'anomaly': return <Activity className="h-4 w-4" />
       default: return <Bell className="h-4 w-4" />
     }
   }
@@ -147,7 +200,7 @@ export const RealTimeNotifications = () => {
             <Card className="shadow-lg border-0 bg-white dark:bg-gray-900">
               <div className="p-4 border-b">
                 <div className="flex items-center justify-between">
-                  <h3 className="font-semibold">Notifications</h3>
+                  <h3 className="font-semibold">{t('notifications.title')}</h3>
                   <Button 
                     variant="ghost" 
                     size="sm"
@@ -161,7 +214,7 @@ export const RealTimeNotifications = () => {
                 {notifications.length === 0 ? (
                   <div className="p-6 text-center text-muted-foreground">
                     <Bell className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p>No notifications yet</p>
+                    <p>{t('notifications.empty')}</p>
                   </div>
                 ) : (
                   <div className="space-y-0">
@@ -185,7 +238,7 @@ export const RealTimeNotifications = () => {
                               {notification.message}
                             </p>
                             <p className="text-xs text-muted-foreground mt-1">
-                              {notification.timestamp.toLocaleTimeString()}
+                              {format.time(notification.timestamp)}
                             </p>
                           </div>
                           {!notification.read && (
@@ -205,7 +258,7 @@ export const RealTimeNotifications = () => {
                     className="w-full"
                     onClick={() => setNotifications(prev => prev.map(n => ({ ...n, read: true })))}
                   >
-                    Mark all as read
+                    {t('notifications.markAllRead')}
                   </Button>
                 </div>
               )}
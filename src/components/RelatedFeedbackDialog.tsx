@@ -0,0 +1,178 @@
+import React, { useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useFeedbackSearch } from '@/hooks/use-feedbacks'
+import { useIssueFeedback, useLinkFeedbackToIssue, useUnlinkFeedbackFromIssue } from '@/hooks/use-issues'
+import { STATUS_META } from '@/lib/feedback-status'
+import type { Feedback, Issue } from '@/lib/repository'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Link2, Search, Star, Unlink } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface RelatedFeedbackDialogProps {
+  issue: Issue | null
+  onOpenChange: (open: boolean) => void
+}
+
+const FeedbackRow = ({ feedback, action }: { feedback: Feedback; action: React.ReactNode }) => {
+  const { format, t } = usePreferences()
+
+  return (
+    <div className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium truncate">{feedback.subject || t('feedback.details.noSubject')}</span>
+          <Badge className={STATUS_META[feedback.status].color}>{t(`feedbackStatus.${feedback.status}`)}</Badge>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{feedback.sender_name || feedback.sender_email}</span>
+          <span>{format.date(feedback.received_at)}</span>
+          {feedback.average_rating !== null && (
+            <span className="flex items-center gap-1">
+              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+              {feedback.average_rating.toFixed(1)}
+            </span>
+          )}
+        </div>
+        {feedback.feedback_summary && (
+          <p className="text-sm text-muted-foreground line-clamp-2">{feedback.feedback_summary}</p>
+        )}
+      </div>
+      {action}
+    </div>
+  )
+}
+
+export const RelatedFeedbackDialog = ({ issue, onOpenChange }: RelatedFeedbackDialogProps) => {
+  const [search, setSearch] = useState('')
+  const { can } = useWorkspace()
+  const canEdit = can('manage_feedback')
+  const { data: linked = [], isLoading } = useIssueFeedback(issue?.id)
+  const { data: candidates = [] } = useFeedbackSearch({ search }, !!issue && canEdit && search.trim().length > 1)
+  const linkFeedback = useLinkFeedbackToIssue()
+  const unlinkFeedback = useUnlinkFeedbackFromIssue()
+  const { toast } = useToast()
+  const { t } = usePreferences()
+
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const handleLink = (feedbackId: string) => {
+    if (!issue) return
+    linkFeedback.mutate({ issueId: issue.id, feedbackIds: [feedbackId] }, {
+      onSuccess: () => {
+        toast({
+          title: t('issues.related.linked'),
+          description: t('issues.related.linkedDescription', { issue: issue.issue_title }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const handleUnlink = (feedbackId: string) => {
+    if (!issue) return
+    unlinkFeedback.mutate({ issueId: issue.id, feedbackIds: [feedbackId] }, {
+      onSuccess: () => {
+        toast({
+          title: t('issues.related.unlinked'),
+          description: t('issues.related.unlinkedDescription', { issue: issue.issue_title }),
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const unlinkedCandidates = candidates.filter(candidate => !linked.some(f => f.id === candidate.id))
+
+  return (
+    <Dialog
+      open={!!issue}
+      onOpenChange={(open) => {
+        if (!open) setSearch('')
+        onOpenChange(open)
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('issues.related.title')}</DialogTitle>
+          <DialogDescription>
+            {t('issues.related.description', { issue: issue?.issue_title ?? '' })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <div className="h-16 bg-gray-200 rounded animate-pulse"></div>
+          ) : linked.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {canEdit ? t('issues.related.empty') : t('issues.related.emptyReadOnly')}
+            </p>
+          ) : (
+            linked.map((feedback) => (
+              <FeedbackRow
+                key={feedback.id}
+                feedback={feedback}
+                action={canEdit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleUnlink(feedback.id)}
+                    disabled={unlinkFeedback.isPending}
+                  >
+                    <Unlink className="h-4 w-4 mr-1" />
+                    {t('issues.related.unlink')}
+                  </Button>
+                )}
+              />
+            ))
+          )}
+        </div>
+
+        {canEdit && (
+          <>
+            <Separator />
+
+            <div className="space-y-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder={t('issues.related.searchPlaceholder')}
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              {unlinkedCandidates.map((feedback) => (
+                <FeedbackRow
+                  key={feedback.id}
+                  feedback={feedback}
+                  action={
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleLink(feedback.id)}
+                      disabled={linkFeedback.isPending}
+                    >
+                      <Link2 className="h-4 w-4 mr-1" />
+                      {t('issues.related.link')}
+                    </Button>
+                  }
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
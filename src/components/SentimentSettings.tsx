@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useSaveSentimentThresholds, useSentimentThresholds } from '@/hooks/use-sentiment'
+import {
+  classifyScore,
+  DEFAULT_SENTIMENT_THRESHOLDS,
+  scoreText,
+  SENTIMENT_META,
+  validateThresholds,
+} from '@/lib/sentiment'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { RotateCcw, Save, SmilePlus } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+// Feedback without text is scored from its rating, so show what a threshold means in stars
+const toStars = (threshold: number) => 3 + threshold * 2
+
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
+
+export const SentimentSettings = () => {
+  const { thresholds, isLoading } = useSentimentThresholds()
+  const saveThresholds = useSaveSentimentThresholds()
+  const [positive, setPositive] = useState(String(thresholds.positive))
+  const [negative, setNegative] = useState(String(thresholds.negative))
+  const [sample, setSample] = useState('')
+  const { toast } = useToast()
+  const { format, t } = usePreferences()
+  const { can } = useWorkspace()
+  const canEdit = can('manage_workspace')
+
+  // Show the saved values once they have loaded
+  useEffect(() => {
+    setPositive(String(thresholds.positive))
+    setNegative(String(thresholds.negative))
+  }, [thresholds.positive, thresholds.negative])
+
+  const draft = { positive: Number(positive), negative: Number(negative) }
+  const validationError = validateThresholds(draft)
+  const sampleScore = sample.trim() ? scoreText(sample) : null
+  const sampleSentiment = classifyScore(sampleScore, validationError ? thresholds : draft)
+
+  const handleSave = () => {
+    saveThresholds.mutate(draft, {
+      onSuccess: () => {
+        toast({
+          title: t('settings.sentiment.saved'),
+          description: t('settings.sentiment.savedDescription'),
+        })
+      },
+      onError: (error) => {
+        toast({
+          title: t('common.error'),
+          description: error.message,
+          variant: "destructive",
+        })
+      },
+    })
+  }
+
+  const handleReset = () => {
+    setPositive(String(DEFAULT_SENTIMENT_THRESHOLDS.positive))
+    setNegative(String(DEFAULT_SENTIMENT_THRESHOLDS.negative))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SmilePlus className="h-5 w-5" />
+          {t('settings.sentiment.title')}
+        </CardTitle>
+        <CardDescription>{t('settings.sentiment.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="positive-threshold">{t('settings.sentiment.positiveFrom')}</Label>
+            <Input
+              id="positive-threshold"
+              type="number"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={positive}
+              onChange={(e) => setPositive(e.target.value)}
+              disabled={isLoading || !canEdit}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings.sentiment.positiveStars', { stars: format.number(toStars(draft.positive), ONE_DECIMAL) })}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="negative-threshold">{t('settings.sentiment.negativeUpTo')}</Label>
+            <Input
+              id="negative-threshold"
+              type="number"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={negative}
+              onChange={(e) => setNegative(e.target.value)}
+              disabled={isLoading || !canEdit}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings.sentiment.negativeStars', { stars: format.number(toStars(draft.negative), ONE_DECIMAL) })}
+            </p>
+          </div>
+        </div>
+
+        {validationError && <p className="text-sm text-destructive">{t(validationError)}</p>}
+
+        <div className="space-y-2">
+          <Label htmlFor="sentiment-sample">{t('settings.sentiment.sample')}</Label>
+          <Textarea
+            id="sentiment-sample"
+            placeholder={t('settings.sentiment.samplePlaceholder')}
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            rows={2}
+          />
+          {sampleScore !== null && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Badge className={SENTIMENT_META[sampleSentiment].badgeClass}>{t(`sentiment.${sampleSentiment}`)}</Badge>
+              {t('feedback.sentimentScore', { score: format.number(sampleScore, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}
+            </div>
+          )}
+        </div>
+
+        {canEdit ? (
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!!validationError || saveThresholds.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('settings.sentiment.save')}
+            </Button>
+            <Button variant="outline" onClick={handleReset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {t('settings.sentiment.defaults')}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t('settings.sentiment.ownersOnly')}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,30 @@
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
+import { Controller, useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { useAuth } from '@/contexts/AuthContext'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { TIMEZONES } from '@/lib/date-range'
+import type { MessageKey } from '@/lib/i18n'
+import {
+  DATA_RETENTION_PERIODS,
+  DATE_FORMATS,
+  DEFAULT_USER_SETTINGS,
+  LANGUAGE_META,
+  LANGUAGES,
+  notificationSettingsSchema,
+  preferencesSchema,
+  privacySettingsSchema,
+  profileSchema,
+  THEMES,
+  type NotificationSettingsFormData,
+  type PreferencesFormData,
+  type PrivacySettingsFormData,
+  type ProfileFormData,
+  type UserSettings,
+} from '@/lib/user-settings'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -16,71 +39,171 @@ import {
   Database, Key, Download, Trash2, Save
 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { TagManagement } from '@/components/TagManagement'
+import { SentimentSettings } from '@/components/SentimentSettings'
+import { FeedbackExportDialog } from '@/components/ExportDialog'
+import { DigestHistory } from '@/components/DigestHistory'
+import { useDigestPreferences, useSaveDigestPreferences } from '@/hooks/use-digests'
+import { useSaveUserSettings, useUpdateProfile, useUserSettings } from '@/hooks/use-user-settings'
+
+const pickNotifications = (settings: UserSettings) => ({
+  emailNotifications: settings.emailNotifications,
+  pushNotifications: settings.pushNotifications,
+  instantAlerts: settings.instantAlerts,
+})
+
+// Without a saved timezone the form shows the one the dashboard is using
+const pickPreferences = (settings: UserSettings, currentTimezone: string): PreferencesFormData => ({
+  theme: settings.theme,
+  language: settings.language,
+  timezone: settings.timezone ?? currentTimezone,
+  dateFormat: settings.dateFormat,
+})
+
+const pickPrivacy = (settings: UserSettings): PrivacySettingsFormData => ({
+  dataRetention: settings.dataRetention,
+  shareAnalytics: settings.shareAnalytics,
+})
 
 export const Settings = () => {
   const { user } = useAuth()
   const { toast } = useToast()
-
-  // Profile settings
-  const [username, setUsername] = useState(user?.user_metadata?.username || '')
-  const [email, setEmail] = useState(user?.email || '')
-  const [bio, setBio] = useState('')
-
-  // Notification settings
-  const [emailNotifications, setEmailNotifications] = useState(true)
-  const [pushNotifications, setPushNotifications] = useState(false)
-  const [weeklyReports, setWeeklyReports] = useState(true)
-  const [instantAlerts, setInstantAlerts] = useState(false)
-
-  // Preferences
-  const [theme, setTheme] = useState('light')
-  const [language, setLanguage] = useState('en')
-  const [timezone, setTimezone] = useState('UTC')
-  const [dateFormat, setDateFormat] = useState('MM/DD/YYYY')
-
-  // Privacy & Security
-  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false)
-  const [dataRetention, setDataRetention] = useState('12')
-  const [shareAnalytics, setShareAnalytics] = useState(false)
-
-  const handleSaveProfile = () => {
+  const dateRange = useDateRange()
+  const { t } = usePreferences()
+  const { data: savedSettings } = useUserSettings()
+  const saveSettings = useSaveUserSettings()
+  const updateProfile = useUpdateProfile()
+  const { data: digestPreferences } = useDigestPreferences()
+  const saveDigestPreferences = useSaveDigestPreferences()
+  const [isExportOpen, setIsExportOpen] = useState(false)
+
+  const profileForm = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { username: user?.user_metadata?.username || '', email: user?.email || '', bio: '' },
+  })
+  const notificationsForm = useForm<NotificationSettingsFormData>({
+    resolver: zodResolver(notificationSettingsSchema),
+    defaultValues: { ...pickNotifications(DEFAULT_USER_SETTINGS), weeklyReports: true },
+  })
+  const preferencesForm = useForm<PreferencesFormData>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: pickPreferences(DEFAULT_USER_SETTINGS, dateRange.timezone),
+  })
+  const privacyForm = useForm<PrivacySettingsFormData>({
+    resolver: zodResolver(privacySettingsSchema),
+    defaultValues: pickPrivacy(DEFAULT_USER_SETTINGS),
+  })
+
+  // Show the saved values once they have loaded, and again after a save or a
+  // failed save is rolled back. Fields being edited keep what was typed.
+  const savedUsername = user?.user_metadata?.username || ''
+  const savedEmail = user?.email || ''
+  useEffect(() => {
+    profileForm.reset(
+      { username: savedUsername, email: savedEmail, bio: savedSettings?.bio ?? '' },
+      { keepDirtyValues: true }
+    )
+  }, [profileForm, savedUsername, savedEmail, savedSettings?.bio])
+
+  useEffect(() => {
+    if (!savedSettings || !digestPreferences) return
+    notificationsForm.reset(
+      { ...pickNotifications(savedSettings), weeklyReports: digestPreferences.weeklyEnabled },
+      { keepDirtyValues: true }
+    )
+  }, [notificationsForm, savedSettings, digestPreferences])
+
+  useEffect(() => {
+    if (!savedSettings) return
+    preferencesForm.reset(pickPreferences(savedSettings, dateRange.timezone), { keepDirtyValues: true })
+    privacyForm.reset(pickPrivacy(savedSettings), { keepDirtyValues: true })
+  }, [preferencesForm, privacyForm, savedSettings, dateRange.timezone])
+
+  const showError = (error: Error) => {
     toast({
-      title: "Profile updated",
-      description: "Your profile information has been saved.",
+      title: t('common.error'),
+      description: error.message,
+      variant: "destructive",
     })
   }
 
-  const handleSaveNotifications = () => {
-    toast({
-      title: "Notification settings updated",
-      description: "Your notification preferences have been saved.",
+  const handleSaveProfile = async ({ username, email, bio }: ProfileFormData) => {
+    const profile = { username, email }
+    const profileChanged = username !== savedUsername || email !== savedEmail
+    try {
+      const [{ emailPending }] = await Promise.all([
+        profileChanged ? updateProfile.mutateAsync(profile) : { emailPending: false },
+        saveSettings.mutateAsync({ bio }),
+      ])
+      // The saved values are the new baseline
+      profileForm.reset({ username, email, bio })
+      toast({
+        title: t('settings.profile.saved'),
+        description: emailPending
+          ? t('settings.profile.savedEmailPending', { email })
+          : t('settings.profile.savedDescription'),
+      })
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleSaveNotifications = ({ weeklyReports, ...notifications }: NotificationSettingsFormData) => {
+    saveDigestPreferences.mutate({ weeklyEnabled: weeklyReports }, { onError: showError })
+    saveSettings.mutate(notifications, {
+      onSuccess: () => {
+        notificationsForm.reset({ ...notifications, weeklyReports })
+        toast({
+          title: t('settings.notifications.saved'),
+          description: t('settings.notifications.savedDescription'),
+        })
+      },
+      onError: showError,
     })
   }
 
-  const handleSavePreferences = () => {
-    toast({
-      title: "Preferences updated",
-      description: "Your application preferences have been saved.",
+  const handleSavePreferences = (preferences: PreferencesFormData) => {
+    dateRange.setTimezone(preferences.timezone)
+    saveSettings.mutate(preferences, {
+      onSuccess: () => {
+        preferencesForm.reset(preferences)
+        toast({
+          title: t('settings.preferences.saved'),
+          description: t('settings.preferences.savedDescription'),
+        })
+      },
+      onError: showError,
     })
   }
 
-  const handleExportData = () => {
-    toast({
-      title: "Export started",
-      description: "Your data export will be ready shortly. We'll email you when it's complete.",
+  const handleSavePrivacy = (privacy: PrivacySettingsFormData) => {
+    saveSettings.mutate(privacy, {
+      onSuccess: () => {
+        privacyForm.reset(privacy)
+        toast({
+          title: t('settings.privacy.saved'),
+          description: t('settings.privacy.savedDescription'),
+        })
+      },
+      onError: showError,
     })
   }
 
   const handleDeleteAccount = () => {
-    if (confirm('Are you sure you want to delete your account? This action cannot be undone.')) {
+    if (confirm(t('settings.data.deleteConfirm'))) {
       toast({
-        title: "Account deletion requested",
-        description: "We'll process your account deletion within 24 hours.",
+        title: t('settings.data.deletionRequested'),
+        description: t('settings.data.deletionRequestedDescription'),
         variant: "destructive",
       })
     }
   }
 
+  const username = profileForm.watch('username')
+  const email = profileForm.watch('email')
+  const timezone = preferencesForm.watch('timezone')
+  const { errors: profileErrors } = profileForm.formState
+
   const getUserInitials = () => {
     if (username) return username.slice(0, 2).toUpperCase()
     if (email) return email.slice(0, 2).toUpperCase()
@@ -96,9 +219,9 @@ export const Settings = () => {
     >
       {/* Header */}
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <h1 className="text-3xl font-bold tracking-tight">{t('settings.title')}</h1>
         <p className="text-muted-foreground">
-          Manage your account settings and preferences
+          {t('settings.subtitle')}
         </p>
       </div>
 
@@ -108,13 +231,14 @@ export const Settings = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <User className="h-5 w-5" />
-              Profile Settings
+              {t('settings.profile.title')}
             </CardTitle>
             <CardDescription>
-              Update your personal information
+              {t('settings.profile.description')}
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-6">
+          <CardContent>
+            <form onSubmit={profileForm.handleSubmit(handleSaveProfile)} className="space-y-6">
             <div className="flex items-center gap-4">
               <Avatar className="h-20 w-20">
                 <AvatarFallback className="bg-primary text-primary-foreground text-lg">
@@ -122,52 +246,59 @@ export const Settings = () => {
                 </AvatarFallback>
               </Avatar>
               <div className="space-y-2">
-                <Button variant="outline" size="sm">
-                  Upload Photo
+                <Button type="button" variant="outline" size="sm">
+                  {t('settings.profile.uploadPhoto')}
                 </Button>
                 <p className="text-xs text-muted-foreground">
-                  JPG, PNG or GIF. Max 5MB.
+                  {t('settings.profile.photoHint')}
                 </p>
               </div>
             </div>
 
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
-                <Label htmlFor="username">Username</Label>
+                <Label htmlFor="username">{t('settings.profile.username')}</Label>
                 <Input
                   id="username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  placeholder="Enter username"
+                  {...profileForm.register('username')}
+                  placeholder={t('settings.profile.usernamePlaceholder')}
                 />
+                {profileErrors.username && (
+                  <p className="text-sm text-destructive">{t(profileErrors.username.message as MessageKey)}</p>
+                )}
               </div>
               <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
+                <Label htmlFor="email">{t('settings.profile.email')}</Label>
                 <Input
                   id="email"
                   type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="Enter email"
+                  {...profileForm.register('email')}
+                  placeholder={t('settings.profile.emailPlaceholder')}
                 />
+                {profileErrors.email && (
+                  <p className="text-sm text-destructive">{t(profileErrors.email.message as MessageKey)}</p>
+                )}
               </div>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="bio">Bio</Label>
+              <Label htmlFor="bio">{t('settings.profile.bio')}</Label>
               <Textarea
                 id="bio"
-                value={bio}
-                onChange={(e) => setBio(e.target.value)}
-                placeholder="Tell us about yourself"
+                {...profileForm.register('bio')}
+                placeholder={t('settings.profile.bioPlaceholder')}
                 rows={3}
               />
+              {profileErrors.bio && (
+                <p className="text-sm text-destructive">{t(profileErrors.bio.message as MessageKey)}</p>
+              )}
             </div>
 
-            <Button onClick={handleSaveProfile}>
+            <Button type="submit" disabled={updateProfile.isPending || saveSettings.isPending}>
               <Save className="h-4 w-4 mr-2" />
-              Save Profile
+              {t('settings.profile.save')}
             </Button>
+            </form>
           </CardContent>
         </Card>
 
@@ -176,219 +307,284 @@ export const Settings = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Bell className="h-5 w-5" />
-              Notification Settings
+              {t('settings.notifications.title')}
             </CardTitle>
             <CardDescription>
-              Configure how you receive notifications
+              {t('settings.notifications.description')}
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-6">
+          <CardContent>
+            <form onSubmit={notificationsForm.handleSubmit(handleSaveNotifications)} className="space-y-6">
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>Email Notifications</Label>
+                  <Label>{t('settings.notifications.email')}</Label>
                   <p className="text-sm text-muted-foreground">
-                    Receive notifications via email
+                    {t('settings.notifications.emailHint')}
                   </p>
                 </div>
-                <Switch
-                  checked={emailNotifications}
-                  onCheckedChange={setEmailNotifications}
+                <Controller
+                  control={notificationsForm.control}
+                  name="emailNotifications"
+                  render={({ field }) => (
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  )}
                 />
               </div>
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>Push Notifications</Label>
+                  <Label>{t('settings.notifications.push')}</Label>
                   <p className="text-sm text-muted-foreground">
-                    Receive browser push notifications
+                    {t('settings.notifications.pushHint')}
                   </p>
                 </div>
-                <Switch
-                  checked={pushNotifications}
-                  onCheckedChange={setPushNotifications}
+                <Controller
+                  control={notificationsForm.control}
+                  name="pushNotifications"
+                  render={({ field }) => (
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  )}
                 />
               </div>
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>Weekly Reports</Label>
+                  <Label>{t('settings.notifications.weekly')}</Label>
                   <p className="text-sm text-muted-foreground">
-                    Get weekly summary of your feedback
+                    {t('settings.notifications.weeklyHint')}
                   </p>
                 </div>
-                <Switch
-                  checked={weeklyReports}
-                  onCheckedChange={setWeeklyReports}
+                <Controller
+                  control={notificationsForm.control}
+                  name="weeklyReports"
+                  render={({ field }) => (
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  )}
                 />
               </div>
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>Instant Alerts</Label>
+                  <Label>{t('settings.notifications.instant')}</Label>
                   <p className="text-sm text-muted-foreground">
-                    Get notified immediately for critical feedback
+                    {t('settings.notifications.instantHint')}
                   </p>
                 </div>
-                <Switch
-                  checked={instantAlerts}
-                  onCheckedChange={setInstantAlerts}
+                <Controller
+                  control={notificationsForm.control}
+                  name="instantAlerts"
+                  render={({ field }) => (
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  )}
                 />
               </div>
             </div>
 
-            <Button onClick={handleSaveNotifications}>
+            <Button type="submit" disabled={saveDigestPreferences.isPending || saveSettings.isPending}>
               <Save className="h-4 w-4 mr-2" />
-              Save Notifications
+              {t('settings.notifications.save')}
             </Button>
+            </form>
           </CardContent>
         </Card>
 
+        {/* Weekly digest */}
+        <DigestHistory />
+
         {/* Application Preferences */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Palette className="h-5 w-5" />
-              Application Preferences
+              {t('settings.preferences.title')}
             </CardTitle>
             <CardDescription>
-              Customize your application experience
+              {t('settings.preferences.description')}
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-6">
+          <CardContent>
+            <form onSubmit={preferencesForm.handleSubmit(handleSavePreferences)} className="space-y-6">
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
-                <Label>Theme</Label>
-                <Select value={theme} onValueChange={setTheme}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="light">Light</SelectItem>
-                    <SelectItem value="dark">Dark</SelectItem>
-                    <SelectItem value="system">System</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label>{t('settings.preferences.theme')}</Label>
+                <Controller
+                  control={preferencesForm.control}
+                  name="theme"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {THEMES.map((theme) => (
+                          <SelectItem key={theme} value={theme}>{t(`settings.theme.${theme}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
               </div>
 
               <div className="space-y-2">
-                <Label>Language</Label>
-                <Select value={language} onValueChange={setLanguage}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="en">English</SelectItem>
-                    <SelectItem value="es">Spanish</SelectItem>
-                    <SelectItem value="fr">French</SelectItem>
-                    <SelectItem value="de">German</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label>{t('settings.preferences.language')}</Label>
+                <Controller
+                  control={preferencesForm.control}
+                  name="language"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LANGUAGES.map((language) => (
+                          <SelectItem key={language} value={language}>{LANGUAGE_META[language].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
               </div>
 
               <div className="space-y-2">
-                <Label>Timezone</Label>
-                <Select value={timezone} onValueChange={setTimezone}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="UTC">UTC</SelectItem>
-                    <SelectItem value="EST">Eastern Time</SelectItem>
-                    <SelectItem value="PST">Pacific Time</SelectItem>
-                    <SelectItem value="CET">Central European Time</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label>{t('settings.preferences.timezone')}</Label>
+                <Controller
+                  control={preferencesForm.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {/* The browser's timezone is the default and may not be one of the listed ones */}
+                        {!TIMEZONES.some(tz => tz.value === timezone) && (
+                          <SelectItem value={timezone}>{timezone}</SelectItem>
+                        )}
+                        {TIMEZONES.map((tz) => (
+                          <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {preferencesForm.formState.errors.timezone && (
+                  <p className="text-sm text-destructive">{t(preferencesForm.formState.errors.timezone.message as MessageKey)}</p>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label>Date Format</Label>
-                <Select value={dateFormat} onValueChange={setDateFormat}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
-                    <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
-                    <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label>{t('settings.preferences.dateFormat')}</Label>
+                <Controller
+                  control={preferencesForm.control}
+                  name="dateFormat"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATE_FORMATS.map((format) => (
+                          <SelectItem key={format} value={format}>{format}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
               </div>
             </div>
 
-            <Button onClick={handleSavePreferences}>
+            <Button type="submit" disabled={saveSettings.isPending}>
               <Save className="h-4 w-4 mr-2" />
-              Save Preferences
+              {t('settings.preferences.save')}
             </Button>
+            </form>
           </CardContent>
         </Card>
 
+        {/* Tags */}
+        <TagManagement />
+
+        {/* Sentiment */}
+        <SentimentSettings />
+
         {/* Privacy & Security */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Shield className="h-5 w-5" />
-              Privacy & Security
+              {t('settings.privacy.title')}
             </CardTitle>
             <CardDescription>
-              Manage your privacy and security settings
+              {t('settings.privacy.description')}
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-6">
+          <CardContent>
+            <form onSubmit={privacyForm.handleSubmit(handleSavePrivacy)} className="space-y-6">
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>Two-Factor Authentication</Label>
+                  <Label>{t('settings.privacy.twoFactor')}</Label>
                   <p className="text-sm text-muted-foreground">
-                    Add an extra layer of security to your account
+                    {t('settings.privacy.twoFactorHint')}
                   </p>
                 </div>
-                <Switch
-                  checked={twoFactorEnabled}
-                  onCheckedChange={setTwoFactorEnabled}
-                />
+                <Switch checked={false} disabled />
               </div>
 
               <div className="space-y-2">
-                <Label>Data Retention Period</Label>
-                <Select value={dataRetention} onValueChange={setDataRetention}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="3">3 months</SelectItem>
-                    <SelectItem value="6">6 months</SelectItem>
-                    <SelectItem value="12">12 months</SelectItem>
-                    <SelectItem value="24">24 months</SelectItem>
-                    <SelectItem value="indefinite">Indefinite</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label>{t('settings.privacy.dataRetention')}</Label>
+                <Controller
+                  control={privacyForm.control}
+                  name="dataRetention"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATA_RETENTION_PERIODS.map((period) => (
+                          <SelectItem key={period} value={period}>{t(`settings.retention.${period}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
                 <p className="text-xs text-muted-foreground">
-                  How long to keep your feedback data
+                  {t('settings.privacy.dataRetentionHint')}
                 </p>
               </div>
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>Share Anonymous Analytics</Label>
+                  <Label>{t('settings.privacy.shareAnalytics')}</Label>
                   <p className="text-sm text-muted-foreground">
-                    Help us improve by sharing anonymous usage data
+                    {t('settings.privacy.shareAnalyticsHint')}
                   </p>
                 </div>
-                <Switch
-                  checked={shareAnalytics}
-                  onCheckedChange={setShareAnalytics}
+                <Controller
+                  control={privacyForm.control}
+                  name="shareAnalytics"
+                  render={({ field }) => (
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  )}
                 />
               </div>
             </div>
 
-            <div className="space-y-4">
+            <Button type="submit" disabled={saveSettings.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('settings.privacy.save')}
+            </Button>
+            </form>
+
+            <div className="space-y-4 mt-6">
               <Separator />
               <div className="space-y-2">
-                <Label>Change Password</Label>
+                <Label>{t('settings.privacy.changePassword')}</Label>
                 <Button variant="outline">
                   <Key className="h-4 w-4 mr-2" />
-                  Update Password
+                  {t('settings.privacy.updatePassword')}
                 </Button>
               </div>
             </div>
@@ -400,43 +596,50 @@ export const Settings = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Database className="h-5 w-5" />
-              Data Management
+              {t('settings.data.title')}
             </CardTitle>
             <CardDescription>
-              Export or delete your data
+              {t('settings.data.description')}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="space-y-4">
               <div className="flex items-center justify-between p-4 border rounded-lg">
                 <div>
-                  <h4 className="font-medium">Export Data</h4>
+                  <h4 className="font-medium">{t('settings.data.export')}</h4>
                   <p className="text-sm text-muted-foreground">
-                    Download all your feedback data in JSON format
+                    {t('settings.data.exportHint')}
                   </p>
                 </div>
-                <Button variant="outline" onClick={handleExportData}>
+                <Button variant="outline" onClick={() => setIsExportOpen(true)}>
                   <Download className="h-4 w-4 mr-2" />
-                  Export
+                  {t('common.export')}
                 </Button>
               </div>
 
               <div className="flex items-center justify-between p-4 border rounded-lg border-red-200">
                 <div>
-                  <h4 className="font-medium text-red-600">Delete Account</h4>
+                  <h4 className="font-medium text-red-600">{t('settings.data.deleteAccount')}</h4>
                   <p className="text-sm text-muted-foreground">
-                    Permanently delete your account and all associated data
+                    {t('settings.data.deleteHint')}
                   </p>
                 </div>
                 <Button variant="destructive" onClick={handleDeleteAccount}>
                   <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
+                  {t('settings.data.delete')}
                 </Button>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <FeedbackExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        target={{ filters: { status: 'all' } }}
+        description={t('settings.data.exportDescription')}
+      />
     </motion.div>
   )
 }
@@ -0,0 +1,238 @@
+import React, { useState } from 'react'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  useApplyTagRule,
+  useCreateTag,
+  useDeleteTag,
+  useTagFeedbackCounts,
+  useTags,
+  useUpdateTag,
+} from '@/hooks/use-tags'
+import { parseKeywords, TAG_COLORS } from '@/lib/tagging'
+import type { Tag } from '@/lib/repository'
+import { TagBadge } from '@/components/FeedbackTags'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Pencil, Plus, Save, Tags, Trash2, Wand2, X } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+const EMPTY_FORM = { name: '', color: TAG_COLORS[6], keywords: '' }
+
+export const TagManagement = () => {
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingTagId, setEditingTagId] = useState<string | null>(null)
+  const { data: tags = [] } = useTags()
+  const { data: counts = [] } = useTagFeedbackCounts()
+  const createTag = useCreateTag()
+  const updateTag = useUpdateTag()
+  const deleteTag = useDeleteTag()
+  const applyTagRule = useApplyTagRule()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const canEdit = can('manage_feedback')
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingTagId(null)
+  }
+
+  const startEditing = (tag: Tag) => {
+    setEditingTagId(tag.id)
+    setForm({ name: tag.name, color: tag.color, keywords: tag.keywords.join(', ') })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form.name.trim()) return
+
+    const values = { name: form.name, color: form.color, keywords: parseKeywords(form.keywords) }
+    const options = {
+      onSuccess: () => {
+        toast({
+          title: editingTagId ? "Tag updated" : "Tag created",
+          description: `"${values.name.trim()}" is ready to use.`,
+        })
+        resetForm()
+      },
+      onError: showError,
+    }
+
+    if (editingTagId) {
+      updateTag.mutate({ tagId: editingTagId, values }, options)
+    } else {
+      createTag.mutate(values, options)
+    }
+  }
+
+  const handleDelete = (tag: Tag) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from all feedback.`)) return
+
+    deleteTag.mutate(tag.id, {
+      onSuccess: () => {
+        if (editingTagId === tag.id) resetForm()
+        toast({
+          title: "Tag deleted",
+          description: `"${tag.name}" has been removed.`,
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const applyRule = (tag: Tag) => {
+    applyTagRule.mutate(tag.id, {
+      onSuccess: (tagged) => {
+        toast({
+          title: "Keyword rule applied",
+          description: `${tag.name} added to ${tagged} feedback item${tagged !== 1 ? 's' : ''}.`,
+        })
+      },
+      onError: showError,
+    })
+  }
+
+  const isSaving = createTag.isPending || updateTag.isPending
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Tags & Categories
+        </CardTitle>
+        <CardDescription>
+          Organize feedback with tags. Keywords are used to suggest tags automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canEdit ? (
+          <>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="tag-name">Name</Label>
+                  <Input
+                    id="tag-name"
+                    placeholder="e.g. Billing"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tag-keywords">Keywords</Label>
+                  <Input
+                    id="tag-keywords"
+                    placeholder="payment, invoice, refund"
+                    value={form.keywords}
+                    onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Color</Label>
+                <div className="flex flex-wrap gap-2">
+                  {TAG_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      aria-label={`Use color ${color}`}
+                      onClick={() => setForm({ ...form, color })}
+                      className={`h-6 w-6 rounded-full border-2 ${form.color === color ? 'border-foreground' : 'border-transparent'}`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button type="submit" disabled={isSaving || !form.name.trim()}>
+                  {editingTagId ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                  {editingTagId ? 'Save Tag' : 'Add Tag'}
+                </Button>
+                {editingTagId && (
+                  <Button type="button" variant="ghost" onClick={resetForm}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+                {form.name.trim() && <TagBadge tag={{ name: form.name.trim(), color: form.color }} />}
+              </div>
+            </form>
+
+            <Separator />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Your role in this workspace can use tags, but not change them.</p>
+        )}
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{canEdit ? 'No tags yet. Add your first tag above.' : 'No tags yet.'}</p>
+        ) : (
+          <div className="space-y-3">
+            {tags.map((tag) => {
+              const tagCounts = counts.find(count => count.tag_id === tag.id)
+              const usage = tagCounts?.feedback_count ?? 0
+              // Feedback whose text matches the tag's keyword rules but is not tagged yet
+              const pendingMatches = tagCounts?.rule_match_count ?? 0
+
+              return (
+                <div key={tag.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <TagBadge tag={tag} />
+                      <span className="text-xs text-muted-foreground">
+                        {usage} feedback item{usage !== 1 ? 's' : ''}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {tag.keywords.length > 0 ? `Keywords: ${tag.keywords.join(', ')}` : 'No keyword rules'}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      {pendingMatches > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => applyRule(tag)}
+                          disabled={applyTagRule.isPending}
+                          title="Tag every feedback matching the keywords"
+                        >
+                          <Wand2 className="h-4 w-4 mr-1" />
+                          Apply to {pendingMatches}
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(tag)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(tag)}
+                      disabled={deleteTag.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,74 +1,159 @@
 
 import React, { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
 import { motion } from 'framer-motion'
-import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useInviteMember, useOpenInvitations, useResendInvitation, useRevokeInvitation } from '@/hooks/use-invitations'
+import { useRemoveMember, useSetMemberRole, useWorkspaceMembers } from '@/hooks/use-workspaces'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Users, UserPlus, Mail, Calendar, Crown, Shield, User, Settings, MoreVertical } from 'lucide-react'
+import { Users, UserPlus, Mail, Calendar, Crown, Shield, User, Settings, MoreVertical, LogOut, UserMinus, Link, RotateCw, X } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { getInvitationStatus, getInvitationUrl } from '@/lib/invitations'
+import type { WorkspaceInvitation, WorkspaceMemberProfile, WorkspaceRole } from '@/lib/repository'
+import {
+  getAssignableRoles,
+  getMemberChangeError,
+  WORKSPACE_ROLE_META,
+  WORKSPACE_ROLES,
+} from '@/lib/workspace-roles'
 
 export const TeamManagement = () => {
   const [inviteEmail, setInviteEmail] = useState('')
-  const [inviteRole, setInviteRole] = useState('member')
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('member')
   const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false)
   const { toast } = useToast()
+  const { user } = useAuth()
+  const { format, t } = usePreferences()
+  const { workspace, role: myRole, can } = useWorkspace()
+  const canManageMembers = can('manage_members')
 
-  // Fetch team members (users)
-  const { data: teamMembers = [], isLoading } = useQuery({
-    queryKey: ['team_members'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .order('created_at', { ascending: false })
-      
-      if (error) throw error
-      return data || []
-    }
-  })
+  const { data: teamMembers = [], isLoading } = useWorkspaceMembers()
+  const { data: invitations = [] } = useOpenInvitations({ enabled: canManageMembers })
+  const setMemberRole = useSetMemberRole()
+  const removeMember = useRemoveMember()
+  const inviteMember = useInviteMember()
+  const resendInvitation = useResendInvitation()
+  const revokeInvitation = useRevokeInvitation()
 
-  // Mock team roles and permissions
-  const rolePermissions = {
-    owner: {
-      label: 'Owner',
-      description: 'Full access to all features and settings',
-      permissions: ['manage_team', 'manage_settings', 'view_analytics', 'manage_feedback'],
-      color: 'bg-purple-100 text-purple-800'
-    },
-    admin: {
-      label: 'Admin',
-      description: 'Manage team and most settings',
-      permissions: ['manage_team', 'view_analytics', 'manage_feedback'],
-      color: 'bg-blue-100 text-blue-800'
-    },
-    member: {
-      label: 'Member',
-      description: 'View and manage feedback',
-      permissions: ['view_analytics', 'manage_feedback'],
-      color: 'bg-green-100 text-green-800'
-    },
-    viewer: {
-      label: 'Viewer',
-      description: 'Read-only access to feedback and analytics',
-      permissions: ['view_analytics'],
-      color: 'bg-gray-100 text-gray-800'
-    }
+  const pendingInviteCount = invitations.filter(invitation => getInvitationStatus(invitation) === 'pending').length
+
+  const currentMember = teamMembers.find(member => member.user_id === user?.id)
+  const ownerCount = teamMembers.filter(member => member.role === 'owner').length
+  const adminCount = teamMembers.filter(member => member.role === 'owner' || member.role === 'admin').length
+
+  // The database checks the same rules; this only hides what would be refused
+  const getChangeError = (member: WorkspaceMemberProfile, role: WorkspaceRole | null) =>
+    currentMember ? getMemberChangeError(currentMember, member, role, ownerCount) : 'Not a member of this workspace'
+
+  const handleRoleChange = (member: WorkspaceMemberProfile, role: WorkspaceRole) => {
+    setMemberRole.mutate({ memberId: member.id, role }, {
+      onSuccess: () => {
+        toast({
+          title: t('team.roleUpdated'),
+          description: t('team.roleUpdatedDescription', {
+            name: member.username,
+            role: t(`nav.workspace.role.${role}`).toLowerCase(),
+          }),
+        })
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
+    })
+  }
+
+  const handleRemove = (member: WorkspaceMemberProfile) => {
+    const leaving = member.user_id === user?.id
+    const workspaceName = workspace?.name ?? ''
+    const question = leaving
+      ? t('team.leaveConfirm', { workspace: workspaceName })
+      : t('team.removeConfirm', { name: member.username, workspace: workspaceName })
+    if (!confirm(question)) return
+
+    removeMember.mutate(member.id, {
+      onSuccess: () => {
+        toast({
+          title: t(leaving ? 'team.left' : 'team.removed'),
+          description: leaving
+            ? t('team.leftDescription', { workspace: workspaceName })
+            : t('team.removedDescription', { name: member.username, workspace: workspaceName }),
+        })
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
+    })
   }
 
   const handleInviteTeamMember = () => {
-    // Mock invitation logic
-    toast({
-      title: "Invitation sent",
-      description: `Team invitation has been sent to ${inviteEmail}`,
+    inviteMember.mutate({ email: inviteEmail, role: inviteRole }, {
+      onSuccess: () => {
+        toast({
+          title: t('team.invitationSent'),
+          description: t('team.invitationSentDescription', { email: inviteEmail.trim() }),
+        })
+        setInviteEmail('')
+        setIsInviteDialogOpen(false)
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
+    })
+  }
+
+  const handleResendInvitation = (invitation: WorkspaceInvitation) => {
+    resendInvitation.mutate(invitation.id, {
+      onSuccess: () => {
+        toast({
+          title: t('team.invitationResent'),
+          description: t('team.invitationResentDescription', { email: invitation.email }),
+        })
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
     })
-    setInviteEmail('')
-    setIsInviteDialogOpen(false)
+  }
+
+  const handleRevokeInvitation = (invitation: WorkspaceInvitation) => {
+    if (!confirm(t('team.revokeConfirm', { email: invitation.email }))) return
+
+    revokeInvitation.mutate(invitation.id, {
+      onSuccess: () => {
+        toast({
+          title: t('team.invitationRevoked'),
+          description: t('team.invitationRevokedDescription', { email: invitation.email }),
+        })
+      },
+      onError: (error) => {
+        toast({ title: t('common.error'), description: error.message, variant: "destructive" })
+      },
+    })
+  }
+
+  // For sharing another way, or trying the flow where no emails go out
+  const handleCopyInvitationLink = async (invitation: WorkspaceInvitation) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationUrl(window.location.origin, invitation.token))
+      toast({ title: t('team.linkCopied'), description: t('team.linkCopiedDescription', { email: invitation.email }) })
+    } catch {
+      toast({ title: t('common.error'), description: t('team.copyFailed'), variant: "destructive" })
+    }
   }
 
   const getRoleIcon = (role: string) => {
@@ -115,30 +200,30 @@ export const TeamManagement = () => {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Team Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t('team.title')}</h1>
           <p className="text-muted-foreground">
-            Manage your team members and their permissions
+            {t('team.subtitle', { workspace: workspace?.name ?? '' })}
           </p>
         </div>
         
         <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
           <DialogTrigger asChild>
-            <Button>
+            <Button disabled={!canManageMembers}>
               <UserPlus className="h-4 w-4 mr-2" />
-              Invite Member
+              {t('team.invite')}
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Invite Team Member</DialogTitle>
+              <DialogTitle>{t('team.inviteDialog.title')}</DialogTitle>
               <DialogDescription>
-                Send an invitation to join your feedback team
+                {t('team.inviteDialog.description')}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
               <div>
                 <label htmlFor="invite-email" className="text-sm font-medium">
-                  Email Address
+                  {t('team.inviteDialog.email')}
                 </label>
                 <Input
                   id="invite-email"
@@ -150,21 +235,21 @@ export const TeamManagement = () => {
               </div>
               <div>
                 <label htmlFor="invite-role" className="text-sm font-medium">
-                  Role
+                  {t('team.inviteDialog.role')}
                 </label>
-                <Select value={inviteRole} onValueChange={setInviteRole}>
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as WorkspaceRole)}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(rolePermissions).map(([key, role]) => (
+                    {getAssignableRoles(myRole).map((key) => (
                       <SelectItem key={key} value={key}>
                         <div className="flex items-center gap-2">
                           {getRoleIcon(key)}
                           <div>
-                            <div className="font-medium">{role.label}</div>
+                            <div className="font-medium">{t(`nav.workspace.role.${key}`)}</div>
                             <div className="text-xs text-muted-foreground">
-                              {role.description}
+                              {t(`team.roleDescription.${key}`)}
                             </div>
                           </div>
                         </div>
@@ -178,13 +263,13 @@ export const TeamManagement = () => {
                   variant="outline" 
                   onClick={() => setIsInviteDialogOpen(false)}
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </Button>
                 <Button 
                   onClick={handleInviteTeamMember}
-                  disabled={!inviteEmail.trim()}
+                  disabled={!inviteEmail.trim() || inviteMember.isPending}
                 >
-                  Send Invitation
+                  {t('team.inviteDialog.submit')}
                 </Button>
               </div>
             </div>
@@ -196,52 +281,52 @@ export const TeamManagement = () => {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Team Members</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('team.stats.members')}</CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{teamMembers.length}</div>
             <p className="text-xs text-muted-foreground">
-              Active members
+              {t('team.stats.membersHint')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Admins</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('team.stats.admins')}</CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">2</div>
+            <div className="text-2xl font-bold">{adminCount}</div>
             <p className="text-xs text-muted-foreground">
-              With admin access
+              {t('team.stats.adminsHint')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Today</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('team.stats.activeToday')}</CardTitle>
             <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{Math.min(teamMembers.length, 3)}</div>
             <p className="text-xs text-muted-foreground">
-              Members online
+              {t('team.stats.activeTodayHint')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Pending Invites</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('team.stats.pendingInvites')}</CardTitle>
             <Mail className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0</div>
+            <div className="text-2xl font-bold">{canManageMembers ? pendingInviteCount : '—'}</div>
             <p className="text-xs text-muted-foreground">
-              Awaiting response
+              {t(canManageMembers ? 'team.stats.pendingInvitesHint' : 'team.stats.pendingInvitesHidden')}
             </p>
           </CardContent>
         </Card>
@@ -251,18 +336,18 @@ export const TeamManagement = () => {
         {/* Team Members List */}
         <Card>
           <CardHeader>
-            <CardTitle>Team Members</CardTitle>
+            <CardTitle>{t('team.members.title')}</CardTitle>
             <CardDescription>
-              Manage your team and their permissions
+              {t('team.members.description', { workspace: workspace?.name ?? '' })}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {teamMembers.map((member, index) => {
-                // Mock role assignment
-                const memberRole = index === 0 ? 'owner' : index === 1 ? 'admin' : 'member'
-                const role = rolePermissions[memberRole as keyof typeof rolePermissions]
-                
+              {teamMembers.map((member) => {
+                const isYou = member.user_id === user?.id
+                const assignableRoles = WORKSPACE_ROLES.filter(r => r !== member.role && !getChangeError(member, r))
+                const canRemove = !getChangeError(member, null)
+
                 return (
                   <div key={member.id} className="flex items-center justify-between p-4 border rounded-lg">
                     <div className="flex items-center gap-3">
@@ -272,20 +357,52 @@ export const TeamManagement = () => {
                         </AvatarFallback>
                       </Avatar>
                       <div>
-                        <div className="font-medium">{member.username}</div>
+                        <div className="font-medium">
+                          {member.username}
+                          {isYou && <span className="ml-1 text-sm font-normal text-muted-foreground">{t('team.members.you')}</span>}
+                        </div>
                         <div className="text-sm text-muted-foreground">{member.email}</div>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <Badge className={role.color}>
+                      <Badge className={WORKSPACE_ROLE_META[member.role].color}>
                         <div className="flex items-center gap-1">
-                          {getRoleIcon(memberRole)}
-                          {role.label}
+                          {getRoleIcon(member.role)}
+                          {t(`nav.workspace.role.${member.role}`)}
                         </div>
                       </Badge>
-                      <Button variant="ghost" size="sm">
-                        <MoreVertical className="h-4 w-4" />
-                      </Button>
+                      {(assignableRoles.length > 0 || canRemove) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" aria-label={t('team.members.manage', { name: member.username })}>
+                              <MoreVertical className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {assignableRoles.length > 0 && (
+                              <>
+                                <DropdownMenuLabel>{t('team.members.changeRole')}</DropdownMenuLabel>
+                                {assignableRoles.map((r) => (
+                                  <DropdownMenuItem key={r} onClick={() => handleRoleChange(member, r)}>
+                                    {getRoleIcon(r)}
+                                    <span className="ml-2">{t(`nav.workspace.role.${r}`)}</span>
+                                  </DropdownMenuItem>
+                                ))}
+                              </>
+                            )}
+                            {assignableRoles.length > 0 && canRemove && <DropdownMenuSeparator />}
+                            {canRemove && (
+                              <DropdownMenuItem
+                                onClick={() => handleRemove(member)}
+                                className="text-red-600 focus:text-red-600"
+                              >
+                                {isYou ? <LogOut className="h-4 w-4 mr-2" /> : <UserMinus className="h-4 w-4 mr-2" />}
+                                {t(isYou ? 'team.members.leave' : 'team.members.remove')}
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
                   </div>
                 )
@@ -297,9 +414,9 @@ export const TeamManagement = () => {
         {/* Recent Activity */}
         <Card>
           <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
+            <CardTitle>{t('team.activity.title')}</CardTitle>
             <CardDescription>
-              Latest team member actions
+              {t('team.activity.description')}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -324,33 +441,108 @@ export const TeamManagement = () => {
         </Card>
       </div>
 
+      {/* Pending Invitations */}
+      {canManageMembers && invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('team.invitations.title')}</CardTitle>
+            <CardDescription>
+              {t('team.invitations.description')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {invitations.map((invitation) => {
+                const expired = getInvitationStatus(invitation) === 'expired'
+
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Avatar className="h-10 w-10">
+                        <AvatarFallback>
+                          <Mail className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{invitation.email}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {expired
+                            ? t('team.invitations.expiredOn', { date: format.date(invitation.expires_at) })
+                            : t(invitation.sent_at ? 'team.invitations.sent' : 'team.invitations.sending', {
+                                date: format.date(invitation.expires_at),
+                              })}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {expired && <Badge variant="outline">{t('team.invitations.expired')}</Badge>}
+                      <Badge className={WORKSPACE_ROLE_META[invitation.role].color}>
+                        {t(`nav.workspace.role.${invitation.role}`)}
+                      </Badge>
+                      {!expired && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCopyInvitationLink(invitation)}
+                          aria-label={t('team.invitations.copyLink', { email: invitation.email })}
+                        >
+                          <Link className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleResendInvitation(invitation)}
+                        disabled={resendInvitation.isPending}
+                        aria-label={t('team.invitations.resend', { email: invitation.email })}
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevokeInvitation(invitation)}
+                        disabled={revokeInvitation.isPending}
+                        aria-label={t('team.invitations.revoke', { email: invitation.email })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Role Permissions */}
       <Card>
         <CardHeader>
-          <CardTitle>Role Permissions</CardTitle>
+          <CardTitle>{t('team.permissions.title')}</CardTitle>
           <CardDescription>
-            Understanding what each role can do
+            {t('team.permissions.description')}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-            {Object.entries(rolePermissions).map(([key, role]) => (
+            {WORKSPACE_ROLES.map((key) => (
               <Card key={key}>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-base flex items-center gap-2">
                     {getRoleIcon(key)}
-                    {role.label}
+                    {t(`nav.workspace.role.${key}`)}
                   </CardTitle>
                   <CardDescription className="text-sm">
-                    {role.description}
+                    {t(`team.roleDescription.${key}`)}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
-                    {role.permissions.map((permission) => (
+                    {WORKSPACE_ROLE_META[key].permissions.map((permission) => (
                       <div key={permission} className="flex items-center gap-2 text-sm">
                         <div className="h-1.5 w-1.5 bg-green-500 rounded-full"></div>
-                        {permission.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                        {t(`team.permission.${permission}`)}
                       </div>
                     ))}
                   </div>
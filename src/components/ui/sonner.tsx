@@ -4,11 +4,12 @@ import { Toaster as Sonner, toast } from "sonner"
 type ToasterProps = React.ComponentProps<typeof Sonner>
 
 const Toaster = ({ ...props }: ToasterProps) => {
-  const { theme = "system" } = useTheme()
+  const { resolvedTheme } = useTheme()
 
   return (
     <Sonner
-      theme={theme as ToasterProps["theme"]}
+      // Sonner only knows light and dark; high contrast is light based
+      theme={resolvedTheme === "dark" ? "dark" : "light"}
       className="toaster group"
       toastOptions={{
         classNames: {
@@ -1,14 +1,16 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react'
-import { User, Session } from '@supabase/supabase-js'
-import { supabase } from '@/lib/supabase'
+import { backend, type AuthSession, type AuthUser } from '@/lib/backend'
+import { translate } from '@/lib/i18n'
+import { createUserProfile, isUsernameAvailable } from '@/lib/repository'
 import { useToast } from '@/hooks/use-toast'
 
 interface AuthContextType {
-  user: User | null
-  session: Session | null
+  user: AuthUser | null
+  session: AuthSession | null
   loading: boolean
-  signUp: (email: string, password: string, username: string) => Promise<void>
+  /** `redirectTo` is where the confirmation link leads; the app's home when left out */
+  signUp: (email: string, password: string, username: string, redirectTo?: string) => Promise<void>
   signIn: (email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
   resetPassword: (email: string) => Promise<void>
@@ -26,62 +28,41 @@ export const useAuth = () => {
 }
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null)
-  const [session, setSession] = useState<Session | null>(null)
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [session, setSession] = useState<AuthSession | null>(null)
   const [loading, setLoading] = useState(true)
   const { toast } = useToast()
 
   useEffect(() => {
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    backend.auth.getSession().then((session) => {
       setSession(session)
       setUser(session?.user ?? null)
       setLoading(false)
     })
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        setSession(session)
-        setUser(session?.user ?? null)
-        setLoading(false)
-      }
-    )
-
-    return () => subscription.unsubscribe()
+    return backend.auth.onAuthStateChange((session) => {
+      setSession(session)
+      setUser(session?.user ?? null)
+      setLoading(false)
+    })
   }, [])
 
-  const signUp = async (email: string, password: string, username: string) => {
+  const signUp = async (email: string, password: string, username: string, redirectTo?: string) => {
     try {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            username
-          }
-        }
-      })
-
-      if (error) throw error
+      const userId = await backend.auth.signUp(email, password, { username }, { redirectTo })
 
       // Insert user data into our users table
-      const { error: insertError } = await supabase
-        .from('users')
-        .insert({
-          email,
-          username
-        })
-
-      if (insertError) throw insertError
+      await createUserProfile({ id: userId ?? undefined, email, username })
 
       toast({
-        title: "Success!",
-        description: "Please check your email to verify your account.",
+        title: translate('auth.signedUp'),
+        description: translate('auth.signedUpDescription'),
       })
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: translate('common.error'),
         description: error.message,
         variant: "destructive",
       })
@@ -91,20 +72,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signIn = async (email: string, password: string) => {
     try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      })
-
-      if (error) throw error
+      await backend.auth.signIn(email, password)
 
       toast({
-        title: "Welcome back!",
-        description: "You have successfully signed in.",
+        title: translate('auth.signedIn'),
+        description: translate('auth.signedInDescription'),
       })
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: translate('common.error'),
         description: error.message,
         variant: "destructive",
       })
@@ -114,16 +90,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     try {
-      const { error } = await supabase.auth.signOut()
-      if (error) throw error
+      await backend.auth.signOut()
 
       toast({
-        title: "Signed out",
-        description: "You have been successfully signed out.",
+        title: translate('auth.signedOut'),
+        description: translate('auth.signedOutDescription'),
       })
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: translate('common.error'),
         description: error.message,
         variant: "destructive",
       })
@@ -133,16 +108,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const resetPassword = async (email: string) => {
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(email)
-      if (error) throw error
+      await backend.auth.resetPassword(email)
 
       toast({
-        title: "Reset email sent",
-        description: "Please check your email for password reset instructions.",
+        title: translate('auth.resetSent'),
+        description: translate('auth.resetSentDescription'),
       })
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: translate('common.error'),
         description: error.message,
         variant: "destructive",
       })
@@ -152,17 +126,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const checkUsernameAvailability = async (username: string): Promise<boolean> => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('username')
-        .eq('username', username)
-        .single()
-
-      if (error && error.code !== 'PGRST116') {
-        throw error
-      }
-
-      return !data // Return true if no user found (username available)
+      return await isUsernameAvailable(username)
     } catch (error) {
       console.error('Error checking username availability:', error)
       return false
@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react'
+import {
+  DEFAULT_DATE_RANGE,
+  getBrowserTimezone,
+  isValidTimezone,
+  resolveDateRange,
+  toDayKey,
+  type DateRange,
+  type ResolvedDateRange,
+} from '@/lib/date-range'
+
+const RANGE_KEY = 'feedbackflow:date-range'
+const TIMEZONE_KEY = 'feedbackflow:timezone'
+
+interface DateRangeContextType {
+  range: DateRange
+  setRange: (range: DateRange) => void
+  /** IANA timezone every date range and day bucket is evaluated in */
+  timezone: string
+  setTimezone: (timezone: string) => void
+  /** `range` as instants in `timezone` */
+  resolved: ResolvedDateRange
+}
+
+const DateRangeContext = createContext<DateRangeContextType | undefined>(undefined)
+
+export const useDateRange = () => {
+  const context = useContext(DateRangeContext)
+  if (context === undefined) {
+    throw new Error('useDateRange must be used within a DateRangeProvider')
+  }
+  return context
+}
+
+const readStored = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export const DateRangeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [range, setRangeState] = useState<DateRange>(() => readStored(RANGE_KEY, DEFAULT_DATE_RANGE))
+  const [timezone, setTimezoneState] = useState<string>(() => {
+    const stored = readStored<string | null>(TIMEZONE_KEY, null)
+    return stored && isValidTimezone(stored) ? stored : getBrowserTimezone()
+  })
+  const [today, setToday] = useState(() => toDayKey(new Date(), timezone))
+
+  // Rolling presets move forward when the day changes in the chosen timezone
+  useEffect(() => {
+    const timer = setInterval(() => setToday(toDayKey(new Date(), timezone)), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [timezone])
+
+  const setRange = (next: DateRange) => {
+    window.localStorage.setItem(RANGE_KEY, JSON.stringify(next))
+    setRangeState(next)
+  }
+
+  const setTimezone = (next: string) => {
+    window.localStorage.setItem(TIMEZONE_KEY, JSON.stringify(next))
+    setTimezoneState(next)
+    setToday(toDayKey(new Date(), next))
+  }
+
+  // Recomputed only when the inputs or the calendar day change, so query keys stay stable
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const resolved = useMemo(() => resolveDateRange(range, timezone), [range, timezone, today])
+
+  return (
+    <DateRangeContext.Provider value={{ range, setRange, timezone, setTimezone, resolved }}>
+      {children}
+    </DateRangeContext.Provider>
+  )
+}
@@ -0,0 +1,60 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react'
+import { useTheme } from 'next-themes'
+import { useDateRange } from '@/contexts/DateRangeContext'
+import { useUserSettings } from '@/hooks/use-user-settings'
+import { createFormatter, type FormatPreferences, type Formatter } from '@/lib/format'
+import { createTranslator, setCurrentLanguage, type Translate } from '@/lib/i18n'
+import { getBrowserLanguage } from '@/lib/user-settings'
+
+interface PreferencesContextType {
+  preferences: FormatPreferences
+  /** Formats dates and numbers with `preferences` */
+  format: Formatter
+  /** Interface text in `preferences.language` */
+  t: Translate
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined)
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext)
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider')
+  }
+  return context
+}
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { timezone, setTimezone } = useDateRange()
+  const { data: savedSettings, settings } = useUserSettings()
+  const { setTheme } = useTheme()
+
+  // The saved timezone replaces the one this browser last used, so it follows
+  // the user between devices; until one is saved the browser's stays
+  const savedTimezone = settings.timezone
+  useEffect(() => {
+    if (savedTimezone && savedTimezone !== timezone) setTimezone(savedTimezone)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedTimezone])
+
+  // Likewise the saved theme; signed out, the one last used on this device stays
+  const savedTheme = savedSettings?.theme
+  useEffect(() => {
+    if (savedTheme) setTheme(savedTheme)
+  }, [savedTheme, setTheme])
+
+  // Signed out, or before settings load, the browser's language is the best guess
+  const language = savedSettings?.language ?? getBrowserLanguage()
+  // Set while rendering, like the workspace, so toasts from above see it too
+  setCurrentLanguage(language)
+  useEffect(() => {
+    document.documentElement.lang = language
+  }, [language])
+
+  const value = useMemo(() => {
+    const preferences = { timezone, dateFormat: settings.dateFormat, language }
+    return { preferences, format: createFormatter(preferences), t: createTranslator(language) }
+  }, [timezone, settings.dateFormat, language])
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>
+}
@@ -0,0 +1,92 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCreateWorkspace, useMyWorkspaces } from '@/hooks/use-workspaces'
+import type { WorkspaceMembership, WorkspaceRole } from '@/lib/repository'
+import { hasPermission, type WorkspacePermission } from '@/lib/workspace-roles'
+
+const STORAGE_KEY = 'feedbackflow:workspace'
+
+interface WorkspaceContextType {
+  /** Workspaces the signed-in user belongs to */
+  workspaces: WorkspaceMembership[]
+  /** The one feedback, issues and tags are shown for; null until loaded */
+  workspace: WorkspaceMembership | null
+  /** The signed-in user's role in `workspace` */
+  role: WorkspaceRole | null
+  can: (permission: WorkspacePermission) => boolean
+  switchWorkspace: (workspaceId: string) => void
+  /** Signed in, but no workspace resolved yet */
+  loading: boolean
+  /** Marks that a page needing a workspace is open; see useRequiredWorkspace */
+  requireWorkspace: () => void
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
+
+/**
+ * For pages that cannot work without a workspace. An account without any
+ * gets one of its own once such a page opens; pages like the invitation one
+ * do not call this, so someone signing up to accept an invitation does not
+ * get an empty workspace first.
+ */
+export const useRequiredWorkspace = () => {
+  const context = useWorkspace()
+  const { requireWorkspace } = context
+  useEffect(requireWorkspace, [requireWorkspace])
+  return context
+}
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const { data: workspaces = [], isSuccess, isError } = useMyWorkspaces()
+  const createWorkspace = useCreateWorkspace()
+
+  // Remembered per user, like the dashboard layout
+  const key = `${STORAGE_KEY}:${user?.id ?? 'anonymous'}`
+  const [selected, setSelected] = useState<{ key: string; workspaceId: string | null }>(() => ({
+    key,
+    workspaceId: window.localStorage.getItem(key),
+  }))
+  const selectedId = selected.key === key ? selected.workspaceId : window.localStorage.getItem(key)
+
+  // Leaving the selected workspace, or losing access to it, falls back to another one
+  const workspace = user ? workspaces.find(w => w.id === selectedId) ?? workspaces[0] ?? null : null
+
+  // Everyone has somewhere to work: accounts without a workspace get their own
+  const [required, setRequired] = useState(false)
+  const requireWorkspace = useCallback(() => setRequired(true), [])
+  const createdFor = useRef<string | null>(null)
+  useEffect(() => {
+    if (!required || !user || !isSuccess || workspaces.length || createdFor.current === user.id) return
+    createdFor.current = user.id
+    createWorkspace.mutate(`${user.user_metadata?.username || user.email}'s workspace`)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [required, user, isSuccess, workspaces.length])
+
+  const switchWorkspace = (workspaceId: string) => {
+    if (workspaceId === workspace?.id) return
+    window.localStorage.setItem(key, workspaceId)
+    setSelected({ key, workspaceId })
+  }
+
+  const role = workspace?.role ?? null
+  const value = {
+    workspaces,
+    workspace,
+    role,
+    can: (permission: WorkspacePermission) => hasPermission(role, permission),
+    switchWorkspace,
+    loading: !!user && !workspace && !isError && !createWorkspace.isError,
+    requireWorkspace,
+  }
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>
+}
@@ -0,0 +1,137 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import type { ComparisonWindow } from '@/lib/metrics'
+import {
+  getFeedbackSummary,
+  getFeedbackTrends,
+  getRatingHistogram,
+  listDailyFeedbackCounts,
+  listDailySurveyMetrics,
+  listHourlyFeedbackCounts,
+  listRecentFeedbacks,
+  listSentimentCounts,
+  listWeekdayFeedbackCounts,
+  keepPreviousInWorkspace,
+  queryKeys,
+  type ReceivedBounds,
+} from '@/lib/repository'
+
+interface AggregateOptions {
+  refetchInterval?: number
+}
+
+// Aggregates keep showing the workspace's previous window or range while the next
+// one loads. Periods are computed when the query runs, so refetches follow the clock.
+export const useFeedbackTrends = (window: ComparisonWindow, options: AggregateOptions = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.trends(workspaceId, window),
+    queryFn: () => getFeedbackTrends(workspaceId, window),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+    refetchInterval: options.refetchInterval,
+  })
+}
+
+export const useFeedbackSummary = (bounds: ReceivedBounds, options: AggregateOptions = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.summary(workspaceId, bounds),
+    queryFn: () => getFeedbackSummary(workspaceId, bounds),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+    refetchInterval: options.refetchInterval,
+  })
+}
+
+export const useDailyFeedbackCounts = (bounds: ReceivedBounds, timezone: string, options: AggregateOptions = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.daily(workspaceId, bounds, timezone),
+    queryFn: () => listDailyFeedbackCounts(workspaceId, bounds, timezone),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+    refetchInterval: options.refetchInterval,
+  })
+}
+
+export const useDailySurveyMetrics = (bounds: ReceivedBounds, timezone: string) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.dailySurvey(workspaceId, bounds, timezone),
+    queryFn: () => listDailySurveyMetrics(workspaceId, bounds, timezone),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+  })
+}
+
+export const useWeekdayFeedbackCounts = (bounds: ReceivedBounds, timezone: string) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.weekday(workspaceId, bounds, timezone),
+    queryFn: () => listWeekdayFeedbackCounts(workspaceId, bounds, timezone),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+  })
+}
+
+export const useHourlyFeedbackCounts = (bounds: ReceivedBounds, timezone: string) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.hourly(workspaceId, bounds, timezone),
+    queryFn: () => listHourlyFeedbackCounts(workspaceId, bounds, timezone),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+  })
+}
+
+export const useRatingHistogram = (bounds: ReceivedBounds) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.ratingHistogram(workspaceId, bounds),
+    queryFn: () => getRatingHistogram(workspaceId, bounds),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+  })
+}
+
+export const useSentimentCounts = (bounds: ReceivedBounds, options: AggregateOptions = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.sentiment(workspaceId, bounds),
+    queryFn: () => listSentimentCounts(workspaceId, bounds),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+    refetchInterval: options.refetchInterval,
+  })
+}
+
+export const useRecentFeedbacks = (bounds: ReceivedBounds, limit = 5, options: AggregateOptions = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.recent(workspaceId, bounds, limit),
+    queryFn: () => listRecentFeedbacks(workspaceId, bounds, limit),
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+    refetchInterval: options.refetchInterval,
+  })
+}
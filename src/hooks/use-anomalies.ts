@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { findFeedbackAnomalies } from '@/lib/anomalies'
+import { resolveDateRange, toReceivedBounds, type DateRange } from '@/lib/date-range'
+import { toDailySeries } from '@/lib/metrics'
+import { listDailyFeedbackCounts, queryKeys } from '@/lib/repository'
+
+// History the alerts look at, today included
+const LOOKBACK: DateRange = { preset: '30d' }
+
+/**
+ * Volume spikes and rating drops over the last 30 days, independent of the
+ * shared date range, for alerts. The range is resolved when the query runs so
+ * refetches follow the clock.
+ */
+export const useFeedbackAnomalies = (timezone: string, options: { refetchInterval?: number } = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.anomalies(workspaceId, timezone),
+    queryFn: async () => {
+      const range = resolveDateRange(LOOKBACK, timezone)
+      const rows = await listDailyFeedbackCounts(workspaceId, toReceivedBounds(range), timezone)
+      return findFeedbackAnomalies(toDailySeries(rows, range, timezone))
+    },
+    enabled: !!user && !!workspaceId,
+    refetchInterval: options.refetchInterval,
+  })
+}
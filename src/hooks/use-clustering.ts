@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  acceptClusterProposal,
+  dismissClusterProposal,
+  invalidateIssues,
+  linkFeedbacksToIssue,
+  listClusterProposals,
+  queryKeys,
+} from '@/lib/repository'
+
+export const useClusterProposals = (enabled = true) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.issues.clusterProposals(workspaceId),
+    queryFn: () => listClusterProposals(workspaceId),
+    enabled: enabled && !!user && !!workspaceId,
+  })
+}
+
+export const useAcceptClusterProposal = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ title, feedbackIds }: { title: string; feedbackIds: string[] }) => {
+      if (!user) throw new Error('User not authenticated')
+      return acceptClusterProposal(workspaceId, user.id, title, feedbackIds)
+    },
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
+
+export const useMergeClusterProposal = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ issueId, feedbackIds }: { issueId: string; feedbackIds: string[] }) => {
+      if (!user) throw new Error('User not authenticated')
+      return linkFeedbacksToIssue(issueId, feedbackIds, user.id)
+    },
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
+
+export const useDismissClusterProposal = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (feedbackIds: string[]) => {
+      if (!user) throw new Error('User not authenticated')
+      return dismissClusterProposal(feedbackIds, user.id)
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.issues.clusterProposals(workspaceId) }),
+  })
+}
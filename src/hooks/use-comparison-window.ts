@@ -0,0 +1,21 @@
+import { useState } from 'react'
+import { COMPARISON_WINDOWS, DEFAULT_COMPARISON_WINDOW, type ComparisonWindow } from '@/lib/metrics'
+
+const STORAGE_KEY = 'feedbackflow:comparison-window'
+
+const readWindow = (): ComparisonWindow => {
+  const stored = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null
+  return COMPARISON_WINDOWS.includes(stored as ComparisonWindow) ? (stored as ComparisonWindow) : DEFAULT_COMPARISON_WINDOW
+}
+
+/** The comparison window picked on Analytics or the overview, remembered across pages and reloads */
+export const useComparisonWindow = () => {
+  const [comparisonWindow, setComparisonWindowState] = useState<ComparisonWindow>(readWindow)
+
+  const setComparisonWindow = (value: ComparisonWindow) => {
+    window.localStorage.setItem(STORAGE_KEY, value)
+    setComparisonWindowState(value)
+  }
+
+  return [comparisonWindow, setComparisonWindow] as const
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import type { DashboardWidget } from '@/lib/dashboard-widgets'
+import {
+  createDashboardLayout,
+  deleteDashboardLayout,
+  invalidateDashboardLayouts,
+  listDashboardLayouts,
+  queryKeys,
+  updateDashboardLayout,
+} from '@/lib/repository'
+
+type LayoutFields = { name: string; widgets: DashboardWidget[]; shared: boolean }
+
+/** The user's own layouts and the ones teammates share */
+export const useDashboardLayouts = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.dashboardLayouts.list(workspaceId),
+    queryFn: () => listDashboardLayouts(workspaceId, user.id),
+    enabled: !!user && !!workspaceId,
+  })
+}
+
+export const useCreateDashboardLayout = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (layout: Pick<LayoutFields, 'name' | 'widgets'> & { shared?: boolean }) => {
+      if (!user) throw new Error('User not authenticated')
+      return createDashboardLayout(workspaceId, user.id, layout)
+    },
+    onSuccess: () => invalidateDashboardLayouts(queryClient),
+  })
+}
+
+export const useUpdateDashboardLayout = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ layoutId, values }: { layoutId: string; values: Partial<LayoutFields> }) =>
+      updateDashboardLayout(layoutId, values),
+    onSuccess: () => invalidateDashboardLayouts(queryClient),
+  })
+}
+
+export const useDeleteDashboardLayout = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: deleteDashboardLayout,
+    onSuccess: () => invalidateDashboardLayouts(queryClient),
+  })
+}
+
+const STORAGE_KEY = 'feedbackflow:dashboard-layout'
+
+/**
+ * Id of the layout shown on the overview, remembered per user across reloads;
+ * null for the built-in layout
+ */
+export const useSelectedDashboardLayout = () => {
+  const { user } = useAuth()
+  const key = `${STORAGE_KEY}:${user?.id ?? 'anonymous'}`
+  const [selected, setSelectedState] = useState<{ key: string; layoutId: string | null }>(() => ({
+    key,
+    layoutId: window.localStorage.getItem(key),
+  }))
+  // Another user signed in on this browser
+  const layoutId = selected.key === key ? selected.layoutId : window.localStorage.getItem(key)
+
+  const setLayoutId = (value: string | null) => {
+    if (value) window.localStorage.setItem(key, value)
+    else window.localStorage.removeItem(key)
+    setSelectedState({ key, layoutId: value })
+  }
+
+  return [layoutId, setLayoutId] as const
+}
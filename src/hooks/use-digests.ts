@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import type { Formatter } from '@/lib/format'
+import {
+  getDigestPreferences,
+  invalidateDigests,
+  listDigestDeliveries,
+  previewDigest,
+  queryKeys,
+  saveDigestPreferences,
+  type DigestPreferences,
+} from '@/lib/repository'
+
+export const useDigestPreferences = () => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.digests.preferences(),
+    queryFn: () => getDigestPreferences(user.id),
+    enabled: !!user,
+  })
+}
+
+export const useSaveDigestPreferences = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (preferences: DigestPreferences) => {
+      if (!user) throw new Error('User not authenticated')
+      return saveDigestPreferences(user.id, preferences)
+    },
+    onSuccess: () => invalidateDigests(queryClient),
+  })
+}
+
+/** The most recent digests sent to the signed-in user, newest first */
+export const useDigestDeliveries = () => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.digests.deliveries(),
+    queryFn: () => listDigestDeliveries(user.id),
+    enabled: !!user,
+  })
+}
+
+/** Last week's digest as it would be sent now; only loaded while enabled */
+export const useDigestPreview = (format: Formatter, enabled: boolean) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.digests.preview(workspaceId, format.preferences),
+    queryFn: () => previewDigest(workspaceId, user.id, format),
+    enabled: !!user && !!workspaceId && enabled,
+    // Always show the current numbers
+    staleTime: 0,
+  })
+}
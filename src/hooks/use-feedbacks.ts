@@ -0,0 +1,144 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  assignFeedback,
+  changeFeedbackStatus,
+  countFeedbacks,
+  countUnprocessedFeedbacks,
+  invalidateFeedbacks,
+  invalidateIssues,
+  invalidateTags,
+  listFeedbackIds,
+  listFeedbackPage,
+  listFeedbackStatusEvents,
+  markFeedbackProcessed,
+  queryKeys,
+  runBulkAction,
+  searchFeedbacks,
+  type BulkAction,
+  type BulkResult,
+  type FeedbackFilters,
+  type FeedbackStatus,
+} from '@/lib/repository'
+
+export const useFeedbackPage = (filters: FeedbackFilters, page: number, pageSize: number) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.page(workspaceId, filters, page),
+    queryFn: () => listFeedbackPage(workspaceId, filters, page, pageSize),
+    enabled: !!user && !!workspaceId,
+  })
+}
+
+export const useFeedbackSearch = (filters: FeedbackFilters, enabled = true) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.search(workspaceId, filters),
+    queryFn: () => searchFeedbacks(workspaceId, filters),
+    enabled: enabled && !!user && !!workspaceId,
+  })
+}
+
+export const useFeedbackCount = (filters: FeedbackFilters, options: { enabled?: boolean } = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.count(workspaceId, filters),
+    queryFn: () => countFeedbacks(workspaceId, filters),
+    enabled: (options.enabled ?? true) && !!user && !!workspaceId,
+    refetchInterval: 30000,
+  })
+}
+
+export const useUnprocessedFeedbackCount = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.unprocessedCount(workspaceId),
+    queryFn: () => countUnprocessedFeedbacks(workspaceId),
+    enabled: !!user && !!workspaceId,
+    refetchInterval: 30000, // Refetch every 30 seconds
+  })
+}
+
+export const useMarkFeedbackProcessed = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: markFeedbackProcessed,
+    onSuccess: () => invalidateFeedbacks(queryClient),
+  })
+}
+
+export const useFeedbackStatusEvents = (feedbackId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.feedbacks.statusEvents(feedbackId ?? ''),
+    queryFn: () => listFeedbackStatusEvents(feedbackId),
+    enabled: !!feedbackId,
+  })
+}
+
+export const useChangeFeedbackStatus = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ feedbackId, status }: { feedbackId: string; status: FeedbackStatus }) => {
+      if (!user) throw new Error('User not authenticated')
+      return changeFeedbackStatus(feedbackId, status, {
+        id: user.id,
+        name: user.user_metadata?.username || user.email,
+      })
+    },
+    onSuccess: () => invalidateFeedbacks(queryClient),
+  })
+}
+
+export const useAssignFeedback = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ feedbackId, assigneeId }: { feedbackId: string; assigneeId: string | null }) =>
+      assignFeedback(feedbackId, assigneeId),
+    onSuccess: () => invalidateFeedbacks(queryClient),
+  })
+}
+
+/** Explicit ids, or every feedback matching the filters at the moment the action runs */
+export type BulkTarget = { feedbackIds: string[] } | { filters: FeedbackFilters }
+
+export const useBulkFeedbackAction = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  // Bulk actions touch tags and issue links as well as feedback
+  const invalidateAll = () =>
+    Promise.all([invalidateFeedbacks(queryClient), invalidateTags(queryClient), invalidateIssues(queryClient)])
+
+  return useMutation({
+    mutationFn: async ({ target, action }: { target: BulkTarget; action: BulkAction }): Promise<BulkResult> => {
+      if (!user) throw new Error('User not authenticated')
+      const feedbackIds = 'filters' in target ? await listFeedbackIds(workspaceId, target.filters) : target.feedbackIds
+      const result = await runBulkAction(feedbackIds, action, {
+        id: user.id,
+        name: user.user_metadata?.username || user.email,
+      })
+      return {
+        ...result,
+        undo: async () => {
+          await result.undo()
+          await invalidateAll()
+        },
+      }
+    },
+    onSuccess: invalidateAll,
+  })
+}
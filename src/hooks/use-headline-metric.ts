@@ -0,0 +1,21 @@
+import { useState } from 'react'
+import { DEFAULT_HEADLINE_METRIC, HEADLINE_METRICS, type HeadlineMetric } from '@/lib/survey-metrics'
+
+const STORAGE_KEY = 'feedbackflow:headline-metric'
+
+const readMetric = (): HeadlineMetric => {
+  const stored = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null
+  return HEADLINE_METRICS.includes(stored as HeadlineMetric) ? (stored as HeadlineMetric) : DEFAULT_HEADLINE_METRIC
+}
+
+/** The metric the overview's headline card shows, remembered across reloads */
+export const useHeadlineMetric = () => {
+  const [headlineMetric, setHeadlineMetricState] = useState<HeadlineMetric>(readMetric)
+
+  const setHeadlineMetric = (value: HeadlineMetric) => {
+    window.localStorage.setItem(STORAGE_KEY, value)
+    setHeadlineMetricState(value)
+  }
+
+  return [headlineMetric, setHeadlineMetric] as const
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  acceptInvitation,
+  getInvitation,
+  invalidateInvitations,
+  invalidateWorkspaces,
+  inviteWorkspaceMember,
+  listOpenInvitations,
+  queryKeys,
+  resendInvitation,
+  revokeInvitation,
+  type WorkspaceRole,
+} from '@/lib/repository'
+
+/** Open invitations of the current workspace; only owners and admins can see them */
+export const useOpenInvitations = (options: { enabled?: boolean } = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.invitations.open(workspaceId),
+    queryFn: () => listOpenInvitations(workspaceId),
+    enabled: !!user && !!workspaceId && options.enabled !== false,
+  })
+}
+
+/** The invitation behind an acceptance link, signed in or not */
+export const useInvitation = (token: string) =>
+  useQuery({
+    queryKey: queryKeys.invitations.byToken(token),
+    queryFn: () => getInvitation(token),
+    enabled: !!token,
+  })
+
+export const useInviteMember = () => {
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ email, role }: { email: string; role: WorkspaceRole }) =>
+      inviteWorkspaceMember(workspaceId, email, role),
+    onSuccess: () => invalidateInvitations(queryClient),
+  })
+}
+
+export const useResendInvitation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (invitationId: string) => resendInvitation(invitationId),
+    onSuccess: () => invalidateInvitations(queryClient),
+  })
+}
+
+export const useRevokeInvitation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (invitationId: string) => revokeInvitation(invitationId),
+    onSuccess: () => invalidateInvitations(queryClient),
+  })
+}
+
+export const useAcceptInvitation = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (token: string) => {
+      if (!user) throw new Error('User not authenticated')
+      return acceptInvitation(token)
+    },
+    onSuccess: () => invalidateWorkspaces(queryClient),
+  })
+}
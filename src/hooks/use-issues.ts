@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  countFeedbackPerIssue,
+  createIssue,
+  deleteIssue,
+  invalidateIssues,
+  linkFeedbacksToIssue,
+  listFeedbackIssueLinks,
+  listIssueEvents,
+  listIssueFeedback,
+  listIssues,
+  queryKeys,
+  unlinkFeedbacksFromIssue,
+  updateIssue,
+  type Issue,
+  type IssueChanges,
+} from '@/lib/repository'
+
+export const useIssues = (options: { refetchInterval?: number } = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.issues.list(workspaceId),
+    queryFn: () => listIssues(workspaceId),
+    enabled: !!user && !!workspaceId,
+    refetchInterval: options.refetchInterval,
+  })
+}
+
+export const useIssueFeedbackCounts = (issues: Issue[]) => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.issues.feedbackCounts(issues.map(issue => issue.id)),
+    queryFn: () => countFeedbackPerIssue(issues.map(issue => issue.id)),
+    enabled: issues.length > 0 && !!user,
+  })
+}
+
+export const useCreateIssue = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ title, details }: { title: string; details?: IssueChanges }) => {
+      if (!user) throw new Error('User not authenticated')
+      return createIssue(workspaceId, user.id, title, details)
+    },
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
+
+export const useUpdateIssue = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ issueId, changes }: { issueId: string; changes: IssueChanges }) => {
+      if (!user) throw new Error('User not authenticated')
+      return updateIssue(issueId, changes, {
+        id: user.id,
+        name: user.user_metadata?.username || user.email,
+      })
+    },
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
+
+export const useIssueEvents = (issueId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.issues.events(issueId ?? ''),
+    queryFn: () => listIssueEvents(issueId),
+    enabled: !!issueId,
+  })
+}
+
+export const useDeleteIssue = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: deleteIssue,
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
+
+export const useIssueFeedback = (issueId: string | undefined) => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.issues.feedback(issueId ?? ''),
+    queryFn: () => listIssueFeedback(issueId),
+    enabled: !!issueId && !!user,
+  })
+}
+
+export const useFeedbackIssueLinks = (feedbackIds: string[]) => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.issues.links(feedbackIds),
+    queryFn: () => listFeedbackIssueLinks(feedbackIds),
+    enabled: feedbackIds.length > 0 && !!user,
+  })
+}
+
+export const useLinkFeedbackToIssue = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ issueId, feedbackIds }: { issueId: string; feedbackIds: string[] }) => {
+      if (!user) throw new Error('User not authenticated')
+      return linkFeedbacksToIssue(issueId, feedbackIds, user.id)
+    },
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
+
+export const useUnlinkFeedbackFromIssue = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ issueId, feedbackIds }: { issueId: string; feedbackIds: string[] }) =>
+      unlinkFeedbacksFromIssue(issueId, feedbackIds),
+    onSuccess: () => invalidateIssues(queryClient),
+  })
+}
@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { getPreviousReportRange, REPORT_QUOTES, toReportBounds, toReportData, type ReportRange } from '@/lib/report'
+import {
+  getFeedbackSummary,
+  getRatingHistogram,
+  listDailyFeedbackCounts,
+  listIssueFeedbackCounts,
+  listIssues,
+  listSentimentCounts,
+  keepPreviousInWorkspace,
+  queryKeys,
+  searchFeedbacks,
+} from '@/lib/repository'
+
+// Quotes are picked from a few more candidates than shown, since spam and
+// feedback without text are skipped
+const QUOTE_CANDIDATES = REPORT_QUOTES * 4
+
+/** Everything the stakeholder report shows for a range of calendar days */
+export const useAnalyticsReport = (range: ReportRange, timezone: string) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.feedbacks.report(workspaceId, range, timezone),
+    queryFn: async () => {
+      const bounds = toReportBounds(range, timezone)
+      const [summary, previousSummary, dailyCounts, sentimentCounts, ratingHistogram, issueCounts, issues, praise, concerns] =
+        await Promise.all([
+          getFeedbackSummary(workspaceId, bounds),
+          getFeedbackSummary(workspaceId, toReportBounds(getPreviousReportRange(range), timezone)),
+          listDailyFeedbackCounts(workspaceId, bounds, timezone),
+          listSentimentCounts(workspaceId, bounds),
+          getRatingHistogram(workspaceId, bounds),
+          listIssueFeedbackCounts(workspaceId, bounds),
+          listIssues(workspaceId),
+          searchFeedbacks(workspaceId, { ...bounds, rating: '4+', sortBy: 'average_rating', sortOrder: 'desc' }, QUOTE_CANDIDATES),
+          searchFeedbacks(workspaceId, { ...bounds, sortBy: 'average_rating', sortOrder: 'asc' }, QUOTE_CANDIDATES),
+        ])
+
+      return toReportData({
+        range,
+        timezone,
+        summary,
+        previousSummary,
+        dailyCounts,
+        sentimentCounts,
+        ratingHistogram,
+        issueCounts,
+        issues,
+        praise,
+        concerns,
+      })
+    },
+    enabled: !!user && !!workspaceId,
+    placeholderData: keepPreviousInWorkspace(workspaceId),
+  })
+}
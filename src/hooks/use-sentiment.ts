@@ -0,0 +1,74 @@
+import { useEffect } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { DEFAULT_SENTIMENT_THRESHOLDS, type SentimentThresholds } from '@/lib/sentiment'
+import {
+  getSentimentThresholds,
+  invalidateFeedbacks,
+  invalidateSentimentSettings,
+  queryKeys,
+  saveSentimentThresholds,
+  scoreFeedbackSentiment,
+  scoreUnscoredFeedback,
+  subscribeToInserts,
+} from '@/lib/repository'
+
+/** The current workspace's thresholds; the defaults until they have loaded */
+export const useSentimentThresholds = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  const query = useQuery({
+    queryKey: queryKeys.sentimentSettings.thresholds(workspaceId),
+    queryFn: () => getSentimentThresholds(workspaceId),
+    enabled: !!user && !!workspaceId,
+  })
+  return { ...query, thresholds: query.data ?? DEFAULT_SENTIMENT_THRESHOLDS }
+}
+
+export const useSaveSentimentThresholds = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (thresholds: SentimentThresholds) => {
+      if (!user) throw new Error('User not authenticated')
+      return saveSentimentThresholds(workspaceId, thresholds)
+    },
+    onSuccess: () => invalidateSentimentSettings(queryClient),
+  })
+}
+
+/**
+ * Scores the text of new feedback of the current workspace as it arrives,
+ * and any feedback left unscored. Only roles that can edit feedback store
+ * scores. Mount once, in the dashboard layout.
+ */
+export const useSentimentScoring = () => {
+  const { user } = useAuth()
+  const { workspace, can } = useWorkspace()
+  const queryClient = useQueryClient()
+  const workspaceId = workspace?.id
+  const canScore = can('manage_feedback')
+
+  useEffect(() => {
+    if (!user || !workspaceId || !canScore) return
+
+    const refresh = (scored: number) => (scored ? invalidateFeedbacks(queryClient) : undefined)
+
+    scoreUnscoredFeedback(workspaceId)
+      .then(refresh)
+      .catch((error) => console.error('Error scoring feedback sentiment:', error))
+
+    return subscribeToInserts(workspaceId, 'feedback-sentiment', {
+      onFeedback: (feedback) => {
+        if (feedback.sentiment_scored_at !== null) return
+        scoreFeedbackSentiment([feedback])
+          .then(refresh)
+          .catch((error) => console.error('Error scoring feedback sentiment:', error))
+      },
+    })
+  }, [user, workspaceId, canScore, queryClient])
+}
@@ -0,0 +1,118 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  applyTagRule,
+  createTag,
+  deleteTag,
+  invalidateTags,
+  listFeedbackTags,
+  listTagFeedbackCounts,
+  listTags,
+  queryKeys,
+  tagFeedbacks,
+  untagFeedbacks,
+  updateTag,
+  type Tag,
+} from '@/lib/repository'
+
+type TagFields = Pick<Tag, 'name' | 'color' | 'keywords'>
+
+export const useTags = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.tags.list(workspaceId),
+    queryFn: () => listTags(workspaceId),
+    enabled: !!user && !!workspaceId,
+  })
+}
+
+/** Tag links of the given feedback */
+export const useFeedbackTags = (feedbackIds: string[]) => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.tags.feedbackTags(feedbackIds),
+    queryFn: () => listFeedbackTags(feedbackIds),
+    enabled: !!user && feedbackIds.length > 0,
+  })
+}
+
+export const useTagFeedbackCounts = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.tags.feedbackCounts(workspaceId),
+    queryFn: () => listTagFeedbackCounts(workspaceId),
+    enabled: !!user && !!workspaceId,
+  })
+}
+
+export const useCreateTag = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (tag: TagFields) => {
+      if (!user) throw new Error('User not authenticated')
+      return createTag(workspaceId, user.id, tag)
+    },
+    onSuccess: () => invalidateTags(queryClient),
+  })
+}
+
+export const useUpdateTag = () => {
+  const workspaceId = useWorkspace().workspace?.id
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ tagId, values }: { tagId: string; values: Partial<TagFields> }) =>
+      updateTag(workspaceId, tagId, values),
+    onSuccess: () => invalidateTags(queryClient),
+  })
+}
+
+export const useDeleteTag = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: deleteTag,
+    onSuccess: () => invalidateTags(queryClient),
+  })
+}
+
+export const useTagFeedbacks = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ tagId, feedbackIds }: { tagId: string; feedbackIds: string[] }) => {
+      if (!user) throw new Error('User not authenticated')
+      return tagFeedbacks(tagId, feedbackIds, user.id)
+    },
+    onSuccess: () => invalidateTags(queryClient),
+  })
+}
+
+export const useApplyTagRule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: applyTagRule,
+    onSuccess: () => invalidateTags(queryClient),
+  })
+}
+
+export const useUntagFeedbacks = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ tagId, feedbackIds }: { tagId: string; feedbackIds: string[] }) =>
+      untagFeedbacks(tagId, feedbackIds),
+    onSuccess: () => invalidateTags(queryClient),
+  })
+}
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { DEFAULT_USER_SETTINGS, type UserSettings } from '@/lib/user-settings'
+import {
+  getUserSettings,
+  invalidateIssues,
+  invalidateUsers,
+  invalidateUserSettings,
+  queryKeys,
+  saveUserSettings,
+  updateUserProfile,
+} from '@/lib/repository'
+
+/** The signed-in account's settings; the defaults until they have loaded */
+export const useUserSettings = () => {
+  const { user } = useAuth()
+
+  const query = useQuery({
+    queryKey: queryKeys.userSettings.detail(),
+    queryFn: () => getUserSettings(user.id),
+    enabled: !!user,
+  })
+  return { ...query, settings: query.data ?? DEFAULT_USER_SETTINGS }
+}
+
+/** Shows the new values straight away and puts the old ones back if saving fails */
+export const useSaveUserSettings = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.userSettings.detail()
+
+  return useMutation({
+    mutationFn: (settings: Partial<UserSettings>) => {
+      if (!user) throw new Error('User not authenticated')
+      return saveUserSettings(user.id, settings)
+    },
+    onMutate: async (settings) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<UserSettings>(queryKey)
+      queryClient.setQueryData<UserSettings>(queryKey, { ...(previous ?? DEFAULT_USER_SETTINGS), ...settings })
+      return { previous }
+    },
+    onError: (_error, _settings, context) => {
+      queryClient.setQueryData(queryKey, context?.previous)
+    },
+    onSettled: () => invalidateUserSettings(queryClient),
+  })
+}
+
+export const useUpdateProfile = () => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (profile: { username: string; email: string }) => {
+      if (!user) throw new Error('User not authenticated')
+      return updateUserProfile(profile, user.email)
+    },
+    // Team lists show usernames, and issues carry their owner's
+    onSuccess: () => Promise.all([invalidateUsers(queryClient), invalidateIssues(queryClient)]),
+  })
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { listWorkspaceUsers, queryKeys } from '@/lib/repository'
+
+/** Everyone in the current workspace */
+export const useUsers = (options: { refetchInterval?: number } = {}) => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.users.list(workspaceId),
+    queryFn: () => listWorkspaceUsers(workspaceId),
+    enabled: !!user && !!workspaceId,
+    refetchInterval: options.refetchInterval,
+  })
+}
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import {
+  createWorkspace,
+  invalidateWorkspaces,
+  listMyWorkspaces,
+  listWorkspaceMembers,
+  queryKeys,
+  removeWorkspaceMember,
+  renameWorkspace,
+  setWorkspaceMemberRole,
+  type WorkspaceRole,
+} from '@/lib/repository'
+
+/** Workspaces the signed-in user belongs to, with their role in each */
+export const useMyWorkspaces = () => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.workspaces.mine(),
+    queryFn: () => listMyWorkspaces(user.id),
+    enabled: !!user,
+  })
+}
+
+/** Members of the current workspace */
+export const useWorkspaceMembers = () => {
+  const { user } = useAuth()
+  const workspaceId = useWorkspace().workspace?.id
+
+  return useQuery({
+    queryKey: queryKeys.workspaceMembers.list(workspaceId),
+    queryFn: () => listWorkspaceMembers(workspaceId),
+    enabled: !!user && !!workspaceId,
+  })
+}
+
+export const useCreateWorkspace = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (name: string) => createWorkspace(name),
+    onSuccess: () => invalidateWorkspaces(queryClient),
+  })
+}
+
+export const useRenameWorkspace = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ workspaceId, name }: { workspaceId: string; name: string }) => renameWorkspace(workspaceId, name),
+    onSuccess: () => invalidateWorkspaces(queryClient),
+  })
+}
+
+export const useSetMemberRole = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: WorkspaceRole }) => setWorkspaceMemberRole(memberId, role),
+    onSuccess: () => invalidateWorkspaces(queryClient),
+  })
+}
+
+export const useRemoveMember = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (memberId: string) => removeWorkspaceMember(memberId),
+    onSuccess: () => invalidateWorkspaces(queryClient),
+  })
+}
@@ -0,0 +1,109 @@
+import type { toDailySeries } from '@/lib/metrics'
+
+/**
+ * Spikes and drops in a time series, flagged against a rolling baseline: each
+ * point is compared with the mean and standard deviation of the points before
+ * it, and flagged when its z-score passes the threshold. Works on any evenly
+ * bucketed series (daily or hourly); gaps (null) are skipped.
+ */
+
+export interface DetectionOptions {
+  /** Earlier points the baseline is computed from */
+  window: number
+  /** Points the baseline needs before anything is flagged */
+  minHistory: number
+  /** Standard deviations from the baseline that count as anomalous */
+  threshold: number
+  direction: 'up' | 'down'
+  /** Smallest absolute change worth flagging, so tiny baselines don't flag noise */
+  minChange: number
+  /** Lower bound on the deviation, so a flat history doesn't make every wobble infinite */
+  minStdDev: (mean: number) => number
+}
+
+export interface SeriesAnomaly {
+  index: number
+  value: number
+  baseline: number
+  zScore: number
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const stdDev = (values: number[], average: number) =>
+  Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length)
+
+export const detectAnomalies = (values: (number | null)[], options: DetectionOptions): SeriesAnomaly[] => {
+  const anomalies: SeriesAnomaly[] = []
+  // Flagged points stay out of the baseline, so one spike doesn't hide the next
+  const history: number[] = []
+
+  values.forEach((value, index) => {
+    if (value === null) return
+    const recent = history.slice(-options.window)
+
+    if (recent.length >= options.minHistory) {
+      const baseline = mean(recent)
+      const deviation = Math.max(stdDev(recent, baseline), options.minStdDev(baseline))
+      const change = options.direction === 'up' ? value - baseline : baseline - value
+      const zScore = change / deviation
+
+      if (change >= options.minChange && zScore >= options.threshold) {
+        anomalies.push({ index, value, baseline, zScore })
+        return
+      }
+    }
+    history.push(value)
+  })
+
+  return anomalies
+}
+
+export type AnomalyMetric = 'volume' | 'rating'
+
+export const ANOMALY_DETECTION: Record<AnomalyMetric, DetectionOptions> = {
+  // Counts vary about as much as their square root (Poisson), at least one
+  volume: {
+    window: 14,
+    minHistory: 7,
+    threshold: 3,
+    direction: 'up',
+    minChange: 3,
+    minStdDev: (average) => Math.max(Math.sqrt(average), 1),
+  },
+  rating: {
+    window: 14,
+    minHistory: 7,
+    threshold: 2.5,
+    direction: 'down',
+    minChange: 0.5,
+    minStdDev: () => 0.25,
+  },
+}
+
+/** Days need this many rated feedback before their average rating is judged */
+export const MIN_RATED_FEEDBACK = 3
+
+export interface FeedbackAnomaly extends SeriesAnomaly {
+  metric: AnomalyMetric
+  /** Calendar day, YYYY-MM-DD */
+  day: string
+}
+
+/** Volume spikes and rating drops in a daily series, oldest first */
+export const findFeedbackAnomalies = (series: ReturnType<typeof toDailySeries>): FeedbackAnomaly[] => {
+  const toAnomaly = (metric: AnomalyMetric) => (anomaly: SeriesAnomaly): FeedbackAnomaly => ({
+    ...anomaly,
+    metric,
+    day: series[anomaly.index].day,
+  })
+
+  const volume = detectAnomalies(series.map(point => point.count), ANOMALY_DETECTION.volume)
+  const rating = detectAnomalies(
+    series.map(point => (point.ratedCount >= MIN_RATED_FEEDBACK && point.avgRating !== null ? Number(point.avgRating) : null)),
+    ANOMALY_DETECTION.rating
+  )
+
+  return [...volume.map(toAnomaly('volume')), ...rating.map(toAnomaly('rating'))]
+    .sort((a, b) => a.index - b.index)
+}
@@ -0,0 +1,314 @@
+import type {
+  ClusterDismissal,
+  DashboardLayout,
+  DigestDelivery,
+  DigestSubscription,
+  Feedback,
+  FeedbackDeletion,
+  FeedbackStatus,
+  FeedbackIssueLink,
+  FeedbackStatusEvent,
+  FeedbackTag,
+  Issue,
+  IssueEvent,
+  IssueStatus,
+  SentimentSettings,
+  Tag,
+  UserProfile,
+  UserSettingsRow,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+} from '@/lib/repository/types'
+import { serializeWidgets } from '@/lib/dashboard-widgets'
+import { getTextScore } from '@/lib/sentiment'
+import { extractSurveyScores } from '@/lib/survey-metrics'
+import { suggestTags } from '@/lib/tagging'
+
+export const DEMO_ACCOUNT = {
+  id: '00000000-0000-4000-8000-000000000001',
+  email: 'demo@feedbackflow.local',
+  password: 'demo1234',
+  username: 'demo',
+}
+
+// Holds all the demo data; the demo account owns it
+export const DEMO_WORKSPACE = {
+  id: '00000000-0000-4000-8008-000000000001',
+  name: 'Acme Support',
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+interface FeedbackTemplate {
+  subject: string
+  summary: string
+  rating: number | null
+}
+
+const TEMPLATES: FeedbackTemplate[] = [
+  { subject: 'Cannot sign in after password reset', summary: 'Customer reports login problems after resetting their password; the reset link works but sign in fails.', rating: 1.5 },
+  { subject: 'Love the new dashboard', summary: 'Very happy with the redesigned dashboard, charts are clear and fast.', rating: 5 },
+  { subject: 'Checkout keeps failing', summary: 'Payment errors during checkout with a valid card, tried three times.', rating: 1 },
+  { subject: 'App crashes when opening reports', summary: 'Mobile app crashes whenever the reports tab is opened on Android.', rating: 2 },
+  { subject: 'Pages take forever', summary: 'Slow loading on the feedback list, takes over ten seconds with a large inbox.', rating: 2.5 },
+  { subject: 'Great support experience', summary: 'Support resolved the issue quickly and politely, very satisfied.', rating: 4.5 },
+  { subject: 'Feature request: Slack integration', summary: 'Would like notifications pushed to Slack channels for new feedback.', rating: 4 },
+  { subject: 'Export is confusing', summary: 'Not sure where the export option lives, documentation is unclear.', rating: 3 },
+  { subject: 'Login problems on Safari', summary: 'Login problems on Safari, the page reloads without signing in.', rating: 2 },
+  { subject: 'Re: invoice question', summary: 'Asked for a copy of last month invoice, no rating given.', rating: null },
+  { subject: 'Solid product overall', summary: 'Works well for our team, a few rough edges but recommended.', rating: 4 },
+  { subject: 'Payment errors again', summary: 'Payment errors when upgrading the plan, card declined message shown.', rating: 1.5 },
+]
+
+const SENDERS = [
+  { name: 'Alice Martin', email: 'alice@example.com' },
+  { name: 'Bob Chen', email: 'bob@example.org' },
+  { name: null, email: 'no-reply@customer.io' },
+  { name: 'Carla Gomez', email: 'carla@example.net' },
+  { name: 'Dev Patel', email: 'dev.patel@example.com' },
+  { name: 'Emma Wilson', email: 'emma.w@example.co.uk' },
+]
+
+// Small deterministic PRNG so every fresh local database looks the same
+const mulberry32 = (seed: number) => () => {
+  seed |= 0
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const fixtureId = (prefix: number, index: number) =>
+  `00000000-0000-4000-${String(8000 + prefix)}-${String(index).padStart(12, '0')}`
+
+export interface Fixtures {
+  users: UserProfile[]
+  feedbacks: Feedback[]
+  current_issues: Issue[]
+  feedback_status_events: FeedbackStatusEvent[]
+  tags: Tag[]
+  feedback_tags: FeedbackTag[]
+  feedback_issues: FeedbackIssueLink[]
+  issue_events: IssueEvent[]
+  cluster_dismissals: ClusterDismissal[]
+  sentiment_settings: SentimentSettings[]
+  dashboard_layouts: DashboardLayout[]
+  digest_subscriptions: DigestSubscription[]
+  digest_deliveries: DigestDelivery[]
+  user_settings: UserSettingsRow[]
+  workspaces: Workspace[]
+  workspace_members: WorkspaceMember[]
+  workspace_invitations: WorkspaceInvitation[]
+  feedback_deletions: FeedbackDeletion[]
+}
+
+const TAGS: Pick<Tag, 'name' | 'color' | 'keywords'>[] = [
+  { name: 'Authentication', color: '#3b82f6', keywords: ['login', 'sign in', 'password'] },
+  { name: 'Billing', color: '#f97316', keywords: ['payment', 'checkout', 'invoice', 'card'] },
+  { name: 'Performance', color: '#eab308', keywords: ['slow', 'forever', 'takes over'] },
+  { name: 'Bug', color: '#ef4444', keywords: ['crash', 'crashes', 'fails', 'failing'] },
+  { name: 'Feature request', color: '#a855f7', keywords: ['feature request', 'would like'] },
+  { name: 'Praise', color: '#22c55e', keywords: ['love', 'great', 'very happy', 'satisfied'] },
+]
+
+const ISSUES: {
+  title: string
+  description: string
+  status: IssueStatus
+  /** Index into the fixture users */
+  assignee: number | null
+  dueInDays: number | null
+}[] = [
+  { title: 'Login problems', description: 'Sign in fails after a password reset and on Safari.', status: 'investigating', assignee: 1, dueInDays: 3 },
+  { title: 'Payment errors', description: 'Valid cards are declined at checkout and on plan upgrades.', status: 'open', assignee: 0, dueInDays: -1 },
+  { title: 'Slow loading', description: 'The feedback list is slow for large inboxes.', status: 'fixed', assignee: 2, dueInDays: null },
+  { title: 'Mobile app crashes', description: 'The Android app crashes when opening reports.', status: 'open', assignee: null, dueInDays: null },
+]
+
+// Every other rated feedback came from a survey that also asked for NPS and effort.
+// Derived from the rating and position so the PRNG sequence above stays unchanged.
+const surveyAnswers = (rating: number | null, index: number) => {
+  if (rating === null || index % 2 === 1) return undefined
+  return {
+    nps: Math.min(10, Math.round((rating - 1) * 2.5) + (index % 3)),
+    ces: Math.max(1, Math.min(7, Math.round(rating * 1.4) - (index % 4 === 0 ? 1 : 0))),
+  }
+}
+
+const PROCESSED_STATUSES: FeedbackStatus[] = ['triaged', 'in_progress', 'waiting', 'resolved', 'resolved', 'archived', 'spam']
+
+export const createFixtures = (now = new Date()): Fixtures => {
+  const random = mulberry32(42)
+  const iso = (offset: number) => new Date(now.getTime() - offset).toISOString()
+
+  const users: UserProfile[] = [
+    { id: DEMO_ACCOUNT.id, username: DEMO_ACCOUNT.username, email: DEMO_ACCOUNT.email, created_at: iso(90 * DAY), updated_at: iso(90 * DAY) },
+    { id: fixtureId(1, 2), username: 'jane_smith', email: 'jane@feedbackflow.local', created_at: iso(60 * DAY), updated_at: iso(60 * DAY) },
+    { id: fixtureId(1, 3), username: 'mike_wilson', email: 'mike@feedbackflow.local', created_at: iso(20 * DAY), updated_at: iso(20 * DAY) },
+  ]
+
+  const feedbacks: Feedback[] = Array.from({ length: 48 }, (_, index) => {
+    const template = TEMPLATES[Math.floor(random() * TEMPLATES.length)]
+    const sender = SENDERS[Math.floor(random() * SENDERS.length)]
+    const receivedAgo = Math.floor(random() * 30 * DAY)
+    const processed = random() < 0.6
+    const status = processed ? PROCESSED_STATUSES[Math.floor(random() * PROCESSED_STATUSES.length)] : 'new'
+    const assignee = processed && random() < 0.7 ? users[Math.floor(random() * users.length)].id : null
+    const processedAt = processed ? iso(Math.max(0, receivedAgo - Math.floor(random() * 12 * 60 * 60 * 1000))) : null
+    const survey = surveyAnswers(template.rating, index)
+    const rawJson = {
+      from: sender.name ? `${sender.name} <${sender.email}>` : sender.email,
+      subject: template.subject,
+      text: template.summary,
+      ...(survey && { survey }),
+    }
+
+    return {
+      id: fixtureId(2, index + 1),
+      workspace_id: DEMO_WORKSPACE.id,
+      user_id: DEMO_ACCOUNT.id,
+      username: DEMO_ACCOUNT.username,
+      sender_email: sender.email,
+      sender_name: sender.name,
+      subject: template.subject,
+      raw_json: rawJson,
+      average_rating: template.rating,
+      feedback_summary: template.summary,
+      processed_at: processedAt,
+      received_at: iso(receivedAgo),
+      status,
+      resolved_at: status === 'resolved' ? processedAt : null,
+      assignee_id: assignee,
+      sentiment_score: getTextScore({ subject: template.subject, feedback_summary: template.summary }),
+      sentiment_scored_at: iso(receivedAgo),
+      cluster_checked_at: iso(receivedAgo),
+      ...extractSurveyScores(rawJson),
+    }
+  }).sort((a, b) => b.received_at.localeCompare(a.received_at))
+
+  const current_issues: Issue[] = ISSUES.map((issue, index) => {
+    const createdAgo = (index * 5 + 2) * DAY
+    return {
+      id: fixtureId(3, index + 1),
+      workspace_id: DEMO_WORKSPACE.id,
+      username: DEMO_ACCOUNT.username,
+      issue_title: issue.title,
+      description: issue.description,
+      status: issue.status,
+      priority_override: null,
+      assignee_id: issue.assignee === null ? null : users[issue.assignee].id,
+      due_date: issue.dueInDays === null ? null : new Date(now.getTime() + issue.dueInDays * DAY).toISOString().slice(0, 10),
+      resolved_at: issue.status === 'fixed' ? iso(createdAgo / 2) : null,
+      created_at: iso(createdAgo),
+      updated_at: iso(createdAgo / 2),
+    }
+  })
+
+  const tags: Tag[] = TAGS.map((tag, index) => ({
+    id: fixtureId(4, index + 1),
+    workspace_id: DEMO_WORKSPACE.id,
+    user_id: DEMO_ACCOUNT.id,
+    created_at: iso(80 * DAY),
+    ...tag,
+  }))
+
+  // Processed feedback has been through triage, where the suggested tags were accepted
+  const feedback_tags: FeedbackTag[] = feedbacks
+    .filter(feedback => feedback.processed_at)
+    .flatMap(feedback =>
+      suggestTags(feedback, tags).map(tag => ({
+        feedback_id: feedback.id,
+        tag_id: tag.id,
+        tagged_by: feedback.assignee_id,
+        tagged_at: feedback.processed_at ?? feedback.received_at,
+      }))
+    )
+    .map((link, index) => ({ id: fixtureId(5, index + 1), ...link }))
+
+  // Feedback reporting an issue in its own words is linked to it
+  const feedback_issues: FeedbackIssueLink[] = current_issues
+    .flatMap(issue =>
+      feedbacks
+        .filter(f => f.feedback_summary?.toLowerCase().includes(issue.issue_title.toLowerCase()))
+        .map(f => ({ feedback_id: f.id, issue_id: issue.id, linked_by: null, linked_at: f.received_at, auto_linked: false }))
+    )
+    .map((link, index) => ({ id: fixtureId(6, index + 1), ...link }))
+
+  return {
+    users,
+    feedbacks,
+    current_issues,
+    feedback_status_events: [],
+    tags,
+    feedback_tags,
+    feedback_issues,
+    issue_events: [],
+    cluster_dismissals: [],
+    sentiment_settings: [],
+    // A teammate's layout shared with the team, to show what sharing looks like
+    dashboard_layouts: [{
+      id: fixtureId(7, 1),
+      owner_id: users[1].id,
+      workspace_id: DEMO_WORKSPACE.id,
+      name: 'Support triage',
+      widgets: serializeWidgets([
+        { id: 'kpi-open-issues', type: 'kpi', width: 1, height: 1, metric: 'open-issues' },
+        { id: 'kpi-response-time', type: 'kpi', width: 1, height: 1, metric: 'response-time' },
+        { id: 'kpi-headline', type: 'kpi', width: 2, height: 1, metric: 'headline' },
+        { id: 'top-issues', type: 'top-issues', width: 2, height: 3 },
+        { id: 'recent-feedback', type: 'recent-feedback', width: 2, height: 3 },
+      ]),
+      shared: true,
+      created_at: iso(10 * DAY),
+      updated_at: iso(10 * DAY),
+    }],
+    digest_subscriptions: [],
+    digest_deliveries: [],
+    user_settings: [],
+    // A second, empty workspace run by a teammate, so there is something to switch to
+    workspaces: [
+      { ...DEMO_WORKSPACE, created_by: DEMO_ACCOUNT.id, created_at: iso(90 * DAY) },
+      { id: fixtureId(8, 2), name: 'Mobile Beta', created_by: users[1].id, created_at: iso(30 * DAY) },
+    ],
+    workspace_members: [
+      { id: fixtureId(9, 1), workspace_id: DEMO_WORKSPACE.id, user_id: users[0].id, role: 'owner', joined_at: iso(90 * DAY) },
+      { id: fixtureId(9, 2), workspace_id: DEMO_WORKSPACE.id, user_id: users[1].id, role: 'admin', joined_at: iso(60 * DAY) },
+      { id: fixtureId(9, 3), workspace_id: DEMO_WORKSPACE.id, user_id: users[2].id, role: 'member', joined_at: iso(20 * DAY) },
+      { id: fixtureId(9, 4), workspace_id: fixtureId(8, 2), user_id: users[1].id, role: 'owner', joined_at: iso(30 * DAY) },
+      { id: fixtureId(9, 5), workspace_id: fixtureId(8, 2), user_id: users[0].id, role: 'viewer', joined_at: iso(30 * DAY) },
+    ],
+    // One invitation waiting for an answer and one that ran out, to resend
+    workspace_invitations: [
+      {
+        id: fixtureId(10, 1),
+        workspace_id: DEMO_WORKSPACE.id,
+        email: 'sarah@feedbackflow.local',
+        role: 'member',
+        token: fixtureId(10, 1).replace(/-/g, ''),
+        invited_by: users[0].id,
+        created_at: iso(2 * DAY),
+        expires_at: iso(-5 * DAY),
+        sent_at: iso(2 * DAY),
+        accepted_at: null,
+        accepted_by: null,
+        revoked_at: null,
+      },
+      {
+        id: fixtureId(10, 2),
+        workspace_id: DEMO_WORKSPACE.id,
+        email: 'alex@feedbackflow.local',
+        role: 'viewer',
+        token: fixtureId(10, 2).replace(/-/g, ''),
+        invited_by: users[1].id,
+        created_at: iso(12 * DAY),
+        expires_at: iso(5 * DAY),
+        sent_at: iso(12 * DAY),
+        accepted_at: null,
+        accepted_by: null,
+        revoked_at: null,
+      },
+    ],
+    feedback_deletions: [],
+  }
+}
@@ -0,0 +1,428 @@
+import { getWeekday, getZonedHour, toDayKey } from '@/lib/date-range'
+import type { Feedback, FunctionArgs, FunctionName, FunctionReturns, Tag, WorkspaceRole } from '@/lib/repository/types'
+import { classifyScore, DEFAULT_SENTIMENT_THRESHOLDS, ratingToScore } from '@/lib/sentiment'
+import { findSurveyValue } from '@/lib/survey-metrics'
+import { getMatchedKeywords } from '@/lib/tagging'
+import { createInvitationToken, getInvitationExpiry, getInvitationStatus } from '@/lib/invitations'
+import { getAssignableRoles, getMemberChangeError, hasPermission } from '@/lib/workspace-roles'
+import type { Store } from './local'
+
+// In-memory versions of the database functions in supabase/migrations
+// (feedback_aggregates, feedback_sentiment, sentiment_scored_at,
+// survey_metrics, issue_feedback_counts, user_settings, workspaces,
+// workspace_invitations, feedback_deletions and tag_feedback_counts).
+// Keep the two in step.
+
+interface LocalFunctionContext {
+  store: Store
+  /** Stands in for auth.uid() */
+  userId: string | null
+  /** The signed-in account's address, as auth.users has it */
+  email: string | null
+}
+
+type LocalFunctions = {
+  [F in FunctionName]: (context: LocalFunctionContext, args: FunctionArgs<F>) => FunctionReturns<F>
+}
+
+// Feedback of the workspace received in the range
+const inRange = (
+  feedbacks: Feedback[],
+  { p_workspace_id, p_from, p_to }: { p_workspace_id: string; p_from: string | null; p_to: string | null }
+) => {
+  const from = p_from ? new Date(p_from).getTime() : null
+  const to = p_to ? new Date(p_to).getTime() : null
+  return feedbacks.filter(f => {
+    const time = new Date(f.received_at).getTime()
+    return f.workspace_id === p_workspace_id && (from === null || time >= from) && (to === null || time < to)
+  })
+}
+
+// Like check_member_change: the caller may change or remove the member
+const checkMemberChange = ({ store, userId }: LocalFunctionContext, memberId: string, role: WorkspaceRole | null) => {
+  const member = store.workspace_members.find(m => m.id === memberId)
+  if (!member) throw new Error('Member not found')
+  const actor = store.workspace_members.find(m => m.workspace_id === member.workspace_id && m.user_id === userId)
+  if (!actor) throw new Error('Not a member of this workspace')
+
+  const ownerCount = store.workspace_members.filter(m => m.workspace_id === member.workspace_id && m.role === 'owner').length
+  const error = getMemberChangeError(actor, member, role, ownerCount)
+  if (error) throw new Error(error)
+  return member
+}
+
+// Like check_invitation_role: the caller may invite to the workspace with the role
+const checkInvitationRole = ({ store, userId }: LocalFunctionContext, workspaceId: string, role: WorkspaceRole) => {
+  const actor = store.workspace_members.find(m => m.workspace_id === workspaceId && m.user_id === userId)
+  if (!actor || !hasPermission(actor.role, 'manage_members')) throw new Error('Only owners and admins can invite members')
+  if (!getAssignableRoles(actor.role).includes(role)) throw new Error('Only owners can make someone an owner')
+}
+
+const findInvitation = ({ store }: LocalFunctionContext, invitationId: string) => {
+  const invitation = store.workspace_invitations.find(i => i.id === invitationId)
+  if (!invitation) throw new Error('Invitation not found')
+  return invitation
+}
+
+// Like can_edit_workspace
+const canEditWorkspace = ({ store, userId }: LocalFunctionContext, workspaceId: string) => {
+  const member = store.workspace_members.find(m => m.workspace_id === workspaceId && m.user_id === userId)
+  return hasPermission(member?.role ?? null, 'manage_feedback')
+}
+
+// Feedback of the tag's workspace its keywords match that does not have it yet
+const findRuleMatches = (store: Store, tag: Tag) => {
+  const tagged = new Set(store.feedback_tags.filter(link => link.tag_id === tag.id).map(link => link.feedback_id))
+  return store.feedbacks.filter(f =>
+    f.workspace_id === tag.workspace_id && !tagged.has(f.id) && getMatchedKeywords(f, tag).length > 0
+  )
+}
+
+// What delete_feedbacks keeps in feedback_deletions.snapshot
+type DeletionSnapshot = Pick<Store, 'feedbacks' | 'feedback_tags' | 'feedback_issues' | 'feedback_status_events' | 'cluster_dismissals'>
+
+const UNDO_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// Like SQL avg(): NULLs are skipped, and no values gives NULL
+const average = (values: (number | null)[]) => {
+  const present = values.filter(value => value !== null).map(Number)
+  return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null
+}
+
+const groupBy = <K extends string | number>(feedbacks: Feedback[], key: (feedback: Feedback) => K) => {
+  const groups = new Map<K, Feedback[]>()
+  feedbacks.forEach(f => {
+    const group = key(f)
+    groups.set(group, [...(groups.get(group) ?? []), f])
+  })
+  return [...groups.entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+}
+
+// Survey columns of feedback_summary and feedback_daily_survey_metrics
+const surveyTotals = (feedbacks: Feedback[]) => {
+  const csat = feedbacks.map(f => f.csat_score ?? f.average_rating).filter(value => value !== null).map(Number)
+  return {
+    nps_responses: feedbacks.filter(f => f.nps_score !== null).length,
+    promoters: feedbacks.filter(f => f.nps_score !== null && f.nps_score >= 9).length,
+    detractors: feedbacks.filter(f => f.nps_score !== null && f.nps_score <= 6).length,
+    csat_responses: csat.length,
+    csat_satisfied: csat.filter(value => value >= 4).length,
+    ces_responses: feedbacks.filter(f => f.ces_score !== null).length,
+    avg_ces: average(feedbacks.map(f => f.ces_score)),
+  }
+}
+
+export const LOCAL_FUNCTIONS: LocalFunctions = {
+  feedback_summary: ({ store }, args) => {
+    const received = inRange(store.feedbacks, args)
+    const answerable = received.filter(f => f.status !== 'spam')
+    const processed = answerable.filter(f => f.processed_at)
+    return [{
+      feedback_count: received.length,
+      avg_rating: average(received.map(f => f.average_rating)),
+      answerable_count: answerable.length,
+      processed_count: processed.length,
+      avg_response_hours: average(
+        processed.map(f => (new Date(f.processed_at).getTime() - new Date(f.received_at).getTime()) / 3600000)
+      ),
+      ...surveyTotals(received),
+    }]
+  },
+
+  feedback_daily_counts: ({ store }, args) =>
+    groupBy(inRange(store.feedbacks, args), f => toDayKey(f.received_at, args.p_timezone)).map(([day, group]) => ({
+      day,
+      feedback_count: group.length,
+      rated_count: group.filter(f => f.average_rating !== null).length,
+      avg_rating: average(group.map(f => f.average_rating)),
+    })),
+
+  feedback_daily_survey_metrics: ({ store }, args) =>
+    groupBy(inRange(store.feedbacks, args), f => toDayKey(f.received_at, args.p_timezone)).map(([day, group]) => ({
+      day,
+      ...surveyTotals(group),
+    })),
+
+  feedback_weekday_counts: ({ store }, args) =>
+    groupBy(inRange(store.feedbacks, args), f => getWeekday(toDayKey(f.received_at, args.p_timezone))).map(([weekday, group]) => ({
+      weekday,
+      feedback_count: group.length,
+      avg_rating: average(group.map(f => f.average_rating)),
+    })),
+
+  feedback_hourly_counts: ({ store }, args) =>
+    groupBy(inRange(store.feedbacks, args), f => getZonedHour(f.received_at, args.p_timezone)).map(([hour, group]) => ({
+      hour,
+      feedback_count: group.length,
+    })),
+
+  feedback_rating_histogram: ({ store }, args) =>
+    groupBy(
+      inRange(store.feedbacks, args).filter(f => f.average_rating !== null && Number(f.average_rating) >= 1),
+      f => Math.min(Math.floor(Number(f.average_rating)), 5)
+    ).map(([rating, group]) => ({ rating, feedback_count: group.length })),
+
+  feedback_sentiment_counts: ({ store }, args) => {
+    const settings = store.sentiment_settings.find(row => row.workspace_id === args.p_workspace_id)
+    const thresholds = settings
+      ? { positive: Number(settings.positive_threshold), negative: Number(settings.negative_threshold) }
+      : DEFAULT_SENTIMENT_THRESHOLDS
+    const score = (f: Feedback) =>
+      f.sentiment_score ?? (f.average_rating === null ? null : ratingToScore(Number(f.average_rating)))
+
+    return groupBy(inRange(store.feedbacks, args), f => classifyScore(score(f), thresholds)).map(([sentiment, group]) => ({
+      sentiment,
+      feedback_count: group.length,
+    }))
+  },
+
+  issue_feedback_counts: ({ store }, args) => {
+    const received = new Set(inRange(store.feedbacks, args).map(f => f.id))
+    const counts = new Map<string, number>()
+    store.feedback_issues
+      .filter(link => received.has(link.feedback_id))
+      .forEach(link => counts.set(link.issue_id, (counts.get(link.issue_id) ?? 0) + 1))
+    return [...counts.entries()]
+      .map(([issue_id, feedback_count]) => ({ issue_id, feedback_count }))
+      .sort((a, b) => b.feedback_count - a.feedback_count)
+  },
+
+  tag_feedback_counts: ({ store }, args) =>
+    store.tags
+      .filter(tag => tag.workspace_id === args.p_workspace_id)
+      .map(tag => {
+        const feedbackCount = store.feedback_tags.filter(link => link.tag_id === tag.id).length
+        return { tag_id: tag.id, feedback_count: feedbackCount, rule_match_count: findRuleMatches(store, tag).length }
+      }),
+
+  apply_tag_rule: (context, args) => {
+    const { store, userId } = context
+    const tag = store.tags.find(t => t.id === args.p_tag_id)
+    if (!tag) return 0
+    // Security invoker: the insert into feedback_tags is checked as the caller
+    if (!canEditWorkspace(context, tag.workspace_id)) {
+      throw new Error('new row violates row-level security policy for table "feedback_tags"')
+    }
+    const now = new Date().toISOString()
+    const matches = findRuleMatches(store, tag)
+    store.feedback_tags.push(...matches.map(f => ({
+      id: crypto.randomUUID(),
+      feedback_id: f.id,
+      tag_id: tag.id,
+      tagged_by: userId,
+      tagged_at: now,
+    })))
+    return matches.length
+  },
+
+  update_user_profile: ({ store, userId }, args) => {
+    const username = args.p_username.trim()
+    if (username.length < 3 || username.length > 20) throw new Error('Username must be 3 to 20 characters')
+    const profile = store.users.find(user => user.id === userId)
+    if (!profile) throw new Error('User profile not found')
+    if (store.users.some(user => user.username === username && user.id !== userId)) {
+      throw new Error('Username is already taken')
+    }
+
+    const previous = profile.username
+    Object.assign(profile, { username, updated_at: new Date().toISOString() })
+    if (previous !== username) {
+      store.current_issues.filter(issue => issue.username === previous).forEach(issue => (issue.username = username))
+      store.feedbacks.filter(f => f.username === previous).forEach(f => (f.username = username))
+    }
+    return undefined
+  },
+
+  survey_value: (_context, args) => findSurveyValue(args.p_raw, { keys: args.p_keys, min: args.p_min, max: args.p_max }),
+
+  rating_sentiment_score: (_context, args) => (args.p_rating === null ? null : ratingToScore(Number(args.p_rating))),
+
+  set_sentiment_scores: (context, args) => {
+    const scores = args.p_scores as { id: string; score: number | null }[]
+    const now = new Date().toISOString()
+    let scored = 0
+    scores.forEach(({ id, score }) => {
+      const feedback = context.store.feedbacks.find(f => f.id === id)
+      // Security invoker: only feedback the caller may edit
+      if (!feedback || !canEditWorkspace(context, feedback.workspace_id)) return
+      Object.assign(feedback, { sentiment_score: score, sentiment_scored_at: now })
+      scored++
+    })
+    return scored
+  },
+
+  create_workspace: ({ store, userId }, args) => {
+    if (!userId) throw new Error('Not signed in')
+    const name = args.p_name.trim()
+    if (name.length < 1 || name.length > 60) throw new Error('Workspace names are 1 to 60 characters')
+
+    const now = new Date().toISOString()
+    const workspaceId = crypto.randomUUID()
+    store.workspaces.push({ id: workspaceId, name, created_by: userId, created_at: now })
+    store.workspace_members.push({ id: crypto.randomUUID(), workspace_id: workspaceId, user_id: userId, role: 'owner', joined_at: now })
+    return workspaceId
+  },
+
+  set_workspace_member_role: (context, args) => {
+    checkMemberChange(context, args.p_member_id, args.p_role).role = args.p_role
+    return undefined
+  },
+
+  remove_workspace_member: (context, args) => {
+    const member = checkMemberChange(context, args.p_member_id, null)
+    context.store.workspace_members = context.store.workspace_members.filter(m => m !== member)
+    return undefined
+  },
+
+  invite_workspace_member: (context, args) => {
+    const { store, userId } = context
+    checkInvitationRole(context, args.p_workspace_id, args.p_role)
+    const email = args.p_email.trim().toLowerCase()
+    if (!/^[^@\s]+@[^@\s]+$/.test(email)) throw new Error('Enter a valid email address')
+
+    const memberIds = new Set(store.workspace_members.filter(m => m.workspace_id === args.p_workspace_id).map(m => m.user_id))
+    if (store.users.some(user => memberIds.has(user.id) && user.email.toLowerCase() === email)) {
+      throw new Error(`${email} is already a member of this workspace`)
+    }
+    const open = store.workspace_invitations.filter(
+      i => i.workspace_id === args.p_workspace_id && i.email.toLowerCase() === email && !i.accepted_at && !i.revoked_at
+    )
+    if (open.some(i => getInvitationStatus(i) === 'pending')) throw new Error(`${email} has already been invited`)
+
+    // An expired invitation to the same address makes way for the new one
+    const now = new Date()
+    open.forEach(i => (i.revoked_at = now.toISOString()))
+    const id = crypto.randomUUID()
+    store.workspace_invitations.push({
+      id,
+      workspace_id: args.p_workspace_id,
+      email,
+      role: args.p_role,
+      token: createInvitationToken(),
+      invited_by: userId,
+      created_at: now.toISOString(),
+      expires_at: getInvitationExpiry(now),
+      sent_at: null,
+      accepted_at: null,
+      accepted_by: null,
+      revoked_at: null,
+    })
+    return id
+  },
+
+  resend_workspace_invitation: (context, args) => {
+    const invitation = findInvitation(context, args.p_invitation_id)
+    checkInvitationRole(context, invitation.workspace_id, invitation.role)
+    if (invitation.accepted_at || invitation.revoked_at) throw new Error('This invitation is no longer open')
+    Object.assign(invitation, { token: createInvitationToken(), expires_at: getInvitationExpiry(), sent_at: null })
+    return undefined
+  },
+
+  revoke_workspace_invitation: (context, args) => {
+    const invitation = findInvitation(context, args.p_invitation_id)
+    checkInvitationRole(context, invitation.workspace_id, invitation.role)
+    if (invitation.accepted_at) throw new Error('This invitation has already been accepted')
+    invitation.revoked_at ??= new Date().toISOString()
+    return undefined
+  },
+
+  get_workspace_invitation: ({ store }, args) =>
+    store.workspace_invitations
+      .filter(i => i.token === args.p_token)
+      .map(i => ({
+        workspace_name: store.workspaces.find(w => w.id === i.workspace_id)?.name,
+        email: i.email,
+        role: i.role,
+        invited_by_name: store.users.find(user => user.id === i.invited_by)?.username ?? null,
+        expires_at: i.expires_at,
+        status: getInvitationStatus(i),
+      }))
+      .filter(i => i.workspace_name !== undefined),
+
+  accept_workspace_invitation: ({ store, userId, email }, args) => {
+    if (!userId) throw new Error('Not signed in')
+    const invitation = store.workspace_invitations.find(i => i.token === args.p_token)
+    if (!invitation) throw new Error('This invitation link is not valid')
+    const status = getInvitationStatus(invitation)
+    if (status === 'accepted') throw new Error('This invitation has already been used')
+    if (status === 'revoked') throw new Error('This invitation has been revoked')
+    if (status === 'expired') throw new Error('This invitation has expired')
+
+    if (email?.toLowerCase() !== invitation.email.toLowerCase()) {
+      throw new Error(`This invitation was sent to ${invitation.email}`)
+    }
+
+    // Someone who is already a member keeps their role
+    const now = new Date().toISOString()
+    if (!store.workspace_members.some(m => m.workspace_id === invitation.workspace_id && m.user_id === userId)) {
+      store.workspace_members.push({
+        id: crypto.randomUUID(),
+        workspace_id: invitation.workspace_id,
+        user_id: userId,
+        role: invitation.role,
+        joined_at: now,
+      })
+    }
+    Object.assign(invitation, { accepted_at: now, accepted_by: userId })
+    return invitation.workspace_id
+  },
+
+  delete_feedbacks: (context, args) => {
+    const { store, userId } = context
+    if (!userId) throw new Error('Not signed in')
+
+    // Feedback the caller may not edit is left alone, as row-level security would
+    const ids = new Set(
+      store.feedbacks.filter(f => args.p_feedback_ids.includes(f.id) && canEditWorkspace(context, f.workspace_id)).map(f => f.id)
+    )
+    const ofDeleted = (row: { feedback_id: string }) => ids.has(row.feedback_id)
+    const now = new Date()
+
+    // Undo is only offered right after deleting
+    store.feedback_deletions = store.feedback_deletions.filter(
+      d => new Date(d.deleted_at).getTime() >= now.getTime() - UNDO_WINDOW_MS
+    )
+
+    const snapshot: DeletionSnapshot = {
+      feedbacks: store.feedbacks.filter(f => ids.has(f.id)),
+      feedback_tags: store.feedback_tags.filter(ofDeleted),
+      feedback_issues: store.feedback_issues.filter(ofDeleted),
+      feedback_status_events: store.feedback_status_events.filter(ofDeleted),
+      cluster_dismissals: store.cluster_dismissals.filter(ofDeleted),
+    }
+    const deletionId = crypto.randomUUID()
+    store.feedback_deletions.push({ id: deletionId, deleted_by: userId, deleted_at: now.toISOString(), snapshot })
+
+    // The cascades from feedbacks
+    store.feedbacks = store.feedbacks.filter(f => !ids.has(f.id))
+    store.feedback_tags = store.feedback_tags.filter(row => !ofDeleted(row))
+    store.feedback_issues = store.feedback_issues.filter(row => !ofDeleted(row))
+    store.feedback_status_events = store.feedback_status_events.filter(row => !ofDeleted(row))
+    store.cluster_dismissals = store.cluster_dismissals.filter(row => !ofDeleted(row))
+
+    return [{ deletion_id: deletionId, deleted_count: ids.size }]
+  },
+
+  restore_feedbacks: (context, args) => {
+    const { store, userId } = context
+    const deletion = store.feedback_deletions.find(d => d.id === args.p_deletion_id && d.deleted_by === userId)
+    if (!deletion) throw new Error('This deletion can no longer be undone')
+
+    const snapshot = deletion.snapshot as unknown as DeletionSnapshot
+    if (snapshot.feedbacks.some(f => !canEditWorkspace(context, f.workspace_id))) {
+      throw new Error('You can no longer edit the workspace this feedback was deleted from')
+    }
+
+    store.feedbacks.push(...snapshot.feedbacks)
+    // Tags and issues deleted since do not come back with the feedback
+    store.feedback_tags.push(...snapshot.feedback_tags.filter(link => store.tags.some(tag => tag.id === link.tag_id)))
+    store.feedback_issues.push(
+      ...snapshot.feedback_issues.filter(link => store.current_issues.some(issue => issue.id === link.issue_id))
+    )
+    store.feedback_status_events.push(...snapshot.feedback_status_events)
+    store.cluster_dismissals.push(...snapshot.cluster_dismissals)
+    store.feedback_deletions = store.feedback_deletions.filter(d => d !== deletion)
+
+    return snapshot.feedbacks.length
+  },
+}
@@ -0,0 +1,411 @@
+import type { FunctionName, Row, TableName } from '@/lib/repository/types'
+import { hasPermission, type WorkspacePermission } from '@/lib/workspace-roles'
+import { createFixtures, DEMO_ACCOUNT, DEMO_WORKSPACE, type Fixtures } from './fixtures'
+import { LOCAL_FUNCTIONS } from './local-functions'
+import type { AnyChangeListener, AuthSession, Backend, ChangeEvent, SelectFilter } from './types'
+
+const DB_KEY = 'feedbackflow:local-db'
+const AUTH_KEY = 'feedbackflow:local-auth'
+
+export type Store = { [T in TableName]: Row<T>[] }
+
+// Database functions that change data rather than only read it
+const WRITING_FUNCTIONS: FunctionName[] = [
+  'update_user_profile',
+  'apply_tag_rule',
+  'create_workspace',
+  'set_workspace_member_role',
+  'remove_workspace_member',
+  'invite_workspace_member',
+  'resend_workspace_invitation',
+  'revoke_workspace_invitation',
+  'accept_workspace_invitation',
+  'set_sentiment_scores',
+  'delete_feedbacks',
+  'restore_feedbacks',
+]
+
+// Column defaults the database would fill in on insert
+const ROW_DEFAULTS: { [T in TableName]: (now: string) => Partial<Row<T>> } = {
+  users: (now) => ({ created_at: now, updated_at: now }),
+  feedbacks: (now) => ({
+    sender_name: null,
+    subject: null,
+    average_rating: null,
+    feedback_summary: null,
+    processed_at: null,
+    received_at: now,
+    status: 'new',
+    resolved_at: null,
+    assignee_id: null,
+    sentiment_score: null,
+    sentiment_scored_at: null,
+    cluster_checked_at: null,
+    nps_score: null,
+    csat_score: null,
+    ces_score: null,
+  }),
+  current_issues: (now) => ({
+    created_at: now,
+    status: 'open',
+    priority_override: null,
+    assignee_id: null,
+    description: null,
+    due_date: null,
+    resolved_at: null,
+    updated_at: now,
+  }),
+  feedback_status_events: (now) => ({
+    from_status: null,
+    changed_by: null,
+    changed_by_name: null,
+    changed_at: now,
+  }),
+  tags: (now) => ({ color: '#6366f1', keywords: [], created_at: now }),
+  feedback_tags: (now) => ({ tagged_by: null, tagged_at: now }),
+  feedback_issues: (now) => ({ linked_by: null, linked_at: now, auto_linked: false }),
+  cluster_dismissals: (now) => ({ dismissed_by: null, dismissed_at: now }),
+  issue_events: (now) => ({
+    from_value: null,
+    to_value: null,
+    changed_by: null,
+    changed_by_name: null,
+    changed_at: now,
+  }),
+  sentiment_settings: (now) => ({ positive_threshold: 0.2, negative_threshold: -0.2, updated_at: now }),
+  dashboard_layouts: (now) => ({ widgets: [], shared: false, created_at: now, updated_at: now }),
+  digest_subscriptions: (now) => ({ weekly_enabled: true, updated_at: now }),
+  digest_deliveries: (now) => ({ error: null, sent_at: now }),
+  user_settings: (now) => ({
+    bio: '',
+    email_notifications: true,
+    push_notifications: false,
+    instant_alerts: false,
+    theme: 'light',
+    language: 'en',
+    timezone: null,
+    date_format: 'MM/DD/YYYY',
+    data_retention: '12',
+    share_analytics: false,
+    updated_at: now,
+  }),
+  workspaces: (now) => ({ created_by: null, created_at: now }),
+  workspace_members: (now) => ({ role: 'member', joined_at: now }),
+  workspace_invitations: (now) => ({
+    role: 'member',
+    invited_by: null,
+    created_at: now,
+    sent_at: null,
+    accepted_at: null,
+    accepted_by: null,
+    revoked_at: null,
+  }),
+  feedback_deletions: (now) => ({ deleted_at: now }),
+}
+
+// Passwords are kept in plain text: this backend is for demos and tests only
+interface LocalAccount {
+  id: string
+  email: string
+  password: string
+  username: string
+}
+
+interface AuthState {
+  accounts: LocalAccount[]
+  sessionUserId: string | null
+}
+
+export interface LocalBackendOptions {
+  /** Where to persist data between reloads; pass null to keep everything in memory */
+  storage?: Storage | null
+  seed?: Fixtures
+}
+
+const compare = (a: unknown, b: unknown) => (a < b ? -1 : a > b ? 1 : 0)
+
+const isNullish = (value: unknown) => value === null || value === undefined
+
+const matches = <T>(row: T, filter: SelectFilter<T>, store: Store): boolean => {
+  if (filter.op === 'related') {
+    const id = (row as { id?: unknown }).id
+    return (store[filter.table] as Record<string, unknown>[]).some(
+      related => related[filter.foreignKey] === id && filter.value.includes(related[filter.column] as string)
+    )
+  }
+  if (filter.op === 'search') {
+    const term = filter.value.trim().toLowerCase()
+    return !term || filter.columns.some(column => String(row[column] ?? '').toLowerCase().includes(term))
+  }
+
+  const value: unknown = row[filter.column]
+  switch (filter.op) {
+    case 'isNull': return isNullish(value)
+    case 'notNull': return !isNullish(value)
+    case 'in': return filter.value.includes(value as string | number)
+  }
+
+  // SQL semantics: comparisons against NULL never match
+  if (isNullish(value)) return false
+  const order = compare(value, filter.value)
+  switch (filter.op) {
+    case 'eq': return order === 0
+    case 'neq': return order !== 0
+    case 'gt': return order > 0
+    case 'gte': return order >= 0
+    case 'lt': return order < 0
+    case 'lte': return order <= 0
+  }
+}
+
+const matchesAll = <T>(row: T, store: Store, filters: SelectFilter<T>[] = []) =>
+  filters.every(filter => matches(row, filter, store))
+
+type WriteRule = { permission: WorkspacePermission; workspaceOf: (row: Record<string, unknown>, store: Store) => unknown }
+
+const ofFeedback: WriteRule['workspaceOf'] = (row, store) => store.feedbacks.find(f => f.id === row.feedback_id)?.workspace_id
+
+// Stands in for row-level security on writes (see the workspaces migration):
+// rows of a workspace only change for those whose role there allows it.
+// Updates and deletes skip other rows, as they match none under RLS, and
+// inserts of them fail.
+const WRITE_RULES: Partial<Record<TableName, WriteRule>> = {
+  feedbacks: { permission: 'manage_feedback', workspaceOf: row => row.workspace_id },
+  current_issues: { permission: 'manage_feedback', workspaceOf: row => row.workspace_id },
+  tags: { permission: 'manage_feedback', workspaceOf: row => row.workspace_id },
+  feedback_tags: { permission: 'manage_feedback', workspaceOf: ofFeedback },
+  feedback_issues: { permission: 'manage_feedback', workspaceOf: ofFeedback },
+  feedback_status_events: { permission: 'manage_feedback', workspaceOf: ofFeedback },
+  cluster_dismissals: { permission: 'manage_feedback', workspaceOf: ofFeedback },
+  issue_events: {
+    permission: 'manage_feedback',
+    workspaceOf: (row, store) => store.current_issues.find(i => i.id === row.issue_id)?.workspace_id,
+  },
+  workspaces: { permission: 'manage_workspace', workspaceOf: row => row.id },
+  sentiment_settings: { permission: 'manage_workspace', workspaceOf: row => row.workspace_id },
+}
+
+const readJson = <T>(storage: Storage | null, key: string): T | null => {
+  try {
+    const raw = storage?.getItem(key)
+    return raw ? JSON.parse(raw) : null
+  } catch {
+    return null
+  }
+}
+
+// Tables added after the data was first persisted are filled from the seed,
+// and columns added since then get their defaults. Rows persisted before
+// workspaces existed were the demo account's, so they join its workspace.
+const loadStore = (persisted: Partial<Store> | null, seed: Fixtures): Store => {
+  const now = new Date().toISOString()
+  const load = <T extends TableName>(table: T): Row<T>[] =>
+    persisted?.[table]?.map(row => ({ ...ROW_DEFAULTS[table](now), ...row }) as Row<T>) ?? seed[table]
+  const loadInWorkspace = <T extends 'feedbacks' | 'current_issues' | 'tags' | 'dashboard_layouts'>(table: T): Row<T>[] =>
+    load(table).map(row => ({ ...row, workspace_id: row.workspace_id ?? DEMO_WORKSPACE.id }))
+  const workspaces = load('workspaces')
+  // Thresholds used to be kept per account; like the migration, each
+  // workspace takes those of the account that created it
+  const sentimentSettings = load('sentiment_settings').flatMap(row => {
+    const { user_id: userId, ...settings } = row as Row<'sentiment_settings'> & { user_id?: string }
+    if (!userId) return [row]
+    return workspaces.filter(w => w.created_by === userId).map(w => ({ ...settings, workspace_id: w.id }))
+  })
+
+  return {
+    users: load('users'),
+    feedbacks: loadInWorkspace('feedbacks'),
+    current_issues: loadInWorkspace('current_issues'),
+    feedback_status_events: load('feedback_status_events'),
+    tags: loadInWorkspace('tags'),
+    feedback_tags: load('feedback_tags'),
+    feedback_issues: load('feedback_issues'),
+    cluster_dismissals: load('cluster_dismissals'),
+    issue_events: load('issue_events'),
+    sentiment_settings: sentimentSettings,
+    dashboard_layouts: loadInWorkspace('dashboard_layouts'),
+    digest_subscriptions: load('digest_subscriptions'),
+    digest_deliveries: load('digest_deliveries'),
+    user_settings: load('user_settings'),
+    workspaces,
+    workspace_members: load('workspace_members'),
+    workspace_invitations: load('workspace_invitations'),
+    feedback_deletions: load('feedback_deletions'),
+  }
+}
+
+export const createLocalBackend = (options: LocalBackendOptions = {}): Backend => {
+  const storage = options.storage === undefined
+    ? (typeof window !== 'undefined' ? window.localStorage : null)
+    : options.storage
+  const seed = options.seed ?? createFixtures()
+
+  const store = loadStore(readJson<Partial<Store>>(storage, DB_KEY), seed)
+  const auth: AuthState = readJson<AuthState>(storage, AUTH_KEY) ?? {
+    accounts: [DEMO_ACCOUNT],
+    sessionUserId: null,
+  }
+
+  const authListeners = new Set<(session: AuthSession | null) => void>()
+  const changeListeners = new Set<AnyChangeListener>()
+
+  const persist = () => {
+    storage?.setItem(DB_KEY, JSON.stringify(store))
+    storage?.setItem(AUTH_KEY, JSON.stringify(auth))
+  }
+
+  const currentSession = (): AuthSession | null => {
+    const account = auth.accounts.find(a => a.id === auth.sessionUserId)
+    if (!account) return null
+    return { user: { id: account.id, email: account.email, user_metadata: { username: account.username } } }
+  }
+
+  const setSession = (userId: string | null) => {
+    auth.sessionUserId = userId
+    persist()
+    const session = currentSession()
+    authListeners.forEach(listener => listener(session))
+  }
+
+  const canWrite = (table: TableName, row: Record<string, unknown>) => {
+    const rule = WRITE_RULES[table]
+    if (!rule) return true
+    const workspaceId = rule.workspaceOf(row, store)
+    const member = store.workspace_members.find(m => m.workspace_id === workspaceId && m.user_id === auth.sessionUserId)
+    return hasPermission(member?.role ?? null, rule.permission)
+  }
+
+  const emit = <T extends TableName>(table: T, event: ChangeEvent, row: Row<T>) => {
+    changeListeners.forEach(listener => {
+      if (listener.table !== table || listener.event !== event) return
+      const handler = listener.handler as (row: Row<T>) => void
+      // Deliver asynchronously, like a realtime message
+      setTimeout(() => handler(row), 0)
+    })
+  }
+
+  return {
+    kind: 'local',
+
+    auth: {
+      getSession: async () => currentSession(),
+      onAuthStateChange: (callback) => {
+        authListeners.add(callback)
+        return () => {
+          authListeners.delete(callback)
+        }
+      },
+      signUp: async (email, password, metadata) => {
+        if (auth.accounts.some(a => a.email.toLowerCase() === email.toLowerCase())) {
+          throw new Error('User already registered')
+        }
+        const account = { id: crypto.randomUUID(), email, password, username: metadata.username }
+        auth.accounts.push(account)
+        setSession(account.id)
+        return account.id
+      },
+      signIn: async (email, password) => {
+        const account = auth.accounts.find(a => a.email.toLowerCase() === email.toLowerCase())
+        if (!account || account.password !== password) {
+          throw new Error('Invalid login credentials')
+        }
+        setSession(account.id)
+      },
+      signOut: async () => setSession(null),
+      updateUser: async ({ email, username }) => {
+        const account = auth.accounts.find(a => a.id === auth.sessionUserId)
+        if (!account) throw new Error('Not signed in')
+        if (email && auth.accounts.some(a => a.id !== account.id && a.email.toLowerCase() === email.toLowerCase())) {
+          throw new Error('A user with this email address has already been registered')
+        }
+        if (email) {
+          account.email = email
+          // Addresses count as confirmed straight away; this is what the
+          // sync_user_email trigger does once Supabase confirms one
+          const profile = store.users.find(user => user.id === account.id)
+          if (profile) Object.assign(profile, { email, updated_at: new Date().toISOString() })
+        }
+        if (username) account.username = username
+        // Re-announce the session so the app sees the new details
+        setSession(account.id)
+        return { emailPending: false }
+      },
+      // There is no mail server; accept the request so the UI flow can be exercised
+      resetPassword: async () => {},
+    },
+
+    tables: {
+      select: async (table, query = {}) => {
+        let rows = store[table].filter(row => matchesAll(row, store, query.filters))
+        const count = rows.length
+
+        if (query.order?.length) {
+          rows = [...rows].sort((a, b) => {
+            for (const { column, ascending = true } of query.order) {
+              // NULLs sort last regardless of direction
+              if (isNullish(a[column]) !== isNullish(b[column])) return isNullish(a[column]) ? 1 : -1
+              const order = compare(a[column], b[column])
+              if (order !== 0) return ascending ? order : -order
+            }
+            return 0
+          })
+        }
+        if (query.range) rows = rows.slice(query.range.from, query.range.to + 1)
+        if (query.limit !== undefined) rows = rows.slice(0, query.limit)
+
+        return {
+          rows: query.head ? [] : structuredClone(rows),
+          count: query.count ? count : null,
+        }
+      },
+
+      insert: async (table, values) => {
+        const now = new Date().toISOString()
+        const inserted = (Array.isArray(values) ? values : [values]).map(
+          value => ({ id: crypto.randomUUID(), ...ROW_DEFAULTS[table](now), ...value }) as Row<typeof table>
+        )
+        if (!inserted.every(row => canWrite(table, row))) {
+          throw new Error(`new row violates row-level security policy for table "${table}"`)
+        }
+        store[table].push(...inserted)
+        persist()
+        inserted.forEach(row => emit(table, 'INSERT', row))
+        return structuredClone(inserted)
+      },
+
+      update: async (table, values, filters) => {
+        const updated = store[table].filter(row => matchesAll(row, store, filters) && canWrite(table, row))
+        updated.forEach(row => Object.assign(row, values))
+        persist()
+        updated.forEach(row => emit(table, 'UPDATE', row))
+        return structuredClone(updated)
+      },
+
+      delete: async (table, filters) => {
+        const removed = store[table].filter(row => matchesAll(row, store, filters) && canWrite(table, row))
+        store[table] = store[table].filter(row => !removed.includes(row)) as Store[typeof table]
+        persist()
+        removed.forEach(row => emit(table, 'DELETE', row))
+        return structuredClone(removed)
+      },
+    },
+
+    functions: {
+      call: async (fn, args) => {
+        const context = { store, userId: auth.sessionUserId, email: currentSession()?.user.email ?? null }
+        const result = structuredClone(LOCAL_FUNCTIONS[fn](context, args))
+        if (WRITING_FUNCTIONS.includes(fn)) persist()
+        return result
+      },
+    },
+
+    realtime: {
+      subscribe: (_channelName, listeners) => {
+        listeners.forEach(listener => changeListeners.add(listener))
+        return () => {
+          listeners.forEach(listener => changeListeners.delete(listener))
+        }
+      },
+    },
+  }
+}
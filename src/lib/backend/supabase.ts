@@ -0,0 +1,155 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/supabase'
+import type { Backend, RelatedFilter, SelectFilter } from './types'
+
+// The builder methods shared by select, update and delete queries
+type FilterBuilder = ReturnType<ReturnType<SupabaseClient['from']>['select']>
+
+const applyFilters = <Q extends FilterBuilder>(query: Q, filters: SelectFilter<Record<string, unknown>>[] = []): Q => {
+  return filters.reduce((q, filter) => {
+    switch (filter.op) {
+      case 'eq': return q.eq(filter.column, filter.value)
+      case 'neq': return q.neq(filter.column, filter.value)
+      case 'gt': return q.gt(filter.column, filter.value)
+      case 'gte': return q.gte(filter.column, filter.value)
+      case 'lt': return q.lt(filter.column, filter.value)
+      case 'lte': return q.lte(filter.column, filter.value)
+      case 'in': return q.in(filter.column, filter.value)
+      case 'isNull': return q.is(filter.column, null)
+      case 'notNull': return q.not(filter.column, 'is', null)
+      case 'search': {
+        // PostgREST `or` filters use commas and parentheses as syntax
+        const term = filter.value.replace(/[,()]/g, ' ').trim()
+        if (!term) return q
+        return q.or(filter.columns.map(column => `${column}.ilike.%${term}%`).join(','))
+      }
+      // Filters the inner join embedded by the select, dropping rows without a match
+      case 'related': return q.in(`${filter.table}.${filter.column}`, filter.value)
+    }
+  }, query)
+}
+
+export const createSupabaseBackend = (url: string, anonKey: string): Backend => {
+  const client = createClient<Database>(url, anonKey)
+  // Table access is generic over table names, so queries go through the untyped client
+  // and rows are typed by the adapter signatures instead
+  const db = client as unknown as SupabaseClient
+
+  return {
+    kind: 'supabase',
+
+    auth: {
+      getSession: async () => {
+        const { data: { session } } = await client.auth.getSession()
+        return session
+      },
+      onAuthStateChange: (callback) => {
+        const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => callback(session))
+        return () => subscription.unsubscribe()
+      },
+      signUp: async (email, password, metadata, options = {}) => {
+        const { data, error } = await client.auth.signUp({
+          email,
+          password,
+          options: { data: metadata, emailRedirectTo: options.redirectTo },
+        })
+        if (error) throw error
+        return data.user?.id ?? null
+      },
+      signIn: async (email, password) => {
+        const { error } = await client.auth.signInWithPassword({ email, password })
+        if (error) throw error
+      },
+      signOut: async () => {
+        const { error } = await client.auth.signOut()
+        if (error) throw error
+      },
+      updateUser: async ({ email, username }) => {
+        const { data, error } = await client.auth.updateUser({ email, data: username ? { username } : undefined })
+        if (error) throw error
+        // With email confirmation on, the address only changes once the link sent to it is followed
+        return { emailPending: !!data.user.new_email }
+      },
+      resetPassword: async (email) => {
+        const { error } = await client.auth.resetPasswordForEmail(email)
+        if (error) throw error
+      },
+    },
+
+    tables: {
+      select: async (table, query = {}) => {
+        const related = (query.filters ?? []).filter((filter): filter is RelatedFilter => filter.op === 'related')
+        const columns = ['*', ...related.map(filter => `${filter.table}!inner(${filter.column})`)].join(',')
+        let builder = applyFilters(
+          // Typed as '*': the embedded joins are dropped from the rows below
+          db.from(table).select(columns as '*', { count: query.count ? 'exact' : undefined, head: query.head }),
+          query.filters
+        )
+        query.order?.forEach(({ column, ascending }) => {
+          builder = builder.order(column, { ascending: ascending ?? true })
+        })
+        if (query.range) builder = builder.range(query.range.from, query.range.to)
+        if (query.limit !== undefined) builder = builder.limit(query.limit)
+
+        const { data, error, count } = await builder
+        if (error) throw error
+        // The joined rows only served as a filter
+        const rows = related.length
+          ? (data ?? []).map(row => {
+            const copy = { ...row }
+            related.forEach(filter => delete copy[filter.table])
+            return copy
+          })
+          : data ?? []
+        return { rows, count: count ?? null }
+      },
+
+      insert: async (table, values) => {
+        const { data, error } = await db.from(table).insert(values).select()
+        if (error) throw error
+        return data ?? []
+      },
+
+      update: async (table, values, filters) => {
+        const { data, error } = await applyFilters(db.from(table).update(values), filters).select()
+        if (error) throw error
+        return data ?? []
+      },
+
+      delete: async (table, filters) => {
+        const { data, error } = await applyFilters(db.from(table).delete(), filters).select()
+        if (error) throw error
+        return data ?? []
+      },
+    },
+
+    functions: {
+      call: async (fn, args) => {
+        const { data, error } = await db.rpc(fn, args)
+        if (error) throw error
+        return data
+      },
+    },
+
+    realtime: {
+      subscribe: (channelName, listeners) => {
+        const channel = listeners.reduce(
+          (ch, listener) => ch.on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: listener.table },
+            (payload) => {
+              if (payload.eventType !== listener.event) return
+              const handler = listener.handler as (row: unknown) => void
+              handler(payload.eventType === 'DELETE' ? payload.old : payload.new)
+            }
+          ),
+          client.channel(channelName)
+        ).subscribe()
+
+        return () => {
+          client.removeChannel(channel)
+        }
+      },
+    },
+  }
+}
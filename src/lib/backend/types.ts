@@ -0,0 +1,105 @@
+import type { User } from '@supabase/supabase-js'
+import type { FunctionArgs, FunctionName, FunctionReturns, Insert, Row, TableName, Update } from '@/lib/repository/types'
+
+export type AuthUser = Pick<User, 'id' | 'email' | 'user_metadata'>
+
+export interface AuthSession {
+  user: AuthUser
+}
+
+export interface AuthAdapter {
+  getSession: () => Promise<AuthSession | null>
+  /** Returns an unsubscribe function */
+  onAuthStateChange: (callback: (session: AuthSession | null) => void) => () => void
+  /**
+   * Resolves to the new user's id. `redirectTo` is where the link in the
+   * confirmation email leads, when the backend sends one.
+   */
+  signUp: (
+    email: string,
+    password: string,
+    metadata: { username: string },
+    options?: { redirectTo?: string }
+  ) => Promise<string | null>
+  signIn: (email: string, password: string) => Promise<void>
+  signOut: () => Promise<void>
+  /** Changes the signed-in user's email and username metadata; fields left out stay as they are */
+  updateUser: (values: { email?: string; username?: string }) => Promise<{ emailPending: boolean }>
+  resetPassword: (email: string) => Promise<void>
+}
+
+export type Column<T> = Extract<keyof T, string>
+
+export type Filter<T> =
+  | { op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'; column: Column<T>; value: string | number | boolean }
+  | { op: 'in'; column: Column<T>; value: (string | number)[] }
+  | { op: 'isNull' | 'notNull'; column: Column<T> }
+  /** Case-insensitive substring match on any of the columns */
+  | { op: 'search'; columns: Column<T>[]; value: string }
+
+/**
+ * Rows that some row of `table` points at through `foreignKey` (a reference
+ * to their id) with `column` one of the values. The database matches these
+ * as a join, so the related rows are never loaded.
+ */
+export interface RelatedFilter {
+  op: 'related'
+  table: TableName
+  foreignKey: string
+  column: string
+  value: string[]
+}
+
+/** Only selects can filter on related rows */
+export type SelectFilter<T> = Filter<T> | RelatedFilter
+
+export interface SelectQuery<T> {
+  filters?: SelectFilter<T>[]
+  order?: { column: Column<T>; ascending?: boolean }[]
+  /** Inclusive row offsets, like PostgREST's range */
+  range?: { from: number; to: number }
+  limit?: number
+  count?: boolean
+  /** Only count rows, do not return them */
+  head?: boolean
+}
+
+export interface SelectResult<T> {
+  rows: T[]
+  count: number | null
+}
+
+export interface TableAdapter {
+  select: <T extends TableName>(table: T, query?: SelectQuery<Row<T>>) => Promise<SelectResult<Row<T>>>
+  insert: <T extends TableName>(table: T, values: Insert<T> | Insert<T>[]) => Promise<Row<T>[]>
+  update: <T extends TableName>(table: T, values: Update<T>, filters: Filter<Row<T>>[]) => Promise<Row<T>[]>
+  delete: <T extends TableName>(table: T, filters: Filter<Row<T>>[]) => Promise<Row<T>[]>
+}
+
+/** Database functions, called as the signed-in user */
+export interface FunctionAdapter {
+  call: <F extends FunctionName>(fn: F, args: FunctionArgs<F>) => Promise<FunctionReturns<F>>
+}
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface ChangeListener<T extends TableName> {
+  table: T
+  event: ChangeEvent
+  handler: (row: Row<T>) => void
+}
+
+export type AnyChangeListener = { [T in TableName]: ChangeListener<T> }[TableName]
+
+export interface RealtimeAdapter {
+  /** Returns an unsubscribe function */
+  subscribe: (channelName: string, listeners: AnyChangeListener[]) => () => void
+}
+
+export interface Backend {
+  kind: 'supabase' | 'local'
+  auth: AuthAdapter
+  tables: TableAdapter
+  functions: FunctionAdapter
+  realtime: RealtimeAdapter
+}
@@ -0,0 +1,40 @@
+import type { CSSProperties } from 'react'
+import type { Sentiment } from '@/lib/repository/types'
+
+/**
+ * Colors for on-screen charts, as CSS variables from index.css, so they follow
+ * the light, dark and high-contrast themes without re-rendering. The PDF and
+ * email reports are drawn outside the page and keep the fixed colors in
+ * SENTIMENT_META.
+ */
+
+const themeColor = (variable: string) => `hsl(var(--${variable}))`
+
+export const CHART_COLORS = {
+  volume: themeColor('chart-1'),
+  rating: themeColor('chart-2'),
+  nps: themeColor('chart-1'),
+  csat: themeColor('chart-3'),
+  ces: themeColor('chart-4'),
+  issues: themeColor('chart-4'),
+  anomaly: themeColor('destructive'),
+  grid: themeColor('border'),
+  axis: themeColor('muted-foreground'),
+  background: themeColor('background'),
+}
+
+export const SENTIMENT_COLORS: Record<Sentiment, string> = {
+  positive: themeColor('sentiment-positive'),
+  neutral: themeColor('sentiment-neutral'),
+  negative: themeColor('sentiment-negative'),
+  unrated: themeColor('sentiment-unrated'),
+}
+
+/** For recharts' Tooltip contentStyle, whose default is always white */
+export const CHART_TOOLTIP_STYLE: CSSProperties = {
+  backgroundColor: themeColor('popover'),
+  border: `1px solid ${themeColor('border')}`,
+  borderRadius: '8px',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+  color: themeColor('popover-foreground'),
+}
@@ -0,0 +1,150 @@
+import type { Backend } from '@/lib/backend/types'
+import {
+  ASSIGN_SIMILARITY_THRESHOLD,
+  buildTfIdfModel,
+  centroidOf,
+  findBestMatch,
+  tokenize,
+  vectorize,
+  type TermVector,
+  type TfIdfModel,
+} from '@/lib/clustering'
+import { isIssueOpen } from '@/lib/issue-lifecycle'
+import { inChunks } from '@/lib/repository/chunks'
+import type { Feedback, Issue, Row } from '@/lib/repository/types'
+
+// Like the invitation job, this takes its backend as an argument so the
+// cluster-assignment edge function can run it with the service role. Issue
+// suggestions in the dashboard read issue clusters the same way.
+
+// Issues are compared against the most recent feedback of their workspace only
+const MAX_CLUSTERED_FEEDBACK = 500
+
+// Feedback checked per run; the rest waits for the next one
+const BATCH_SIZE = 200
+
+export interface IssueCentroid {
+  issue: Issue
+  centroid: TermVector
+}
+
+export interface IssueClusters {
+  /** Recent feedback of the workspace, without spam, newest first */
+  feedbacks: Feedback[]
+  /** Open issues of the workspace */
+  issues: Issue[]
+  /** Issue links of that feedback */
+  links: Row<'feedback_issues'>[]
+  /** Linked feedback per issue id, among that feedback */
+  linkedFeedback: Map<string, Feedback[]>
+}
+
+const selectLinks = (backend: Backend, feedbackIds: string[]) =>
+  inChunks(feedbackIds, async chunk => {
+    const { rows } = await backend.tables.select('feedback_issues', {
+      filters: [{ op: 'in', column: 'feedback_id', value: chunk }],
+    })
+    return rows
+  })
+
+export const loadIssueClusters = async (backend: Backend, workspaceId: string): Promise<IssueClusters> => {
+  const [{ rows: feedbacks }, { rows: issues }] = await Promise.all([
+    backend.tables.select('feedbacks', {
+      filters: [
+        { op: 'eq', column: 'workspace_id', value: workspaceId },
+        { op: 'neq', column: 'status', value: 'spam' },
+      ],
+      order: [{ column: 'received_at', ascending: false }],
+      limit: MAX_CLUSTERED_FEEDBACK,
+    }),
+    backend.tables.select('current_issues', {
+      filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+    }),
+  ])
+  const links = await selectLinks(backend, feedbacks.map(feedback => feedback.id))
+  const byId = new Map(feedbacks.map(feedback => [feedback.id, feedback]))
+
+  const linkedFeedback = new Map<string, Feedback[]>()
+  links.forEach(link => {
+    const feedback = byId.get(link.feedback_id)
+    if (feedback) linkedFeedback.set(link.issue_id, [...(linkedFeedback.get(link.issue_id) ?? []), feedback])
+  })
+  return { feedbacks, issues: issues.filter(isIssueOpen), links, linkedFeedback }
+}
+
+// An issue is described by its own title and description plus everything linked to it
+export const issueDocuments = (issues: Issue[], linkedFeedback: Map<string, Feedback[]>) =>
+  issues.map(issue => ({
+    issue,
+    documents: [
+      tokenize({ subject: issue.issue_title, feedback_summary: issue.description }),
+      ...(linkedFeedback.get(issue.id) ?? []).map(tokenize),
+    ],
+  }))
+
+export const toIssueCentroids = (described: ReturnType<typeof issueDocuments>, model: TfIdfModel): IssueCentroid[] =>
+  described.map(({ issue, documents }) => ({
+    issue,
+    centroid: centroidOf(documents.map(terms => vectorize(terms, model)).filter(vector => vector.size)),
+  }))
+
+export interface ClusterAssignmentJobOptions {
+  backend: Backend
+  now?: Date
+}
+
+export interface ClusterAssignmentResult {
+  feedbackId: string
+  issueId: string
+}
+
+/**
+ * Links feedback that arrived since the last run to the open issue of its
+ * workspace whose cluster it matches closely enough, then marks it checked,
+ * so each feedback is considered once. Feedback already linked to an issue is
+ * left alone. Resolves to the links that were created.
+ */
+export const assignNewFeedback = async ({ backend, now = new Date() }: ClusterAssignmentJobOptions): Promise<ClusterAssignmentResult[]> => {
+  const { rows: unchecked } = await backend.tables.select('feedbacks', {
+    filters: [{ op: 'isNull', column: 'cluster_checked_at' }],
+    order: [{ column: 'received_at', ascending: true }],
+    limit: BATCH_SIZE,
+  })
+  if (!unchecked.length) return []
+
+  const alreadyLinked = new Set((await selectLinks(backend, unchecked.map(feedback => feedback.id))).map(link => link.feedback_id))
+  const results: ClusterAssignmentResult[] = []
+
+  for (const workspaceId of new Set(unchecked.map(feedback => feedback.workspace_id))) {
+    const incoming = unchecked.filter(
+      feedback => feedback.workspace_id === workspaceId && feedback.status !== 'spam' && !alreadyLinked.has(feedback.id)
+    )
+    if (!incoming.length) continue
+    const { issues, linkedFeedback } = await loadIssueClusters(backend, workspaceId)
+    if (!issues.length) continue
+
+    const described = issueDocuments(issues, linkedFeedback)
+    const model = buildTfIdfModel([
+      ...incoming.map(tokenize),
+      ...described.flatMap(({ documents }) => documents),
+    ])
+    const issueCentroids = toIssueCentroids(described, model)
+
+    const matched = incoming.flatMap(feedback => {
+      const match = findBestMatch(vectorize(tokenize(feedback), model), issueCentroids, ASSIGN_SIMILARITY_THRESHOLD)
+      return match ? [{ feedbackId: feedback.id, issueId: match.candidate.issue.id }] : []
+    })
+    if (!matched.length) continue
+
+    await backend.tables.insert(
+      'feedback_issues',
+      matched.map(({ feedbackId, issueId }) => ({ feedback_id: feedbackId, issue_id: issueId, linked_by: null, auto_linked: true }))
+    )
+    results.push(...matched)
+  }
+
+  await inChunks(unchecked.map(feedback => feedback.id), chunk =>
+    backend.tables.update('feedbacks', { cluster_checked_at: now.toISOString() }, [{ op: 'in', column: 'id', value: chunk }])
+  )
+  return results
+}
@@ -0,0 +1,166 @@
+import type { Feedback } from '@/lib/repository/types'
+
+/**
+ * Groups feedback by what it talks about, without any external service:
+ * subject and summary become TF-IDF vectors, and feedback joins the most
+ * similar cluster when the cosine similarity clears a threshold.
+ */
+
+export type TermVector = Map<string, number>
+
+export type ClusterText = Pick<Feedback, 'subject' | 'feedback_summary'>
+
+export interface TfIdfModel {
+  idf: Map<string, number>
+  documentCount: number
+}
+
+export interface FeedbackCluster {
+  /** Members ordered by closeness to the centroid, most representative first */
+  feedbackIds: string[]
+  centroid: TermVector
+  /** Highest weighted terms of the centroid */
+  terms: string[]
+}
+
+/** Similarity needed to join a cluster while proposing issues */
+export const CLUSTER_SIMILARITY_THRESHOLD = 0.3
+
+/** Stricter similarity needed to link new feedback to an existing issue unattended */
+export const ASSIGN_SIMILARITY_THRESHOLD = 0.4
+
+export const MIN_CLUSTER_SIZE = 2
+
+const TOP_TERMS = 4
+
+// Common English words plus feedback boilerplate that says nothing about the topic
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'all', 'also', 'and', 'any', 'are', 'because', 'been', 'before', 'being',
+  'but', 'can', 'cannot', 'could', 'customer', 'did', 'does', 'doing', 'don', 'each', 'even', 'every',
+  'feedback', 'few', 'for', 'from', 'get', 'getting', 'given', 'had', 'has', 'have', 'having', 'her',
+  'here', 'him', 'his', 'how', 'into', 'its', 'just', 'keep', 'keeps', 'like', 'more', 'most', 'much',
+  'not', 'now', 'off', 'once', 'only', 'other', 'our', 'out', 'over', 'please', 'really', 'reports',
+  'said', 'same', 'she', 'should', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'three', 'through', 'too', 'tried', 'under',
+  'until', 'user', 'users', 'very', 'was', 'way', 'were', 'what', 'when', 'whenever', 'where', 'which',
+  'while', 'who', 'why', 'will', 'with', 'without', 'would', 'you', 'your',
+])
+
+// Folds plurals so "errors" and "error" count as one term
+const stem = (word: string) => {
+  if (word.length <= 4) return word
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(sh|ch|ss|x)es$/.test(word)) return word.slice(0, -2)
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1)
+  return word
+}
+
+/** Content words of the subject and summary */
+export const tokenize = (feedback: ClusterText): string[] =>
+  (`${feedback.subject ?? ''} ${feedback.feedback_summary ?? ''}`.toLowerCase().match(/[a-z][a-z']+/g) ?? [])
+    .map(word => word.replace(/'s$/, '').replace(/'/g, ''))
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(stem)
+
+export const buildTfIdfModel = (documents: string[][]): TfIdfModel => {
+  const documentFrequency = new Map<string, number>()
+  documents.forEach(terms => {
+    new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1))
+  })
+
+  // Smoothed so terms found in every document still carry a little weight
+  const idf = new Map<string, number>()
+  documentFrequency.forEach((frequency, term) => {
+    idf.set(term, Math.log((1 + documents.length) / (1 + frequency)) + 1)
+  })
+  return { idf, documentCount: documents.length }
+}
+
+const normalize = (vector: TermVector): TermVector => {
+  const length = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0))
+  if (!length) return vector
+  return new Map(Array.from(vector, ([term, weight]) => [term, weight / length]))
+}
+
+/** Unit length TF-IDF vector; terms the model has not seen are ignored */
+export const vectorize = (terms: string[], model: TfIdfModel): TermVector => {
+  const vector: TermVector = new Map()
+  terms.forEach(term => {
+    const idf = model.idf.get(term)
+    if (idf) vector.set(term, (vector.get(term) ?? 0) + idf / terms.length)
+  })
+  return normalize(vector)
+}
+
+export const cosineSimilarity = (a: TermVector, b: TermVector) => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  let dot = 0
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) ?? 0)
+  })
+  return dot
+}
+
+/** Normalized mean of the vectors */
+export const centroidOf = (vectors: TermVector[]): TermVector => {
+  const sum: TermVector = new Map()
+  vectors.forEach(vector => {
+    vector.forEach((weight, term) => sum.set(term, (sum.get(term) ?? 0) + weight))
+  })
+  return normalize(sum)
+}
+
+export const topTerms = (vector: TermVector, count = TOP_TERMS) =>
+  Array.from(vector)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term]) => term)
+
+/** The candidate most similar to `vector`, when it clears the threshold */
+export const findBestMatch = <T extends { centroid: TermVector }>(vector: TermVector, candidates: T[], threshold: number) => {
+  let best: { candidate: T; similarity: number } | null = null
+  for (const candidate of candidates) {
+    const similarity = cosineSimilarity(vector, candidate.centroid)
+    if (similarity >= threshold && (!best || similarity > best.similarity)) best = { candidate, similarity }
+  }
+  return best
+}
+
+/**
+ * Single pass clustering: each feedback joins the closest cluster above the
+ * threshold or starts its own. Input order decides ties, so pass feedback
+ * oldest first to keep clusters stable as new feedback arrives.
+ */
+export const clusterFeedback = (
+  feedbacks: (ClusterText & Pick<Feedback, 'id'>)[],
+  model: TfIdfModel,
+  options: { threshold?: number; minSize?: number } = {}
+): FeedbackCluster[] => {
+  const threshold = options.threshold ?? CLUSTER_SIMILARITY_THRESHOLD
+  const minSize = options.minSize ?? MIN_CLUSTER_SIZE
+  const clusters: { members: { id: string; vector: TermVector }[]; centroid: TermVector }[] = []
+
+  feedbacks.forEach(feedback => {
+    const vector = vectorize(tokenize(feedback), model)
+    if (!vector.size) return
+
+    const match = findBestMatch(vector, clusters, threshold)
+    if (match) {
+      match.candidate.members.push({ id: feedback.id, vector })
+      match.candidate.centroid = centroidOf(match.candidate.members.map(member => member.vector))
+    } else {
+      clusters.push({ members: [{ id: feedback.id, vector }], centroid: vector })
+    }
+  })
+
+  return clusters
+    .filter(cluster => cluster.members.length >= minSize)
+    .map(cluster => ({
+      feedbackIds: [...cluster.members]
+        .sort((a, b) => cosineSimilarity(b.vector, cluster.centroid) - cosineSimilarity(a.vector, cluster.centroid))
+        .map(member => member.id),
+      centroid: cluster.centroid,
+      terms: topTerms(cluster.centroid),
+    }))
+    .sort((a, b) => b.feedbackIds.length - a.feedbackIds.length)
+}
@@ -0,0 +1,113 @@
+import type { Json } from '@/lib/supabase'
+
+/**
+ * Widgets of the customizable overview. A layout is an ordered list of
+ * widgets laid out left to right on a four column grid; each widget spans
+ * 1-4 columns and 1-3 rows. Layouts are stored as JSON (dashboard_layouts
+ * migration), so anything read back goes through parseWidgets.
+ */
+
+export type WidgetType = 'kpi' | 'trend' | 'sentiment' | 'top-issues' | 'recent-feedback' | 'quick-stats'
+
+export type KpiMetric = 'feedback' | 'headline' | 'open-issues' | 'response-rate' | 'response-time'
+
+export type WidgetWidth = 1 | 2 | 3 | 4
+
+export type WidgetHeight = 1 | 2 | 3
+
+export interface DashboardWidget {
+  id: string
+  type: WidgetType
+  width: WidgetWidth
+  height: WidgetHeight
+  /** Only for KPI cards */
+  metric?: KpiMetric
+}
+
+export const WIDGET_TYPES: WidgetType[] = ['kpi', 'trend', 'sentiment', 'top-issues', 'recent-feedback', 'quick-stats']
+
+// Names and descriptions are the overview.widget messages
+export const WIDGET_CATALOG: Record<WidgetType, {
+  width: WidgetWidth
+  height: WidgetHeight
+  /** Cards with fixed content don't grow taller */
+  resizableHeight: boolean
+}> = {
+  kpi: { width: 1, height: 1, resizableHeight: false },
+  trend: { width: 2, height: 2, resizableHeight: true },
+  sentiment: { width: 2, height: 2, resizableHeight: true },
+  'top-issues': { width: 2, height: 2, resizableHeight: true },
+  'recent-feedback': { width: 3, height: 2, resizableHeight: true },
+  'quick-stats': { width: 1, height: 2, resizableHeight: false },
+}
+
+export const KPI_METRICS: KpiMetric[] = ['feedback', 'headline', 'open-issues', 'response-rate', 'response-time']
+
+/** Chart height in pixels for each row span */
+export const WIDGET_CHART_HEIGHT: Record<WidgetHeight, number> = { 1: 160, 2: 300, 3: 440 }
+
+/** Rows listed by list widgets for each row span */
+export const WIDGET_LIST_LENGTH: Record<WidgetHeight, number> = { 1: 3, 2: 5, 3: 8 }
+
+const newWidgetId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Math.random().toString(36).slice(2)
+
+export const createWidget = (type: WidgetType, metric?: KpiMetric): DashboardWidget => ({
+  id: newWidgetId(),
+  type,
+  width: WIDGET_CATALOG[type].width,
+  height: WIDGET_CATALOG[type].height,
+  ...(type === 'kpi' ? { metric: metric ?? 'feedback' } : {}),
+})
+
+/** The overview as it looks before anyone customizes it */
+export const DEFAULT_WIDGETS: DashboardWidget[] = [
+  { id: 'kpi-feedback', type: 'kpi', width: 1, height: 1, metric: 'feedback' },
+  { id: 'kpi-headline', type: 'kpi', width: 1, height: 1, metric: 'headline' },
+  { id: 'kpi-open-issues', type: 'kpi', width: 1, height: 1, metric: 'open-issues' },
+  { id: 'kpi-response-rate', type: 'kpi', width: 1, height: 1, metric: 'response-rate' },
+  { id: 'trend', type: 'trend', width: 2, height: 2 },
+  { id: 'sentiment', type: 'sentiment', width: 2, height: 2 },
+  { id: 'recent-feedback', type: 'recent-feedback', width: 3, height: 2 },
+  { id: 'quick-stats', type: 'quick-stats', width: 1, height: 2 },
+]
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(Math.round(value), min), max)
+
+/** Widgets of a stored layout; unknown widgets are dropped and sizes kept in bounds */
+export const parseWidgets = (value: Json): DashboardWidget[] => {
+  if (!Array.isArray(value)) return []
+  return value.flatMap(item => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) return []
+    const type = item.type as WidgetType
+    if (!WIDGET_TYPES.includes(type)) return []
+
+    const widget: DashboardWidget = {
+      id: typeof item.id === 'string' ? item.id : newWidgetId(),
+      type,
+      width: clamp(Number(item.width) || WIDGET_CATALOG[type].width, 1, 4) as WidgetWidth,
+      height: WIDGET_CATALOG[type].resizableHeight
+        ? (clamp(Number(item.height) || WIDGET_CATALOG[type].height, 1, 3) as WidgetHeight)
+        : WIDGET_CATALOG[type].height,
+    }
+    if (type === 'kpi') widget.metric = KPI_METRICS.includes(item.metric as KpiMetric) ? (item.metric as KpiMetric) : 'feedback'
+    return [widget]
+  })
+}
+
+/** Stored form of a layout's widgets */
+export const serializeWidgets = (widgets: DashboardWidget[]): Json =>
+  widgets.map(({ id, type, width, height, metric }) => (metric ? { id, type, width, height, metric } : { id, type, width, height }))
+
+export const moveWidget = (widgets: DashboardWidget[], from: number, to: number) => {
+  if (from === to || to < 0 || to >= widgets.length) return widgets
+  const next = [...widgets]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+export const updateWidget = (widgets: DashboardWidget[], id: string, changes: Partial<Omit<DashboardWidget, 'id' | 'type'>>) =>
+  widgets.map(widget => (widget.id === id ? { ...widget, ...changes } : widget))
+
+export const removeWidget = (widgets: DashboardWidget[], id: string) => widgets.filter(widget => widget.id !== id)
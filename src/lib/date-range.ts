@@ -0,0 +1,196 @@
+import type { Translate } from '@/lib/i18n'
+
+/**
+ * Calendar ranges evaluated in a chosen IANA timezone, so "today" and the
+ * day buckets of every chart follow the timezone picked in Settings rather
+ * than the browser's.
+ */
+
+const DAY = 24 * 60 * 60 * 1000
+
+export type DateRangePreset = 'today' | '7d' | '30d' | '90d' | '365d' | 'all' | 'custom'
+
+export const DATE_RANGE_PRESETS: Exclude<DateRangePreset, 'custom'>[] = ['today', '7d', '30d', '90d', '365d', 'all']
+
+// Labels are the dateRange.<preset> messages
+export const DATE_RANGE_PRESET_META: Record<DateRangePreset, { days: number | null }> = {
+  today: { days: 1 },
+  '7d': { days: 7 },
+  '30d': { days: 30 },
+  '90d': { days: 90 },
+  '365d': { days: 365 },
+  all: { days: null },
+  custom: { days: null },
+}
+
+export interface DateRange {
+  preset: DateRangePreset
+  /** Calendar days as YYYY-MM-DD, both inclusive; only used by the custom preset */
+  from?: string
+  to?: string
+}
+
+export const DEFAULT_DATE_RANGE: DateRange = { preset: 'all' }
+
+/** Instants bounding a range; start inclusive, end exclusive, null when unbounded */
+export interface ResolvedDateRange {
+  start: Date | null
+  end: Date | null
+}
+
+export const TIMEZONES = [
+  { value: 'UTC', label: 'UTC' },
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Paris', label: 'Central European Time' },
+  { value: 'Asia/Kolkata', label: 'India' },
+  { value: 'Asia/Tokyo', label: 'Japan' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+]
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+// Formatters are costly to build and charts call this for every row
+const getParts = (date: Date, timezone: string) => {
+  let formatter = partsFormatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    partsFormatters.set(timezone, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]))
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  }
+}
+
+/** Offset of the timezone from UTC at `date`, in milliseconds */
+const getOffset = (date: Date, timezone: string) => {
+  const p = getParts(date, timezone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/** Calendar day of `date` in the timezone, as YYYY-MM-DD */
+export const toDayKey = (date: Date | string, timezone: string) => {
+  const p = getParts(new Date(date), timezone)
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+}
+
+/**
+ * A Date whose local fields read as the wall-clock time of `date` in the
+ * timezone, for date-fns, which only formats in the browser's timezone
+ */
+export const toZonedDate = (date: Date | string, timezone: string) => {
+  const p = getParts(new Date(date), timezone)
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+}
+
+/** Hour of day (0-23) of `date` in the timezone */
+export const getZonedHour = (date: Date | string, timezone: string) => getParts(new Date(date), timezone).hour
+
+/** The instant a calendar day starts in the timezone */
+export const startOfZonedDay = (dayKey: string, timezone: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  const utcMidnight = Date.UTC(year, month - 1, day)
+  // Correct twice so days starting next to a DST switch land on the right offset
+  const guess = utcMidnight - getOffset(new Date(utcMidnight), timezone)
+  return new Date(utcMidnight - getOffset(new Date(guess), timezone))
+}
+
+/** Day key `days` calendar days after `dayKey` (negative goes back) */
+export const addDays = (dayKey: string, days: number) => {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY).toISOString().slice(0, 10)
+}
+
+export const resolveDateRange = (range: DateRange, timezone: string, now = new Date()): ResolvedDateRange => {
+  const today = toDayKey(now, timezone)
+
+  if (range.preset === 'custom') {
+    return {
+      start: range.from ? startOfZonedDay(range.from, timezone) : null,
+      end: range.to ? startOfZonedDay(addDays(range.to, 1), timezone) : null,
+    }
+  }
+
+  const days = DATE_RANGE_PRESET_META[range.preset].days
+  if (days === null) return { start: null, end: null }
+  // Whole calendar days, today included
+  return {
+    start: startOfZonedDay(addDays(today, 1 - days), timezone),
+    end: startOfZonedDay(addDays(today, 1), timezone),
+  }
+}
+
+/** Received-at bounds for feedback filters */
+export const toReceivedBounds = (range: ResolvedDateRange) => ({
+  receivedFrom: range.start?.toISOString(),
+  receivedBefore: range.end?.toISOString(),
+})
+
+export const isInDateRange = (timestamp: string | null, range: ResolvedDateRange) => {
+  if (!timestamp) return false
+  const time = new Date(timestamp).getTime()
+  if (range.start && time < range.start.getTime()) return false
+  if (range.end && time >= range.end.getTime()) return false
+  return true
+}
+
+/**
+ * Every calendar day of the range, oldest first, for chart axes. Unbounded
+ * ranges start at `firstDay`, the earliest day with data.
+ */
+export const listDayKeys = (range: ResolvedDateRange, timezone: string, firstDay?: string, now = new Date()) => {
+  const first = range.start ? toDayKey(range.start, timezone) : firstDay
+  if (!first) return []
+  // Days after today have no data yet
+  const endOfToday = startOfZonedDay(addDays(toDayKey(now, timezone), 1), timezone)
+  const last = toDayKey(new Date(Math.min((range.end ?? endOfToday).getTime(), endOfToday.getTime()) - 1), timezone)
+
+  const days: string[] = []
+  for (let day = first; day <= last; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+/** Day of week of a calendar day, 0 for Sunday */
+export const getWeekday = (dayKey: string) => new Date(`${dayKey}T00:00:00Z`).getUTCDay()
+
+/**
+ * Short human label for a range, like "Last 30 days" or "Mar 3 - Mar 9", with
+ * custom days written by `format` (usePreferences().format.dayLabel) and the
+ * wording in the language of `t`
+ */
+export const formatDateRange = (range: DateRange, format: (dayKey: string) => string, t: Translate) => {
+  if (range.preset !== 'custom') return t(`dateRange.${range.preset}`)
+  if (range.from && range.to) return range.from === range.to ? format(range.from) : `${format(range.from)} - ${format(range.to)}`
+  if (range.from) return t('dateRange.since', { date: format(range.from) })
+  if (range.to) return t('dateRange.until', { date: format(range.to) })
+  return t('dateRange.all')
+}
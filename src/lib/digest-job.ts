@@ -0,0 +1,170 @@
+import type { Backend, SelectQuery } from '@/lib/backend/types'
+import { createFormatter } from '@/lib/format'
+import { getDigestBounds, getDigestSubject, getDigestWeek, renderDigestHtml, toDigestData, type DigestData } from '@/lib/digest'
+import type { ReceivedBounds, Row, TableName, UserProfile } from '@/lib/repository/types'
+import { DEFAULT_USER_SETTINGS, toUserSettings } from '@/lib/user-settings'
+
+// The digest job takes its backend as an argument rather than using the app's,
+// so it can run in the weekly-digest edge function with the service role, in
+// scripts/weekly-digest.mjs against the local backend, or in the browser for
+// the preview in Settings.
+
+export interface DigestEmail {
+  to: string
+  subject: string
+  html: string
+}
+
+/** Delivers one email; rejects when it could not be sent */
+export type SendDigestEmail = (email: DigestEmail) => Promise<void>
+
+export interface DigestJobOptions {
+  backend: Backend
+  send: SendDigestEmail
+  /** Where links in the email point, without a trailing slash */
+  appUrl: string
+  now?: Date
+}
+
+export interface DigestJobResult {
+  userId: string
+  recipient: string
+  status: 'sent' | 'failed' | 'skipped'
+  /** Why the digest failed or was skipped */
+  reason?: string
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+/** Every row of the table, read a page at a time; `order` must give rows a stable order */
+const selectAll = async <T extends TableName>(
+  backend: Backend,
+  table: T,
+  order: SelectQuery<Row<T>>['order']
+): Promise<Row<T>[]> => {
+  const rows: Row<T>[] = []
+  for (;;) {
+    const page = await backend.tables.select(table, { order, range: { from: rows.length, to: rows.length + PAGE_SIZE - 1 } })
+    rows.push(...page.rows)
+    if (page.rows.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * The recipient's digest of a workspace for the last full week before `now`
+ * in their timezone
+ */
+export const buildDigest = async (
+  backend: Backend,
+  recipient: UserProfile,
+  workspaceId: string,
+  timezone: string,
+  now = new Date()
+): Promise<DigestData> => {
+  const range = getDigestWeek(now, timezone)
+  const bounds = getDigestBounds(range, timezone)
+  const toArgs = (received: ReceivedBounds) => ({
+    p_workspace_id: workspaceId,
+    p_from: received.receivedFrom ?? null,
+    p_to: received.receivedBefore ?? null,
+  })
+  const [summary, previousSummary, { rows: issues }, linkedCounts] = await Promise.all([
+    backend.functions.call('feedback_summary', toArgs(bounds.current)),
+    backend.functions.call('feedback_summary', toArgs(bounds.previous)),
+    backend.tables.select('current_issues', { filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }] }),
+    backend.functions.call('issue_feedback_counts', toArgs({})),
+  ])
+
+  return toDigestData({
+    range,
+    timezone,
+    recipient,
+    summary: summary[0],
+    previousSummary: previousSummary[0],
+    issues,
+    linkedCounts,
+  }, now)
+}
+
+/**
+ * Sends last week's digest to every user who has not turned it off. Weeks
+ * already delivered are skipped, so the job can run as often as convenient;
+ * every attempt is recorded in digest_deliveries. The digest covers the
+ * workspace the user joined first.
+ */
+export const runWeeklyDigest = async ({ backend, send, appUrl, now = new Date() }: DigestJobOptions): Promise<DigestJobResult[]> => {
+  const [users, subscriptions, settings, memberships] = await Promise.all([
+    selectAll(backend, 'users', [{ column: 'id' }]),
+    selectAll(backend, 'digest_subscriptions', [{ column: 'user_id' }]),
+    selectAll(backend, 'user_settings', [{ column: 'user_id' }]),
+    selectAll(backend, 'workspace_members', [{ column: 'joined_at', ascending: false }, { column: 'id' }]),
+  ])
+  const subscriptionsByUser = new Map(subscriptions.map(subscription => [subscription.user_id, subscription]))
+  const settingsByUser = new Map(settings.map(row => [row.user_id, toUserSettings(row)]))
+  // Newest first, so the earliest membership of each user is the one kept
+  const workspaceByUser = new Map(memberships.map(membership => [membership.user_id, membership.workspace_id]))
+  const results: DigestJobResult[] = []
+
+  // One at a time, to stay well inside mail provider rate limits
+  for (const user of users) {
+    const subscription = subscriptionsByUser.get(user.id)
+    const result = { userId: user.id, recipient: user.email }
+    if (subscription && !subscription.weekly_enabled) {
+      results.push({ ...result, status: 'skipped', reason: 'Weekly reports are off' })
+      continue
+    }
+    if (!user.email) {
+      results.push({ ...result, status: 'skipped', reason: 'No email address' })
+      continue
+    }
+    const workspaceId = workspaceByUser.get(user.id)
+    if (!workspaceId) {
+      results.push({ ...result, status: 'skipped', reason: 'Not in any workspace' })
+      continue
+    }
+
+    // Without a chosen timezone the app uses the browser's, which the job cannot know
+    const { timezone: chosenTimezone, dateFormat, language } = settingsByUser.get(user.id) ?? DEFAULT_USER_SETTINGS
+    const timezone = chosenTimezone ?? 'UTC'
+    const week = getDigestWeek(now, timezone)
+    const { count: delivered } = await backend.tables.select('digest_deliveries', {
+      filters: [
+        { op: 'eq', column: 'user_id', value: user.id },
+        { op: 'eq', column: 'period_start', value: week.from },
+        { op: 'eq', column: 'status', value: 'sent' },
+      ],
+      count: true,
+      head: true,
+    })
+    if (delivered) {
+      results.push({ ...result, status: 'skipped', reason: 'Already sent for this week' })
+      continue
+    }
+
+    const digest = await buildDigest(backend, user, workspaceId, timezone, now)
+    // Dates are written the way the recipient reads them in the app
+    const format = createFormatter({ timezone, dateFormat, language })
+    const email = { to: user.email, subject: getDigestSubject(digest, format), html: renderDigestHtml(digest, appUrl, format) }
+    let error: string | null = null
+    try {
+      await send(email)
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError)
+    }
+
+    await backend.tables.insert('digest_deliveries', {
+      user_id: user.id,
+      recipient: email.to,
+      period_start: digest.range.from,
+      period_end: digest.range.to,
+      subject: email.subject,
+      html: email.html,
+      status: error === null ? 'sent' : 'failed',
+      error,
+    })
+    results.push(error === null ? { ...result, status: 'sent' } : { ...result, status: 'failed', reason: error })
+  }
+
+  return results
+}
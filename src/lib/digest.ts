@@ -0,0 +1,224 @@
+import { addDays, getWeekday, toDayKey } from '@/lib/date-range'
+import type { Formatter } from '@/lib/format'
+import { getIssuePriority, isIssueOpen, isIssueOverdue, ISSUE_STATUS_META, PRIORITY_META } from '@/lib/issue-lifecycle'
+import { difference, percentChange, toPeriodMetrics } from '@/lib/metrics'
+import { formatReportRange, getPreviousReportRange, toReportBounds, type ReportRange } from '@/lib/report'
+import type { FeedbackSummary, Issue, IssueFeedbackCount, IssuePriority, UserProfile } from '@/lib/repository/types'
+
+/**
+ * The weekly digest email: last week's feedback volume and rating against the
+ * week before, issues opened during the week and open high-priority issues.
+ * Built by the digest job (src/lib/digest-job.ts) and previewed in Settings.
+ */
+
+/** How many issues each list of the email shows */
+export const DIGEST_ISSUE_LIMIT = 8
+
+/** The last full week, Monday to Sunday, before the day `now` falls on in the timezone */
+export const getDigestWeek = (now: Date, timezone: string): ReportRange => {
+  const today = toDayKey(now, timezone)
+  const monday = addDays(today, -((getWeekday(today) + 6) % 7))
+  return { from: addDays(monday, -7), to: addDays(monday, -1) }
+}
+
+export interface DigestIssue {
+  id: string
+  title: string
+  status: string
+  priority: IssuePriority
+  /** All feedback linked to the issue, which its priority is derived from */
+  feedbackCount: number
+  assignedToRecipient: boolean
+  overdue: boolean
+}
+
+export interface DigestData {
+  range: ReportRange
+  timezone: string
+  recipient: { name: string; email: string }
+  feedbackCount: number
+  /** Percent change against the week before; null when that week had none */
+  volumeChange: number | null
+  avgRating: number | null
+  ratingChange: number | null
+  /** Issues created during the week, newest first */
+  newIssues: DigestIssue[]
+  newIssueCount: number
+  /** Open high-priority issues, the recipient's own first */
+  highPriorityIssues: DigestIssue[]
+  highPriorityCount: number
+}
+
+/** What a digest is built from, as loaded by buildDigest */
+export interface DigestSource {
+  range: ReportRange
+  timezone: string
+  recipient: UserProfile
+  summary: FeedbackSummary | undefined
+  previousSummary: FeedbackSummary | undefined
+  issues: Issue[]
+  /** All-time linked feedback per issue */
+  linkedCounts: IssueFeedbackCount[]
+}
+
+export const toDigestData = (source: DigestSource, now = new Date()): DigestData => {
+  const current = toPeriodMetrics(source.summary)
+  const previous = toPeriodMetrics(source.previousSummary)
+  const bounds = toReportBounds(source.range, source.timezone)
+  const counts = new Map(source.linkedCounts.map(count => [count.issue_id, count.feedback_count]))
+
+  const toDigestIssue = (issue: Issue): DigestIssue => ({
+    id: issue.id,
+    title: issue.issue_title,
+    status: ISSUE_STATUS_META[issue.status].label,
+    priority: getIssuePriority(issue, counts.get(issue.id) ?? 0),
+    feedbackCount: counts.get(issue.id) ?? 0,
+    assignedToRecipient: issue.assignee_id === source.recipient.id,
+    overdue: isIssueOverdue(issue, now),
+  })
+
+  const newIssues = source.issues
+    .filter(issue => issue.created_at >= bounds.receivedFrom && issue.created_at < bounds.receivedBefore)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(toDigestIssue)
+
+  const highPriorityIssues = source.issues
+    .filter(isIssueOpen)
+    .map(toDigestIssue)
+    .filter(issue => issue.priority === 'high')
+    .sort((a, b) => Number(b.assignedToRecipient) - Number(a.assignedToRecipient) || b.feedbackCount - a.feedbackCount)
+
+  return {
+    range: source.range,
+    timezone: source.timezone,
+    recipient: { name: source.recipient.username, email: source.recipient.email },
+    feedbackCount: current.feedbackCount,
+    volumeChange: percentChange(current.feedbackCount, previous.feedbackCount),
+    avgRating: current.avgRating,
+    ratingChange: difference(current.avgRating, previous.avgRating),
+    newIssues: newIssues.slice(0, DIGEST_ISSUE_LIMIT),
+    newIssueCount: newIssues.length,
+    highPriorityIssues: highPriorityIssues.slice(0, DIGEST_ISSUE_LIMIT),
+    highPriorityCount: highPriorityIssues.length,
+  }
+}
+
+/** The weeks a digest compares, for loading its summaries */
+export const getDigestBounds = (range: ReportRange, timezone: string) => ({
+  current: toReportBounds(range, timezone),
+  previous: toReportBounds(getPreviousReportRange(range), timezone),
+})
+
+export const getDigestSubject = (digest: DigestData, format: Formatter) =>
+  `Your feedback week: ${digest.feedbackCount} received, ${formatReportRange(digest.range, format.day)}`
+
+// Email clients ignore stylesheets, so every element carries its own styles
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char])
+
+const COLORS = { text: '#111827', muted: '#6b7280', border: '#e5e7eb', good: '#16a34a', bad: '#dc2626', accent: '#4f46e5' }
+
+const formatChange = (change: number | null, format: (value: number) => string) => {
+  if (change === null) return `<span style="color:${COLORS.muted}">No data for the week before</span>`
+  if (change === 0) return `<span style="color:${COLORS.muted}">No change on the week before</span>`
+  const color = change > 0 ? COLORS.good : COLORS.bad
+  return `<span style="color:${color}">${change > 0 ? '+' : '-'}${format(Math.abs(change))} on the week before</span>`
+}
+
+const metric = (label: string, value: string, change: string) => `
+  <td style="width:50%;padding:16px;border:1px solid ${COLORS.border};border-radius:8px;vertical-align:top">
+    <div style="font-size:13px;color:${COLORS.muted}">${label}</div>
+    <div style="font-size:28px;font-weight:bold;margin:4px 0">${value}</div>
+    <div style="font-size:12px">${change}</div>
+  </td>`
+
+const issueList = (title: string, issues: DigestIssue[], total: number, empty: string, appUrl: string) => {
+  const rows = issues.map(issue => {
+    const badges = [
+      issue.assignedToRecipient && 'Assigned to you',
+      issue.overdue && 'Overdue',
+    ].filter(Boolean).map(badge =>
+      ` <span style="font-size:11px;color:${COLORS.bad};border:1px solid ${COLORS.bad};border-radius:4px;padding:0 4px">${badge}</span>`
+    )
+    return `
+      <tr>
+        <td style="padding:8px 0;border-top:1px solid ${COLORS.border}">
+          <a href="${appUrl}/dashboard/issues" style="color:${COLORS.text};text-decoration:none;font-weight:bold">${escapeHtml(issue.title)}</a>${badges.join('')}
+          <div style="font-size:12px;color:${COLORS.muted}">
+            ${issue.status}, ${PRIORITY_META[issue.priority].label.toLowerCase()} priority, ${issue.feedbackCount} linked feedback
+          </div>
+        </td>
+      </tr>`
+  })
+  const more = total > issues.length
+    ? `<tr><td style="padding:8px 0;font-size:12px;color:${COLORS.muted}">And ${total - issues.length} more</td></tr>`
+    : ''
+
+  return `
+    <h2 style="font-size:16px;margin:24px 0 8px">${title}</h2>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:14px">
+      ${rows.length ? rows.join('') + more : `<tr><td style="color:${COLORS.muted}">${empty}</td></tr>`}
+    </table>`
+}
+
+/**
+ * The digest as a self-contained HTML email, with dates written by `format`;
+ * appUrl is where links point, without a trailing slash
+ */
+export const renderDigestHtml = (digest: DigestData, appUrl: string, format: Formatter) => {
+  const period = formatReportRange(digest.range, format.day)
+  const reportUrl = `${appUrl}/report?period=custom&from=${digest.range.from}&to=${digest.range.to}`
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(getDigestSubject(digest, format))}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Helvetica,Arial,sans-serif;color:${COLORS.text}">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px">
+    <tr>
+      <td style="padding:32px">
+        <div style="font-size:13px;color:${COLORS.muted}">FeedbackFlow weekly digest</div>
+        <h1 style="font-size:22px;margin:4px 0 4px">Hi ${escapeHtml(digest.recipient.name)}, here is your week</h1>
+        <div style="font-size:14px;color:${COLORS.muted}">${period}, days in ${escapeHtml(digest.timezone)} time</div>
+
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="8" style="margin-top:16px">
+          <tr>
+            ${metric(
+              'Feedback received',
+              String(digest.feedbackCount),
+              formatChange(digest.volumeChange, value => `${value}%`)
+            )}
+            ${metric(
+              'Average rating',
+              digest.avgRating === null ? '—' : `${digest.avgRating.toFixed(1)} / 5`,
+              formatChange(digest.ratingChange, value => value.toFixed(1))
+            )}
+          </tr>
+        </table>
+
+        ${issueList('New issues', digest.newIssues, digest.newIssueCount, 'No issues were opened this week.', appUrl)}
+        ${issueList('Open high-priority issues', digest.highPriorityIssues, digest.highPriorityCount, 'Nothing urgent is open.', appUrl)}
+
+        <table role="presentation" cellpadding="0" cellspacing="0" style="margin-top:24px">
+          <tr>
+            <td style="background:${COLORS.accent};border-radius:6px">
+              <a href="${reportUrl}" style="display:inline-block;padding:10px 16px;color:#ffffff;text-decoration:none;font-size:14px">View the full report</a>
+            </td>
+          </tr>
+        </table>
+
+        <p style="font-size:12px;color:${COLORS.muted};margin-top:32px">
+          You get this email because weekly reports are on for ${escapeHtml(digest.recipient.email)}.
+          <a href="${appUrl}/dashboard/settings" style="color:${COLORS.muted}">Turn them off in Settings</a>.
+        </p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`
+}
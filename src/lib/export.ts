@@ -0,0 +1,131 @@
+import { getIssuePriority } from '@/lib/issue-lifecycle'
+import type { Json } from '@/lib/supabase'
+import type { Feedback, Issue } from '@/lib/repository/types'
+import { toXlsx, XLSX_MIME_TYPE, type CellValue } from '@/lib/xlsx'
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => CellValue
+}
+
+export const FEEDBACK_EXPORT_COLUMNS: ExportColumn<Feedback>[] = [
+  { header: 'id', value: f => f.id },
+  { header: 'received_at', value: f => f.received_at },
+  { header: 'sender_name', value: f => f.sender_name },
+  { header: 'sender_email', value: f => f.sender_email },
+  { header: 'subject', value: f => f.subject },
+  { header: 'average_rating', value: f => f.average_rating },
+  { header: 'status', value: f => f.status },
+  { header: 'assignee_id', value: f => f.assignee_id },
+  { header: 'processed_at', value: f => f.processed_at },
+  { header: 'resolved_at', value: f => f.resolved_at },
+  { header: 'feedback_summary', value: f => f.feedback_summary },
+  { header: 'sentiment_score', value: f => f.sentiment_score },
+  { header: 'nps_score', value: f => f.nps_score },
+  { header: 'csat_score', value: f => f.csat_score },
+  { header: 'ces_score', value: f => f.ces_score },
+]
+
+/** Issue columns; priority and linked_feedback need each issue's linked feedback count */
+export const issueExportColumns = (linkedCounts: Record<string, number>): ExportColumn<Issue>[] => [
+  { header: 'id', value: i => i.id },
+  { header: 'issue_title', value: i => i.issue_title },
+  { header: 'description', value: i => i.description },
+  { header: 'status', value: i => i.status },
+  { header: 'priority', value: i => getIssuePriority(i, linkedCounts[i.id] ?? 0) },
+  { header: 'priority_override', value: i => i.priority_override },
+  { header: 'linked_feedback', value: i => linkedCounts[i.id] ?? 0 },
+  { header: 'assignee_id', value: i => i.assignee_id },
+  { header: 'due_date', value: i => i.due_date },
+  { header: 'created_at', value: i => i.created_at },
+  { header: 'updated_at', value: i => i.updated_at },
+  { header: 'resolved_at', value: i => i.resolved_at },
+]
+
+/**
+ * Leaf values of a JSON document keyed by their dotted path, like
+ * `survey.nps`. Arrays are kept whole, as JSON text.
+ */
+export const flattenJson = (value: Json, prefix = ''): Record<string, CellValue> => {
+  const path = prefix || 'value'
+  if (value === null) return { [path]: null }
+  if (typeof value === 'string' || typeof value === 'number') return { [path]: value }
+  if (typeof value === 'boolean') return { [path]: String(value) }
+  if (Array.isArray(value)) return { [path]: JSON.stringify(value) }
+
+  return Object.entries(value).reduce<Record<string, CellValue>>(
+    (flat, [key, child]) =>
+      child === undefined ? flat : { ...flat, ...flattenJson(child, prefix ? `${prefix}.${key}` : key) },
+    {}
+  )
+}
+
+/** A column for every raw_json field present in any of the feedback, named `raw_json.<path>` */
+export const rawJsonColumns = (feedbacks: Feedback[]): ExportColumn<Feedback>[] => {
+  // Each payload is flattened once however many columns read it
+  const flattened = new Map(feedbacks.map(f => [f.id, flattenJson(f.raw_json)]))
+  const paths = Array.from(new Set(Array.from(flattened.values()).flatMap(flat => Object.keys(flat)))).sort()
+
+  return paths.map(path => ({
+    header: `raw_json.${path}`,
+    value: f => (flattened.get(f.id) ?? flattenJson(f.raw_json))[path],
+  }))
+}
+
+// Spreadsheet apps run cells starting with these as formulas, so text gets a leading quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsv = (value: CellValue) => {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  [
+    columns.map(column => escapeCsv(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsv(column.value(row))).join(',')),
+  ].join('\r\n')
+
+/** One JSON object per line, keyed by column header */
+export const toNdjson = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  rows
+    .map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column.header, column.value(row) ?? null]))))
+    .map(line => `${line}\n`)
+    .join('')
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'ndjson']
+
+export const EXPORT_FORMAT_META: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx', mimeType: XLSX_MIME_TYPE },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson;charset=utf-8' },
+}
+
+/** The rows in the format, as file contents */
+export const toExportFile = <T>(format: ExportFormat, rows: T[], columns: ExportColumn<T>[], sheetName?: string): Blob => {
+  switch (format) {
+    case 'csv':
+      return new Blob([toCsv(rows, columns)], { type: EXPORT_FORMAT_META.csv.mimeType })
+    case 'ndjson':
+      return new Blob([toNdjson(rows, columns)], { type: EXPORT_FORMAT_META.ndjson.mimeType })
+    case 'xlsx':
+      return toXlsx([columns.map(column => column.header), ...rows.map(row => columns.map(column => column.value(row)))], sheetName)
+  }
+}
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/** File name like `feedback-2026-10-19.csv` */
+export const exportFileName = (prefix: string, extension: string, date = new Date()) =>
+  `${prefix}-${date.toISOString().slice(0, 10)}.${extension}`
@@ -0,0 +1,48 @@
+import type { Feedback, FeedbackStatus } from '@/lib/repository/types'
+
+export const FEEDBACK_STATUSES: FeedbackStatus[] = [
+  'new',
+  'triaged',
+  'in_progress',
+  'waiting',
+  'resolved',
+  'archived',
+  'spam',
+]
+
+export const OPEN_STATUSES: FeedbackStatus[] = ['new', 'triaged', 'in_progress', 'waiting']
+
+export const STATUS_META: Record<FeedbackStatus, { label: string; color: string }> = {
+  new: { label: 'New', color: 'bg-blue-100 text-blue-800' },
+  triaged: { label: 'Triaged', color: 'bg-indigo-100 text-indigo-800' },
+  in_progress: { label: 'In Progress', color: 'bg-yellow-100 text-yellow-800' },
+  waiting: { label: 'Waiting on Customer', color: 'bg-orange-100 text-orange-800' },
+  resolved: { label: 'Resolved', color: 'bg-green-100 text-green-800' },
+  archived: { label: 'Archived', color: 'bg-gray-100 text-gray-800' },
+  spam: { label: 'Spam', color: 'bg-red-100 text-red-800' },
+}
+
+// new → triaged → in progress → resolved / archived / spam, with reopen paths back
+const TRANSITIONS: Record<FeedbackStatus, FeedbackStatus[]> = {
+  new: ['triaged', 'in_progress', 'resolved', 'archived', 'spam'],
+  triaged: ['in_progress', 'waiting', 'resolved', 'archived', 'spam'],
+  in_progress: ['waiting', 'resolved', 'archived', 'spam'],
+  waiting: ['in_progress', 'resolved', 'archived', 'spam'],
+  resolved: ['in_progress', 'archived'],
+  archived: ['triaged'],
+  spam: ['new'],
+}
+
+export const getNextStatuses = (status: FeedbackStatus) => TRANSITIONS[status]
+
+export const canTransition = (from: FeedbackStatus, to: FeedbackStatus) => TRANSITIONS[from].includes(to)
+
+/**
+ * Share of feedback that reached "resolved", as a whole percentage.
+ * Spam is excluded from the denominator since it never needs an answer.
+ */
+export const getResolutionRate = (feedbacks: Pick<Feedback, 'status'>[]) => {
+  const relevant = feedbacks.filter(f => f.status !== 'spam')
+  if (!relevant.length) return 0
+  return Math.round((relevant.filter(f => f.status === 'resolved').length / relevant.length) * 100)
+}
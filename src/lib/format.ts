@@ -0,0 +1,74 @@
+import { format as formatWith, type Locale } from 'date-fns'
+import { enUS, es } from 'date-fns/locale'
+import { toZonedDate } from '@/lib/date-range'
+import type { DateFormat, Language } from '@/lib/user-settings'
+
+/**
+ * Dates and numbers written the way the user chose in Settings: timestamps in
+ * their timezone, dates in their date format, and month names, times and
+ * digits in their language. Components get a formatter from usePreferences.
+ */
+
+export interface FormatPreferences {
+  timezone: string
+  dateFormat: DateFormat
+  language: Language
+}
+
+const LOCALES: Record<Language, { dateFns: Locale; intl: string }> = {
+  en: { dateFns: enUS, intl: 'en-US' },
+  es: { dateFns: es, intl: 'es-ES' },
+}
+
+/** BCP 47 tag for Intl APIs, like es-ES */
+export const getIntlLocale = (language: Language) => LOCALES[language].intl
+
+// date-fns patterns: the full date, and the short label chart axes use
+const DATE_PATTERNS: Record<DateFormat, { date: string; dayLabel: string }> = {
+  'MM/DD/YYYY': { date: 'MM/dd/yyyy', dayLabel: 'MMM d' },
+  'DD/MM/YYYY': { date: 'dd/MM/yyyy', dayLabel: 'd MMM' },
+  'YYYY-MM-DD': { date: 'yyyy-MM-dd', dayLabel: 'MM-dd' },
+}
+
+export interface Formatter {
+  preferences: FormatPreferences
+  /** For date-fns based widgets, like the calendar */
+  locale: Locale
+  /** Calendar date of a timestamp in the timezone, like 03/09/2026 */
+  date: (value: Date | string) => string
+  /** Date and time of a timestamp in the timezone, like 03/09/2026 4:05 PM */
+  dateTime: (value: Date | string) => string
+  /** Time of day of a timestamp in the timezone, like 4:05 PM */
+  time: (value: Date | string) => string
+  /** A calendar day (YYYY-MM-DD) in the date format; days are already in the timezone */
+  day: (dayKey: string) => string
+  /** Short chart label for a calendar day, like "Mar 9" */
+  dayLabel: (dayKey: string) => string
+  /** Short weekday name, 0 being Sunday like Date#getDay */
+  weekday: (day: number) => string
+  number: (value: number, options?: Intl.NumberFormatOptions) => string
+}
+
+const parseDayKey = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const createFormatter = (preferences: FormatPreferences): Formatter => {
+  const { dateFns: locale, intl } = LOCALES[preferences.language]
+  const patterns = DATE_PATTERNS[preferences.dateFormat]
+  const zoned = (value: Date | string) => toZonedDate(value, preferences.timezone)
+
+  return {
+    preferences,
+    locale,
+    date: (value) => formatWith(zoned(value), patterns.date, { locale }),
+    dateTime: (value) => formatWith(zoned(value), `${patterns.date} p`, { locale }),
+    time: (value) => formatWith(zoned(value), 'p', { locale }),
+    day: (dayKey) => formatWith(parseDayKey(dayKey), patterns.date, { locale }),
+    dayLabel: (dayKey) => formatWith(parseDayKey(dayKey), patterns.dayLabel, { locale }),
+    // January 7th 2024 was a Sunday
+    weekday: (day) => formatWith(new Date(2024, 0, 7 + day), 'EEE', { locale }),
+    number: (value, options) => value.toLocaleString(intl, options),
+  }
+}
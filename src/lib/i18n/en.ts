@@ -0,0 +1,830 @@
+import type { Message } from './index'
+
+// The source catalog: every key the interface uses, in English
+export const en = {
+  // Shared
+  'common.error': 'Error',
+  'common.export': 'Export',
+  'common.anonymous': 'Anonymous',
+  'common.unknown': 'Unknown',
+  'common.notAvailable': 'N/A',
+  'common.allTags': 'All Tags',
+  'common.allRatings': 'All Ratings',
+  'common.unassigned': 'Unassigned',
+  'common.subject': 'Subject',
+  'common.sender': 'Sender',
+  'common.rating': 'Rating',
+  'common.tags': 'Tags',
+  'common.cancel': 'Cancel',
+
+  'feedbackStatus.new': 'New',
+  'feedbackStatus.triaged': 'Triaged',
+  'feedbackStatus.in_progress': 'In Progress',
+  'feedbackStatus.waiting': 'Waiting on Customer',
+  'feedbackStatus.resolved': 'Resolved',
+  'feedbackStatus.archived': 'Archived',
+  'feedbackStatus.spam': 'Spam',
+
+  'sentiment.positive': 'Positive',
+  'sentiment.neutral': 'Neutral',
+  'sentiment.negative': 'Negative',
+  'sentiment.unrated': 'Not Rated',
+
+  'headlineMetric.rating': 'Average Rating',
+  'headlineMetric.csat': 'CSAT',
+  'headlineMetric.nps': 'Net Promoter Score',
+  'headlineMetric.ces': 'Customer Effort Score',
+  'headlineMetric.short.rating': 'Rating',
+  'headlineMetric.short.csat': 'CSAT',
+  'headlineMetric.short.nps': 'NPS',
+  'headlineMetric.short.ces': 'CES',
+
+  'dateRange.today': 'Today',
+  'dateRange.7d': 'Last 7 days',
+  'dateRange.30d': 'Last 30 days',
+  'dateRange.90d': 'Last 90 days',
+  'dateRange.365d': 'Last 12 months',
+  'dateRange.all': 'All time',
+  'dateRange.custom': 'Custom range',
+  'dateRange.since': 'Since {date}',
+  'dateRange.until': 'Until {date}',
+  'dateRange.timezoneNote': 'Days follow {timezone} time, set in Settings',
+  'comparison.noData': {
+    one: 'No data for the previous {count} day',
+    other: 'No data for the previous {count} days',
+  },
+  'comparison.versus': {
+    one: '{change} vs previous {count} day',
+    other: '{change} vs previous {count} days',
+  },
+
+  'validation.invalidEmail': 'Invalid email address',
+  'validation.passwordTooShort': 'Password must be at least 6 characters',
+  'validation.passwordsDontMatch': "Passwords don't match",
+  'validation.usernameTooShort': 'Username must be at least 3 characters',
+  'validation.usernameTooLong': 'Username must be less than 20 characters',
+  'validation.bioTooLong': 'Bio must be 500 characters or less',
+  'validation.unknownTimezone': 'Unknown timezone',
+  'validation.thresholdsOutOfRange': 'Thresholds must be between -1 and 1',
+  'validation.thresholdsOrder': 'The negative threshold must be below the positive threshold',
+
+  // Sign in and sign up
+  'auth.welcomeBack': 'Welcome Back',
+  'auth.createYourAccount': 'Create Your Account',
+  'auth.email': 'Email',
+  'auth.emailPlaceholder': 'Enter your email',
+  'auth.password': 'Password',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.signIn': 'Sign In',
+  'auth.forgotPassword': 'Forgot your password?',
+  'auth.username': 'Username',
+  'auth.usernamePlaceholder': 'Choose a username',
+  'auth.usernameAvailable': 'Available',
+  'auth.usernameTaken': 'Taken',
+  'auth.newPasswordPlaceholder': 'Create a password',
+  'auth.confirmPassword': 'Confirm Password',
+  'auth.confirmPasswordPlaceholder': 'Confirm your password',
+  'auth.createAccount': 'Create Account',
+  'auth.toSignUp': "Don't have an account? Sign up",
+  'auth.toSignIn': 'Already have an account? Sign in',
+  'auth.resetPassword': 'Reset Password',
+  'auth.resetInstructions': "Enter your email address and we'll send you a link to reset your password.",
+  'auth.sendResetLink': 'Send Reset Link',
+  'auth.backToSignIn': 'Back to Sign In',
+  'auth.signedUp': 'Success!',
+  'auth.signedUpDescription': 'Please check your email to verify your account.',
+  'auth.signedIn': 'Welcome back!',
+  'auth.signedInDescription': 'You have successfully signed in.',
+  'auth.signedOut': 'Signed out',
+  'auth.signedOutDescription': 'You have been successfully signed out.',
+  'auth.resetSent': 'Reset email sent',
+  'auth.resetSentDescription': 'Please check your email for password reset instructions.',
+
+  // Invitation links
+  'invitation.loading': 'Checking your invitation...',
+  'invitation.title': 'Join {workspace}',
+  'invitation.invitedBy': '{name} invited you to work on customer feedback in {workspace} as {role}.',
+  'invitation.teammate': 'A teammate',
+  'invitation.sentTo': 'Sent to {email}, valid until {date}',
+  'invitation.signUpHint': 'Create an account or sign in with this email address to accept.',
+  'invitation.accept': 'Accept invitation',
+  'invitation.wrongAccount': 'You are signed in as {email}. Sign out, then sign in or create an account with the address the invitation was sent to.',
+  'invitation.joined': 'Welcome to {workspace}',
+  'invitation.joinedDescription': 'You joined as {role}.',
+  'invitation.invalid.title': 'Invitation not found',
+  'invitation.invalid.description': 'This link is not valid. Check that it was copied completely, or ask for a new invitation.',
+  'invitation.expired.title': 'This invitation has expired',
+  'invitation.expired.description': 'Invitations are valid for a week. Ask whoever invited you to send it again.',
+  'invitation.revoked.title': 'This invitation was withdrawn',
+  'invitation.revoked.description': 'Ask an owner or admin of the workspace if you still need access.',
+  'invitation.accepted.title': 'This invitation has already been used',
+  'invitation.accepted.description': 'Sign in to open the workspace.',
+  'invitation.home': 'Go to FeedbackFlow',
+
+  // Dashboard shell
+  'nav.overview': 'Overview',
+  'nav.feedback': 'Feedback',
+  'nav.myQueue': 'My Queue',
+  'nav.analytics': 'Analytics',
+  'nav.issues': 'Issues',
+  'nav.team': 'Team',
+  'nav.settings': 'Settings',
+  'nav.badge.new': 'Unread',
+  'nav.badge.unassigned': 'Unassigned',
+  'nav.badge.mine': 'Assigned to you',
+  'nav.badge.urgent': 'Open issues',
+  'nav.pro': 'Pro',
+  'nav.toggleDarkMode': 'Toggle dark mode',
+  'nav.quickActions': 'Quick Actions',
+  'nav.searchFeedback': 'Search Feedback',
+  'nav.helpAndSupport': 'Help & Support',
+  'nav.workspace.switch': 'Switch workspace',
+  'nav.workspace.role.owner': 'Owner',
+  'nav.workspace.role.admin': 'Admin',
+  'nav.workspace.role.member': 'Member',
+  'nav.workspace.role.viewer': 'Viewer',
+  'nav.workspace.create': 'New workspace',
+  'nav.workspace.createDescription': 'Feedback, issues and tags in a new workspace are kept apart from your other workspaces.',
+  'nav.workspace.name': 'Workspace name',
+  'nav.workspace.namePlaceholder': 'e.g. Mobile app',
+  'nav.workspace.cancel': 'Cancel',
+  'nav.workspace.submit': 'Create workspace',
+  'nav.workspace.created': 'Switched to {name}',
+
+  'dashboard.searchPlaceholder': 'Search everything...',
+  'dashboard.searchStarted': 'Search initiated',
+  'dashboard.searchingFor': 'Searching for: {query}',
+  'dashboard.systemsOperational': 'All systems operational',
+  'dashboard.userFallback': 'User',
+  'dashboard.verified': 'Verified',
+  'dashboard.proPlan': 'Pro Plan',
+  'dashboard.profileSettings': 'Profile Settings',
+  'dashboard.preferences': 'Preferences',
+  'dashboard.signOut': 'Sign Out',
+  'dashboard.netIssueChange': {
+    one: '{change} net in the last {count} day',
+    other: '{change} net in the last {count} days',
+  },
+
+  // Feedback table
+  'feedback.title': 'Feedback Management',
+  'feedback.subtitle': 'Manage and analyze all your feedback in one place',
+  'feedback.myQueueTitle': 'My Queue',
+  'feedback.myQueueSubtitle': 'Feedback assigned to you',
+  'feedback.filtersTitle': 'Filters & Search',
+  'feedback.searchPlaceholder': 'Search feedback...',
+  'feedback.filterByStatus': 'Filter by status',
+  'feedback.openStatuses': 'Open',
+  'feedback.allStatuses': 'All Statuses',
+  'feedback.filterByOwner': 'Filter by owner',
+  'feedback.allOwners': 'All Owners',
+  'feedback.assignedToMe': 'Assigned to Me',
+  'feedback.filterByTag': 'Filter by tag',
+  'feedback.filterByRating': 'Filter by rating',
+  'feedback.rating4Plus': '4+ Stars',
+  'feedback.rating3To4': '3-4 Stars',
+  'feedback.rating2To3': '2-3 Stars',
+  'feedback.rating1To2': '1-2 Stars',
+  'feedback.clearFilters': 'Clear Filters',
+  'feedback.tableTitle': 'Feedback ({count})',
+  'feedback.tableDescription': 'All your received feedback with detailed information',
+  'feedback.selectedCount': '{count} selected',
+  'feedback.allMatchingSelected': {
+    one: 'The {count} matching feedback is selected',
+    other: 'All {count} matching feedback selected',
+  },
+  'feedback.pageSelected': {
+    one: 'The {count} feedback on this page is selected.',
+    other: 'All {count} on this page are selected.',
+  },
+  'feedback.selectAllMatching': {
+    one: 'Select the {count} matching the current filters',
+    other: 'Select all {count} matching the current filters',
+  },
+  'feedback.clearSelection': 'Clear Selection',
+  'feedback.selectPage': 'Select all on this page',
+  'feedback.selectRow': 'Select feedback',
+  'feedback.column.date': 'Date',
+  'feedback.column.sentiment': 'Sentiment',
+  'feedback.column.status': 'Status',
+  'feedback.column.assignee': 'Assignee',
+  'feedback.column.actions': 'Actions',
+  'feedback.sentimentScore': 'Score {score}',
+  'feedback.read': 'Read',
+  'feedback.markRead': 'Mark Read',
+  'feedback.markedRead': 'Marked as read',
+  'feedback.markedReadDescription': 'Feedback has been marked as read.',
+  'feedback.pagination.showing': {
+    one: 'Showing {from} to {to} of {count} result',
+    other: 'Showing {from} to {to} of {count} results',
+  },
+  'feedback.pagination.page': 'Page {page} of {pages}',
+  'feedback.pagination.previous': 'Previous',
+  'feedback.pagination.next': 'Next',
+  'feedback.exportDescription': {
+    one: 'Download the {count} feedback matching the current filters, not just this page.',
+    other: 'Download all {count} feedback matching the current filters, not just this page.',
+  },
+  'feedback.statusUpdated': 'Status updated',
+  'feedback.movedTo': 'Feedback moved to {status}.',
+  'feedback.assigned': 'Feedback assigned',
+  'feedback.assignedTo': 'Assigned to {name}.',
+  'feedback.unassigned': 'Feedback unassigned',
+  'feedback.unassignedDescription': 'Nobody owns this feedback now.',
+  'feedback.noStatusChanges': 'No status changes yet',
+  'feedback.issueLinked': 'Issue linked',
+  'feedback.linkedTo': 'Linked to "{issue}".',
+  'feedback.issueUnlinked': 'Issue unlinked',
+  'feedback.removedFrom': 'Removed from "{issue}".',
+  'feedback.noLinkedIssues': 'Not linked to any issue',
+  'feedback.unlinkIssue': 'Unlink {issue}',
+  'feedback.linkToIssue': 'Link to issue...',
+  'feedback.details.title': 'Feedback Details',
+  'feedback.details.description': 'Complete feedback information and analysis',
+  'feedback.details.sender': 'Sender Information',
+  'feedback.details.analysis': 'Analysis',
+  'feedback.details.notRated': 'Not rated',
+  'feedback.details.processed': 'Processed: {date}',
+  'feedback.details.processingPending': 'Processed: Pending',
+  'feedback.details.noSubject': 'No subject',
+  'feedback.details.tagsDescription': "Suggested tags come from each tag's keyword rules",
+  'feedback.details.noTags': 'No tags yet',
+  'feedback.details.editTags': 'Edit tags',
+  'feedback.details.linkedIssues': 'Linked Issues',
+  'feedback.details.summary': 'AI Summary',
+  'feedback.details.statusHistory': 'Status History',
+  'feedback.details.rawData': 'Raw Email Data',
+  'feedback.details.rawDataDescription': 'Complete email information from the webhook',
+
+  // Analytics
+  'analytics.title': 'Analytics',
+  'analytics.noData': 'No data available yet',
+  'analytics.subtitle': 'Advanced insights into your feedback data',
+  'analytics.report': 'Report',
+  'analytics.feedbackReceived': 'Feedback Received',
+  'analytics.averageRating': 'Average Rating',
+  'analytics.responseRate': 'Response Rate',
+  'analytics.avgResponseTime': 'Avg Response Time',
+  'analytics.noFeedbackInRange': 'No feedback received in {range}',
+  'analytics.nps': 'Net Promoter Score',
+  'analytics.npsBreakdown': {
+    one: '{promoters} promoters, {detractors} detractors of {count} response',
+    other: '{promoters} promoters, {detractors} detractors of {count} responses',
+  },
+  'analytics.csat': 'CSAT',
+  'analytics.csatBreakdown': '{satisfied} of {count} rated 4 or 5',
+  'analytics.ces': 'Customer Effort Score',
+  'analytics.cesBreakdown': {
+    one: 'Average of {count} response, higher is easier',
+    other: 'Average of {count} responses, higher is easier',
+  },
+  'analytics.surveyTrend.title': 'Survey Metrics Over Time',
+  'analytics.surveyTrend.description': 'Daily NPS, CSAT and effort score, {range}',
+  'analytics.weekday.title': 'Feedback by Day of Week',
+  'analytics.weekday.description': 'Feedback volume and average rating per weekday, {range}',
+  'analytics.sentiment.title': 'Sentiment Distribution',
+  'analytics.sentiment.description': 'Breakdown of positive, neutral, and negative feedback',
+  'analytics.ratings.title': 'Rating Distribution',
+  'analytics.ratings.description': 'How ratings are distributed, {range}',
+  'analytics.hourly.title': 'Feedback by Hour',
+  'analytics.hourly.description': 'When do you receive the most feedback? Hours in {timezone} time',
+  'analytics.timeline.title': 'Feedback Timeline',
+  'analytics.timeline.description': 'Daily feedback volume and average rating, {range}. Unusual spikes and drops are marked in red',
+  'analytics.series.feedback': 'Feedback',
+  'analytics.series.avgRating': 'Average rating',
+  'analytics.anomaly.volume': 'Volume spike',
+  'analytics.anomaly.volumeDescription': '{count} feedback received, against a usual {baseline} a day',
+  'analytics.anomaly.rating': 'Rating drop',
+  'analytics.anomaly.ratingDescription': 'Average rating fell to {value}, from a usual {baseline}',
+  'analytics.points': {
+    one: '{count} pt',
+    other: '{count} pts',
+  },
+  'analytics.ratings.stars': {
+    one: '{count} Star',
+    other: '{count} Stars',
+  },
+
+  // Search
+  'search.placeholder': 'Search feedback, issues, or senders...',
+  'search.filters': 'Filters',
+  'search.clearAll': 'Clear All',
+  'search.popular': 'Popular searches:',
+  'search.advancedFilters': 'Advanced Filters',
+  'search.stars': {
+    one: '{count} Star',
+    other: '{count} Stars',
+  },
+  'search.dateRange': 'Date Range',
+  'search.tag': 'Tag',
+  'search.sortBy': 'Sort By',
+  'search.sort.received_at': 'Date Received',
+  'search.sort.average_rating': 'Rating',
+  'search.sort.sender_name': 'Sender Name',
+  'search.sort.subject': 'Subject',
+  'search.order': 'Order',
+  'search.descending': 'Descending',
+  'search.ascending': 'Ascending',
+  'search.senderPlaceholder': 'Filter by sender name or email...',
+  'search.results': 'Search Results',
+  'search.resultCount': {
+    one: '{count} result',
+    other: '{count} results',
+  },
+  'search.noResults': 'No results found matching your criteria',
+  'search.exportDescription': 'Download every feedback matching this search, including any beyond the results listed here.',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Manage your account settings and preferences',
+  'settings.profile.title': 'Profile Settings',
+  'settings.profile.description': 'Update your personal information',
+  'settings.profile.uploadPhoto': 'Upload Photo',
+  'settings.profile.photoHint': 'JPG, PNG or GIF. Max 5MB.',
+  'settings.profile.username': 'Username',
+  'settings.profile.usernamePlaceholder': 'Enter username',
+  'settings.profile.email': 'Email',
+  'settings.profile.emailPlaceholder': 'Enter email',
+  'settings.profile.bio': 'Bio',
+  'settings.profile.bioPlaceholder': 'Tell us about yourself',
+  'settings.profile.save': 'Save Profile',
+  'settings.profile.saved': 'Profile updated',
+  'settings.profile.savedDescription': 'Your profile information has been saved.',
+  'settings.profile.savedEmailPending':
+    'Your profile has been saved. Follow the link sent to {email} to confirm your new email address.',
+  'settings.notifications.title': 'Notification Settings',
+  'settings.notifications.description': 'Configure how you receive notifications',
+  'settings.notifications.email': 'Email Notifications',
+  'settings.notifications.emailHint': 'Receive notifications via email',
+  'settings.notifications.push': 'Push Notifications',
+  'settings.notifications.pushHint': 'Receive browser push notifications',
+  'settings.notifications.weekly': 'Weekly Reports',
+  'settings.notifications.weeklyHint': 'Get weekly summary of your feedback',
+  'settings.notifications.instant': 'Instant Alerts',
+  'settings.notifications.instantHint': 'Get notified immediately for critical feedback',
+  'settings.notifications.save': 'Save Notifications',
+  'settings.notifications.saved': 'Notification settings updated',
+  'settings.notifications.savedDescription': 'Your notification preferences have been saved.',
+  'settings.preferences.title': 'Application Preferences',
+  'settings.preferences.description': 'Customize your application experience',
+  'settings.preferences.theme': 'Theme',
+  'settings.preferences.language': 'Language',
+  'settings.preferences.timezone': 'Timezone',
+  'settings.preferences.dateFormat': 'Date Format',
+  'settings.preferences.save': 'Save Preferences',
+  'settings.preferences.saved': 'Preferences updated',
+  'settings.preferences.savedDescription': 'Your application preferences have been saved.',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.theme.system': 'System',
+  'settings.theme.high-contrast': 'High contrast',
+  'settings.privacy.title': 'Privacy & Security',
+  'settings.privacy.description': 'Manage your privacy and security settings',
+  'settings.privacy.twoFactor': 'Two-Factor Authentication',
+  'settings.privacy.twoFactorHint': 'Add an extra layer of security to your account. Not available yet.',
+  'settings.privacy.dataRetention': 'Data Retention Period',
+  'settings.privacy.dataRetentionHint': 'How long to keep your feedback data',
+  'settings.privacy.shareAnalytics': 'Share Anonymous Analytics',
+  'settings.privacy.shareAnalyticsHint': 'Help us improve by sharing anonymous usage data',
+  'settings.privacy.save': 'Save Privacy',
+  'settings.privacy.saved': 'Privacy settings updated',
+  'settings.privacy.savedDescription': 'Your privacy settings have been saved.',
+  'settings.privacy.changePassword': 'Change Password',
+  'settings.privacy.updatePassword': 'Update Password',
+  'settings.retention.3': '3 months',
+  'settings.retention.6': '6 months',
+  'settings.retention.12': '12 months',
+  'settings.retention.24': '24 months',
+  'settings.retention.indefinite': 'Indefinite',
+  'settings.data.title': 'Data Management',
+  'settings.data.description': 'Export or delete your data',
+  'settings.data.export': 'Export Data',
+  'settings.data.exportHint': 'Download all your feedback as CSV, Excel or NDJSON',
+  'settings.data.exportDescription': 'Download all of your feedback, whatever its status or date.',
+  'settings.data.deleteAccount': 'Delete Account',
+  'settings.data.deleteHint': 'Permanently delete your account and all associated data',
+  'settings.data.delete': 'Delete',
+  'settings.data.deleteConfirm': 'Are you sure you want to delete your account? This action cannot be undone.',
+  'settings.data.deletionRequested': 'Account deletion requested',
+  'settings.data.deletionRequestedDescription': "We'll process your account deletion within 24 hours.",
+  'settings.sentiment.title': 'Sentiment',
+  'settings.sentiment.description':
+    'Feedback text is scored from -1 (negative) to 1 (positive). Feedback without text uses its rating, and feedback with neither is not rated. The thresholds apply to everyone in this workspace.',
+  'settings.sentiment.positiveFrom': 'Positive from',
+  'settings.sentiment.positiveStars': 'Ratings of {stars} stars and up',
+  'settings.sentiment.negativeUpTo': 'Negative up to',
+  'settings.sentiment.negativeStars': 'Ratings of {stars} stars and below',
+  'settings.sentiment.sample': 'Try a message',
+  'settings.sentiment.samplePlaceholder': 'The new dashboard is great, but exports are still slow',
+  'settings.sentiment.save': 'Save Thresholds',
+  'settings.sentiment.defaults': 'Defaults',
+  'settings.sentiment.ownersOnly': 'Only workspace owners can change the thresholds.',
+  'settings.sentiment.saved': 'Sentiment thresholds updated',
+  'settings.sentiment.savedDescription': 'Charts and badges now use the new thresholds.',
+  'settings.digest.title': 'Weekly Digest',
+  'settings.digest.description': 'Sent on Mondays while weekly reports are on, covering the week before in your timezone',
+  'settings.digest.preview': 'Preview',
+  'settings.digest.empty': 'No digests have been sent to you yet.',
+  'settings.digest.column.week': 'Week',
+  'settings.digest.column.sent': 'Sent',
+  'settings.digest.column.to': 'To',
+  'settings.digest.column.status': 'Status',
+  'settings.digest.status.sent': 'Sent',
+  'settings.digest.status.failed': 'Failed',
+  'settings.digest.view': 'View',
+  'settings.digest.previewTitle': 'Digest preview',
+  'settings.digest.previewDescription': "Last week's digest with the current numbers. Nothing is sent.",
+  'settings.digest.failedTo': 'Could not be delivered to {recipient}: {error}',
+  'settings.digest.sentTo': 'As sent to {recipient}',
+
+  // Bulk actions on selected feedback
+  'bulk.export': 'Export...',
+  'bulk.exportDescription': {
+    one: 'Download the {count} feedback item you selected.',
+    other: 'Download the {count} feedback items you selected.',
+  },
+  'bulk.markRead': 'Mark Read',
+  'bulk.markReadAction': 'Mark as read',
+  'bulk.markUnread': 'Mark Unread',
+  'bulk.markUnreadAction': 'Mark as unread',
+  'bulk.moreActions': 'More Actions',
+  'bulk.changeStatus': 'Change Status',
+  'bulk.moveTo': 'Move to {status}',
+  'bulk.assign': 'Assign',
+  'bulk.unassign': 'Unassign',
+  'bulk.assignTo': 'Assign to {name}',
+  'bulk.addTag': 'Add Tag',
+  'bulk.tagWith': 'Tag with {tag}',
+  'bulk.linkToIssue': 'Link to Issue',
+  'bulk.linkTo': 'Link to {issue}',
+  'bulk.delete': 'Delete',
+  'bulk.confirmDelete': {
+    one: 'Delete {count} feedback item?',
+    other: 'Delete {count} feedback items?',
+  },
+  'bulk.confirmUpdate': {
+    one: 'Update {count} feedback item?',
+    other: 'Update {count} feedback items?',
+  },
+  'bulk.confirmDescription': {
+    one: '"{action}" will be applied to {count} feedback item. You can undo this from the notification that follows.',
+    other: '"{action}" will be applied to {count} feedback items. You can undo this from the notification that follows.',
+  },
+  'bulk.applying': 'Applying...',
+  'bulk.confirm': 'Confirm',
+  'bulk.complete': 'Bulk action complete',
+  'bulk.updated': {
+    one: '{action}: {count} feedback item updated.',
+    other: '{action}: {count} feedback items updated.',
+  },
+  'bulk.updatedSkipping': {
+    one: '{action}: {count} feedback item updated, {skipped} skipped.',
+    other: '{action}: {count} feedback items updated, {skipped} skipped.',
+  },
+  'bulk.deleted': {
+    one: '{action}: {count} feedback item deleted.',
+    other: '{action}: {count} feedback items deleted.',
+  },
+  'bulk.deletedSkipping': {
+    one: '{action}: {count} feedback item deleted, {skipped} skipped.',
+    other: '{action}: {count} feedback items deleted, {skipped} skipped.',
+  },
+  'bulk.undo': 'Undo',
+  'bulk.undone': 'Undone',
+  'bulk.reverted': '{action} was reverted.',
+
+  // Export dialog
+  'export.feedbackTitle': 'Export Feedback',
+  'export.issuesTitle': 'Export Issues',
+  'export.loading': 'Loading rows...',
+  'export.loadingProgress': 'Loading {loaded} of {total} rows...',
+  'export.loadFailed': "Couldn't load the rows to export: {error}",
+  'export.rowsReady': {
+    one: '{count} row ready to export',
+    other: '{count} rows ready to export',
+  },
+  'export.columns': 'Columns',
+  'export.payloadFields': 'Original payload fields',
+  'export.selectAll': 'Select all',
+  'export.selectNone': 'Select none',
+  'export.download': 'Download',
+  'export.ready': 'Export ready',
+  'export.readyDescription': {
+    one: '{count} row exported to {format}.',
+    other: '{count} rows exported to {format}.',
+  },
+
+  // Tagging feedback
+  'tags.find': 'Find a tag...',
+  'tags.noneFound': 'No tags found. Create tags in Settings.',
+  'tags.suggested': 'Suggested',
+  'tags.all': 'All tags',
+  'tags.applied': 'Tag applied',
+  'tags.appliedDescription': {
+    one: '{tag} added to {count} feedback item.',
+    other: '{tag} added to {count} feedback items.',
+  },
+  'tags.removed': 'Tag removed',
+  'tags.removedDescription': {
+    one: '{tag} removed from {count} feedback item.',
+    other: '{tag} removed from {count} feedback items.',
+  },
+
+  // Issues
+  'issueStatus.open': 'Open',
+  'issueStatus.investigating': 'Investigating',
+  'issueStatus.fixed': 'Fixed',
+  'issueStatus.wont_fix': "Won't Fix",
+  'issuePriority.high': 'High',
+  'issuePriority.medium': 'Medium',
+  'issuePriority.low': 'Low',
+  'issues.title': 'Issues Tracking',
+  'issues.subtitle': 'Track and manage common issues from your feedback',
+  'issues.add': 'Add Issue',
+  'issues.create.title': 'Create New Issue',
+  'issues.create.description': 'Add a new issue to track from your feedback',
+  'issues.create.titleLabel': 'Issue Title',
+  'issues.create.titlePlaceholder': 'e.g., Login Problems, Slow Performance',
+  'issues.create.descriptionLabel': 'Description',
+  'issues.create.descriptionPlaceholder': 'Optional details about the issue',
+  'issues.create.submit': 'Create Issue',
+  'issues.created': 'Issue created',
+  'issues.createdDescription': 'New issue has been added to tracking.',
+  'issues.deleteConfirm': 'Are you sure you want to delete this issue?',
+  'issues.deleted': 'Issue deleted',
+  'issues.deletedDescription': 'Issue has been removed from tracking.',
+  'issues.updated': 'Issue updated',
+  'issues.updatedDescription': 'Your changes have been saved.',
+  'issues.stats.total': 'Total Issues',
+  'issues.stats.stillOpen': '{count} still open',
+  'issues.stats.highPriority': 'High Priority',
+  'issues.stats.needsAttention': 'Needs attention',
+  'issues.stats.thisWeek': 'This Week',
+  'issues.stats.newIssues': 'New issues',
+  'issues.stats.avgResolution': 'Avg Resolution',
+  'issues.stats.days': '{days}d',
+  'issues.stats.timeToResolve': 'Time to resolve',
+  'issues.filter.active': 'Active',
+  'issues.filter.priority': 'Filter by priority',
+  'issues.filter.allPriorities': 'All Priorities',
+  'issues.sort.placeholder': 'Sort by',
+  'issues.sort.priority': 'Sort by Priority',
+  'issues.sort.feedback': 'Sort by Linked Feedback',
+  'issues.sort.due': 'Sort by Due Date',
+  'issues.sort.status': 'Sort by Status',
+  'issues.sort.created': 'Sort by Newest',
+  'issues.noMatches': 'No issues match the current filters',
+  'issues.empty.title': 'No issues tracked yet',
+  'issues.empty.description': 'Start tracking common issues from your feedback to better understand user concerns.',
+  'issues.empty.add': 'Add First Issue',
+  'issues.createdToday': 'Created today',
+  'issues.createdDaysAgo': {
+    one: 'Created {count} day ago',
+    other: 'Created {count} days ago',
+  },
+  'issues.reportedBy': 'Reported by {name}',
+  'issues.relatedCount': {
+    one: '{count} related feedback',
+    other: '{count} related feedback',
+  },
+  'issues.priorityManual': 'Set manually',
+  'issues.priorityDerived': 'Based on linked feedback',
+  'issues.priorityBadge': '{priority} Priority',
+  'issues.impactActive': 'Impact: Active',
+  'issues.impactMonitoring': 'Impact: Monitoring',
+  'issues.due': 'Due {date}',
+  'issues.dueOverdue': 'Due {date} (overdue)',
+  'issues.edit': 'Edit',
+  'issues.viewRelated': 'View Related Feedback',
+  'issues.exportDescription': {
+    one: 'Download the {count} issue matching the current filters, in the order shown.',
+    other: 'Download the {count} issues matching the current filters, in the order shown.',
+  },
+  'issues.editDialog.title': 'Edit Issue',
+  'issues.editDialog.description': 'Update the issue details. Every change is kept in the history below.',
+  'issues.editDialog.descriptionPlaceholder': 'What is going wrong, and for whom?',
+  'issues.editDialog.automaticPriority': 'Automatic ({priority}, {count} linked)',
+  'issues.editDialog.save': 'Save Changes',
+  'issues.field.title': 'Title',
+  'issues.field.description': 'Description',
+  'issues.field.status': 'Status',
+  'issues.field.priority': 'Priority',
+  'issues.field.assignee': 'Assignee',
+  'issues.field.dueDate': 'Due date',
+  'issues.history.title': 'Change History',
+  'issues.history.empty': 'No changes yet',
+  'issues.history.updated': 'updated',
+  'issues.history.automatic': 'Automatic',
+  'issues.history.none': 'None',
+  'issues.history.formerMember': 'Former member',
+  'issues.related.title': 'Related Feedback',
+  'issues.related.description': 'Feedback linked to "{issue}"',
+  'issues.related.empty': 'No feedback linked yet. Search below to link some.',
+  'issues.related.emptyReadOnly': 'No feedback linked yet.',
+  'issues.related.unlink': 'Unlink',
+  'issues.related.link': 'Link',
+  'issues.related.searchPlaceholder': 'Search feedback to link...',
+  'issues.related.linked': 'Feedback linked',
+  'issues.related.linkedDescription': 'Feedback is now linked to "{issue}".',
+  'issues.related.unlinked': 'Feedback unlinked',
+  'issues.related.unlinkedDescription': 'Feedback was removed from "{issue}".',
+  'issues.proposals.title': 'Suggested Issues',
+  'issues.proposals.description': 'Groups of similar feedback that is not linked to any issue yet. New feedback that matches an open issue is linked to it automatically.',
+  'issues.proposals.feedbackCount': {
+    one: '{count} feedback item',
+    other: '{count} feedback items',
+  },
+  'issues.proposals.similarTo': 'Similar to "{issue}" ({match} match)',
+  'issues.proposals.titlePlaceholder': 'Issue title',
+  'issues.proposals.titleLabel': 'Title for the new issue',
+  'issues.proposals.mergeInto': 'Merge into...',
+  'issues.proposals.merge': 'Merge',
+  'issues.proposals.dismiss': 'Dismiss',
+  'issues.proposals.createdDescription': {
+    one: '"{issue}" was created with {count} feedback item.',
+    other: '"{issue}" was created with {count} feedback items.',
+  },
+  'issues.proposals.merged': 'Merged into issue',
+  'issues.proposals.mergedDescription': {
+    one: '{count} feedback item linked to "{issue}".',
+    other: '{count} feedback items linked to "{issue}".',
+  },
+  'issues.proposals.dismissed': 'Suggestion dismissed',
+  'issues.proposals.dismissedDescription': 'This feedback will not be suggested as an issue again.',
+  'issues.proposals.showFewer': 'Show fewer',
+  'issues.proposals.showMore': 'Show {count} more',
+
+  // Dashboard overview and its widgets
+  'overview.title': 'Dashboard Overview',
+  'overview.welcome': "Welcome back! Here's what's happening with your feedback.",
+  'overview.liveData': 'Live Data',
+  'overview.layout.default': 'Default layout',
+  'overview.layout.mine': 'My layouts',
+  'overview.layout.sharedByTeam': 'Shared by the team',
+  'overview.layout.sharedName': '{name} (shared)',
+  'overview.layout.ownedBy': '{name} · {owner}',
+  'overview.layout.sharedBy': 'Shared by {owner}',
+  'overview.layout.teammate': 'a teammate',
+  'overview.layout.customize': 'Customize',
+  'overview.layout.share': 'Share with team',
+  'overview.layout.stopSharing': 'Stop sharing',
+  'overview.layout.duplicate': 'Duplicate',
+  'overview.layout.delete': 'Delete layout',
+  'overview.layout.saveCopy': 'Save a copy',
+  'overview.layout.name': 'Layout name',
+  'overview.layout.newName': 'My dashboard',
+  'overview.layout.copyName': '{name} (copy)',
+  'overview.layout.addWidget': 'Add widget',
+  'overview.layout.widgets': 'Widgets',
+  'overview.layout.reset': 'Reset',
+  'overview.layout.save': 'Save Layout',
+  'overview.layout.saveAsNew': 'Save as New Layout',
+  'overview.layout.empty': 'This layout has no widgets yet',
+  'overview.layout.saved': 'Layout saved',
+  'overview.layout.updatedDescription': '"{name}" has been updated.',
+  'overview.layout.savedShared': '"{name}" is saved and shared with your team.',
+  'overview.layout.savedPrivate': '"{name}" is saved to your layouts.',
+  'overview.layout.copied': 'Layout copied',
+  'overview.layout.copiedDescription': '"{name}" is now one of your layouts.',
+  'overview.layout.shared': 'Layout shared',
+  'overview.layout.sharedDescription': 'Your team can now pick "{name}" on their overview.',
+  'overview.layout.unshared': 'Layout unshared',
+  'overview.layout.unsharedDescription': 'Only you can see "{name}" now.',
+  'overview.layout.deleted': 'Layout deleted',
+  'overview.layout.deletedDescription': '"{name}" has been deleted.',
+  'overview.widget.kpi': 'KPI card',
+  'overview.widget.trend': 'Feedback trend',
+  'overview.widget.sentiment': 'Sentiment',
+  'overview.widget.top-issues': 'Top issues',
+  'overview.widget.recent-feedback': 'Recent feedback',
+  'overview.widget.quick-stats': 'Quick stats',
+  'overview.widgetDescription.kpi': 'One metric against the comparison window',
+  'overview.widgetDescription.trend': 'Daily feedback volume over the date range',
+  'overview.widgetDescription.sentiment': 'Share of positive, neutral and negative feedback',
+  'overview.widgetDescription.top-issues': 'Open issues with the most linked feedback',
+  'overview.widgetDescription.recent-feedback': 'Latest feedback in the date range',
+  'overview.widgetDescription.quick-stats': 'Weekly and monthly volume, team size and response time',
+  'overview.kpi.feedback': 'Feedback received',
+  'overview.kpi.headline': 'Rating or survey score',
+  'overview.kpi.open-issues': 'Active issues',
+  'overview.kpi.response-rate': 'Response rate',
+  'overview.kpi.response-time': 'Avg response time',
+  'overview.edit.moveEarlier': 'Move earlier',
+  'overview.edit.moveLater': 'Move later',
+  'overview.edit.narrower': 'Narrower',
+  'overview.edit.wider': 'Wider',
+  'overview.edit.height': 'Height {height} of 3',
+  'overview.edit.remove': 'Remove widget',
+  'overview.activeIssues': 'Active Issues',
+  'overview.highIssues': '{count} High',
+  'overview.lowIssues': '{count} Low',
+  'overview.hoursShort': '{hours}h',
+  'overview.trend.title': 'Feedback Trend',
+  'overview.trend.description': 'Daily feedback volume, {range}',
+  'overview.sentiment.title': 'Sentiment Analysis',
+  'overview.sentiment.description': 'Distribution of feedback sentiment, {range}',
+  'overview.topIssues.title': 'Top Issues',
+  'overview.topIssues.description': 'Open issues with the most linked feedback',
+  'overview.topIssues.empty': 'No open issues',
+  'overview.topIssues.linkedFeedback': 'Linked feedback',
+  'overview.recent.title': 'Recent Feedback',
+  'overview.recent.description': 'Latest feedback from your customers',
+  'overview.recent.viewAll': 'View All',
+  'overview.quickStats.title': 'Quick Stats',
+  'overview.quickStats.description': 'Key metrics at a glance',
+  'overview.quickStats.thisWeek': 'This Week',
+  'overview.quickStats.thisMonth': 'This Month',
+  'overview.quickStats.teamSize': 'Team Size',
+  'overview.quickStats.avgResponse': 'Avg Response',
+  'overview.quickStats.feedback': {
+    one: '{count} feedback',
+    other: '{count} feedback',
+  },
+  'overview.quickStats.members': {
+    one: '{count} member',
+    other: '{count} members',
+  },
+  'overview.quickStats.hours': {
+    one: '{count} hour',
+    other: '{count} hours',
+  },
+  'overview.quickStats.generateReport': 'Generate Report',
+  'overview.quickStats.exportData': 'Export Data',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.empty': 'No notifications yet',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.feedbackReceived': 'New Feedback Received',
+  'notifications.feedbackToast': 'New Feedback',
+  'notifications.from': 'From {sender}',
+  'notifications.issueCreated': 'New Issue Created',
+  'notifications.issueToast': 'New Issue',
+  'notifications.anomalyToday': '{anomaly} today',
+  'notifications.anomalyYesterday': '{anomaly} yesterday',
+
+  // Team
+  'team.title': 'Team Management',
+  'team.subtitle': 'Manage the members of {workspace} and their permissions',
+  'team.invite': 'Invite Member',
+  'team.inviteDialog.title': 'Invite Team Member',
+  'team.inviteDialog.description': 'Send an invitation to join your feedback team',
+  'team.inviteDialog.email': 'Email Address',
+  'team.inviteDialog.role': 'Role',
+  'team.inviteDialog.submit': 'Send Invitation',
+  'team.stats.members': 'Team Members',
+  'team.stats.membersHint': 'Active members',
+  'team.stats.admins': 'Admins',
+  'team.stats.adminsHint': 'Owners and admins',
+  'team.stats.activeToday': 'Active Today',
+  'team.stats.activeTodayHint': 'Members online',
+  'team.stats.pendingInvites': 'Pending Invites',
+  'team.stats.pendingInvitesHint': 'Awaiting response',
+  'team.stats.pendingInvitesHidden': 'Visible to owners and admins',
+  'team.members.title': 'Team Members',
+  'team.members.description': 'Everyone with access to {workspace}',
+  'team.members.you': '(you)',
+  'team.members.manage': 'Manage {name}',
+  'team.members.changeRole': 'Change role',
+  'team.members.leave': 'Leave workspace',
+  'team.members.remove': 'Remove from workspace',
+  'team.activity.title': 'Recent Activity',
+  'team.activity.description': 'Latest team member actions',
+  'team.invitations.title': 'Pending Invitations',
+  'team.invitations.description': 'Invitations not accepted yet. Links work once and expire after a week.',
+  'team.invitations.expired': 'Expired',
+  'team.invitations.expiredOn': 'Expired {date}',
+  'team.invitations.sent': 'Sent, expires {date}',
+  'team.invitations.sending': 'Sending, expires {date}',
+  'team.invitations.copyLink': 'Copy the invitation link for {email}',
+  'team.invitations.resend': 'Resend the invitation to {email}',
+  'team.invitations.revoke': 'Revoke the invitation to {email}',
+  'team.permissions.title': 'Role Permissions',
+  'team.permissions.description': 'Understanding what each role can do',
+  'team.roleDescription.owner': 'Full access to all features and settings',
+  'team.roleDescription.admin': 'Manage team and most settings',
+  'team.roleDescription.member': 'View and manage feedback',
+  'team.roleDescription.viewer': 'Read-only access to feedback and analytics',
+  'team.permission.manage_workspace': 'Manage workspace',
+  'team.permission.manage_members': 'Manage team',
+  'team.permission.manage_feedback': 'Manage feedback',
+  'team.permission.view_analytics': 'View analytics',
+  'team.roleUpdated': 'Role updated',
+  'team.roleUpdatedDescription': '{name} is now {role}.',
+  'team.leaveConfirm': 'Leave {workspace}? You will lose access to its feedback and issues.',
+  'team.removeConfirm': 'Remove {name} from {workspace}?',
+  'team.left': 'Left workspace',
+  'team.leftDescription': 'You are no longer a member of {workspace}.',
+  'team.removed': 'Member removed',
+  'team.removedDescription': '{name} no longer has access to {workspace}.',
+  'team.invitationSent': 'Invitation sent',
+  'team.invitationSentDescription': 'Team invitation has been sent to {email}',
+  'team.invitationResent': 'Invitation resent',
+  'team.invitationResentDescription': 'A new link is on its way to {email}; the previous one no longer works.',
+  'team.revokeConfirm': 'Revoke the invitation for {email}? Its link will stop working.',
+  'team.invitationRevoked': 'Invitation revoked',
+  'team.invitationRevokedDescription': '{email} can no longer join with it.',
+  'team.linkCopied': 'Link copied',
+  'team.linkCopiedDescription': 'Anyone with it can accept as {email}.',
+  'team.copyFailed': 'Could not copy the link',
+} satisfies Record<string, Message>
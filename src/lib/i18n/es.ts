@@ -0,0 +1,829 @@
+import type { Catalog } from './index'
+
+export const es: Catalog = {
+  // Shared
+  'common.error': 'Error',
+  'common.export': 'Exportar',
+  'common.anonymous': 'Anónimo',
+  'common.unknown': 'Desconocido',
+  'common.notAvailable': 'N/D',
+  'common.allTags': 'Todas las etiquetas',
+  'common.allRatings': 'Todas las valoraciones',
+  'common.unassigned': 'Sin asignar',
+  'common.subject': 'Asunto',
+  'common.sender': 'Remitente',
+  'common.rating': 'Valoración',
+  'common.tags': 'Etiquetas',
+  'common.cancel': 'Cancelar',
+
+  'feedbackStatus.new': 'Nuevo',
+  'feedbackStatus.triaged': 'Clasificado',
+  'feedbackStatus.in_progress': 'En curso',
+  'feedbackStatus.waiting': 'Esperando al cliente',
+  'feedbackStatus.resolved': 'Resuelto',
+  'feedbackStatus.archived': 'Archivado',
+  'feedbackStatus.spam': 'Spam',
+
+  'sentiment.positive': 'Positivo',
+  'sentiment.neutral': 'Neutral',
+  'sentiment.negative': 'Negativo',
+  'sentiment.unrated': 'Sin valorar',
+
+  'headlineMetric.rating': 'Valoración media',
+  'headlineMetric.csat': 'CSAT',
+  'headlineMetric.nps': 'Net Promoter Score',
+  'headlineMetric.ces': 'Customer Effort Score',
+  'headlineMetric.short.rating': 'Valoración',
+  'headlineMetric.short.csat': 'CSAT',
+  'headlineMetric.short.nps': 'NPS',
+  'headlineMetric.short.ces': 'CES',
+
+  'dateRange.today': 'Hoy',
+  'dateRange.7d': 'Últimos 7 días',
+  'dateRange.30d': 'Últimos 30 días',
+  'dateRange.90d': 'Últimos 90 días',
+  'dateRange.365d': 'Últimos 12 meses',
+  'dateRange.all': 'Todo el período',
+  'dateRange.custom': 'Rango personalizado',
+  'dateRange.since': 'Desde el {date}',
+  'dateRange.until': 'Hasta el {date}',
+  'dateRange.timezoneNote': 'Los días siguen la hora de {timezone}, elegida en Configuración',
+  'comparison.noData': {
+    one: 'Sin datos del día anterior',
+    other: 'Sin datos de los {count} días anteriores',
+  },
+  'comparison.versus': {
+    one: '{change} frente al día anterior',
+    other: '{change} frente a los {count} días anteriores',
+  },
+
+  'validation.invalidEmail': 'Correo electrónico no válido',
+  'validation.passwordTooShort': 'La contraseña debe tener al menos 6 caracteres',
+  'validation.passwordsDontMatch': 'Las contraseñas no coinciden',
+  'validation.usernameTooShort': 'El nombre de usuario debe tener al menos 3 caracteres',
+  'validation.usernameTooLong': 'El nombre de usuario debe tener menos de 20 caracteres',
+  'validation.bioTooLong': 'La biografía debe tener como máximo 500 caracteres',
+  'validation.unknownTimezone': 'Zona horaria desconocida',
+  'validation.thresholdsOutOfRange': 'Los umbrales deben estar entre -1 y 1',
+  'validation.thresholdsOrder': 'El umbral negativo debe ser menor que el positivo',
+
+  // Sign in and sign up
+  'auth.welcomeBack': 'Bienvenido de nuevo',
+  'auth.createYourAccount': 'Crea tu cuenta',
+  'auth.email': 'Correo electrónico',
+  'auth.emailPlaceholder': 'Introduce tu correo electrónico',
+  'auth.password': 'Contraseña',
+  'auth.passwordPlaceholder': 'Introduce tu contraseña',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.forgotPassword': '¿Has olvidado tu contraseña?',
+  'auth.username': 'Nombre de usuario',
+  'auth.usernamePlaceholder': 'Elige un nombre de usuario',
+  'auth.usernameAvailable': 'Disponible',
+  'auth.usernameTaken': 'En uso',
+  'auth.newPasswordPlaceholder': 'Crea una contraseña',
+  'auth.confirmPassword': 'Confirmar contraseña',
+  'auth.confirmPasswordPlaceholder': 'Confirma tu contraseña',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.toSignUp': '¿No tienes cuenta? Regístrate',
+  'auth.toSignIn': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.resetPassword': 'Restablecer contraseña',
+  'auth.resetInstructions': 'Introduce tu correo electrónico y te enviaremos un enlace para restablecer la contraseña.',
+  'auth.sendResetLink': 'Enviar enlace',
+  'auth.backToSignIn': 'Volver a iniciar sesión',
+  'auth.signedUp': '¡Listo!',
+  'auth.signedUpDescription': 'Revisa tu correo para verificar tu cuenta.',
+  'auth.signedIn': '¡Hola de nuevo!',
+  'auth.signedInDescription': 'Has iniciado sesión.',
+  'auth.signedOut': 'Sesión cerrada',
+  'auth.signedOutDescription': 'Has cerrado sesión.',
+  'auth.resetSent': 'Correo de restablecimiento enviado',
+  'auth.resetSentDescription': 'Revisa tu correo para ver cómo restablecer la contraseña.',
+
+  // Enlaces de invitación
+  'invitation.loading': 'Comprobando tu invitación...',
+  'invitation.title': 'Únete a {workspace}',
+  'invitation.invitedBy': '{name} te ha invitado a trabajar con los comentarios de clientes en {workspace} como {role}.',
+  'invitation.teammate': 'Un compañero',
+  'invitation.sentTo': 'Enviada a {email}, válida hasta el {date}',
+  'invitation.signUpHint': 'Crea una cuenta o inicia sesión con esta dirección de correo para aceptarla.',
+  'invitation.accept': 'Aceptar invitación',
+  'invitation.wrongAccount': 'Has iniciado sesión como {email}. Cierra sesión y luego inicia sesión o crea una cuenta con la dirección a la que se envió la invitación.',
+  'invitation.joined': 'Te damos la bienvenida a {workspace}',
+  'invitation.joinedDescription': 'Te has unido como {role}.',
+  'invitation.invalid.title': 'Invitación no encontrada',
+  'invitation.invalid.description': 'Este enlace no es válido. Comprueba que lo has copiado completo o pide una nueva invitación.',
+  'invitation.expired.title': 'Esta invitación ha caducado',
+  'invitation.expired.description': 'Las invitaciones son válidas durante una semana. Pide a quien te invitó que la vuelva a enviar.',
+  'invitation.revoked.title': 'Esta invitación se ha retirado',
+  'invitation.revoked.description': 'Pide acceso a un propietario o administrador del espacio de trabajo si todavía lo necesitas.',
+  'invitation.accepted.title': 'Esta invitación ya se ha usado',
+  'invitation.accepted.description': 'Inicia sesión para abrir el espacio de trabajo.',
+  'invitation.home': 'Ir a FeedbackFlow',
+
+  // Dashboard shell
+  'nav.overview': 'Resumen',
+  'nav.feedback': 'Comentarios',
+  'nav.myQueue': 'Mi cola',
+  'nav.analytics': 'Analítica',
+  'nav.issues': 'Incidencias',
+  'nav.team': 'Equipo',
+  'nav.settings': 'Configuración',
+  'nav.badge.new': 'Sin leer',
+  'nav.badge.unassigned': 'Sin asignar',
+  'nav.badge.mine': 'Asignados a ti',
+  'nav.badge.urgent': 'Incidencias abiertas',
+  'nav.pro': 'Pro',
+  'nav.toggleDarkMode': 'Cambiar modo oscuro',
+  'nav.quickActions': 'Acciones rápidas',
+  'nav.searchFeedback': 'Buscar comentarios',
+  'nav.helpAndSupport': 'Ayuda y soporte',
+  'nav.workspace.switch': 'Cambiar de espacio de trabajo',
+  'nav.workspace.role.owner': 'Propietario',
+  'nav.workspace.role.admin': 'Administrador',
+  'nav.workspace.role.member': 'Miembro',
+  'nav.workspace.role.viewer': 'Lector',
+  'nav.workspace.create': 'Nuevo espacio de trabajo',
+  'nav.workspace.createDescription': 'Los comentarios, incidencias y etiquetas de un espacio nuevo se mantienen separados de tus otros espacios de trabajo.',
+  'nav.workspace.name': 'Nombre del espacio de trabajo',
+  'nav.workspace.namePlaceholder': 'p. ej. App móvil',
+  'nav.workspace.cancel': 'Cancelar',
+  'nav.workspace.submit': 'Crear espacio de trabajo',
+  'nav.workspace.created': 'Ahora estás en {name}',
+
+  'dashboard.searchPlaceholder': 'Buscar en todo...',
+  'dashboard.searchStarted': 'Búsqueda iniciada',
+  'dashboard.searchingFor': 'Buscando: {query}',
+  'dashboard.systemsOperational': 'Todos los sistemas operativos',
+  'dashboard.userFallback': 'Usuario',
+  'dashboard.verified': 'Verificado',
+  'dashboard.proPlan': 'Plan Pro',
+  'dashboard.profileSettings': 'Perfil',
+  'dashboard.preferences': 'Preferencias',
+  'dashboard.signOut': 'Cerrar sesión',
+  'dashboard.netIssueChange': {
+    one: '{change} netas en el último día',
+    other: '{change} netas en los últimos {count} días',
+  },
+
+  // Feedback table
+  'feedback.title': 'Gestión de comentarios',
+  'feedback.subtitle': 'Gestiona y analiza todos tus comentarios en un solo lugar',
+  'feedback.myQueueTitle': 'Mi cola',
+  'feedback.myQueueSubtitle': 'Comentarios asignados a ti',
+  'feedback.filtersTitle': 'Filtros y búsqueda',
+  'feedback.searchPlaceholder': 'Buscar comentarios...',
+  'feedback.filterByStatus': 'Filtrar por estado',
+  'feedback.openStatuses': 'Abiertos',
+  'feedback.allStatuses': 'Todos los estados',
+  'feedback.filterByOwner': 'Filtrar por responsable',
+  'feedback.allOwners': 'Todos los responsables',
+  'feedback.assignedToMe': 'Asignados a mí',
+  'feedback.filterByTag': 'Filtrar por etiqueta',
+  'feedback.filterByRating': 'Filtrar por valoración',
+  'feedback.rating4Plus': '4+ estrellas',
+  'feedback.rating3To4': '3-4 estrellas',
+  'feedback.rating2To3': '2-3 estrellas',
+  'feedback.rating1To2': '1-2 estrellas',
+  'feedback.clearFilters': 'Borrar filtros',
+  'feedback.tableTitle': 'Comentarios ({count})',
+  'feedback.tableDescription': 'Todos los comentarios recibidos con información detallada',
+  'feedback.selectedCount': '{count} seleccionados',
+  'feedback.allMatchingSelected': {
+    one: 'Seleccionado el {count} comentario que coincide',
+    other: 'Seleccionados los {count} comentarios que coinciden',
+  },
+  'feedback.pageSelected': {
+    one: 'Está seleccionado el {count} comentario de esta página.',
+    other: 'Están seleccionados los {count} comentarios de esta página.',
+  },
+  'feedback.selectAllMatching': {
+    one: 'Seleccionar el {count} que coincide con los filtros',
+    other: 'Seleccionar los {count} que coinciden con los filtros',
+  },
+  'feedback.clearSelection': 'Quitar selección',
+  'feedback.selectPage': 'Seleccionar todos en esta página',
+  'feedback.selectRow': 'Seleccionar comentario',
+  'feedback.column.date': 'Fecha',
+  'feedback.column.sentiment': 'Sentimiento',
+  'feedback.column.status': 'Estado',
+  'feedback.column.assignee': 'Responsable',
+  'feedback.column.actions': 'Acciones',
+  'feedback.sentimentScore': 'Puntuación {score}',
+  'feedback.read': 'Leído',
+  'feedback.markRead': 'Marcar leído',
+  'feedback.markedRead': 'Marcado como leído',
+  'feedback.markedReadDescription': 'El comentario se ha marcado como leído.',
+  'feedback.pagination.showing': {
+    one: 'Mostrando {from} a {to} de {count} resultado',
+    other: 'Mostrando {from} a {to} de {count} resultados',
+  },
+  'feedback.pagination.page': 'Página {page} de {pages}',
+  'feedback.pagination.previous': 'Anterior',
+  'feedback.pagination.next': 'Siguiente',
+  'feedback.exportDescription': {
+    one: 'Descarga el {count} comentario que coincide con los filtros, no solo esta página.',
+    other: 'Descarga los {count} comentarios que coinciden con los filtros, no solo esta página.',
+  },
+  'feedback.statusUpdated': 'Estado actualizado',
+  'feedback.movedTo': 'El comentario pasó a {status}.',
+  'feedback.assigned': 'Comentario asignado',
+  'feedback.assignedTo': 'Asignado a {name}.',
+  'feedback.unassigned': 'Comentario sin asignar',
+  'feedback.unassignedDescription': 'Ahora nadie es responsable de este comentario.',
+  'feedback.noStatusChanges': 'Aún no hay cambios de estado',
+  'feedback.issueLinked': 'Incidencia vinculada',
+  'feedback.linkedTo': 'Vinculado a «{issue}».',
+  'feedback.issueUnlinked': 'Incidencia desvinculada',
+  'feedback.removedFrom': 'Quitado de «{issue}».',
+  'feedback.noLinkedIssues': 'Sin incidencias vinculadas',
+  'feedback.unlinkIssue': 'Desvincular {issue}',
+  'feedback.linkToIssue': 'Vincular a incidencia...',
+  'feedback.details.title': 'Detalles del comentario',
+  'feedback.details.description': 'Información completa y análisis del comentario',
+  'feedback.details.sender': 'Datos del remitente',
+  'feedback.details.analysis': 'Análisis',
+  'feedback.details.notRated': 'Sin valorar',
+  'feedback.details.processed': 'Procesado: {date}',
+  'feedback.details.processingPending': 'Procesado: pendiente',
+  'feedback.details.noSubject': 'Sin asunto',
+  'feedback.details.tagsDescription': 'Las etiquetas sugeridas salen de las palabras clave de cada etiqueta',
+  'feedback.details.noTags': 'Aún sin etiquetas',
+  'feedback.details.editTags': 'Editar etiquetas',
+  'feedback.details.linkedIssues': 'Incidencias vinculadas',
+  'feedback.details.summary': 'Resumen de IA',
+  'feedback.details.statusHistory': 'Historial de estados',
+  'feedback.details.rawData': 'Datos del correo',
+  'feedback.details.rawDataDescription': 'Información completa del correo recibida por el webhook',
+
+  // Analytics
+  'analytics.title': 'Analítica',
+  'analytics.noData': 'Aún no hay datos',
+  'analytics.subtitle': 'Análisis avanzado de tus comentarios',
+  'analytics.report': 'Informe',
+  'analytics.feedbackReceived': 'Comentarios recibidos',
+  'analytics.averageRating': 'Valoración media',
+  'analytics.responseRate': 'Tasa de respuesta',
+  'analytics.avgResponseTime': 'Tiempo medio de respuesta',
+  'analytics.noFeedbackInRange': 'No se recibieron comentarios en {range}',
+  'analytics.nps': 'Net Promoter Score',
+  'analytics.npsBreakdown': {
+    one: '{promoters} promotores, {detractors} detractores de {count} respuesta',
+    other: '{promoters} promotores, {detractors} detractores de {count} respuestas',
+  },
+  'analytics.csat': 'CSAT',
+  'analytics.csatBreakdown': '{satisfied} de {count} valoraron con 4 o 5',
+  'analytics.ces': 'Customer Effort Score',
+  'analytics.cesBreakdown': {
+    one: 'Media de {count} respuesta; cuanto más alta, más fácil',
+    other: 'Media de {count} respuestas; cuanto más alta, más fácil',
+  },
+  'analytics.surveyTrend.title': 'Métricas de encuestas en el tiempo',
+  'analytics.surveyTrend.description': 'NPS, CSAT y esfuerzo diarios, {range}',
+  'analytics.weekday.title': 'Comentarios por día de la semana',
+  'analytics.weekday.description': 'Volumen y valoración media por día de la semana, {range}',
+  'analytics.sentiment.title': 'Distribución del sentimiento',
+  'analytics.sentiment.description': 'Reparto de comentarios positivos, neutrales y negativos',
+  'analytics.ratings.title': 'Distribución de valoraciones',
+  'analytics.ratings.description': 'Cómo se reparten las valoraciones, {range}',
+  'analytics.hourly.title': 'Comentarios por hora',
+  'analytics.hourly.description': '¿Cuándo recibes más comentarios? Horas de {timezone}',
+  'analytics.timeline.title': 'Evolución de los comentarios',
+  'analytics.timeline.description': 'Volumen diario y valoración media, {range}. Los picos y caídas inusuales se marcan en rojo',
+  'analytics.series.feedback': 'Comentarios',
+  'analytics.series.avgRating': 'Valoración media',
+  'analytics.anomaly.volume': 'Pico de volumen',
+  'analytics.anomaly.volumeDescription': '{count} comentarios recibidos, frente a los {baseline} habituales al día',
+  'analytics.anomaly.rating': 'Caída de valoración',
+  'analytics.anomaly.ratingDescription': 'La valoración media bajó a {value}, desde la habitual de {baseline}',
+  'analytics.points': {
+    one: '{count} punto',
+    other: '{count} puntos',
+  },
+  'analytics.ratings.stars': {
+    one: '{count} estrella',
+    other: '{count} estrellas',
+  },
+
+  // Search
+  'search.placeholder': 'Buscar comentarios, incidencias o remitentes...',
+  'search.filters': 'Filtros',
+  'search.clearAll': 'Borrar todo',
+  'search.popular': 'Búsquedas populares:',
+  'search.advancedFilters': 'Filtros avanzados',
+  'search.stars': {
+    one: '{count} estrella',
+    other: '{count} estrellas',
+  },
+  'search.dateRange': 'Periodo',
+  'search.tag': 'Etiqueta',
+  'search.sortBy': 'Ordenar por',
+  'search.sort.received_at': 'Fecha de recepción',
+  'search.sort.average_rating': 'Valoración',
+  'search.sort.sender_name': 'Nombre del remitente',
+  'search.sort.subject': 'Asunto',
+  'search.order': 'Orden',
+  'search.descending': 'Descendente',
+  'search.ascending': 'Ascendente',
+  'search.senderPlaceholder': 'Filtrar por nombre o correo del remitente...',
+  'search.results': 'Resultados de búsqueda',
+  'search.resultCount': {
+    one: '{count} resultado',
+    other: '{count} resultados',
+  },
+  'search.noResults': 'No hay resultados que coincidan con tu búsqueda',
+  'search.exportDescription': 'Descarga todos los comentarios que coinciden con esta búsqueda, incluidos los que no aparecen aquí.',
+
+  // Settings
+  'settings.title': 'Configuración',
+  'settings.subtitle': 'Gestiona la configuración y las preferencias de tu cuenta',
+  'settings.profile.title': 'Perfil',
+  'settings.profile.description': 'Actualiza tu información personal',
+  'settings.profile.uploadPhoto': 'Subir foto',
+  'settings.profile.photoHint': 'JPG, PNG o GIF. Máximo 5 MB.',
+  'settings.profile.username': 'Nombre de usuario',
+  'settings.profile.usernamePlaceholder': 'Introduce un nombre de usuario',
+  'settings.profile.email': 'Correo electrónico',
+  'settings.profile.emailPlaceholder': 'Introduce un correo electrónico',
+  'settings.profile.bio': 'Biografía',
+  'settings.profile.bioPlaceholder': 'Cuéntanos sobre ti',
+  'settings.profile.save': 'Guardar perfil',
+  'settings.profile.saved': 'Perfil actualizado',
+  'settings.profile.savedDescription': 'Se ha guardado la información de tu perfil.',
+  'settings.profile.savedEmailPending':
+    'Se ha guardado tu perfil. Sigue el enlace enviado a {email} para confirmar tu nuevo correo electrónico.',
+  'settings.notifications.title': 'Notificaciones',
+  'settings.notifications.description': 'Configura cómo recibes las notificaciones',
+  'settings.notifications.email': 'Notificaciones por correo',
+  'settings.notifications.emailHint': 'Recibe notificaciones por correo electrónico',
+  'settings.notifications.push': 'Notificaciones push',
+  'settings.notifications.pushHint': 'Recibe notificaciones push en el navegador',
+  'settings.notifications.weekly': 'Informes semanales',
+  'settings.notifications.weeklyHint': 'Recibe un resumen semanal de tus comentarios',
+  'settings.notifications.instant': 'Alertas inmediatas',
+  'settings.notifications.instantHint': 'Recibe un aviso inmediato de los comentarios críticos',
+  'settings.notifications.save': 'Guardar notificaciones',
+  'settings.notifications.saved': 'Notificaciones actualizadas',
+  'settings.notifications.savedDescription': 'Se han guardado tus preferencias de notificación.',
+  'settings.preferences.title': 'Preferencias de la aplicación',
+  'settings.preferences.description': 'Personaliza tu experiencia en la aplicación',
+  'settings.preferences.theme': 'Tema',
+  'settings.preferences.language': 'Idioma',
+  'settings.preferences.timezone': 'Zona horaria',
+  'settings.preferences.dateFormat': 'Formato de fecha',
+  'settings.preferences.save': 'Guardar preferencias',
+  'settings.preferences.saved': 'Preferencias actualizadas',
+  'settings.preferences.savedDescription': 'Se han guardado las preferencias de la aplicación.',
+  'settings.theme.light': 'Claro',
+  'settings.theme.dark': 'Oscuro',
+  'settings.theme.system': 'Sistema',
+  'settings.theme.high-contrast': 'Alto contraste',
+  'settings.privacy.title': 'Privacidad y seguridad',
+  'settings.privacy.description': 'Gestiona tu privacidad y seguridad',
+  'settings.privacy.twoFactor': 'Verificación en dos pasos',
+  'settings.privacy.twoFactorHint': 'Añade una capa extra de seguridad a tu cuenta. Aún no está disponible.',
+  'settings.privacy.dataRetention': 'Periodo de conservación de datos',
+  'settings.privacy.dataRetentionHint': 'Cuánto tiempo se guardan tus comentarios',
+  'settings.privacy.shareAnalytics': 'Compartir analítica anónima',
+  'settings.privacy.shareAnalyticsHint': 'Ayúdanos a mejorar compartiendo datos de uso anónimos',
+  'settings.privacy.save': 'Guardar privacidad',
+  'settings.privacy.saved': 'Privacidad actualizada',
+  'settings.privacy.savedDescription': 'Se ha guardado tu configuración de privacidad.',
+  'settings.privacy.changePassword': 'Cambiar contraseña',
+  'settings.privacy.updatePassword': 'Actualizar contraseña',
+  'settings.retention.3': '3 meses',
+  'settings.retention.6': '6 meses',
+  'settings.retention.12': '12 meses',
+  'settings.retention.24': '24 meses',
+  'settings.retention.indefinite': 'Indefinido',
+  'settings.data.title': 'Gestión de datos',
+  'settings.data.description': 'Exporta o elimina tus datos',
+  'settings.data.export': 'Exportar datos',
+  'settings.data.exportHint': 'Descarga todos tus comentarios en CSV, Excel o NDJSON',
+  'settings.data.exportDescription': 'Descarga todos tus comentarios, sea cual sea su estado o fecha.',
+  'settings.data.deleteAccount': 'Eliminar cuenta',
+  'settings.data.deleteHint': 'Elimina tu cuenta y todos sus datos de forma permanente',
+  'settings.data.delete': 'Eliminar',
+  'settings.data.deleteConfirm': '¿Seguro que quieres eliminar tu cuenta? Esta acción no se puede deshacer.',
+  'settings.data.deletionRequested': 'Eliminación de cuenta solicitada',
+  'settings.data.deletionRequestedDescription': 'Procesaremos la eliminación de tu cuenta en 24 horas.',
+  'settings.sentiment.title': 'Sentimiento',
+  'settings.sentiment.description':
+    'El texto de cada comentario recibe una puntuación de -1 (negativo) a 1 (positivo). Los comentarios sin texto usan su valoración, y los que no tienen ninguno de los dos quedan sin valorar. Los umbrales se aplican a todo el espacio de trabajo.',
+  'settings.sentiment.positiveFrom': 'Positivo desde',
+  'settings.sentiment.positiveStars': 'Valoraciones de {stars} estrellas o más',
+  'settings.sentiment.negativeUpTo': 'Negativo hasta',
+  'settings.sentiment.negativeStars': 'Valoraciones de {stars} estrellas o menos',
+  'settings.sentiment.sample': 'Prueba con un mensaje',
+  'settings.sentiment.samplePlaceholder': 'El nuevo panel es genial, pero las exportaciones siguen siendo lentas',
+  'settings.sentiment.save': 'Guardar umbrales',
+  'settings.sentiment.defaults': 'Valores predeterminados',
+  'settings.sentiment.ownersOnly': 'Solo los propietarios del espacio de trabajo pueden cambiar los umbrales.',
+  'settings.sentiment.saved': 'Umbrales de sentimiento actualizados',
+  'settings.sentiment.savedDescription': 'Los gráficos y las insignias ya usan los nuevos umbrales.',
+  'settings.digest.title': 'Resumen semanal',
+  'settings.digest.description': 'Se envía los lunes mientras los informes semanales estén activados, y cubre la semana anterior en tu zona horaria',
+  'settings.digest.preview': 'Vista previa',
+  'settings.digest.empty': 'Todavía no se te ha enviado ningún resumen.',
+  'settings.digest.column.week': 'Semana',
+  'settings.digest.column.sent': 'Enviado',
+  'settings.digest.column.to': 'Para',
+  'settings.digest.column.status': 'Estado',
+  'settings.digest.status.sent': 'Enviado',
+  'settings.digest.status.failed': 'Fallido',
+  'settings.digest.view': 'Ver',
+  'settings.digest.previewTitle': 'Vista previa del resumen',
+  'settings.digest.previewDescription': 'El resumen de la semana pasada con los datos actuales. No se envía nada.',
+  'settings.digest.failedTo': 'No se pudo entregar a {recipient}: {error}',
+  'settings.digest.sentTo': 'Tal como se envió a {recipient}',
+
+  // Acciones en bloque sobre los comentarios seleccionados
+  'bulk.export': 'Exportar...',
+  'bulk.exportDescription': {
+    one: 'Descarga el {count} comentario que seleccionaste.',
+    other: 'Descarga los {count} comentarios que seleccionaste.',
+  },
+  'bulk.markRead': 'Marcar leído',
+  'bulk.markReadAction': 'Marcar como leído',
+  'bulk.markUnread': 'Marcar no leído',
+  'bulk.markUnreadAction': 'Marcar como no leído',
+  'bulk.moreActions': 'Más acciones',
+  'bulk.changeStatus': 'Cambiar estado',
+  'bulk.moveTo': 'Mover a {status}',
+  'bulk.assign': 'Asignar',
+  'bulk.unassign': 'Quitar asignación',
+  'bulk.assignTo': 'Asignar a {name}',
+  'bulk.addTag': 'Añadir etiqueta',
+  'bulk.tagWith': 'Etiquetar con {tag}',
+  'bulk.linkToIssue': 'Vincular a incidencia',
+  'bulk.linkTo': 'Vincular a {issue}',
+  'bulk.delete': 'Eliminar',
+  'bulk.confirmDelete': {
+    one: '¿Eliminar {count} comentario?',
+    other: '¿Eliminar {count} comentarios?',
+  },
+  'bulk.confirmUpdate': {
+    one: '¿Actualizar {count} comentario?',
+    other: '¿Actualizar {count} comentarios?',
+  },
+  'bulk.confirmDescription': {
+    one: '"{action}" se aplicará a {count} comentario. Puedes deshacerlo desde la notificación que aparecerá.',
+    other: '"{action}" se aplicará a {count} comentarios. Puedes deshacerlo desde la notificación que aparecerá.',
+  },
+  'bulk.applying': 'Aplicando...',
+  'bulk.confirm': 'Confirmar',
+  'bulk.complete': 'Acción en bloque completada',
+  'bulk.updated': {
+    one: '{action}: {count} comentario actualizado.',
+    other: '{action}: {count} comentarios actualizados.',
+  },
+  'bulk.updatedSkipping': {
+    one: '{action}: {count} comentario actualizado, {skipped} omitidos.',
+    other: '{action}: {count} comentarios actualizados, {skipped} omitidos.',
+  },
+  'bulk.deleted': {
+    one: '{action}: {count} comentario eliminado.',
+    other: '{action}: {count} comentarios eliminados.',
+  },
+  'bulk.deletedSkipping': {
+    one: '{action}: {count} comentario eliminado, {skipped} omitidos.',
+    other: '{action}: {count} comentarios eliminados, {skipped} omitidos.',
+  },
+  'bulk.undo': 'Deshacer',
+  'bulk.undone': 'Deshecho',
+  'bulk.reverted': 'Se revirtió "{action}".',
+
+  // Diálogo de exportación
+  'export.feedbackTitle': 'Exportar comentarios',
+  'export.issuesTitle': 'Exportar incidencias',
+  'export.loading': 'Cargando filas...',
+  'export.loadingProgress': 'Cargando {loaded} de {total} filas...',
+  'export.loadFailed': 'No se pudieron cargar las filas para exportar: {error}',
+  'export.rowsReady': {
+    one: '{count} fila lista para exportar',
+    other: '{count} filas listas para exportar',
+  },
+  'export.columns': 'Columnas',
+  'export.payloadFields': 'Campos del contenido original',
+  'export.selectAll': 'Seleccionar todas',
+  'export.selectNone': 'No seleccionar ninguna',
+  'export.download': 'Descargar',
+  'export.ready': 'Exportación lista',
+  'export.readyDescription': {
+    one: '{count} fila exportada a {format}.',
+    other: '{count} filas exportadas a {format}.',
+  },
+
+  // Etiquetado de comentarios
+  'tags.find': 'Buscar una etiqueta...',
+  'tags.noneFound': 'No hay etiquetas. Créalas en Configuración.',
+  'tags.suggested': 'Sugeridas',
+  'tags.all': 'Todas las etiquetas',
+  'tags.applied': 'Etiqueta aplicada',
+  'tags.appliedDescription': {
+    one: '{tag} añadida a {count} comentario.',
+    other: '{tag} añadida a {count} comentarios.',
+  },
+  'tags.removed': 'Etiqueta quitada',
+  'tags.removedDescription': {
+    one: '{tag} quitada de {count} comentario.',
+    other: '{tag} quitada de {count} comentarios.',
+  },
+
+  // Incidencias
+  'issueStatus.open': 'Abierta',
+  'issueStatus.investigating': 'En investigación',
+  'issueStatus.fixed': 'Resuelta',
+  'issueStatus.wont_fix': 'No se resolverá',
+  'issuePriority.high': 'Alta',
+  'issuePriority.medium': 'Media',
+  'issuePriority.low': 'Baja',
+  'issues.title': 'Seguimiento de incidencias',
+  'issues.subtitle': 'Sigue y gestiona las incidencias habituales de tus comentarios',
+  'issues.add': 'Añadir incidencia',
+  'issues.create.title': 'Crear incidencia',
+  'issues.create.description': 'Añade una incidencia a partir de tus comentarios para hacerle seguimiento',
+  'issues.create.titleLabel': 'Título de la incidencia',
+  'issues.create.titlePlaceholder': 'p. ej., Problemas de acceso, Lentitud',
+  'issues.create.descriptionLabel': 'Descripción',
+  'issues.create.descriptionPlaceholder': 'Detalles opcionales sobre la incidencia',
+  'issues.create.submit': 'Crear incidencia',
+  'issues.created': 'Incidencia creada',
+  'issues.createdDescription': 'La incidencia se ha añadido al seguimiento.',
+  'issues.deleteConfirm': '¿Seguro que quieres eliminar esta incidencia?',
+  'issues.deleted': 'Incidencia eliminada',
+  'issues.deletedDescription': 'La incidencia se ha quitado del seguimiento.',
+  'issues.updated': 'Incidencia actualizada',
+  'issues.updatedDescription': 'Se han guardado los cambios.',
+  'issues.stats.total': 'Incidencias totales',
+  'issues.stats.stillOpen': '{count} siguen abiertas',
+  'issues.stats.highPriority': 'Prioridad alta',
+  'issues.stats.needsAttention': 'Requieren atención',
+  'issues.stats.thisWeek': 'Esta semana',
+  'issues.stats.newIssues': 'Incidencias nuevas',
+  'issues.stats.avgResolution': 'Resolución media',
+  'issues.stats.days': '{days} d',
+  'issues.stats.timeToResolve': 'Tiempo hasta resolverse',
+  'issues.filter.active': 'Activas',
+  'issues.filter.priority': 'Filtrar por prioridad',
+  'issues.filter.allPriorities': 'Todas las prioridades',
+  'issues.sort.placeholder': 'Ordenar por',
+  'issues.sort.priority': 'Ordenar por prioridad',
+  'issues.sort.feedback': 'Ordenar por comentarios vinculados',
+  'issues.sort.due': 'Ordenar por fecha límite',
+  'issues.sort.status': 'Ordenar por estado',
+  'issues.sort.created': 'Ordenar por más recientes',
+  'issues.noMatches': 'Ninguna incidencia coincide con los filtros',
+  'issues.empty.title': 'Aún no sigues ninguna incidencia',
+  'issues.empty.description': 'Sigue las incidencias habituales de tus comentarios para entender mejor qué preocupa a tus usuarios.',
+  'issues.empty.add': 'Añadir la primera incidencia',
+  'issues.createdToday': 'Creada hoy',
+  'issues.createdDaysAgo': {
+    one: 'Creada hace {count} día',
+    other: 'Creada hace {count} días',
+  },
+  'issues.reportedBy': 'Informada por {name}',
+  'issues.relatedCount': {
+    one: '{count} comentario relacionado',
+    other: '{count} comentarios relacionados',
+  },
+  'issues.priorityManual': 'Fijada a mano',
+  'issues.priorityDerived': 'Según los comentarios vinculados',
+  'issues.priorityBadge': 'Prioridad {priority}',
+  'issues.impactActive': 'Impacto: activo',
+  'issues.impactMonitoring': 'Impacto: en observación',
+  'issues.due': 'Vence el {date}',
+  'issues.dueOverdue': 'Vence el {date} (vencida)',
+  'issues.edit': 'Editar',
+  'issues.viewRelated': 'Ver comentarios relacionados',
+  'issues.exportDescription': {
+    one: 'Descarga la {count} incidencia que coincide con los filtros, en el orden mostrado.',
+    other: 'Descarga las {count} incidencias que coinciden con los filtros, en el orden mostrado.',
+  },
+  'issues.editDialog.title': 'Editar incidencia',
+  'issues.editDialog.description': 'Actualiza los datos de la incidencia. Cada cambio queda en el historial de abajo.',
+  'issues.editDialog.descriptionPlaceholder': '¿Qué falla y a quién le afecta?',
+  'issues.editDialog.automaticPriority': 'Automática ({priority}, {count} vinculados)',
+  'issues.editDialog.save': 'Guardar cambios',
+  'issues.field.title': 'Título',
+  'issues.field.description': 'Descripción',
+  'issues.field.status': 'Estado',
+  'issues.field.priority': 'Prioridad',
+  'issues.field.assignee': 'Responsable',
+  'issues.field.dueDate': 'Fecha límite',
+  'issues.history.title': 'Historial de cambios',
+  'issues.history.empty': 'Aún no hay cambios',
+  'issues.history.updated': 'actualizada',
+  'issues.history.automatic': 'Automática',
+  'issues.history.none': 'Ninguno',
+  'issues.history.formerMember': 'Antiguo miembro',
+  'issues.related.title': 'Comentarios relacionados',
+  'issues.related.description': 'Comentarios vinculados a «{issue}»',
+  'issues.related.empty': 'Aún no hay comentarios vinculados. Busca abajo para vincular alguno.',
+  'issues.related.emptyReadOnly': 'Aún no hay comentarios vinculados.',
+  'issues.related.unlink': 'Desvincular',
+  'issues.related.link': 'Vincular',
+  'issues.related.searchPlaceholder': 'Buscar comentarios para vincular...',
+  'issues.related.linked': 'Comentario vinculado',
+  'issues.related.linkedDescription': 'El comentario ahora está vinculado a «{issue}».',
+  'issues.related.unlinked': 'Comentario desvinculado',
+  'issues.related.unlinkedDescription': 'El comentario se ha quitado de «{issue}».',
+  'issues.proposals.title': 'Incidencias sugeridas',
+  'issues.proposals.description': 'Grupos de comentarios parecidos que aún no están vinculados a ninguna incidencia. Los comentarios nuevos que coinciden con una incidencia abierta se vinculan a ella automáticamente.',
+  'issues.proposals.feedbackCount': {
+    one: '{count} comentario',
+    other: '{count} comentarios',
+  },
+  'issues.proposals.similarTo': 'Parecida a «{issue}» (coincidencia del {match})',
+  'issues.proposals.titlePlaceholder': 'Título de la incidencia',
+  'issues.proposals.titleLabel': 'Título de la nueva incidencia',
+  'issues.proposals.mergeInto': 'Unir a...',
+  'issues.proposals.merge': 'Unir',
+  'issues.proposals.dismiss': 'Descartar',
+  'issues.proposals.createdDescription': {
+    one: 'Se ha creado «{issue}» con {count} comentario.',
+    other: 'Se ha creado «{issue}» con {count} comentarios.',
+  },
+  'issues.proposals.merged': 'Unido a la incidencia',
+  'issues.proposals.mergedDescription': {
+    one: '{count} comentario vinculado a «{issue}».',
+    other: '{count} comentarios vinculados a «{issue}».',
+  },
+  'issues.proposals.dismissed': 'Sugerencia descartada',
+  'issues.proposals.dismissedDescription': 'Estos comentarios no volverán a sugerirse como incidencia.',
+  'issues.proposals.showFewer': 'Mostrar menos',
+  'issues.proposals.showMore': 'Mostrar {count} más',
+
+  // Dashboard overview and its widgets
+  'overview.title': 'Resumen del panel',
+  'overview.welcome': '¡Hola de nuevo! Esto es lo que está pasando con tus comentarios.',
+  'overview.liveData': 'Datos en directo',
+  'overview.layout.default': 'Diseño predeterminado',
+  'overview.layout.mine': 'Mis diseños',
+  'overview.layout.sharedByTeam': 'Compartidos por el equipo',
+  'overview.layout.sharedName': '{name} (compartido)',
+  'overview.layout.ownedBy': '{name} · {owner}',
+  'overview.layout.sharedBy': 'Compartido por {owner}',
+  'overview.layout.teammate': 'un compañero',
+  'overview.layout.customize': 'Personalizar',
+  'overview.layout.share': 'Compartir con el equipo',
+  'overview.layout.stopSharing': 'Dejar de compartir',
+  'overview.layout.duplicate': 'Duplicar',
+  'overview.layout.delete': 'Eliminar diseño',
+  'overview.layout.saveCopy': 'Guardar una copia',
+  'overview.layout.name': 'Nombre del diseño',
+  'overview.layout.newName': 'Mi panel',
+  'overview.layout.copyName': '{name} (copia)',
+  'overview.layout.addWidget': 'Añadir widget',
+  'overview.layout.widgets': 'Widgets',
+  'overview.layout.reset': 'Restablecer',
+  'overview.layout.save': 'Guardar diseño',
+  'overview.layout.saveAsNew': 'Guardar como diseño nuevo',
+  'overview.layout.empty': 'Este diseño todavía no tiene widgets',
+  'overview.layout.saved': 'Diseño guardado',
+  'overview.layout.updatedDescription': 'Se ha actualizado «{name}».',
+  'overview.layout.savedShared': '«{name}» se ha guardado y compartido con tu equipo.',
+  'overview.layout.savedPrivate': '«{name}» se ha guardado en tus diseños.',
+  'overview.layout.copied': 'Diseño copiado',
+  'overview.layout.copiedDescription': '«{name}» ya es uno de tus diseños.',
+  'overview.layout.shared': 'Diseño compartido',
+  'overview.layout.sharedDescription': 'Tu equipo ya puede elegir «{name}» en su resumen.',
+  'overview.layout.unshared': 'Diseño sin compartir',
+  'overview.layout.unsharedDescription': 'Ahora solo tú puedes ver «{name}».',
+  'overview.layout.deleted': 'Diseño eliminado',
+  'overview.layout.deletedDescription': 'Se ha eliminado «{name}».',
+  'overview.widget.kpi': 'Tarjeta de KPI',
+  'overview.widget.trend': 'Tendencia de comentarios',
+  'overview.widget.sentiment': 'Sentimiento',
+  'overview.widget.top-issues': 'Incidencias principales',
+  'overview.widget.recent-feedback': 'Comentarios recientes',
+  'overview.widget.quick-stats': 'Datos rápidos',
+  'overview.widgetDescription.kpi': 'Una métrica frente a la ventana de comparación',
+  'overview.widgetDescription.trend': 'Volumen diario de comentarios en el rango de fechas',
+  'overview.widgetDescription.sentiment': 'Proporción de comentarios positivos, neutrales y negativos',
+  'overview.widgetDescription.top-issues': 'Incidencias abiertas con más comentarios vinculados',
+  'overview.widgetDescription.recent-feedback': 'Últimos comentarios del rango de fechas',
+  'overview.widgetDescription.quick-stats': 'Volumen semanal y mensual, tamaño del equipo y tiempo de respuesta',
+  'overview.kpi.feedback': 'Comentarios recibidos',
+  'overview.kpi.headline': 'Valoración o puntuación de encuesta',
+  'overview.kpi.open-issues': 'Incidencias activas',
+  'overview.kpi.response-rate': 'Tasa de respuesta',
+  'overview.kpi.response-time': 'Tiempo medio de respuesta',
+  'overview.edit.moveEarlier': 'Mover antes',
+  'overview.edit.moveLater': 'Mover después',
+  'overview.edit.narrower': 'Más estrecho',
+  'overview.edit.wider': 'Más ancho',
+  'overview.edit.height': 'Altura {height} de 3',
+  'overview.edit.remove': 'Quitar widget',
+  'overview.activeIssues': 'Incidencias activas',
+  'overview.highIssues': '{count} altas',
+  'overview.lowIssues': '{count} bajas',
+  'overview.hoursShort': '{hours} h',
+  'overview.trend.title': 'Tendencia de comentarios',
+  'overview.trend.description': 'Volumen diario de comentarios, {range}',
+  'overview.sentiment.title': 'Análisis de sentimiento',
+  'overview.sentiment.description': 'Distribución del sentimiento de los comentarios, {range}',
+  'overview.topIssues.title': 'Incidencias principales',
+  'overview.topIssues.description': 'Incidencias abiertas con más comentarios vinculados',
+  'overview.topIssues.empty': 'No hay incidencias abiertas',
+  'overview.topIssues.linkedFeedback': 'Comentarios vinculados',
+  'overview.recent.title': 'Comentarios recientes',
+  'overview.recent.description': 'Los últimos comentarios de tus clientes',
+  'overview.recent.viewAll': 'Ver todos',
+  'overview.quickStats.title': 'Datos rápidos',
+  'overview.quickStats.description': 'Las métricas clave de un vistazo',
+  'overview.quickStats.thisWeek': 'Esta semana',
+  'overview.quickStats.thisMonth': 'Este mes',
+  'overview.quickStats.teamSize': 'Tamaño del equipo',
+  'overview.quickStats.avgResponse': 'Respuesta media',
+  'overview.quickStats.feedback': {
+    one: '{count} comentario',
+    other: '{count} comentarios',
+  },
+  'overview.quickStats.members': {
+    one: '{count} miembro',
+    other: '{count} miembros',
+  },
+  'overview.quickStats.hours': {
+    one: '{count} hora',
+    other: '{count} horas',
+  },
+  'overview.quickStats.generateReport': 'Generar informe',
+  'overview.quickStats.exportData': 'Exportar datos',
+
+  // Notifications
+  'notifications.title': 'Notificaciones',
+  'notifications.empty': 'Todavía no hay notificaciones',
+  'notifications.markAllRead': 'Marcar todas como leídas',
+  'notifications.feedbackReceived': 'Nuevo comentario recibido',
+  'notifications.feedbackToast': 'Nuevo comentario',
+  'notifications.from': 'De {sender}',
+  'notifications.issueCreated': 'Nueva incidencia creada',
+  'notifications.issueToast': 'Nueva incidencia',
+  'notifications.anomalyToday': '{anomaly} hoy',
+  'notifications.anomalyYesterday': '{anomaly} ayer',
+
+  // Team
+  'team.title': 'Gestión del equipo',
+  'team.subtitle': 'Gestiona los miembros de {workspace} y sus permisos',
+  'team.invite': 'Invitar a un miembro',
+  'team.inviteDialog.title': 'Invitar a un miembro del equipo',
+  'team.inviteDialog.description': 'Envía una invitación para unirse a tu equipo de comentarios',
+  'team.inviteDialog.email': 'Correo electrónico',
+  'team.inviteDialog.role': 'Rol',
+  'team.inviteDialog.submit': 'Enviar invitación',
+  'team.stats.members': 'Miembros del equipo',
+  'team.stats.membersHint': 'Miembros activos',
+  'team.stats.admins': 'Administradores',
+  'team.stats.adminsHint': 'Propietarios y administradores',
+  'team.stats.activeToday': 'Activos hoy',
+  'team.stats.activeTodayHint': 'Miembros conectados',
+  'team.stats.pendingInvites': 'Invitaciones pendientes',
+  'team.stats.pendingInvitesHint': 'Esperando respuesta',
+  'team.stats.pendingInvitesHidden': 'Visible para propietarios y administradores',
+  'team.members.title': 'Miembros del equipo',
+  'team.members.description': 'Todas las personas con acceso a {workspace}',
+  'team.members.you': '(tú)',
+  'team.members.manage': 'Gestionar a {name}',
+  'team.members.changeRole': 'Cambiar rol',
+  'team.members.leave': 'Salir del espacio de trabajo',
+  'team.members.remove': 'Quitar del espacio de trabajo',
+  'team.activity.title': 'Actividad reciente',
+  'team.activity.description': 'Las últimas acciones de los miembros del equipo',
+  'team.invitations.title': 'Invitaciones pendientes',
+  'team.invitations.description': 'Invitaciones aún sin aceptar. Los enlaces funcionan una vez y caducan al cabo de una semana.',
+  'team.invitations.expired': 'Caducada',
+  'team.invitations.expiredOn': 'Caducó el {date}',
+  'team.invitations.sent': 'Enviada, caduca el {date}',
+  'team.invitations.sending': 'Enviando, caduca el {date}',
+  'team.invitations.copyLink': 'Copiar el enlace de invitación de {email}',
+  'team.invitations.resend': 'Reenviar la invitación a {email}',
+  'team.invitations.revoke': 'Retirar la invitación a {email}',
+  'team.permissions.title': 'Permisos por rol',
+  'team.permissions.description': 'Qué puede hacer cada rol',
+  'team.roleDescription.owner': 'Acceso completo a todas las funciones y la configuración',
+  'team.roleDescription.admin': 'Gestiona el equipo y casi toda la configuración',
+  'team.roleDescription.member': 'Ve y gestiona los comentarios',
+  'team.roleDescription.viewer': 'Acceso de solo lectura a los comentarios y las analíticas',
+  'team.permission.manage_workspace': 'Gestionar el espacio de trabajo',
+  'team.permission.manage_members': 'Gestionar el equipo',
+  'team.permission.manage_feedback': 'Gestionar los comentarios',
+  'team.permission.view_analytics': 'Ver las analíticas',
+  'team.roleUpdated': 'Rol actualizado',
+  'team.roleUpdatedDescription': 'Ahora {name} es {role}.',
+  'team.leaveConfirm': '¿Salir de {workspace}? Perderás el acceso a sus comentarios e incidencias.',
+  'team.removeConfirm': '¿Quitar a {name} de {workspace}?',
+  'team.left': 'Has salido del espacio de trabajo',
+  'team.leftDescription': 'Ya no eres miembro de {workspace}.',
+  'team.removed': 'Miembro quitado',
+  'team.removedDescription': '{name} ya no tiene acceso a {workspace}.',
+  'team.invitationSent': 'Invitación enviada',
+  'team.invitationSentDescription': 'Se ha enviado la invitación al equipo a {email}',
+  'team.invitationResent': 'Invitación reenviada',
+  'team.invitationResentDescription': 'Hay un enlace nuevo de camino a {email}; el anterior ya no funciona.',
+  'team.revokeConfirm': '¿Retirar la invitación de {email}? Su enlace dejará de funcionar.',
+  'team.invitationRevoked': 'Invitación retirada',
+  'team.invitationRevokedDescription': '{email} ya no puede unirse con ella.',
+  'team.linkCopied': 'Enlace copiado',
+  'team.linkCopiedDescription': 'Cualquiera que lo tenga puede aceptarla como {email}.',
+  'team.copyFailed': 'No se pudo copiar el enlace',
+}
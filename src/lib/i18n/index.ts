@@ -0,0 +1,115 @@
+import { getIntlLocale } from '@/lib/format'
+import type { Language } from '@/lib/user-settings'
+import { en } from './en'
+import { es } from './es'
+
+/**
+ * Interface text in the user's language. English is the source catalog: every
+ * key exists there, and other catalogs translate some or all of them. Keys a
+ * catalog lacks fall back to English, so a partial catalog never shows a raw
+ * key. Run `npm run i18n:check` to list what each catalog is missing.
+ *
+ * Messages interpolate `{name}` placeholders; numbers are written with the
+ * language's digits and separators. Plural messages pick a form for `{count}`
+ * with Intl.PluralRules, so languages with more forms than English work too.
+ */
+
+export type PluralCategory = Intl.LDMLPluralRule
+
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string }
+
+export type Message = string | PluralMessage
+
+export type MessageKey = keyof typeof en
+
+export type Catalog = Partial<Record<MessageKey, Message>>
+
+export type TranslationValues = Record<string, string | number>
+
+export type Translate = (key: MessageKey, values?: TranslationValues) => string
+
+// Only languages with a catalog are offered in Settings
+export const CATALOGS: Record<Language, Catalog> = { en, es }
+
+const PLACEHOLDER = /\{(\w+)\}/g
+
+const interpolate = (text: string, values: TranslationValues, numberFormat: Intl.NumberFormat) =>
+  text.replace(PLACEHOLDER, (match, name: string) => {
+    const value = values[name]
+    if (value === undefined) return match
+    return typeof value === 'number' ? numberFormat.format(value) : value
+  })
+
+export const createTranslator = (language: Language): Translate => {
+  const locale = getIntlLocale(language)
+  const catalog = CATALOGS[language]
+  const pluralRules = new Intl.PluralRules(locale)
+  const numberFormat = new Intl.NumberFormat(locale)
+
+  return (key, values = {}) => {
+    const message: Message | undefined = catalog[key] ?? en[key]
+    if (message === undefined) return key
+    if (typeof message === 'string') return interpolate(message, values, numberFormat)
+
+    const count = Number(values.count ?? 0)
+    const text = message[pluralRules.select(count)] ?? message.other
+    return interpolate(text, values, numberFormat)
+  }
+}
+
+// The language PreferencesProvider chose, for the few messages shown from
+// above it: AuthProvider's sign-in toasts wrap the whole app
+let currentLanguage: Language = 'en'
+
+export const setCurrentLanguage = (language: Language) => {
+  currentLanguage = language
+}
+
+export const translate: Translate = (key, values) => createTranslator(currentLanguage)(key, values)
+
+export interface CatalogProblem {
+  language: Language
+  key: string
+  problem: string
+}
+
+const placeholdersOf = (message: Message) => {
+  const texts = typeof message === 'string' ? [message] : Object.values(message)
+  return [...new Set(texts.flatMap(text => [...text.matchAll(PLACEHOLDER)].map(match => match[1])))].sort().join(', ')
+}
+
+/**
+ * Compares every catalog with English: keys it lacks, keys English no longer
+ * has, plural messages translated as plain text (or the reverse), and
+ * placeholders that differ from the English message.
+ */
+export const findCatalogProblems = (): CatalogProblem[] => {
+  const problems: CatalogProblem[] = []
+  const sourceKeys = Object.keys(en) as MessageKey[]
+
+  for (const [language, catalog] of Object.entries(CATALOGS) as [Language, Catalog][]) {
+    if (catalog === en) continue
+
+    for (const key of sourceKeys) {
+      const source: Message = en[key]
+      const message = catalog[key]
+      if (message === undefined) {
+        problems.push({ language, key, problem: 'missing' })
+      } else if (typeof message !== typeof source) {
+        problems.push({ language, key, problem: typeof source === 'string' ? 'should not be plural' : 'should be plural' })
+      } else if (placeholdersOf(message) !== placeholdersOf(source)) {
+        problems.push({
+          language,
+          key,
+          problem: `placeholders {${placeholdersOf(message)}} differ from English {${placeholdersOf(source)}}`,
+        })
+      }
+    }
+
+    for (const key of Object.keys(catalog)) {
+      if (!(key in en)) problems.push({ language, key, problem: 'not in the English catalog' })
+    }
+  }
+
+  return problems
+}
@@ -0,0 +1,75 @@
+import type { Backend } from '@/lib/backend/types'
+import type { SendDigestEmail } from '@/lib/digest-job'
+import { createFormatter } from '@/lib/format'
+import { getInvitationStatus, getInvitationSubject, renderInvitationHtml } from '@/lib/invitations'
+
+// Like the digest job, this takes its backend as an argument so the
+// invitation-emails edge function can run it with the service role.
+
+export interface InvitationJobOptions {
+  backend: Backend
+  /** The mailer the digest uses */
+  send: SendDigestEmail
+  /** Where links in the email point, without a trailing slash */
+  appUrl: string
+  now?: Date
+}
+
+export interface InvitationJobResult {
+  invitationId: string
+  recipient: string
+  status: 'sent' | 'failed'
+  reason?: string
+}
+
+/**
+ * Mails every open invitation whose current token has not gone out yet: new
+ * ones and those resent since. Sent ones are marked, so the job can run as
+ * often as convenient; failed ones are tried again on the next run.
+ */
+export const sendInvitationEmails = async ({ backend, send, appUrl, now = new Date() }: InvitationJobOptions): Promise<InvitationJobResult[]> => {
+  const { rows: unsent } = await backend.tables.select('workspace_invitations', {
+    filters: [{ op: 'isNull', column: 'sent_at' }],
+    order: [{ column: 'created_at', ascending: true }],
+  })
+  const invitations = unsent.filter(invitation => getInvitationStatus(invitation, now) === 'pending')
+  if (!invitations.length) return []
+
+  const [{ rows: workspaces }, { rows: inviters }] = await Promise.all([
+    backend.tables.select('workspaces', {
+      filters: [{ op: 'in', column: 'id', value: invitations.map(invitation => invitation.workspace_id) }],
+    }),
+    backend.tables.select('users', {
+      filters: [{ op: 'in', column: 'id', value: invitations.flatMap(invitation => invitation.invited_by ?? []) }],
+    }),
+  ])
+  // Recipients may not have an account yet, so the expiry is written in UTC
+  const format = createFormatter({ timezone: 'UTC', dateFormat: 'YYYY-MM-DD', language: 'en' })
+  const results: InvitationJobResult[] = []
+
+  for (const invitation of invitations) {
+    const email = {
+      workspaceName: workspaces.find(workspace => workspace.id === invitation.workspace_id)?.name ?? 'a workspace',
+      invitedByName: inviters.find(user => user.id === invitation.invited_by)?.username ?? null,
+      role: invitation.role,
+      token: invitation.token,
+      expiresAt: invitation.expires_at,
+    }
+    const result = { invitationId: invitation.id, recipient: invitation.email }
+    try {
+      await send({ to: invitation.email, subject: getInvitationSubject(email), html: renderInvitationHtml(email, appUrl, format) })
+    } catch (error) {
+      results.push({ ...result, status: 'failed', reason: error instanceof Error ? error.message : String(error) })
+      continue
+    }
+
+    // Only if the token is still the one mailed; a resend meanwhile goes out next run
+    await backend.tables.update('workspace_invitations', { sent_at: now.toISOString() }, [
+      { op: 'eq', column: 'id', value: invitation.id },
+      { op: 'eq', column: 'token', value: invitation.token },
+    ])
+    results.push({ ...result, status: 'sent' })
+  }
+
+  return results
+}
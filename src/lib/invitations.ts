@@ -0,0 +1,87 @@
+import { escapeHtml } from '@/lib/digest'
+import type { Formatter } from '@/lib/format'
+import type { WorkspaceInvitation, WorkspaceRole } from '@/lib/repository/types'
+import { WORKSPACE_ROLE_META } from '@/lib/workspace-roles'
+
+/**
+ * Invitations to join a workspace. Each carries a one-time token that is
+ * mailed as a link to the acceptance page; resending replaces the token and
+ * restarts the week it is valid for. The database functions in the workspace
+ * invitations migration apply the same rules; keep the two in step.
+ */
+
+export const INVITATION_TTL_DAYS = 7
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+export const getInvitationStatus = (
+  invitation: Pick<WorkspaceInvitation, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now = new Date()
+): InvitationStatus => {
+  if (invitation.accepted_at) return 'accepted'
+  if (invitation.revoked_at) return 'revoked'
+  if (new Date(invitation.expires_at).getTime() <= now.getTime()) return 'expired'
+  return 'pending'
+}
+
+export const getInvitationExpiry = (from = new Date()) =>
+  new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+/** A hard to guess one-time token, like new_invitation_token() */
+export const createInvitationToken = () =>
+  crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '')
+
+/** appUrl is where the app is served, without a trailing slash */
+export const getInvitationUrl = (appUrl: string, token: string) => `${appUrl}/invite/${token}`
+
+export interface InvitationEmailData {
+  workspaceName: string
+  invitedByName: string | null
+  role: WorkspaceRole
+  token: string
+  expiresAt: string
+}
+
+export const getInvitationSubject = (invitation: InvitationEmailData) =>
+  `${invitation.invitedByName ?? 'A teammate'} invited you to ${invitation.workspaceName} on FeedbackFlow`
+
+const COLORS = { text: '#111827', muted: '#6b7280', accent: '#4f46e5' }
+
+/** The invitation as a self-contained HTML email, with its expiry written by `format` */
+export const renderInvitationHtml = (invitation: InvitationEmailData, appUrl: string, format: Formatter) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(getInvitationSubject(invitation))}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Helvetica,Arial,sans-serif;color:${COLORS.text}">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px">
+    <tr>
+      <td style="padding:32px">
+        <div style="font-size:13px;color:${COLORS.muted}">FeedbackFlow</div>
+        <h1 style="font-size:22px;margin:4px 0 16px">Join ${escapeHtml(invitation.workspaceName)}</h1>
+        <p style="font-size:14px;line-height:1.5">
+          ${escapeHtml(invitation.invitedByName ?? 'A teammate')} invited you to work on customer feedback in
+          <strong>${escapeHtml(invitation.workspaceName)}</strong> as ${WORKSPACE_ROLE_META[invitation.role].label.toLowerCase()}:
+          ${WORKSPACE_ROLE_META[invitation.role].description.toLowerCase()}.
+        </p>
+
+        <table role="presentation" cellpadding="0" cellspacing="0" style="margin-top:24px">
+          <tr>
+            <td style="background:${COLORS.accent};border-radius:6px">
+              <a href="${getInvitationUrl(appUrl, invitation.token)}" style="display:inline-block;padding:10px 16px;color:#ffffff;text-decoration:none;font-size:14px">Accept the invitation</a>
+            </td>
+          </tr>
+        </table>
+
+        <p style="font-size:12px;color:${COLORS.muted};margin-top:32px">
+          The link works once and expires ${format.dateTime(invitation.expiresAt)}. Sign in or create an account with
+          this email address to accept it. If you were not expecting it, you can ignore this email.
+        </p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`
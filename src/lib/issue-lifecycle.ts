@@ -0,0 +1,47 @@
+import type { Issue, IssuePriority, IssueStatus } from '@/lib/repository/types'
+
+export const ISSUE_STATUSES: IssueStatus[] = ['open', 'investigating', 'fixed', 'wont_fix']
+
+export const ISSUE_STATUS_META: Record<IssueStatus, { label: string; color: string }> = {
+  open: { label: 'Open', color: 'bg-blue-100 text-blue-800' },
+  investigating: { label: 'Investigating', color: 'bg-yellow-100 text-yellow-800' },
+  fixed: { label: 'Fixed', color: 'bg-green-100 text-green-800' },
+  wont_fix: { label: "Won't Fix", color: 'bg-gray-100 text-gray-800' },
+}
+
+/** Statuses that close an issue; they set resolved_at */
+export const CLOSED_ISSUE_STATUSES: IssueStatus[] = ['fixed', 'wont_fix']
+
+export const isIssueOpen = (issue: Pick<Issue, 'status'>) => !CLOSED_ISSUE_STATUSES.includes(issue.status)
+
+export const ISSUE_PRIORITIES: IssuePriority[] = ['high', 'medium', 'low']
+
+export const PRIORITY_META: Record<IssuePriority, { label: string; color: string; rank: number }> = {
+  high: { label: 'High', color: 'bg-red-100 text-red-800', rank: 3 },
+  medium: { label: 'Medium', color: 'bg-yellow-100 text-yellow-800', rank: 2 },
+  low: { label: 'Low', color: 'bg-green-100 text-green-800', rank: 1 },
+}
+
+/** Priority implied by how much feedback is linked to the issue */
+export const getDerivedPriority = (linkedCount: number): IssuePriority => {
+  if (linkedCount >= 10) return 'high'
+  if (linkedCount >= 5) return 'medium'
+  return 'low'
+}
+
+/** The manual override when set, otherwise the derived priority */
+export const getIssuePriority = (issue: Pick<Issue, 'priority_override'>, linkedCount: number): IssuePriority =>
+  issue.priority_override ?? getDerivedPriority(linkedCount)
+
+/** Due dates are calendar days; an issue is overdue once its due day has passed */
+export const isIssueOverdue = (issue: Pick<Issue, 'status' | 'due_date'>, now = new Date()) =>
+  !!issue.due_date && isIssueOpen(issue) && issue.due_date < now.toISOString().slice(0, 10)
+
+/** Mean days from creation to resolution over closed issues, or null when none are closed */
+export const getAverageResolutionDays = (issues: Pick<Issue, 'created_at' | 'resolved_at'>[]) => {
+  const durations = issues
+    .filter(issue => issue.resolved_at)
+    .map(issue => new Date(issue.resolved_at).getTime() - new Date(issue.created_at).getTime())
+  if (!durations.length) return null
+  return durations.reduce((sum, ms) => sum + ms, 0) / durations.length / (24 * 60 * 60 * 1000)
+}
@@ -0,0 +1,205 @@
+import { listDayKeys, type ResolvedDateRange } from '@/lib/date-range'
+import { SENTIMENT_META, SENTIMENTS } from '@/lib/sentiment'
+import { calculateCsat, calculateNps, type HeadlineMetric } from '@/lib/survey-metrics'
+import type {
+  DailyFeedbackCount,
+  DailySurveyMetrics,
+  FeedbackSummary,
+  HourlyFeedbackCount,
+  Issue,
+  RatingHistogramBucket,
+  SentimentCount,
+  WeekdayFeedbackCount,
+} from '@/lib/repository/types'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export type ComparisonWindow = '7d' | '30d' | '90d'
+
+export const COMPARISON_WINDOWS: ComparisonWindow[] = ['7d', '30d', '90d']
+
+export const COMPARISON_WINDOW_META: Record<ComparisonWindow, { days: number }> = {
+  '7d': { days: 7 },
+  '30d': { days: 30 },
+  '90d': { days: 90 },
+}
+
+export const DEFAULT_COMPARISON_WINDOW: ComparisonWindow = '30d'
+
+/** Start inclusive, end exclusive */
+export interface Period {
+  start: Date
+  end: Date
+}
+
+/** The window ending now, and the window of the same length right before it */
+export const getComparisonPeriods = (window: ComparisonWindow, now = new Date()) => {
+  const length = COMPARISON_WINDOW_META[window].days * DAY
+  const currentStart = new Date(now.getTime() - length)
+  return {
+    current: { start: currentStart, end: now },
+    previous: { start: new Date(currentStart.getTime() - length), end: currentStart },
+  }
+}
+
+export const isInPeriod = (timestamp: string | null, period: Period) => {
+  if (!timestamp) return false
+  const time = new Date(timestamp).getTime()
+  return time >= period.start.getTime() && time < period.end.getTime()
+}
+
+export interface PeriodMetrics {
+  feedbackCount: number
+  /** Mean over rated feedback only; null when nothing was rated */
+  avgRating: number | null
+  /** Share of feedback that has been read (processed_at set), as a whole percentage */
+  responseRate: number
+  /** Mean hours from received_at to processed_at; null when nothing was processed */
+  avgResponseHours: number | null
+  /** -100 to 100; null without NPS responses */
+  nps: number | null
+  /** Whole percentage of satisfied respondents; null without responses */
+  csat: number | null
+  /** Mean effort score, 1-7; null without responses */
+  ces: number | null
+}
+
+/** Metrics from the `feedback_summary` aggregate of a period */
+export const toPeriodMetrics = (summary: FeedbackSummary | undefined): PeriodMetrics => ({
+  feedbackCount: summary?.feedback_count ?? 0,
+  avgRating: summary?.avg_rating ?? null,
+  responseRate: summary?.answerable_count
+    ? Math.round((summary.processed_count / summary.answerable_count) * 100)
+    : 0,
+  avgResponseHours: summary?.avg_response_hours ?? null,
+  nps: summary ? calculateNps(summary.promoters, summary.detractors, summary.nps_responses) : null,
+  csat: summary ? calculateCsat(summary.csat_satisfied, summary.csat_responses) : null,
+  ces: summary?.avg_ces ?? null,
+})
+
+/** Relative change as a whole percentage; null when there is nothing to compare against */
+export const percentChange = (current: number, previous: number) =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 100)
+
+/** Absolute change, null when either side is missing */
+export const difference = (current: number | null, previous: number | null) =>
+  current === null || previous === null ? null : current - previous
+
+export interface FeedbackTrends {
+  window: ComparisonWindow
+  current: PeriodMetrics
+  previous: PeriodMetrics
+  /** % change in volume */
+  feedbackTrend: number | null
+  /** Change in stars */
+  ratingTrend: number | null
+  /** Change in percentage points */
+  responseRateTrend: number | null
+  /** Change in hours; negative is faster */
+  responseTimeTrend: number | null
+  /** Change in NPS points */
+  npsTrend: number | null
+  /** Change in percentage points */
+  csatTrend: number | null
+  /** Change in effort score */
+  cesTrend: number | null
+}
+
+/**
+ * Current vs previous period for the KPI cards. Analytics and the dashboard
+ * overview both use this, so the same window always shows the same numbers.
+ */
+export const compareMetrics = (
+  window: ComparisonWindow,
+  current: PeriodMetrics,
+  previous: PeriodMetrics
+): FeedbackTrends => ({
+  window,
+  current,
+  previous,
+  feedbackTrend: percentChange(current.feedbackCount, previous.feedbackCount),
+  ratingTrend: difference(current.avgRating, previous.avgRating),
+  responseRateTrend: previous.feedbackCount ? current.responseRate - previous.responseRate : null,
+  responseTimeTrend: difference(current.avgResponseHours, previous.avgResponseHours),
+  npsTrend: difference(current.nps, previous.nps),
+  csatTrend: difference(current.csat, previous.csat),
+  cesTrend: difference(current.ces, previous.ces),
+})
+
+const HEADLINE_VALUES: Record<HeadlineMetric, { value: keyof PeriodMetrics; trend: keyof FeedbackTrends }> = {
+  rating: { value: 'avgRating', trend: 'ratingTrend' },
+  csat: { value: 'csat', trend: 'csatTrend' },
+  nps: { value: 'nps', trend: 'npsTrend' },
+  ces: { value: 'ces', trend: 'cesTrend' },
+}
+
+/** The headline metric's current value and its change, for the overview card */
+export const getHeadline = (trends: FeedbackTrends, metric: HeadlineMetric) => ({
+  value: trends.current[HEADLINE_VALUES[metric].value] as number | null,
+  change: trends[HEADLINE_VALUES[metric].trend] as number | null,
+})
+
+/** Issues opened minus issues resolved during the period */
+export const getNetIssueChange = (issues: Pick<Issue, 'created_at' | 'resolved_at'>[], period: Period) =>
+  issues.filter(issue => isInPeriod(issue.created_at, period)).length -
+  issues.filter(issue => isInPeriod(issue.resolved_at, period)).length
+
+/**
+ * One point per calendar day of the range, days without feedback included.
+ * The average rating is null on days with nothing rated.
+ */
+export const toDailySeries = (rows: DailyFeedbackCount[], range: ResolvedDateRange, timezone: string) => {
+  const byDay = new Map(rows.map(row => [row.day, row]))
+  return listDayKeys(range, timezone, rows[0]?.day).map(day => ({
+    day,
+    count: byDay.get(day)?.feedback_count ?? 0,
+    /** Feedback with a rating, which avgRating is the average of */
+    ratedCount: byDay.get(day)?.rated_count ?? 0,
+    avgRating: byDay.get(day)?.avg_rating ?? null,
+  }))
+}
+
+/** NPS, CSAT and CES per calendar day of the range; null on days without responses */
+export const toDailySurveySeries = (rows: DailySurveyMetrics[], range: ResolvedDateRange, timezone: string) => {
+  const byDay = new Map(rows.map(row => [row.day, row]))
+  return listDayKeys(range, timezone, rows[0]?.day).map(day => {
+    const row = byDay.get(day)
+    return {
+      day,
+      nps: row ? calculateNps(row.promoters, row.detractors, row.nps_responses) : null,
+      csat: row ? calculateCsat(row.csat_satisfied, row.csat_responses) : null,
+      ces: row?.avg_ces ?? null,
+    }
+  })
+}
+
+/** Volume and rating per day of week, Monday first; weekday 0 is Sunday */
+export const toWeekdaySeries = (rows: WeekdayFeedbackCount[]) =>
+  [1, 2, 3, 4, 5, 6, 0].map(weekday => {
+    const row = rows.find(r => r.weekday === weekday)
+    return { weekday, feedback: row?.feedback_count ?? 0, avgRating: row?.avg_rating ?? null }
+  })
+
+/** Volume for each of the 24 hours of the day */
+export const toHourlySeries = (rows: HourlyFeedbackCount[]) =>
+  Array.from({ length: 24 }, (_, hour) => ({
+    hour: `${hour}:00`,
+    count: rows.find(row => row.hour === hour)?.feedback_count ?? 0,
+  }))
+
+/** Feedback per whole star, 1 to 5. The label is English, for reports */
+export const toRatingDistribution = (rows: RatingHistogramBucket[]) =>
+  [1, 2, 3, 4, 5].map(rating => ({
+    stars: rating,
+    rating: `${rating} Star${rating > 1 ? 's' : ''}`,
+    count: rows.find(row => row.rating === rating)?.feedback_count ?? 0,
+  }))
+
+/** Pie chart slices, every sentiment included */
+export const toSentimentData = (rows: SentimentCount[]) =>
+  SENTIMENTS.map(sentiment => ({
+    sentiment,
+    name: SENTIMENT_META[sentiment].label,
+    value: rows.find(row => row.sentiment === sentiment)?.feedback_count ?? 0,
+    color: SENTIMENT_META[sentiment].color,
+  }))
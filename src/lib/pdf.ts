@@ -0,0 +1,235 @@
+/**
+ * A small PDF writer for generated reports: A4 pages of text in the standard
+ * Helvetica fonts, lines, rectangles and circles. No fonts are embedded, so
+ * text is limited to the Windows-1252 character set and anything outside it
+ * prints as "?".
+ *
+ * Coordinates are in points from the top-left corner of the page, with y
+ * growing downwards like the DOM; text is placed by its baseline.
+ */
+
+export type PdfFont = 'regular' | 'bold'
+
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+// Advance widths of characters 32-126 in thousandths of the font size, from the core font metrics
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+}
+
+// Accented letters and the like are close enough to an average lowercase letter
+const DEFAULT_WIDTH = 556
+
+// Windows-1252 codes of the characters it has outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+}
+
+const toWinAnsi = (text: string) =>
+  Array.from(text, char => {
+    const code = char.codePointAt(0)
+    if (code >= 32 && code <= 126) return code
+    if (code >= 160 && code <= 255) return code
+    if (char === '\t' || char === '\n' || char === '\r') return 32
+    return WIN_ANSI_EXTRAS[char] ?? 63
+  })
+
+const charWidth = (code: number, font: PdfFont) =>
+  code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : DEFAULT_WIDTH
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular') =>
+  (toWinAnsi(text).reduce((sum, code) => sum + charWidth(code, font), 0) * size) / 1000
+
+/** Lines of at most maxWidth, broken between words; words longer than a line are split */
+export const wrapText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular') => {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (textWidth(candidate, size, font) <= maxWidth) {
+      line = candidate
+      continue
+    }
+    if (line) lines.push(line)
+    line = ''
+    for (const char of word) {
+      if (line && textWidth(line + char, size, font) > maxWidth) {
+        lines.push(line)
+        line = ''
+      }
+      line += char
+    }
+  }
+
+  if (line) lines.push(line)
+  return lines
+}
+
+/** Cut to maxWidth with an ellipsis */
+export const truncateText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular') => {
+  if (textWidth(text, size, font) <= maxWidth) return text
+  let cut = text
+  while (cut && textWidth(`${cut}…`, size, font) > maxWidth) cut = cut.slice(0, -1)
+  return `${cut.trimEnd()}…`
+}
+
+// Literal strings keep the file ASCII, so byte offsets are string lengths
+const toPdfString = (text: string) =>
+  `(${toWinAnsi(text)
+    .map(code => {
+      if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`
+      return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code)
+    })
+    .join('')})`
+
+const num = (value: number) => String(Math.round(value * 100) / 100)
+
+/** `#rrggbb` as PDF color components */
+const toRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(channel => num(channel / 255)).join(' ')
+}
+
+export interface TextOptions {
+  size?: number
+  font?: PdfFont
+  color?: string
+  /** Which end of the text x refers to */
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface ShapeOptions {
+  fill?: string
+  stroke?: string
+  lineWidth?: number
+  /** Dash and gap lengths, for dashed strokes */
+  dash?: number[]
+}
+
+export interface PdfPage {
+  text: (text: string, x: number, y: number, options?: TextOptions) => void
+  rect: (x: number, y: number, width: number, height: number, options: ShapeOptions) => void
+  line: (x1: number, y1: number, x2: number, y2: number, options: ShapeOptions) => void
+  polyline: (points: [number, number][], options: ShapeOptions) => void
+  circle: (x: number, y: number, radius: number, options: ShapeOptions) => void
+}
+
+const paint = ({ fill, stroke, lineWidth, dash }: ShapeOptions) => {
+  const ops: string[] = []
+  if (fill) ops.push(`${toRgb(fill)} rg`)
+  if (stroke) ops.push(`${toRgb(stroke)} RG`, `${num(lineWidth ?? 1)} w`, `[${(dash ?? []).map(num).join(' ')}] 0 d`)
+  return { setup: ops.join(' '), op: fill && stroke ? 'B' : fill ? 'f' : 'S' }
+}
+
+const createPage = (content: string[]): PdfPage => {
+  const y = (top: number) => num(PAGE_HEIGHT - top)
+
+  const shape = (path: string, options: ShapeOptions) => {
+    const { setup, op } = paint(options)
+    content.push(`q ${setup} ${path} ${op} Q`)
+  }
+
+  return {
+    text: (text, x, top, { size = 10, font = 'regular', color = '#111827', align = 'left' }: TextOptions = {}) => {
+      const width = align === 'left' ? 0 : textWidth(text, size, font)
+      const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x
+      content.push(
+        `BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${toRgb(color)} rg ${num(left)} ${y(top)} Td ${toPdfString(text)} Tj ET`
+      )
+    },
+    rect: (x, top, width, height, options) => shape(`${num(x)} ${y(top + height)} ${num(width)} ${num(height)} re`, options),
+    line: (x1, y1, x2, y2, options) => shape(`${num(x1)} ${y(y1)} m ${num(x2)} ${y(y2)} l`, { ...options, fill: undefined }),
+    polyline: (points, options) => {
+      if (points.length < 2) return
+      const [[startX, startY], ...rest] = points
+      shape(
+        [`${num(startX)} ${y(startY)} m`, ...rest.map(([px, py]) => `${num(px)} ${y(py)} l`)].join(' '),
+        { ...options, fill: undefined }
+      )
+    },
+    circle: (x, top, radius, options) => {
+      // Four Bézier quarter arcs
+      const k = radius * 0.5523
+      const cy = PAGE_HEIGHT - top
+      shape(
+        [
+          `${num(x + radius)} ${num(cy)} m`,
+          `${num(x + radius)} ${num(cy + k)} ${num(x + k)} ${num(cy + radius)} ${num(x)} ${num(cy + radius)} c`,
+          `${num(x - k)} ${num(cy + radius)} ${num(x - radius)} ${num(cy + k)} ${num(x - radius)} ${num(cy)} c`,
+          `${num(x - radius)} ${num(cy - k)} ${num(x - k)} ${num(cy - radius)} ${num(x)} ${num(cy - radius)} c`,
+          `${num(x + k)} ${num(cy - radius)} ${num(x + radius)} ${num(cy - k)} ${num(x + radius)} ${num(cy)} c`,
+        ].join(' '),
+        options
+      )
+    },
+  }
+}
+
+// D:YYYYMMDDHHmmSSZ
+const toPdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`
+
+export const createPdf = () => {
+  const pages: string[][] = []
+
+  const addPage = () => {
+    const content: string[] = []
+    pages.push(content)
+    return createPage(content)
+  }
+
+  const toBlob = ({ title, createdAt = new Date() }: { title?: string; createdAt?: Date } = {}) => {
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a content stream and a page per page
+    const pageIds = pages.map((_, index) => 7 + index * 2)
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< ${title ? `/Title ${toPdfString(title)} ` : ''}/Producer (FeedbackFlow) /CreationDate (${toPdfDate(createdAt)}) >>`,
+      ...pages.flatMap((content, index) => {
+        const stream = content.join('\n')
+        return [
+          `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] - 1} 0 R >>`,
+        ]
+      }),
+    ]
+
+    let file = '%PDF-1.4\n'
+    const offsets = objects.map((object, index) => {
+      const offset = file.length
+      file += `${index + 1} 0 obj\n${object}\nendobj\n`
+      return offset
+    })
+    const xref = file.length
+    file +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return new Blob([file], { type: 'application/pdf' })
+  }
+
+  return { addPage, toBlob }
+}
@@ -0,0 +1,225 @@
+import type { Formatter } from '@/lib/format'
+import { createPdf, PAGE_HEIGHT, PAGE_WIDTH, truncateText, wrapText, type PdfPage } from '@/lib/pdf'
+import { formatReportRange, type ReportData, type ReportKpi, type ReportQuote } from '@/lib/report'
+
+// Layout of the downloadable report, mirroring the printable page (AnalyticsReport)
+
+const MARGIN = 40
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const BOTTOM = PAGE_HEIGHT - 50
+
+const MUTED = '#6b7280'
+const BORDER = '#e5e7eb'
+const VOLUME = '#8884d8'
+const RATING = '#ff7300'
+
+const TONE_COLORS: Record<ReportKpi['tone'], string> = { good: '#16a34a', bad: '#dc2626', neutral: MUTED }
+
+/** Renders the report as an A4 PDF, with dates written by `format` */
+export const renderReportPdf = (report: ReportData, format: Formatter) => {
+  const pdf = createPdf()
+  const pages: PdfPage[] = []
+  let page: PdfPage
+  let y = 0
+
+  const newPage = () => {
+    page = pdf.addPage()
+    pages.push(page)
+    y = MARGIN
+  }
+
+  // Starts a new page unless the next block fits on this one
+  const reserve = (height: number) => {
+    if (y + height > BOTTOM) newPage()
+  }
+
+  // keepWith is the height of what must follow on the same page, so headings are never left alone
+  const heading = (title: string, subtitle: string | null, keepWith: number) => {
+    reserve((subtitle ? 41 : 28) + keepWith)
+    y += 18
+    page.text(title, MARGIN, y, { size: 13, font: 'bold' })
+    if (subtitle) {
+      y += 13
+      page.text(subtitle, MARGIN, y, { size: 8, color: MUTED })
+    }
+    y += 10
+  }
+
+  newPage()
+
+  // Title
+  page.text('Feedback Report', MARGIN, y + 20, { size: 20, font: 'bold' })
+  page.text(formatReportRange(report.range, format.day), MARGIN, y + 38, { size: 11, color: MUTED })
+  page.text(
+    `Compared with ${formatReportRange(report.previousRange, format.day)}. Generated ${format.date(report.generatedAt)}, days in ${report.timezone} time.`,
+    MARGIN,
+    y + 52,
+    { size: 8, color: MUTED }
+  )
+  y += 64
+
+  // KPIs, four to a row
+  const columns = 4
+  const gap = 8
+  const boxWidth = (CONTENT_WIDTH - gap * (columns - 1)) / columns
+  const boxHeight = 54
+  heading('Key metrics', null, boxHeight)
+  report.kpis.forEach((kpi, index) => {
+    const column = index % columns
+    if (column === 0) {
+      if (index > 0) y += boxHeight + gap
+      reserve(boxHeight)
+    }
+    const x = MARGIN + column * (boxWidth + gap)
+    page.rect(x, y, boxWidth, boxHeight, { stroke: BORDER })
+    page.text(truncateText(kpi.label, 8, boxWidth - 16), x + 8, y + 14, { size: 8, color: MUTED })
+    page.text(kpi.value, x + 8, y + 33, { size: 16, font: 'bold' })
+    page.text(kpi.change ? `${kpi.change} vs previous period` : 'No earlier data', x + 8, y + 46, {
+      size: 7,
+      color: TONE_COLORS[kpi.tone],
+    })
+  })
+  y += boxHeight
+
+  // Daily volume as bars with the average rating as a line on its own scale
+  const chartHeight = 150
+  heading('Feedback volume', 'Feedback received per day (bars) and average rating out of 5 (line)', chartHeight + 16)
+  const chartLeft = MARGIN + 24
+  const chartWidth = CONTENT_WIDTH - 48
+  const chartBottom = y + chartHeight
+  const maxCount = Math.max(1, ...report.daily.map(day => day.count))
+  const slot = chartWidth / Math.max(report.daily.length, 1)
+
+  page.line(chartLeft, y, chartLeft + chartWidth, y, { stroke: BORDER, dash: [2, 2] })
+  page.line(chartLeft, chartBottom, chartLeft + chartWidth, chartBottom, { stroke: MUTED, lineWidth: 0.5 })
+  page.text(String(maxCount), chartLeft - 4, y + 3, { size: 7, color: MUTED, align: 'right' })
+  page.text('0', chartLeft - 4, chartBottom + 3, { size: 7, color: MUTED, align: 'right' })
+  page.text('5', chartLeft + chartWidth + 4, y + 3, { size: 7, color: RATING })
+  page.text('1', chartLeft + chartWidth + 4, chartBottom + 3, { size: 7, color: RATING })
+
+  report.daily.forEach((day, index) => {
+    const height = (day.count / maxCount) * chartHeight
+    if (height > 0) {
+      page.rect(chartLeft + index * slot + slot * 0.15, chartBottom - height, slot * 0.7, height, { fill: VOLUME })
+    }
+  })
+
+  // Days without ratings break the line
+  let segment: [number, number][] = []
+  const flush = () => {
+    if (segment.length === 1) page.circle(segment[0][0], segment[0][1], 1.5, { fill: RATING })
+    else page.polyline(segment, { stroke: RATING, lineWidth: 1.5 })
+    segment = []
+  }
+  report.daily.forEach((day, index) => {
+    if (day.avgRating === null) return flush()
+    segment.push([chartLeft + index * slot + slot / 2, chartBottom - ((day.avgRating - 1) / 4) * chartHeight])
+  })
+  flush()
+
+  if (report.daily.length) {
+    page.text(format.dayLabel(report.daily[0].day), chartLeft, chartBottom + 12, { size: 7, color: MUTED })
+    page.text(format.dayLabel(report.daily[report.daily.length - 1].day), chartLeft + chartWidth, chartBottom + 12, {
+      size: 7,
+      color: MUTED,
+      align: 'right',
+    })
+  }
+  y = chartBottom + 16
+
+  // Sentiment as one stacked bar with a legend
+  heading('Sentiment', null, 34)
+  const sentimentTotal = report.sentiment.reduce((sum, slice) => sum + slice.value, 0)
+  let x = MARGIN
+  report.sentiment.forEach(slice => {
+    const width = sentimentTotal ? (slice.value / sentimentTotal) * CONTENT_WIDTH : 0
+    if (width > 0) page.rect(x, y, width, 14, { fill: slice.color })
+    x += width
+  })
+  x = MARGIN
+  report.sentiment.forEach(slice => {
+    const share = sentimentTotal ? Math.round((slice.value / sentimentTotal) * 100) : 0
+    const label = `${slice.name} ${slice.value} (${share}%)`
+    page.rect(x, y + 22, 8, 8, { fill: slice.color })
+    page.text(label, x + 12, y + 29, { size: 8 })
+    x += CONTENT_WIDTH / report.sentiment.length
+  })
+  y += 34
+
+  // Ratings as horizontal bars
+  heading('Ratings', 'Rated feedback by whole star', 16)
+  const maxRating = Math.max(1, ...report.ratings.map(bucket => bucket.count))
+  report.ratings.forEach(bucket => {
+    reserve(16)
+    page.text(bucket.rating, MARGIN, y + 9, { size: 8, color: MUTED })
+    const width = (bucket.count / maxRating) * (CONTENT_WIDTH - 100)
+    if (width > 0) page.rect(MARGIN + 60, y, width, 11, { fill: VOLUME })
+    page.text(String(bucket.count), MARGIN + 66 + width, y + 9, { size: 8 })
+    y += 16
+  })
+
+  // Top issues
+  heading('Top issues', 'Issues with the most feedback received in the period', 34)
+  if (!report.topIssues.length) {
+    reserve(14)
+    page.text('No feedback in this period is linked to an issue.', MARGIN, y + 10, { size: 9, color: MUTED })
+    y += 14
+  } else {
+    reserve(18)
+    page.text('Issue', MARGIN, y + 10, { size: 8, font: 'bold', color: MUTED })
+    page.text('Status', MARGIN + CONTENT_WIDTH - 140, y + 10, { size: 8, font: 'bold', color: MUTED })
+    page.text('Feedback', MARGIN + CONTENT_WIDTH, y + 10, { size: 8, font: 'bold', color: MUTED, align: 'right' })
+    y += 16
+    report.topIssues.forEach(issue => {
+      reserve(18)
+      page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { stroke: BORDER, lineWidth: 0.5 })
+      page.text(truncateText(issue.title, 9, CONTENT_WIDTH - 160), MARGIN, y + 12, { size: 9 })
+      page.text(issue.status, MARGIN + CONTENT_WIDTH - 140, y + 12, { size: 9 })
+      page.text(String(issue.feedbackCount), MARGIN + CONTENT_WIDTH, y + 12, { size: 9, align: 'right' })
+      y += 18
+    })
+  }
+
+  const quotes = (title: string, items: ReportQuote[], accent: string) => {
+    heading(title, null, 40)
+    if (!items.length) {
+      reserve(14)
+      page.text('Nothing to quote in this period.', MARGIN, y + 10, { size: 9, color: MUTED })
+      y += 14
+      return
+    }
+    items.forEach(quote => {
+      const lines = wrapText(`“${quote.text}”`, 9, CONTENT_WIDTH - 14)
+      const height = lines.length * 12 + 16
+      reserve(height)
+      page.rect(MARGIN, y, 2, height - 6, { fill: accent })
+      lines.forEach((line, index) => page.text(line, MARGIN + 10, y + 9 + index * 12, { size: 9 }))
+      const rating = quote.rating === null ? '' : `, rated ${Number(quote.rating).toFixed(1)}`
+      page.text(
+        `${quote.sender}, ${format.date(quote.receivedAt)}${rating}`,
+        MARGIN + 10,
+        y + lines.length * 12 + 7,
+        { size: 7, color: MUTED }
+      )
+      y += height
+    })
+  }
+
+  quotes('What customers liked', report.praise, '#16a34a')
+  quotes('What needs attention', report.concerns, '#dc2626')
+
+  // Footers go on last, once the page count is known
+  pages.forEach((footerPage, index) => {
+    footerPage.text(`FeedbackFlow report, ${formatReportRange(report.range, format.day)}`, MARGIN, PAGE_HEIGHT - 24, {
+      size: 7,
+      color: MUTED,
+    })
+    footerPage.text(`Page ${index + 1} of ${pages.length}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 24, {
+      size: 7,
+      color: MUTED,
+      align: 'right',
+    })
+  })
+
+  return pdf.toBlob({ title: `Feedback Report, ${formatReportRange(report.range, format.day)}`, createdAt: new Date(report.generatedAt) })
+}
@@ -0,0 +1,248 @@
+import { addDays, resolveDateRange, toReceivedBounds } from '@/lib/date-range'
+import { createTranslator } from '@/lib/i18n'
+import { ISSUE_STATUS_META } from '@/lib/issue-lifecycle'
+import {
+  difference,
+  percentChange,
+  toDailySeries,
+  toPeriodMetrics,
+  toRatingDistribution,
+  toSentimentData,
+  type PeriodMetrics,
+} from '@/lib/metrics'
+import { getSentimentText } from '@/lib/sentiment'
+import { HEADLINE_METRIC_META } from '@/lib/survey-metrics'
+import type {
+  DailyFeedbackCount,
+  Feedback,
+  FeedbackSummary,
+  Issue,
+  IssueFeedbackCount,
+  RatingHistogramBucket,
+  ReceivedBounds,
+  SentimentCount,
+} from '@/lib/repository/types'
+
+/**
+ * The stakeholder report: KPIs against the period before, charts, top issues
+ * and sample quotes for a range of calendar days. The printable page and the
+ * PDF both render this one model, so they always show the same numbers.
+ */
+
+export type ReportPeriod = 'last-month' | 'this-month' | 'last-30d' | 'last-quarter' | 'custom'
+
+export const REPORT_PERIODS: ReportPeriod[] = ['last-month', 'this-month', 'last-30d', 'last-quarter', 'custom']
+
+export const REPORT_PERIOD_META: Record<ReportPeriod, { label: string }> = {
+  'last-month': { label: 'Last month' },
+  'this-month': { label: 'This month' },
+  'last-30d': { label: 'Last 30 days' },
+  'last-quarter': { label: 'Last quarter' },
+  custom: { label: 'Custom range' },
+}
+
+/** Calendar days, both inclusive, as `YYYY-MM-DD` in the report's timezone */
+export interface ReportRange {
+  from: string
+  to: string
+}
+
+/** How many top issues and quotes of each kind a report lists */
+export const REPORT_TOP_ISSUES = 5
+export const REPORT_QUOTES = 3
+
+const startOfMonth = (dayKey: string) => `${dayKey.slice(0, 7)}-01`
+
+/** The range a period covers on the given day; custom ranges keep their own days */
+export const resolveReportPeriod = (period: Exclude<ReportPeriod, 'custom'>, today: string): ReportRange => {
+  switch (period) {
+    case 'this-month':
+      return { from: startOfMonth(today), to: today }
+    case 'last-month': {
+      const to = addDays(startOfMonth(today), -1)
+      return { from: startOfMonth(to), to }
+    }
+    case 'last-30d':
+      return { from: addDays(today, -29), to: today }
+    case 'last-quarter': {
+      const month = Number(today.slice(5, 7))
+      const quarterStart = `${today.slice(0, 4)}-${String(month - ((month - 1) % 3)).padStart(2, '0')}-01`
+      const to = addDays(quarterStart, -1)
+      const lastMonth = Number(to.slice(5, 7))
+      return { from: `${to.slice(0, 4)}-${String(lastMonth - 2).padStart(2, '0')}-01`, to }
+    }
+  }
+}
+
+const countDays = ({ from, to }: ReportRange) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000) + 1
+
+/** The same number of days, ending the day before the range starts */
+export const getPreviousReportRange = (range: ReportRange): ReportRange => ({
+  from: addDays(range.from, -countDays(range)),
+  to: addDays(range.from, -1),
+})
+
+export const toReportBounds = (range: ReportRange, timezone: string): ReceivedBounds =>
+  toReceivedBounds(resolveDateRange({ preset: 'custom', ...range }, timezone))
+
+/** Like "09/01/2026 - 09/30/2026", with days written by `format` (a Formatter's `day`) */
+export const formatReportRange = ({ from, to }: ReportRange, format: (dayKey: string) => string) =>
+  from === to ? format(from) : `${format(from)} - ${format(to)}`
+
+export interface ReportKpi {
+  label: string
+  value: string
+  /** Against the previous period, signed; null without data to compare */
+  change: string | null
+  /** Whether the change is good news, for coloring */
+  tone: 'good' | 'bad' | 'neutral'
+}
+
+export interface ReportQuote {
+  id: string
+  text: string
+  sender: string
+  rating: number | null
+  receivedAt: string
+}
+
+export interface ReportIssue {
+  id: string
+  title: string
+  status: string
+  /** Feedback received in the range and linked to the issue */
+  feedbackCount: number
+}
+
+export interface ReportData {
+  range: ReportRange
+  previousRange: ReportRange
+  timezone: string
+  generatedAt: string
+  feedbackCount: number
+  kpis: ReportKpi[]
+  daily: ReturnType<typeof toDailySeries>
+  sentiment: ReturnType<typeof toSentimentData>
+  ratings: ReturnType<typeof toRatingDistribution>
+  topIssues: ReportIssue[]
+  praise: ReportQuote[]
+  concerns: ReportQuote[]
+}
+
+/** What a report is built from, as loaded by useAnalyticsReport */
+export interface ReportSource {
+  range: ReportRange
+  timezone: string
+  summary: FeedbackSummary | undefined
+  previousSummary: FeedbackSummary | undefined
+  dailyCounts: DailyFeedbackCount[]
+  sentimentCounts: SentimentCount[]
+  ratingHistogram: RatingHistogramBucket[]
+  issueCounts: IssueFeedbackCount[]
+  issues: Issue[]
+  /** Highest rated feedback of the range */
+  praise: Feedback[]
+  /** Lowest rated feedback of the range */
+  concerns: Feedback[]
+}
+
+// Reports are written in English, like their labels
+const english = createTranslator('en')
+
+const kpi = (
+  label: string,
+  current: number | null,
+  change: number | null,
+  format: (value: number) => string,
+  formatChange: (change: number) => string,
+  lowerIsBetter = false
+): ReportKpi => ({
+  label,
+  value: current === null ? '—' : format(current),
+  change: change === null ? null : `${change > 0 ? '+' : change < 0 ? '-' : ''}${formatChange(Math.abs(change))}`,
+  tone: !change ? 'neutral' : (change < 0) === lowerIsBetter ? 'good' : 'bad',
+})
+
+const toKpis = (current: PeriodMetrics, previous: PeriodMetrics): ReportKpi[] => [
+  kpi('Feedback Received', current.feedbackCount, percentChange(current.feedbackCount, previous.feedbackCount), String, (value) => `${value}%`),
+  kpi(
+    HEADLINE_METRIC_META.rating.label,
+    current.avgRating,
+    difference(current.avgRating, previous.avgRating),
+    HEADLINE_METRIC_META.rating.format,
+    (value) => HEADLINE_METRIC_META.rating.formatChange(value, english)
+  ),
+  kpi(
+    'Response Rate',
+    current.responseRate,
+    previous.feedbackCount ? current.responseRate - previous.responseRate : null,
+    (value) => `${value}%`,
+    (value) => english('analytics.points', { count: value })
+  ),
+  kpi(
+    'Avg Response Time',
+    current.avgResponseHours,
+    difference(current.avgResponseHours, previous.avgResponseHours),
+    (value) => `${value.toFixed(1)}h`,
+    (value) => `${value.toFixed(1)}h`,
+    true
+  ),
+  ...(['nps', 'csat', 'ces'] as const).map(metric =>
+    kpi(
+      HEADLINE_METRIC_META[metric].label,
+      current[metric],
+      difference(current[metric], previous[metric]),
+      HEADLINE_METRIC_META[metric].format,
+      (value) => HEADLINE_METRIC_META[metric].formatChange(value, english)
+    )
+  ),
+]
+
+const isQuotable = (feedback: Feedback) => feedback.status !== 'spam' && !!getSentimentText(feedback)
+
+const toQuote = (feedback: Feedback): ReportQuote => ({
+  id: feedback.id,
+  text: getSentimentText(feedback),
+  sender: feedback.sender_name || feedback.sender_email,
+  rating: feedback.average_rating,
+  receivedAt: feedback.received_at,
+})
+
+export const toReportData = (source: ReportSource, now = new Date()): ReportData => {
+  const current = toPeriodMetrics(source.summary)
+  const issuesById = new Map(source.issues.map(issue => [issue.id, issue]))
+
+  return {
+    range: source.range,
+    previousRange: getPreviousReportRange(source.range),
+    timezone: source.timezone,
+    generatedAt: now.toISOString(),
+    feedbackCount: current.feedbackCount,
+    kpis: toKpis(current, toPeriodMetrics(source.previousSummary)),
+    daily: toDailySeries(
+      source.dailyCounts,
+      resolveDateRange({ preset: 'custom', ...source.range }, source.timezone, now),
+      source.timezone
+    ),
+    sentiment: toSentimentData(source.sentimentCounts),
+    ratings: toRatingDistribution(source.ratingHistogram),
+    topIssues: source.issueCounts
+      .filter(count => issuesById.has(count.issue_id))
+      .slice(0, REPORT_TOP_ISSUES)
+      .map(count => {
+        const issue = issuesById.get(count.issue_id)
+        return {
+          id: issue.id,
+          title: issue.issue_title,
+          status: ISSUE_STATUS_META[issue.status].label,
+          feedbackCount: count.feedback_count,
+        }
+      }),
+    praise: source.praise.filter(isQuotable).slice(0, REPORT_QUOTES).map(toQuote),
+    concerns: source.concerns
+      .filter(f => isQuotable(f) && f.average_rating !== null && f.average_rating < 3)
+      .slice(0, REPORT_QUOTES)
+      .map(toQuote),
+  }
+}
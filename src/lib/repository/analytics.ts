@@ -0,0 +1,59 @@
+import { backend } from '@/lib/backend'
+import { compareMetrics, getComparisonPeriods, toPeriodMetrics, type ComparisonWindow, type FeedbackTrends } from '@/lib/metrics'
+import type {
+  DailyFeedbackCount,
+  DailySurveyMetrics,
+  FeedbackSummary,
+  HourlyFeedbackCount,
+  IssueFeedbackCount,
+  RatingHistogramBucket,
+  ReceivedBounds,
+  SentimentCount,
+  WeekdayFeedbackCount,
+} from './types'
+
+// Aggregates are computed by database functions (see the feedback_aggregates
+// migration) so analytics never downloads individual feedback rows. They cover
+// the given workspace.
+
+const toArgs = (workspaceId: string, bounds: ReceivedBounds) => ({
+  p_workspace_id: workspaceId,
+  p_from: bounds.receivedFrom ?? null,
+  p_to: bounds.receivedBefore ?? null,
+})
+
+export const getFeedbackSummary = async (workspaceId: string, bounds: ReceivedBounds): Promise<FeedbackSummary | undefined> =>
+  (await backend.functions.call('feedback_summary', toArgs(workspaceId, bounds)))[0]
+
+/** The comparison window ending now against the one before it */
+export const getFeedbackTrends = async (workspaceId: string, window: ComparisonWindow, now = new Date()): Promise<FeedbackTrends> => {
+  const periods = getComparisonPeriods(window, now)
+  const [current, previous] = await Promise.all(
+    [periods.current, periods.previous].map(period =>
+      getFeedbackSummary(workspaceId, { receivedFrom: period.start.toISOString(), receivedBefore: period.end.toISOString() })
+    )
+  )
+  return compareMetrics(window, toPeriodMetrics(current), toPeriodMetrics(previous))
+}
+
+export const listDailyFeedbackCounts = (workspaceId: string, bounds: ReceivedBounds, timezone: string): Promise<DailyFeedbackCount[]> =>
+  backend.functions.call('feedback_daily_counts', { ...toArgs(workspaceId, bounds), p_timezone: timezone })
+
+export const listDailySurveyMetrics = (workspaceId: string, bounds: ReceivedBounds, timezone: string): Promise<DailySurveyMetrics[]> =>
+  backend.functions.call('feedback_daily_survey_metrics', { ...toArgs(workspaceId, bounds), p_timezone: timezone })
+
+export const listWeekdayFeedbackCounts = (workspaceId: string, bounds: ReceivedBounds, timezone: string): Promise<WeekdayFeedbackCount[]> =>
+  backend.functions.call('feedback_weekday_counts', { ...toArgs(workspaceId, bounds), p_timezone: timezone })
+
+export const listHourlyFeedbackCounts = (workspaceId: string, bounds: ReceivedBounds, timezone: string): Promise<HourlyFeedbackCount[]> =>
+  backend.functions.call('feedback_hourly_counts', { ...toArgs(workspaceId, bounds), p_timezone: timezone })
+
+export const getRatingHistogram = (workspaceId: string, bounds: ReceivedBounds): Promise<RatingHistogramBucket[]> =>
+  backend.functions.call('feedback_rating_histogram', toArgs(workspaceId, bounds))
+
+export const listSentimentCounts = (workspaceId: string, bounds: ReceivedBounds): Promise<SentimentCount[]> =>
+  backend.functions.call('feedback_sentiment_counts', toArgs(workspaceId, bounds))
+
+/** Issues by how much of the range's feedback is linked to them, most first */
+export const listIssueFeedbackCounts = (workspaceId: string, bounds: ReceivedBounds): Promise<IssueFeedbackCount[]> =>
+  backend.functions.call('issue_feedback_counts', toArgs(workspaceId, bounds))
@@ -0,0 +1,162 @@
+import { backend } from '@/lib/backend'
+import { canTransition } from '@/lib/feedback-status'
+import { inChunks } from './chunks'
+import { listFeedbacksByIds } from './feedbacks'
+import { linkFeedbacksToIssue, unlinkFeedbacksFromIssue } from './issues'
+import { tagFeedbacks, untagFeedbacks } from './tags'
+import { expectUpdated } from './writes'
+import type { Actor, Feedback, FeedbackStatus, Update } from './types'
+
+export type BulkAction =
+  | { type: 'markRead' }
+  | { type: 'markUnread' }
+  | { type: 'tag'; tagId: string }
+  | { type: 'assign'; assigneeId: string | null }
+  | { type: 'status'; status: FeedbackStatus }
+  | { type: 'linkIssue'; issueId: string }
+  | { type: 'delete' }
+
+export interface BulkResult {
+  /** Feedback the action changed */
+  affected: number
+  /** Feedback left alone, e.g. a status change the lifecycle does not allow */
+  skipped: number
+  /** Reverts exactly what the action changed */
+  undo: () => Promise<void>
+}
+
+// The ids were just loaded, so any that did not change were not the user's to change
+const updateFeedbacks = (feedbackIds: string[], values: Update<'feedbacks'>) =>
+  inChunks(feedbackIds, async chunk =>
+    expectUpdated(await backend.tables.update('feedbacks', values, [{ op: 'in', column: 'id', value: chunk }]), chunk.length)
+  )
+
+type RestorableColumn = 'processed_at' | 'status' | 'resolved_at' | 'assignee_id'
+
+// Puts columns back to their snapshotted values, one update per distinct set of values
+const restoreColumns = async (snapshot: Feedback[], columns: RestorableColumn[]) => {
+  const groups = new Map<string, { values: Update<'feedbacks'>; ids: string[] }>()
+  snapshot.forEach(feedback => {
+    const values = Object.fromEntries(columns.map(column => [column, feedback[column]])) as Update<'feedbacks'>
+    const key = JSON.stringify(values)
+    const group = groups.get(key) ?? { values, ids: [] }
+    group.ids.push(feedback.id)
+    groups.set(key, group)
+  })
+  for (const { values, ids } of groups.values()) {
+    await updateFeedbacks(ids, values)
+  }
+}
+
+const setReadState = async (feedbackIds: string[], read: boolean): Promise<BulkResult> => {
+  const snapshot = (await listFeedbacksByIds(feedbackIds)).filter(f => !!f.processed_at !== read)
+  await updateFeedbacks(snapshot.map(f => f.id), { processed_at: read ? new Date().toISOString() : null })
+
+  return {
+    affected: snapshot.length,
+    skipped: feedbackIds.length - snapshot.length,
+    undo: () => restoreColumns(snapshot, ['processed_at']),
+  }
+}
+
+const assign = async (feedbackIds: string[], assigneeId: string | null): Promise<BulkResult> => {
+  const snapshot = (await listFeedbacksByIds(feedbackIds)).filter(f => f.assignee_id !== assigneeId)
+  await updateFeedbacks(snapshot.map(f => f.id), { assignee_id: assigneeId })
+
+  return {
+    affected: snapshot.length,
+    skipped: feedbackIds.length - snapshot.length,
+    undo: () => restoreColumns(snapshot, ['assignee_id']),
+  }
+}
+
+// Same rules as changeFeedbackStatus, applied to many rows at once
+const changeStatus = async (feedbackIds: string[], status: FeedbackStatus, actor: Actor): Promise<BulkResult> => {
+  const snapshot = (await listFeedbacksByIds(feedbackIds)).filter(f => canTransition(f.status, status))
+  const ids = snapshot.map(f => f.id)
+  const now = new Date().toISOString()
+
+  // Archiving keeps the original resolution time
+  await updateFeedbacks(ids, status === 'archived' ? { status } : { status, resolved_at: status === 'resolved' ? now : null })
+  await updateFeedbacks(snapshot.filter(f => !f.processed_at).map(f => f.id), { processed_at: now })
+
+  const events = await inChunks(ids, chunk =>
+    backend.tables.insert(
+      'feedback_status_events',
+      snapshot
+        .filter(f => chunk.includes(f.id))
+        .map(f => ({
+          feedback_id: f.id,
+          from_status: f.status,
+          to_status: status,
+          changed_by: actor.id,
+          changed_by_name: actor.name,
+          changed_at: now,
+        }))
+    )
+  )
+
+  return {
+    affected: snapshot.length,
+    skipped: feedbackIds.length - snapshot.length,
+    undo: async () => {
+      await restoreColumns(snapshot, ['status', 'processed_at', 'resolved_at'])
+      await inChunks(events.map(event => event.id), async chunk =>
+        expectUpdated(
+          await backend.tables.delete('feedback_status_events', [{ op: 'in', column: 'id', value: chunk }]),
+          chunk.length
+        )
+      )
+    },
+  }
+}
+
+const tag = async (feedbackIds: string[], tagId: string, actor: Actor): Promise<BulkResult> => {
+  const tagged = await inChunks(feedbackIds, chunk => tagFeedbacks(tagId, chunk, actor.id))
+
+  return {
+    affected: tagged.length,
+    skipped: feedbackIds.length - tagged.length,
+    undo: async () => {
+      await inChunks(tagged, chunk => untagFeedbacks(tagId, chunk))
+    },
+  }
+}
+
+const linkIssue = async (feedbackIds: string[], issueId: string, actor: Actor): Promise<BulkResult> => {
+  const linked = await linkFeedbacksToIssue(issueId, feedbackIds, actor.id)
+
+  return {
+    affected: linked.length,
+    skipped: feedbackIds.length - linked.length,
+    undo: async () => {
+      await inChunks(linked, chunk => unlinkFeedbacksFromIssue(issueId, chunk))
+    },
+  }
+}
+
+// The database keeps what it deletes, along with the tags, links and history
+// that cascade from it, so undo puts everything back in one transaction
+const remove = async (feedbackIds: string[]): Promise<BulkResult> => {
+  const [deletion] = await backend.functions.call('delete_feedbacks', { p_feedback_ids: feedbackIds })
+
+  return {
+    affected: deletion.deleted_count,
+    skipped: feedbackIds.length - deletion.deleted_count,
+    undo: async () => {
+      await backend.functions.call('restore_feedbacks', { p_deletion_id: deletion.deletion_id })
+    },
+  }
+}
+
+export const runBulkAction = async (feedbackIds: string[], action: BulkAction, actor: Actor): Promise<BulkResult> => {
+  switch (action.type) {
+    case 'markRead': return setReadState(feedbackIds, true)
+    case 'markUnread': return setReadState(feedbackIds, false)
+    case 'assign': return assign(feedbackIds, action.assigneeId)
+    case 'status': return changeStatus(feedbackIds, action.status, actor)
+    case 'tag': return tag(feedbackIds, action.tagId, actor)
+    case 'linkIssue': return linkIssue(feedbackIds, action.issueId, actor)
+    case 'delete': return remove(feedbackIds)
+  }
+}
@@ -0,0 +1,12 @@
+// Keeps `in (...)` filters well below PostgREST's URL length limit
+export const CHUNK_SIZE = 100
+
+/** Runs `run` over the ids CHUNK_SIZE at a time, one after another, collecting what each returns */
+export const inChunks = async <T>(ids: string[], run: (chunk: string[]) => Promise<T[] | void>): Promise<T[]> => {
+  const results: T[] = []
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    const result = await run(ids.slice(i, i + CHUNK_SIZE))
+    if (result) results.push(...result)
+  }
+  return results
+}
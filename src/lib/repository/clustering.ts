@@ -0,0 +1,86 @@
+import { backend } from '@/lib/backend'
+import { issueDocuments, loadIssueClusters, toIssueCentroids } from '@/lib/cluster-assignment-job'
+import { buildTfIdfModel, clusterFeedback, CLUSTER_SIMILARITY_THRESHOLD, findBestMatch, tokenize } from '@/lib/clustering'
+import { inChunks } from './chunks'
+import { createIssue, linkFeedbacksToIssue } from './issues'
+import type { Feedback, Issue } from './types'
+
+const EXAMPLES_PER_PROPOSAL = 3
+
+export interface ClusterProposal {
+  /** Stable while the cluster keeps its most representative feedback */
+  key: string
+  feedbackIds: string[]
+  /** The most representative feedback of the cluster */
+  examples: Feedback[]
+  terms: string[]
+  /** Subject of the most representative feedback, as a starting point for the issue title */
+  suggestedTitle: string
+  /** The open issue closest to the cluster, offered as the merge target */
+  similarIssue: { issue: Issue; similarity: number } | null
+}
+
+/**
+ * Clusters recent feedback that is not linked to any issue and was not
+ * dismissed before, largest clusters first.
+ */
+export const listClusterProposals = async (workspaceId: string): Promise<ClusterProposal[]> => {
+  const { feedbacks, issues, links, linkedFeedback } = await loadIssueClusters(backend, workspaceId)
+  const dismissals = await inChunks(feedbacks.map(feedback => feedback.id), async chunk => {
+    const { rows } = await backend.tables.select('cluster_dismissals', {
+      filters: [{ op: 'in', column: 'feedback_id', value: chunk }],
+    })
+    return rows
+  })
+
+  const excluded = new Set([...links.map(link => link.feedback_id), ...dismissals.map(d => d.feedback_id)])
+  // Oldest first so earlier clusters keep their shape as new feedback arrives
+  const candidates = feedbacks.filter(feedback => !excluded.has(feedback.id)).reverse()
+
+  const described = issueDocuments(issues, linkedFeedback)
+  const model = buildTfIdfModel([
+    ...candidates.map(tokenize),
+    ...described.flatMap(({ documents }) => documents),
+  ])
+  const issueCentroids = toIssueCentroids(described, model)
+  const byId = new Map(feedbacks.map(feedback => [feedback.id, feedback]))
+
+  return clusterFeedback(candidates, model).map(cluster => {
+    const examples = cluster.feedbackIds.slice(0, EXAMPLES_PER_PROPOSAL).map(id => byId.get(id))
+    const match = findBestMatch(cluster.centroid, issueCentroids, CLUSTER_SIMILARITY_THRESHOLD)
+    return {
+      key: cluster.feedbackIds[0],
+      feedbackIds: cluster.feedbackIds,
+      examples,
+      terms: cluster.terms,
+      suggestedTitle: examples[0].subject || cluster.terms.join(' '),
+      similarIssue: match && { issue: match.candidate.issue, similarity: match.similarity },
+    }
+  })
+}
+
+/** Creates an issue from the proposal and links its feedback */
+export const acceptClusterProposal = async (
+  workspaceId: string,
+  userId: string,
+  title: string,
+  feedbackIds: string[]
+): Promise<Issue> => {
+  const issue = await createIssue(workspaceId, userId, title)
+  await linkFeedbacksToIssue(issue.id, feedbackIds, userId)
+  return issue
+}
+
+export const dismissClusterProposal = async (feedbackIds: string[], userId: string) => {
+  const { rows: existing } = await backend.tables.select('cluster_dismissals', {
+    filters: [{ op: 'in', column: 'feedback_id', value: feedbackIds }],
+  })
+  const alreadyDismissed = new Set(existing.map(dismissal => dismissal.feedback_id))
+  const toInsert = feedbackIds.filter(id => !alreadyDismissed.has(id))
+  if (!toInsert.length) return
+
+  await backend.tables.insert(
+    'cluster_dismissals',
+    toInsert.map(feedbackId => ({ feedback_id: feedbackId, dismissed_by: userId }))
+  )
+}
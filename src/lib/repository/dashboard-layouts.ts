@@ -0,0 +1,57 @@
+import { backend } from '@/lib/backend'
+import { serializeWidgets, type DashboardWidget } from '@/lib/dashboard-widgets'
+import type { DashboardLayout } from './types'
+import { expectUpdated } from './writes'
+
+// Layouts belong to a workspace. RLS lets users read their own layouts and
+// the ones shared with their team, and change only their own
+
+export const listDashboardLayouts = async (workspaceId: string, userId: string): Promise<DashboardLayout[]> => {
+  const { rows } = await backend.tables.select('dashboard_layouts', {
+    filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+    order: [{ column: 'name', ascending: true }],
+  })
+  // The local backend has no RLS
+  return rows.filter(layout => layout.owner_id === userId || layout.shared)
+}
+
+const assertName = (name: string) => {
+  if (!name.trim()) throw new Error('Give the layout a name')
+}
+
+export const createDashboardLayout = async (
+  workspaceId: string,
+  userId: string,
+  layout: { name: string; widgets: DashboardWidget[]; shared?: boolean }
+): Promise<DashboardLayout> => {
+  assertName(layout.name)
+  const [created] = await backend.tables.insert('dashboard_layouts', {
+    owner_id: userId,
+    workspace_id: workspaceId,
+    name: layout.name.trim(),
+    widgets: serializeWidgets(layout.widgets),
+    shared: layout.shared ?? false,
+  })
+  return created
+}
+
+export const updateDashboardLayout = async (
+  layoutId: string,
+  values: { name?: string; widgets?: DashboardWidget[]; shared?: boolean }
+) => {
+  if (values.name !== undefined) assertName(values.name)
+  expectUpdated(await backend.tables.update(
+    'dashboard_layouts',
+    {
+      ...(values.name !== undefined ? { name: values.name.trim() } : {}),
+      ...(values.widgets !== undefined ? { widgets: serializeWidgets(values.widgets) } : {}),
+      ...(values.shared !== undefined ? { shared: values.shared } : {}),
+      updated_at: new Date().toISOString(),
+    },
+    [{ op: 'eq', column: 'id', value: layoutId }]
+  ))
+}
+
+export const deleteDashboardLayout = async (layoutId: string) => {
+  expectUpdated(await backend.tables.delete('dashboard_layouts', [{ op: 'eq', column: 'id', value: layoutId }]))
+}
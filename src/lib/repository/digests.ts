@@ -0,0 +1,57 @@
+import { backend } from '@/lib/backend'
+import { getDigestSubject, renderDigestHtml } from '@/lib/digest'
+import { buildDigest } from '@/lib/digest-job'
+import type { Formatter } from '@/lib/format'
+import type { DigestDelivery } from './types'
+
+// RLS restricts subscriptions and deliveries to the signed-in user's own rows.
+// Deliveries are only ever written by the digest job.
+
+// Digests are written in the timezone chosen in Settings, kept in user_settings
+export interface DigestPreferences {
+  weeklyEnabled: boolean
+}
+
+/** How many past deliveries Settings lists */
+export const DIGEST_HISTORY_LIMIT = 10
+
+/** Users without a subscription row get the digest */
+export const getDigestPreferences = async (userId: string): Promise<DigestPreferences> => {
+  const { rows } = await backend.tables.select('digest_subscriptions', {
+    filters: [{ op: 'eq', column: 'user_id', value: userId }],
+    limit: 1,
+  })
+  if (!rows.length) return { weeklyEnabled: true }
+  return { weeklyEnabled: rows[0].weekly_enabled }
+}
+
+export const saveDigestPreferences = async (userId: string, preferences: DigestPreferences) => {
+  const values = {
+    weekly_enabled: preferences.weeklyEnabled,
+    updated_at: new Date().toISOString(),
+  }
+  const updated = await backend.tables.update('digest_subscriptions', values, [
+    { op: 'eq', column: 'user_id', value: userId },
+  ])
+  if (!updated.length) await backend.tables.insert('digest_subscriptions', { user_id: userId, ...values })
+}
+
+export const listDigestDeliveries = async (userId: string): Promise<DigestDelivery[]> => {
+  const { rows } = await backend.tables.select('digest_deliveries', {
+    filters: [{ op: 'eq', column: 'user_id', value: userId }],
+    order: [{ column: 'sent_at', ascending: false }],
+    limit: DIGEST_HISTORY_LIMIT,
+  })
+  return rows
+}
+
+/** The email the user would get for last week in the workspace, rendered without sending it */
+export const previewDigest = async (workspaceId: string, userId: string, format: Formatter): Promise<{ subject: string; html: string }> => {
+  const { rows } = await backend.tables.select('users', {
+    filters: [{ op: 'eq', column: 'id', value: userId }],
+    limit: 1,
+  })
+  if (!rows.length) throw new Error('User profile not found')
+  const digest = await buildDigest(backend, rows[0], workspaceId, format.preferences.timezone)
+  return { subject: getDigestSubject(digest, format), html: renderDigestHtml(digest, window.location.origin, format) }
+}
@@ -0,0 +1,229 @@
+import { backend, type Filter, type SelectFilter } from '@/lib/backend'
+import { canTransition, OPEN_STATUSES, STATUS_META } from '@/lib/feedback-status'
+import { inChunks } from './chunks'
+import { getRatingBounds } from './filters'
+import { expectUpdated } from './writes'
+import type { Actor, Feedback, FeedbackFilters, FeedbackStatus, FeedbackStatusEvent, Page, ReceivedBounds } from './types'
+
+// RLS restricts feedback to the workspaces the signed-in user belongs to;
+// lists and counts cover the given one. Lookups by id need no scope.
+
+const inWorkspace = (workspaceId: string): Filter<Feedback> => ({ op: 'eq', column: 'workspace_id', value: workspaceId })
+
+const toQueryFilters = (workspaceId: string, filters: FeedbackFilters): SelectFilter<Feedback>[] => {
+  const query: SelectFilter<Feedback>[] = [inWorkspace(workspaceId)]
+
+  if (filters.search?.trim()) {
+    query.push({
+      op: 'search',
+      columns: ['subject', 'sender_name', 'sender_email', 'feedback_summary'],
+      value: filters.search,
+    })
+  }
+
+  if (filters.status === 'open') {
+    query.push({ op: 'in', column: 'status', value: OPEN_STATUSES })
+  } else if (filters.status && filters.status !== 'all') {
+    query.push({ op: 'eq', column: 'status', value: filters.status })
+  }
+
+  if (filters.assigneeId === null) {
+    query.push({ op: 'isNull', column: 'assignee_id' })
+  } else if (filters.assigneeId) {
+    query.push({ op: 'eq', column: 'assignee_id', value: filters.assigneeId })
+  }
+
+  if (filters.sender?.trim()) {
+    query.push({ op: 'search', columns: ['sender_name', 'sender_email'], value: filters.sender })
+  }
+
+  const rating = getRatingBounds(filters.rating)
+  if (rating?.min !== undefined) query.push({ op: 'gte', column: 'average_rating', value: rating.min })
+  if (rating?.max !== undefined) query.push({ op: 'lt', column: 'average_rating', value: rating.max })
+
+  // Bounds come from the shared date range, already resolved in the chosen timezone
+  if (filters.receivedFrom) query.push({ op: 'gte', column: 'received_at', value: filters.receivedFrom })
+  if (filters.receivedBefore) query.push({ op: 'lt', column: 'received_at', value: filters.receivedBefore })
+
+  // Joined in the database, however much feedback carries the tags
+  if (filters.tagIds?.length) {
+    query.push({ op: 'related', table: 'feedback_tags', foreignKey: 'feedback_id', column: 'tag_id', value: filters.tagIds })
+  }
+
+  return query
+}
+
+// Uses idx_feedbacks_received_at for the default ordering
+const toOrder = (filters: FeedbackFilters) => [
+  { column: filters.sortBy ?? 'received_at', ascending: filters.sortOrder === 'asc' },
+]
+
+export const listFeedbackPage = async (
+  workspaceId: string,
+  filters: FeedbackFilters,
+  page: number,
+  pageSize: number
+): Promise<Page<Feedback>> => {
+  const from = (page - 1) * pageSize
+  const { rows, count } = await backend.tables.select('feedbacks', {
+    filters: toQueryFilters(workspaceId, filters),
+    order: toOrder(filters),
+    range: { from, to: from + pageSize - 1 },
+    count: true,
+  })
+
+  return {
+    rows,
+    totalCount: count ?? 0,
+    totalPages: Math.ceil((count ?? 0) / pageSize),
+  }
+}
+
+export const searchFeedbacks = async (workspaceId: string, filters: FeedbackFilters, limit = 50): Promise<Feedback[]> => {
+  const { rows } = await backend.tables.select('feedbacks', {
+    filters: toQueryFilters(workspaceId, filters),
+    order: toOrder(filters),
+    limit,
+  })
+  return rows
+}
+
+/** The latest feedback received within the bounds */
+export const listRecentFeedbacks = async (workspaceId: string, bounds: ReceivedBounds, limit: number): Promise<Feedback[]> =>
+  searchFeedbacks(workspaceId, bounds, limit)
+
+// The API caps rows per response, so whole result sets are read in batches
+const MATCHING_BATCH_SIZE = 500
+
+/**
+ * Every feedback matching the filters, unpaginated, for acting on a whole
+ * result set. onProgress gets the rows loaded so far and the total.
+ */
+export const listMatchingFeedbacks = async (
+  workspaceId: string,
+  filters: FeedbackFilters,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<Feedback[]> => {
+  const queryFilters = toQueryFilters(workspaceId, filters)
+  // id breaks ties so batches never overlap or skip rows with equal sort values
+  const order = [...toOrder(filters), { column: 'id' as const, ascending: true }]
+  const rows: Feedback[] = []
+  let total = Infinity
+
+  while (rows.length < total) {
+    const batch = await backend.tables.select('feedbacks', {
+      filters: queryFilters,
+      order,
+      range: { from: rows.length, to: rows.length + MATCHING_BATCH_SIZE - 1 },
+      count: rows.length === 0,
+    })
+    if (batch.count !== null) total = batch.count
+    rows.push(...batch.rows)
+    onProgress?.(rows.length, Number.isFinite(total) ? Math.max(total, rows.length) : rows.length)
+    if (batch.rows.length < MATCHING_BATCH_SIZE) break
+  }
+
+  return rows
+}
+
+export const listFeedbackIds = async (workspaceId: string, filters: FeedbackFilters): Promise<string[]> =>
+  (await listMatchingFeedbacks(workspaceId, filters)).map(feedback => feedback.id)
+
+/**
+ * The listed feedback, newest first, loaded a chunk of ids at a time so long
+ * selections stay within the URL length limit. onProgress as for listMatchingFeedbacks.
+ */
+export const listFeedbacksByIds = async (
+  feedbackIds: string[],
+  onProgress?: (loaded: number, total: number) => void
+): Promise<Feedback[]> => {
+  let loaded = 0
+  const rows = await inChunks(feedbackIds, async chunk => {
+    const batch = await backend.tables.select('feedbacks', {
+      filters: [{ op: 'in', column: 'id', value: chunk }],
+    })
+    loaded += chunk.length
+    onProgress?.(loaded, feedbackIds.length)
+    return batch.rows
+  })
+  return rows.sort((a, b) => b.received_at.localeCompare(a.received_at))
+}
+
+export const countFeedbacks = async (workspaceId: string, filters: FeedbackFilters): Promise<number> => {
+  const { count } = await backend.tables.select('feedbacks', {
+    filters: toQueryFilters(workspaceId, filters),
+    count: true,
+    head: true,
+  })
+  return count ?? 0
+}
+
+export const countUnprocessedFeedbacks = async (workspaceId: string): Promise<number> => {
+  const { count } = await backend.tables.select('feedbacks', {
+    filters: [inWorkspace(workspaceId), { op: 'isNull', column: 'processed_at' }],
+    count: true,
+    head: true,
+  })
+  return count ?? 0
+}
+
+export const markFeedbackProcessed = async (feedbackId: string) => {
+  expectUpdated(await backend.tables.update(
+    'feedbacks',
+    { processed_at: new Date().toISOString() },
+    [{ op: 'eq', column: 'id', value: feedbackId }]
+  ))
+}
+
+export const assignFeedback = async (feedbackId: string, assigneeId: string | null) => {
+  expectUpdated(await backend.tables.update(
+    'feedbacks',
+    { assignee_id: assigneeId },
+    [{ op: 'eq', column: 'id', value: feedbackId }]
+  ))
+}
+
+const getFeedback = async (feedbackId: string): Promise<Feedback> => {
+  const { rows } = await backend.tables.select('feedbacks', {
+    filters: [{ op: 'eq', column: 'id', value: feedbackId }],
+    limit: 1,
+  })
+  if (!rows.length) throw new Error('Feedback not found')
+  return rows[0]
+}
+
+export const changeFeedbackStatus = async (feedbackId: string, status: FeedbackStatus, actor: Actor) => {
+  const feedback = await getFeedback(feedbackId)
+  if (!canTransition(feedback.status, status)) {
+    throw new Error(`Cannot move feedback from ${STATUS_META[feedback.status].label} to ${STATUS_META[status].label}`)
+  }
+
+  const now = new Date().toISOString()
+  expectUpdated(await backend.tables.update(
+    'feedbacks',
+    {
+      status,
+      // Leaving "new" means someone has read it
+      processed_at: feedback.processed_at ?? now,
+      resolved_at: status === 'resolved' ? now : status === 'archived' ? feedback.resolved_at : null,
+    },
+    [{ op: 'eq', column: 'id', value: feedbackId }]
+  ))
+
+  await backend.tables.insert('feedback_status_events', {
+    feedback_id: feedbackId,
+    from_status: feedback.status,
+    to_status: status,
+    changed_by: actor.id,
+    changed_by_name: actor.name,
+    changed_at: now,
+  })
+}
+
+export const listFeedbackStatusEvents = async (feedbackId: string): Promise<FeedbackStatusEvent[]> => {
+  const { rows } = await backend.tables.select('feedback_status_events', {
+    filters: [{ op: 'eq', column: 'feedback_id', value: feedbackId }],
+    order: [{ column: 'changed_at', ascending: false }],
+  })
+  return rows
+}
@@ -0,0 +1,24 @@
+import type { RatingFilter } from './types'
+
+interface RatingBounds {
+  min?: number
+  max?: number
+}
+
+const RATING_BOUNDS: Record<Exclude<RatingFilter, 'all'>, RatingBounds> = {
+  '4+': { min: 4 },
+  '3+': { min: 3, max: 4 },
+  '2+': { min: 2, max: 3 },
+  '1+': { max: 2 },
+  '5': { min: 4.5 },
+  '4': { min: 3.5, max: 4.5 },
+  '3': { min: 2.5, max: 3.5 },
+  '2': { min: 1.5, max: 2.5 },
+  '1': { max: 1.5 },
+}
+
+// Lower bound is inclusive, upper bound exclusive
+export const getRatingBounds = (filter: RatingFilter | undefined): RatingBounds | null => {
+  if (!filter || filter === 'all') return null
+  return RATING_BOUNDS[filter] ?? null
+}
@@ -0,0 +1,19 @@
+// Data access for the dashboard. Components go through these modules
+// (or the hooks built on them) instead of calling the backend directly.
+export * from './types'
+export * from './filters'
+export * from './keys'
+export * from './feedbacks'
+export * from './issues'
+export * from './users'
+export * from './tags'
+export * from './bulk'
+export * from './clustering'
+export * from './analytics'
+export * from './sentiment'
+export * from './dashboard-layouts'
+export * from './digests'
+export * from './user-settings'
+export * from './workspaces'
+export * from './invitations'
+export * from './realtime'
@@ -0,0 +1,42 @@
+import { backend } from '@/lib/backend'
+import type { InvitationDetails, WorkspaceInvitation, WorkspaceRole } from './types'
+
+// Invitations are created, resent, revoked and accepted only through the
+// database functions, which check the caller's role and the token
+
+/** Invitations of the workspace not yet accepted or revoked, newest first; expired ones included */
+export const listOpenInvitations = async (workspaceId: string): Promise<WorkspaceInvitation[]> => {
+  const { rows } = await backend.tables.select('workspace_invitations', {
+    filters: [
+      { op: 'eq', column: 'workspace_id', value: workspaceId },
+      { op: 'isNull', column: 'accepted_at' },
+      { op: 'isNull', column: 'revoked_at' },
+    ],
+    order: [{ column: 'created_at', ascending: false }],
+  })
+  return rows
+}
+
+/** Invites the address to the workspace; resolves to the invitation id */
+export const inviteWorkspaceMember = (workspaceId: string, email: string, role: WorkspaceRole): Promise<string> =>
+  backend.functions.call('invite_workspace_member', {
+    p_workspace_id: workspaceId,
+    p_email: email.trim(),
+    p_role: role,
+  })
+
+export const resendInvitation = (invitationId: string): Promise<void> =>
+  backend.functions.call('resend_workspace_invitation', { p_invitation_id: invitationId })
+
+export const revokeInvitation = (invitationId: string): Promise<void> =>
+  backend.functions.call('revoke_workspace_invitation', { p_invitation_id: invitationId })
+
+/** What the acceptance page shows for a token; null when no invitation has it. Works signed out. */
+export const getInvitation = async (token: string): Promise<InvitationDetails | null> => {
+  const [invitation] = await backend.functions.call('get_workspace_invitation', { p_token: token })
+  return invitation ?? null
+}
+
+/** Joins the signed-in user to the invitation's workspace; resolves to its id */
+export const acceptInvitation = (token: string): Promise<string> =>
+  backend.functions.call('accept_workspace_invitation', { p_token: token })
@@ -0,0 +1,166 @@
+import { backend } from '@/lib/backend'
+import { CLOSED_ISSUE_STATUSES } from '@/lib/issue-lifecycle'
+import { inChunks } from './chunks'
+import { listFeedbacksByIds } from './feedbacks'
+import { getUsername } from './users'
+import { expectUpdated } from './writes'
+import type { Actor, Feedback, FeedbackIssueLink, Issue, IssueEvent, Update } from './types'
+
+// RLS restricts issues to the workspaces the signed-in user belongs to
+
+export const listIssues = async (workspaceId: string): Promise<Issue[]> => {
+  const { rows } = await backend.tables.select('current_issues', {
+    filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+    order: [{ column: 'created_at', ascending: false }], // Uses idx_current_issues_workspace
+  })
+  return rows
+}
+
+/** Fields a user can edit; every change to them is recorded in issue_events */
+export const TRACKED_ISSUE_FIELDS = [
+  'issue_title',
+  'description',
+  'status',
+  'priority_override',
+  'assignee_id',
+  'due_date',
+] as const
+
+export type IssueChanges = Pick<Update<'current_issues'>, (typeof TRACKED_ISSUE_FIELDS)[number]>
+
+const getIssue = async (issueId: string): Promise<Issue> => {
+  const { rows } = await backend.tables.select('current_issues', {
+    filters: [{ op: 'eq', column: 'id', value: issueId }],
+    limit: 1,
+  })
+  if (!rows.length) throw new Error('Issue not found')
+  return rows[0]
+}
+
+export const updateIssue = async (issueId: string, changes: IssueChanges, actor: Actor) => {
+  const issue = await getIssue(issueId)
+  const changed = TRACKED_ISSUE_FIELDS.filter(
+    field => changes[field] !== undefined && (changes[field] ?? null) !== issue[field]
+  )
+  if (!changed.length) return
+
+  const now = new Date().toISOString()
+  const values: Update<'current_issues'> = { updated_at: now }
+  changed.forEach(field => {
+    Object.assign(values, { [field]: changes[field] })
+  })
+  if (changes.status && changed.includes('status')) {
+    // Moving between fixed and won't fix keeps the original close time
+    const wasClosed = CLOSED_ISSUE_STATUSES.includes(issue.status)
+    values.resolved_at = CLOSED_ISSUE_STATUSES.includes(changes.status) ? (wasClosed ? issue.resolved_at : now) : null
+  }
+
+  expectUpdated(await backend.tables.update('current_issues', values, [{ op: 'eq', column: 'id', value: issueId }]))
+  await backend.tables.insert(
+    'issue_events',
+    changed.map(field => ({
+      issue_id: issueId,
+      field,
+      from_value: issue[field],
+      to_value: changes[field] ?? null,
+      changed_by: actor.id,
+      changed_by_name: actor.name,
+      changed_at: now,
+    }))
+  )
+}
+
+export const createIssue = async (workspaceId: string, userId: string, title: string, details: IssueChanges = {}): Promise<Issue> => {
+  const username = await getUsername(userId)
+  const [issue] = await backend.tables.insert('current_issues', {
+    ...details,
+    username,
+    workspace_id: workspaceId,
+    issue_title: title,
+  })
+  return issue
+}
+
+export const listIssueEvents = async (issueId: string): Promise<IssueEvent[]> => {
+  const { rows } = await backend.tables.select('issue_events', {
+    filters: [{ op: 'eq', column: 'issue_id', value: issueId }],
+    order: [{ column: 'changed_at', ascending: false }],
+  })
+  return rows
+}
+
+export const deleteIssue = async (issueId: string) => {
+  // The database cascades this, but the local backend has no foreign keys
+  await backend.tables.delete('feedback_issues', [{ op: 'eq', column: 'issue_id', value: issueId }])
+  await backend.tables.delete('issue_events', [{ op: 'eq', column: 'issue_id', value: issueId }])
+  await backend.tables.delete('current_issues', [{ op: 'eq', column: 'id', value: issueId }])
+}
+
+/**
+ * Links every listed feedback to the issue, skipping existing links.
+ * Resolves to the ids that were newly linked.
+ */
+export const linkFeedbacksToIssue = async (
+  issueId: string,
+  feedbackIds: string[],
+  linkedBy: string,
+  autoLinked = false
+): Promise<string[]> => {
+  const existing = await inChunks(feedbackIds, async chunk => {
+    const { rows } = await backend.tables.select('feedback_issues', {
+      filters: [
+        { op: 'eq', column: 'issue_id', value: issueId },
+        { op: 'in', column: 'feedback_id', value: chunk },
+      ],
+    })
+    return rows
+  })
+  const alreadyLinked = new Set(existing.map(link => link.feedback_id))
+  const toInsert = feedbackIds.filter(id => !alreadyLinked.has(id))
+  if (!toInsert.length) return []
+
+  await backend.tables.insert(
+    'feedback_issues',
+    toInsert.map(feedbackId => ({ feedback_id: feedbackId, issue_id: issueId, linked_by: linkedBy, auto_linked: autoLinked }))
+  )
+  return toInsert
+}
+
+export const unlinkFeedbacksFromIssue = async (issueId: string, feedbackIds: string[]) => {
+  await backend.tables.delete('feedback_issues', [
+    { op: 'eq', column: 'issue_id', value: issueId },
+    { op: 'in', column: 'feedback_id', value: feedbackIds },
+  ])
+}
+
+/** Issue links of the given feedback */
+export const listFeedbackIssueLinks = async (feedbackIds: string[]): Promise<FeedbackIssueLink[]> => {
+  const { rows } = await backend.tables.select('feedback_issues', {
+    filters: [{ op: 'in', column: 'feedback_id', value: feedbackIds }],
+  })
+  return rows
+}
+
+/** Feedback linked to an issue, newest first */
+export const listIssueFeedback = async (issueId: string): Promise<Feedback[]> => {
+  const { rows } = await backend.tables.select('feedback_issues', {
+    filters: [{ op: 'eq', column: 'issue_id', value: issueId }],
+  })
+  if (!rows.length) return []
+  return listFeedbacksByIds(rows.map(link => link.feedback_id))
+}
+
+export const countFeedbackPerIssue = async (issueIds: string[]): Promise<Record<string, number>> => {
+  const rows = await inChunks(issueIds, async chunk => {
+    const { rows } = await backend.tables.select('feedback_issues', {
+      filters: [{ op: 'in', column: 'issue_id', value: chunk }],
+    })
+    return rows
+  })
+
+  const counts: Record<string, number> = Object.fromEntries(issueIds.map(id => [id, 0]))
+  rows.forEach(link => {
+    counts[link.issue_id] += 1
+  })
+  return counts
+}
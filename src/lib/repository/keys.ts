@@ -0,0 +1,141 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query'
+import type { FormatPreferences } from '@/lib/format'
+import type { ComparisonWindow } from '@/lib/metrics'
+import type { ReportRange } from '@/lib/report'
+import type { FeedbackFilters, ReceivedBounds } from './types'
+
+// Every key starts with its table scope so a whole table can be invalidated by
+// prefix. Keys of workspace data carry the workspace id after their kind, so
+// each workspace's data is cached apart and switching never shows another's.
+export const queryKeys = {
+  feedbacks: {
+    all: ['feedbacks'] as const,
+    page: (workspaceId: string, filters: FeedbackFilters, page: number) => ['feedbacks', 'page', workspaceId, filters, page] as const,
+    search: (workspaceId: string, filters: FeedbackFilters) => ['feedbacks', 'search', workspaceId, filters] as const,
+    count: (workspaceId: string, filters: FeedbackFilters) => ['feedbacks', 'count', workspaceId, filters] as const,
+    unprocessedCount: (workspaceId: string) => ['feedbacks', 'unprocessed-count', workspaceId] as const,
+    statusEvents: (feedbackId: string) => ['feedbacks', 'status-events', feedbackId] as const,
+    recent: (workspaceId: string, bounds: ReceivedBounds, limit: number) => ['feedbacks', 'recent', workspaceId, bounds, limit] as const,
+    // Aggregates live under the feedbacks scope so feedback changes refresh them
+    trends: (workspaceId: string, window: ComparisonWindow) => ['feedbacks', 'trends', workspaceId, window] as const,
+    summary: (workspaceId: string, bounds: ReceivedBounds) => ['feedbacks', 'summary', workspaceId, bounds] as const,
+    daily: (workspaceId: string, bounds: ReceivedBounds, timezone: string) => ['feedbacks', 'daily', workspaceId, bounds, timezone] as const,
+    dailySurvey: (workspaceId: string, bounds: ReceivedBounds, timezone: string) => ['feedbacks', 'daily-survey', workspaceId, bounds, timezone] as const,
+    weekday: (workspaceId: string, bounds: ReceivedBounds, timezone: string) => ['feedbacks', 'weekday', workspaceId, bounds, timezone] as const,
+    hourly: (workspaceId: string, bounds: ReceivedBounds, timezone: string) => ['feedbacks', 'hourly', workspaceId, bounds, timezone] as const,
+    ratingHistogram: (workspaceId: string, bounds: ReceivedBounds) => ['feedbacks', 'rating-histogram', workspaceId, bounds] as const,
+    sentiment: (workspaceId: string, bounds: ReceivedBounds) => ['feedbacks', 'sentiment', workspaceId, bounds] as const,
+    anomalies: (workspaceId: string, timezone: string) => ['feedbacks', 'anomalies', workspaceId, timezone] as const,
+    report: (workspaceId: string, range: ReportRange, timezone: string) => ['feedbacks', 'report', workspaceId, range, timezone] as const,
+  },
+  issues: {
+    all: ['issues'] as const,
+    list: (workspaceId: string) => ['issues', 'list', workspaceId] as const,
+    feedbackCounts: (issueIds: string[]) => ['issues', 'feedback-counts', issueIds] as const,
+    feedback: (issueId: string) => ['issues', 'feedback', issueId] as const,
+    links: (feedbackIds: string[]) => ['issues', 'links', feedbackIds] as const,
+    events: (issueId: string) => ['issues', 'events', issueId] as const,
+    clusterProposals: (workspaceId: string) => ['issues', 'cluster-proposals', workspaceId] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: (workspaceId: string) => ['users', 'list', workspaceId] as const,
+  },
+  sentimentSettings: {
+    all: ['sentiment-settings'] as const,
+    thresholds: (workspaceId: string) => ['sentiment-settings', 'thresholds', workspaceId] as const,
+  },
+  dashboardLayouts: {
+    all: ['dashboard-layouts'] as const,
+    list: (workspaceId: string) => ['dashboard-layouts', 'list', workspaceId] as const,
+  },
+  userSettings: {
+    all: ['user-settings'] as const,
+    detail: () => ['user-settings', 'detail'] as const,
+  },
+  digests: {
+    all: ['digests'] as const,
+    preferences: () => ['digests', 'preferences'] as const,
+    deliveries: () => ['digests', 'deliveries'] as const,
+    preview: (workspaceId: string, preferences: FormatPreferences) => ['digests', 'preview', workspaceId, preferences] as const,
+  },
+  tags: {
+    all: ['tags'] as const,
+    list: (workspaceId: string) => ['tags', 'list', workspaceId] as const,
+    feedbackTags: (feedbackIds: string[]) => ['tags', 'feedback-tags', feedbackIds] as const,
+    feedbackCounts: (workspaceId: string) => ['tags', 'feedback-counts', workspaceId] as const,
+  },
+  workspaces: {
+    all: ['workspaces'] as const,
+    mine: () => ['workspaces', 'mine'] as const,
+  },
+  workspaceMembers: {
+    all: ['workspace-members'] as const,
+    list: (workspaceId: string) => ['workspace-members', 'list', workspaceId] as const,
+  },
+  invitations: {
+    all: ['invitations'] as const,
+    open: (workspaceId: string) => ['invitations', 'open', workspaceId] as const,
+    byToken: (token: string) => ['invitations', 'token', token] as const,
+  },
+}
+
+/** Like keepPreviousData, but what another workspace loaded never stands in for this one's */
+export const keepPreviousInWorkspace =
+  (workspaceId: string) =>
+  <T>(previousData: T | undefined, previousQuery?: { queryKey: QueryKey }): T | undefined =>
+    previousQuery?.queryKey[2] === workspaceId ? previousData : undefined
+
+export const invalidateFeedbacks = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.feedbacks.all }),
+    // Deleting feedback drops its issue and tag links, linked lists show feedback
+    // fields, and new feedback changes which clusters are proposed and which
+    // feedback tag keyword rules match
+    queryClient.invalidateQueries({ queryKey: ['issues', 'feedback-counts'] }),
+    queryClient.invalidateQueries({ queryKey: ['issues', 'feedback'] }),
+    queryClient.invalidateQueries({ queryKey: ['issues', 'cluster-proposals'] }),
+    queryClient.invalidateQueries({ queryKey: ['tags', 'feedback-counts'] }),
+  ])
+
+export const invalidateIssues = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.issues.all })
+
+export const invalidateUsers = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.users.all })
+
+export const invalidateTags = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.tags.all }),
+    // Tag filters change which feedback lists match
+    queryClient.invalidateQueries({ queryKey: queryKeys.feedbacks.all }),
+  ])
+
+export const invalidateSentimentSettings = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.sentimentSettings.all }),
+    // Thresholds decide the sentiment buckets of the aggregates
+    queryClient.invalidateQueries({ queryKey: queryKeys.feedbacks.all }),
+  ])
+
+export const invalidateDashboardLayouts = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.dashboardLayouts.all })
+
+export const invalidateDigests = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.digests.all })
+
+export const invalidateUserSettings = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.userSettings.all })
+
+export const invalidateInvitations = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.invitations.all })
+
+export const invalidateWorkspaces = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.workspaceMembers.all }),
+    // Accepting an invitation closes it
+    queryClient.invalidateQueries({ queryKey: queryKeys.invitations.all }),
+    // Assignee pickers list the workspace's members
+    queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  ])
@@ -0,0 +1,26 @@
+import { backend } from '@/lib/backend'
+import type { Feedback, Issue } from './types'
+
+interface InsertHandlers {
+  onFeedback?: (feedback: Feedback) => void
+  onIssue?: (issue: Issue) => void
+}
+
+// RLS limits realtime payloads to the signed-in user's workspaces; only
+// rows of the given one are passed on
+export const subscribeToInserts = (workspaceId: string, channelName: string, handlers: InsertHandlers) => {
+  const inWorkspace = (row: { workspace_id: string }) => row.workspace_id === workspaceId
+
+  return backend.realtime.subscribe(channelName, [
+    {
+      table: 'feedbacks',
+      event: 'INSERT',
+      handler: (feedback) => inWorkspace(feedback) && handlers.onFeedback?.(feedback),
+    },
+    {
+      table: 'current_issues',
+      event: 'INSERT',
+      handler: (issue) => inWorkspace(issue) && handlers.onIssue?.(issue),
+    },
+  ])
+}
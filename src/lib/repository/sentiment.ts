@@ -0,0 +1,67 @@
+import { backend } from '@/lib/backend'
+import { translate } from '@/lib/i18n'
+import { DEFAULT_SENTIMENT_THRESHOLDS, getTextScore, validateThresholds, type SentimentThresholds } from '@/lib/sentiment'
+import type { Feedback } from './types'
+
+// Thresholds belong to the workspace: members read them, and RLS lets only
+// its owners change them
+
+export const getSentimentThresholds = async (workspaceId: string): Promise<SentimentThresholds> => {
+  const { rows } = await backend.tables.select('sentiment_settings', {
+    filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+    limit: 1,
+  })
+  if (!rows.length) return DEFAULT_SENTIMENT_THRESHOLDS
+  return { positive: Number(rows[0].positive_threshold), negative: Number(rows[0].negative_threshold) }
+}
+
+export const saveSentimentThresholds = async (workspaceId: string, thresholds: SentimentThresholds) => {
+  const error = validateThresholds(thresholds)
+  if (error) throw new Error(translate(error))
+
+  const values = {
+    positive_threshold: thresholds.positive,
+    negative_threshold: thresholds.negative,
+    updated_at: new Date().toISOString(),
+  }
+  const updated = await backend.tables.update('sentiment_settings', values, [
+    { op: 'eq', column: 'workspace_id', value: workspaceId },
+  ])
+  if (!updated.length) await backend.tables.insert('sentiment_settings', { workspace_id: workspaceId, ...values })
+}
+
+// Feedback scored per request while catching up on unscored feedback
+const SCORING_BATCH_SIZE = 200
+
+/**
+ * Stores the text score of each feedback and marks it scored. Feedback
+ * without text keeps a null score, so aggregates fall back to its rating.
+ * Resolves to the number of feedback scored.
+ */
+export const scoreFeedbackSentiment = async (feedbacks: Pick<Feedback, 'id' | 'subject' | 'feedback_summary'>[]) => {
+  if (!feedbacks.length) return 0
+  const scores = feedbacks.map(feedback => ({ id: feedback.id, score: getTextScore(feedback) }))
+  return backend.functions.call('set_sentiment_scores', { p_scores: scores })
+}
+
+/**
+ * Scores feedback that arrived before scoring existed, or while no dashboard
+ * was open, newest first and a batch at a time
+ */
+export const scoreUnscoredFeedback = async (workspaceId: string): Promise<number> => {
+  let total = 0
+  for (;;) {
+    const { rows } = await backend.tables.select('feedbacks', {
+      filters: [
+        { op: 'eq', column: 'workspace_id', value: workspaceId },
+        { op: 'isNull', column: 'sentiment_scored_at' },
+      ],
+      order: [{ column: 'received_at', ascending: false }],
+      limit: SCORING_BATCH_SIZE,
+    })
+    const scored = await scoreFeedbackSentiment(rows)
+    total += scored
+    // A short batch was the last; one that could not all be stored would come back forever
+    if (rows.length < SCORING_BATCH_SIZE || scored < rows.length) return total
+  }
+}
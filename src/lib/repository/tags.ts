@@ -0,0 +1,99 @@
+import { backend } from '@/lib/backend'
+import type { FeedbackTag, Tag, TagFeedbackCount, Update } from './types'
+import { expectUpdated } from './writes'
+
+// Tags are shared by everyone in a workspace; RLS restricts them, and tag
+// links, to the workspaces the signed-in user belongs to
+
+export const listTags = async (workspaceId: string): Promise<Tag[]> => {
+  const { rows } = await backend.tables.select('tags', {
+    filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+    order: [{ column: 'name', ascending: true }],
+  })
+  return rows
+}
+
+const assertUniqueName = async (workspaceId: string, name: string, exceptTagId?: string) => {
+  const tags = await listTags(workspaceId)
+  const clash = tags.find(tag => tag.id !== exceptTagId && tag.name.toLowerCase() === name.trim().toLowerCase())
+  if (clash) throw new Error(`A tag named "${clash.name}" already exists`)
+}
+
+export const createTag = async (
+  workspaceId: string,
+  userId: string,
+  tag: Pick<Tag, 'name' | 'color' | 'keywords'>
+): Promise<Tag> => {
+  await assertUniqueName(workspaceId, tag.name)
+  const [created] = await backend.tables.insert('tags', {
+    ...tag,
+    name: tag.name.trim(),
+    user_id: userId,
+    workspace_id: workspaceId,
+  })
+  return created
+}
+
+export const updateTag = async (
+  workspaceId: string,
+  tagId: string,
+  values: Pick<Update<'tags'>, 'name' | 'color' | 'keywords'>
+) => {
+  if (values.name !== undefined) await assertUniqueName(workspaceId, values.name, tagId)
+  expectUpdated(await backend.tables.update(
+    'tags',
+    values.name !== undefined ? { ...values, name: values.name.trim() } : values,
+    [{ op: 'eq', column: 'id', value: tagId }]
+  ))
+}
+
+export const deleteTag = async (tagId: string) => {
+  // The database cascades this, but the local backend has no foreign keys
+  await backend.tables.delete('feedback_tags', [{ op: 'eq', column: 'tag_id', value: tagId }])
+  await backend.tables.delete('tags', [{ op: 'eq', column: 'id', value: tagId }])
+}
+
+/** Tag links of the given feedback */
+export const listFeedbackTags = async (feedbackIds: string[]): Promise<FeedbackTag[]> => {
+  const { rows } = await backend.tables.select('feedback_tags', {
+    filters: [{ op: 'in', column: 'feedback_id', value: feedbackIds }],
+  })
+  return rows
+}
+
+/** How much feedback of the workspace has each tag, and how much more its keyword rules match */
+export const listTagFeedbackCounts = (workspaceId: string): Promise<TagFeedbackCount[]> =>
+  backend.functions.call('tag_feedback_counts', { p_workspace_id: workspaceId })
+
+/** Tags all feedback the tag's keyword rules match; resolves to how many were newly tagged */
+export const applyTagRule = (tagId: string): Promise<number> =>
+  backend.functions.call('apply_tag_rule', { p_tag_id: tagId })
+
+/**
+ * Applies a tag to every listed feedback; feedback that already has it is left alone.
+ * Resolves to the ids that were newly tagged.
+ */
+export const tagFeedbacks = async (tagId: string, feedbackIds: string[], taggedBy: string): Promise<string[]> => {
+  const { rows: existing } = await backend.tables.select('feedback_tags', {
+    filters: [
+      { op: 'eq', column: 'tag_id', value: tagId },
+      { op: 'in', column: 'feedback_id', value: feedbackIds },
+    ],
+  })
+  const alreadyTagged = new Set(existing.map(link => link.feedback_id))
+  const toInsert = feedbackIds.filter(id => !alreadyTagged.has(id))
+  if (!toInsert.length) return []
+
+  await backend.tables.insert(
+    'feedback_tags',
+    toInsert.map(feedbackId => ({ feedback_id: feedbackId, tag_id: tagId, tagged_by: taggedBy }))
+  )
+  return toInsert
+}
+
+export const untagFeedbacks = async (tagId: string, feedbackIds: string[]) => {
+  await backend.tables.delete('feedback_tags', [
+    { op: 'eq', column: 'tag_id', value: tagId },
+    { op: 'in', column: 'feedback_id', value: feedbackIds },
+  ])
+}
@@ -0,0 +1,93 @@
+import type { Database } from '@/lib/supabase'
+
+type PublicTables = Database['public']['Tables']
+
+export type TableName = keyof PublicTables
+export type Row<T extends TableName> = PublicTables[T]['Row']
+export type Insert<T extends TableName> = PublicTables[T]['Insert']
+export type Update<T extends TableName> = PublicTables[T]['Update']
+
+type PublicFunctions = Database['public']['Functions']
+
+export type FunctionName = keyof PublicFunctions
+export type FunctionArgs<F extends FunctionName> = PublicFunctions[F]['Args']
+export type FunctionReturns<F extends FunctionName> = PublicFunctions[F]['Returns']
+
+export type Feedback = Row<'feedbacks'>
+export type FeedbackStatus = Database['public']['Enums']['feedback_status']
+export type FeedbackStatusEvent = Row<'feedback_status_events'>
+export type Issue = Row<'current_issues'>
+export type IssueStatus = Database['public']['Enums']['issue_status']
+export type IssuePriority = Database['public']['Enums']['issue_priority']
+export type IssueEvent = Row<'issue_events'>
+export type UserProfile = Row<'users'>
+export type Tag = Row<'tags'>
+export type FeedbackTag = Row<'feedback_tags'>
+export type FeedbackIssueLink = Row<'feedback_issues'>
+export type ClusterDismissal = Row<'cluster_dismissals'>
+export type SentimentSettings = Row<'sentiment_settings'>
+export type DashboardLayout = Row<'dashboard_layouts'>
+export type DigestSubscription = Row<'digest_subscriptions'>
+export type DigestDelivery = Row<'digest_deliveries'>
+export type UserSettingsRow = Row<'user_settings'>
+export type Workspace = Row<'workspaces'>
+export type WorkspaceMember = Row<'workspace_members'>
+export type WorkspaceRole = Database['public']['Enums']['workspace_role']
+export type WorkspaceInvitation = Row<'workspace_invitations'>
+export type FeedbackDeletion = Row<'feedback_deletions'>
+
+export type FeedbackSummary = FunctionReturns<'feedback_summary'>[number]
+export type DailyFeedbackCount = FunctionReturns<'feedback_daily_counts'>[number]
+export type DailySurveyMetrics = FunctionReturns<'feedback_daily_survey_metrics'>[number]
+export type WeekdayFeedbackCount = FunctionReturns<'feedback_weekday_counts'>[number]
+export type HourlyFeedbackCount = FunctionReturns<'feedback_hourly_counts'>[number]
+export type RatingHistogramBucket = FunctionReturns<'feedback_rating_histogram'>[number]
+export type SentimentCount = FunctionReturns<'feedback_sentiment_counts'>[number]
+export type IssueFeedbackCount = FunctionReturns<'issue_feedback_counts'>[number]
+export type TagFeedbackCount = FunctionReturns<'tag_feedback_counts'>[number]
+export type InvitationDetails = FunctionReturns<'get_workspace_invitation'>[number]
+export type Sentiment = SentimentCount['sentiment']
+
+/** The signed-in user performing a change, recorded in history tables */
+export interface Actor {
+  id: string
+  name: string
+}
+
+export type SortOrder = 'asc' | 'desc'
+export type FeedbackSortColumn = 'received_at' | 'average_rating' | 'sender_name' | 'subject'
+
+/**
+ * Rating bands used by the feedback table ("4+", "3+", ...) and by
+ * advanced search (whole stars "5" ... "1").
+ */
+export type RatingFilter = 'all' | '4+' | '3+' | '2+' | '1+' | '5' | '4' | '3' | '2' | '1'
+
+/** `open` matches every status that still needs work */
+export type StatusFilter = 'all' | 'open' | FeedbackStatus
+
+export interface FeedbackFilters {
+  search?: string
+  status?: StatusFilter
+  /** A user id, or null for unassigned feedback */
+  assigneeId?: string | null
+  /** Feedback carrying any of these tags */
+  tagIds?: string[]
+  sender?: string
+  rating?: RatingFilter
+  /** ISO timestamp; feedback received at or after it */
+  receivedFrom?: string
+  /** ISO timestamp; feedback received strictly before it */
+  receivedBefore?: string
+  sortBy?: FeedbackSortColumn
+  sortOrder?: SortOrder
+}
+
+/** The received-at window an aggregate covers */
+export type ReceivedBounds = Pick<FeedbackFilters, 'receivedFrom' | 'receivedBefore'>
+
+export interface Page<T> {
+  rows: T[]
+  totalCount: number
+  totalPages: number
+}
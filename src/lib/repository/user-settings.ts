@@ -0,0 +1,40 @@
+import { backend } from '@/lib/backend'
+import { DEFAULT_USER_SETTINGS, toUserSettings, toUserSettingsValues, type UserSettings } from '@/lib/user-settings'
+
+// RLS restricts settings to the signed-in user's own row
+
+export const getUserSettings = async (userId: string): Promise<UserSettings> => {
+  const { rows } = await backend.tables.select('user_settings', {
+    filters: [{ op: 'eq', column: 'user_id', value: userId }],
+    limit: 1,
+  })
+  return rows.length ? toUserSettings(rows[0]) : DEFAULT_USER_SETTINGS
+}
+
+/** Saves the fields given and leaves the rest as stored */
+export const saveUserSettings = async (userId: string, settings: Partial<UserSettings>) => {
+  const values = { ...toUserSettingsValues(settings), updated_at: new Date().toISOString() }
+  const updated = await backend.tables.update('user_settings', values, [
+    { op: 'eq', column: 'user_id', value: userId },
+  ])
+  if (!updated.length) await backend.tables.insert('user_settings', { user_id: userId, ...values })
+}
+
+/**
+ * Renames the signed-in user, in the users table (where issues follow the new
+ * username) and in their sign-in metadata, and asks to change their email.
+ * The users table only takes the new email once the sign-in address has
+ * changed, which a database trigger copies over after confirmation.
+ * Resolves to whether the new email still has to be confirmed.
+ */
+export const updateUserProfile = async (
+  profile: { username: string; email: string },
+  currentEmail: string
+): Promise<{ emailPending: boolean }> => {
+  await backend.functions.call('update_user_profile', { p_username: profile.username })
+  // Asking for the same address again would send another confirmation
+  return backend.auth.updateUser({
+    username: profile.username,
+    email: profile.email === currentEmail ? undefined : profile.email,
+  })
+}
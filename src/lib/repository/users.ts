@@ -0,0 +1,24 @@
+import { backend } from '@/lib/backend'
+import type { Insert } from './types'
+
+export const getUsername = async (userId: string): Promise<string> => {
+  const { rows } = await backend.tables.select('users', {
+    filters: [{ op: 'eq', column: 'id', value: userId }],
+    limit: 1,
+  })
+  if (!rows.length) throw new Error('User profile not found')
+  return rows[0].username
+}
+
+export const createUserProfile = async (profile: Insert<'users'>) => {
+  await backend.tables.insert('users', profile)
+}
+
+export const isUsernameAvailable = async (username: string): Promise<boolean> => {
+  const { count } = await backend.tables.select('users', {
+    filters: [{ op: 'eq', column: 'username', value: username }],
+    count: true,
+    head: true,
+  })
+  return !count
+}
@@ -0,0 +1,84 @@
+import { backend } from '@/lib/backend'
+import { WORKSPACE_ROLES } from '@/lib/workspace-roles'
+import type { UserProfile, Workspace, WorkspaceMember, WorkspaceRole } from './types'
+import { expectUpdated } from './writes'
+
+// Feedback, issues and tags belong to a workspace. Functions reading or writing
+// them take the workspace explicitly; hooks pass the one chosen in the sidebar
+// switcher and key their queries by it.
+
+export interface WorkspaceMembership extends Workspace {
+  /** The signed-in user's role in it */
+  role: WorkspaceRole
+}
+
+export interface WorkspaceMemberProfile extends WorkspaceMember {
+  username: string
+  email: string
+}
+
+/** The signed-in user's workspaces, oldest membership first */
+export const listMyWorkspaces = async (userId: string): Promise<WorkspaceMembership[]> => {
+  const { rows: memberships } = await backend.tables.select('workspace_members', {
+    filters: [{ op: 'eq', column: 'user_id', value: userId }],
+    order: [{ column: 'joined_at', ascending: true }],
+  })
+  if (!memberships.length) return []
+
+  const { rows: workspaces } = await backend.tables.select('workspaces', {
+    filters: [{ op: 'in', column: 'id', value: memberships.map(membership => membership.workspace_id) }],
+  })
+  return memberships.flatMap(membership => {
+    const workspace = workspaces.find(w => w.id === membership.workspace_id)
+    return workspace ? [{ ...workspace, role: membership.role }] : []
+  })
+}
+
+/** Creates a workspace owned by the signed-in user; resolves to its id */
+export const createWorkspace = (name: string): Promise<string> =>
+  backend.functions.call('create_workspace', { p_name: name.trim() })
+
+export const renameWorkspace = async (workspaceId: string, name: string) => {
+  expectUpdated(await backend.tables.update('workspaces', { name: name.trim() }, [{ op: 'eq', column: 'id', value: workspaceId }]))
+}
+
+/** Members of the workspace with their profiles, owners first */
+export const listWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMemberProfile[]> => {
+  const { rows: members } = await backend.tables.select('workspace_members', {
+    filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+    order: [{ column: 'joined_at', ascending: true }],
+  })
+  const profiles = await listMemberProfiles(members.map(member => member.user_id))
+  const rank = (role: WorkspaceRole) => WORKSPACE_ROLES.indexOf(role)
+
+  return members
+    .flatMap(member => {
+      const profile = profiles.find(p => p.id === member.user_id)
+      return profile ? [{ ...member, username: profile.username, email: profile.email }] : []
+    })
+    .sort((a, b) => rank(a.role) - rank(b.role))
+}
+
+const listMemberProfiles = async (userIds: string[]): Promise<UserProfile[]> => {
+  if (!userIds.length) return []
+  const { rows } = await backend.tables.select('users', {
+    filters: [{ op: 'in', column: 'id', value: userIds }],
+    order: [{ column: 'created_at', ascending: false }],
+  })
+  return rows
+}
+
+/** Profiles of everyone in the workspace, for assignee pickers and the like */
+export const listWorkspaceUsers = async (workspaceId: string): Promise<UserProfile[]> => {
+  const { rows: members } = await backend.tables.select('workspace_members', {
+    filters: [{ op: 'eq', column: 'workspace_id', value: workspaceId }],
+  })
+  return listMemberProfiles(members.map(member => member.user_id))
+}
+
+// Both are checked by the database functions, which keep at least one owner
+export const setWorkspaceMemberRole = (memberId: string, role: WorkspaceRole): Promise<void> =>
+  backend.functions.call('set_workspace_member_role', { p_member_id: memberId, p_role: role })
+
+export const removeWorkspaceMember = (memberId: string): Promise<void> =>
+  backend.functions.call('remove_workspace_member', { p_member_id: memberId })
@@ -0,0 +1,11 @@
+// Row-level security does not reject an update or delete the signed-in user
+// may not make: it matches no rows, and the backend reports success. Writes
+// meant to change particular rows check that they did.
+
+export const PERMISSION_ERROR = 'You do not have permission to make this change in this workspace'
+
+/** The updated (or deleted) rows, or a permission error when fewer than `expected` changed */
+export const expectUpdated = <T>(rows: T[], expected = 1): T[] => {
+  if (rows.length < expected) throw new Error(PERMISSION_ERROR)
+  return rows
+}
@@ -0,0 +1,131 @@
+import type { MessageKey } from '@/lib/i18n'
+import type { Feedback, Sentiment } from '@/lib/repository/types'
+
+/**
+ * Lexicon-based sentiment for feedback text. Each known word carries a
+ * valence; negations flip and intensifiers strengthen the next words, and
+ * the sum is squashed to a score between -1 and 1. Feedback without text
+ * falls back to its rating on the same scale, and feedback with neither is
+ * unrated. The database applies the same fallback when aggregating.
+ */
+
+export interface SentimentThresholds {
+  /** Scores at or above this are positive */
+  positive: number
+  /** Scores at or below this are negative */
+  negative: number
+}
+
+export const DEFAULT_SENTIMENT_THRESHOLDS: SentimentThresholds = { positive: 0.2, negative: -0.2 }
+
+export const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'unrated']
+
+export const SENTIMENT_META: Record<Sentiment, { label: string; color: string; badgeClass: string }> = {
+  positive: { label: 'Positive', color: '#00C49F', badgeClass: 'bg-green-100 text-green-800' },
+  neutral: { label: 'Neutral', color: '#FFBB28', badgeClass: 'bg-yellow-100 text-yellow-800' },
+  negative: { label: 'Negative', color: '#FF8042', badgeClass: 'bg-red-100 text-red-800' },
+  unrated: { label: 'Not Rated', color: '#94a3b8', badgeClass: 'bg-gray-100 text-gray-600' },
+}
+
+// Valences from -3 to 3, tuned for product feedback
+const LEXICON: Record<string, number> = {
+  love: 3, loved: 3, loving: 3, amazing: 3, excellent: 3, fantastic: 3, awesome: 3, perfect: 3, outstanding: 3,
+  great: 2.5, wonderful: 2.5, brilliant: 2.5, delighted: 2.5, superb: 2.5,
+  happy: 2, glad: 2, satisfied: 2, impressed: 2, recommend: 2, recommended: 2, enjoy: 2, enjoyed: 2,
+  helpful: 2, thanks: 1.5, thank: 1.5, appreciate: 2, appreciated: 2, pleased: 2, nice: 1.5, good: 1.5,
+  fast: 1.5, quick: 1.5, quickly: 1.5, easy: 1.5, clear: 1, smooth: 1.5, solid: 1.5, reliable: 1.5,
+  polite: 1.5, politely: 1.5, friendly: 1.5, intuitive: 1.5, works: 1, working: 0.5, useful: 1.5, resolved: 1,
+  fixed: 1, improved: 1.5, better: 1, fine: 0.5, ok: 0.5, okay: 0.5, like: 1, liked: 1.5, clean: 1,
+  hate: -3, hated: -3, terrible: -3, awful: -3, horrible: -3, worst: -3, useless: -3, unacceptable: -3,
+  furious: -3, disgusted: -3, scam: -3,
+  angry: -2.5, broken: -2.5, crash: -2.5, crashes: -2.5, crashed: -2.5, crashing: -2.5, disappointed: -2.5,
+  disappointing: -2.5, frustrated: -2.5, frustrating: -2.5, fails: -2, failing: -2, failed: -2, failure: -2,
+  bad: -2, poor: -2, annoying: -2, annoyed: -2, unhappy: -2, upset: -2, bug: -1.5, bugs: -1.5, buggy: -2,
+  error: -1.5, errors: -1.5, problem: -1.5, problems: -1.5, issue: -1, issues: -1, declined: -1.5,
+  slow: -1.5, slowly: -1.5, forever: -1, confusing: -1.5, confused: -1.5, unclear: -1.5, difficult: -1.5,
+  hard: -1, lost: -1.5, missing: -1, wrong: -1.5, worse: -2, cannot: -1, unable: -1.5, stuck: -1.5,
+  refund: -1, cancel: -1, rough: -0.5, complaint: -2, complain: -2, expensive: -1, laggy: -1.5,
+}
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'neither', 'nor', 'without', 'hardly', 'barely',
+  "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't", "won't", "can't", "couldn't", "shouldn't",
+])
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.3, really: 1.3, extremely: 1.5, so: 1.2, super: 1.3, totally: 1.3, completely: 1.3,
+  incredibly: 1.5, absolutely: 1.5, quite: 1.1, slightly: 0.6, somewhat: 0.7, bit: 0.7,
+}
+
+// How far back a negation or intensifier reaches
+const MODIFIER_WINDOW = 3
+// Negated words count less than their opposite ("not bad" is not "good")
+const NEGATION_FACTOR = -0.7
+// Larger values need more sentiment words to approach -1 or 1
+const NORMALIZATION_ALPHA = 15
+
+const tokenize = (text: string) => text.toLowerCase().match(/[a-z][a-z']*/g) ?? []
+
+/** Score of a text between -1 and 1; 0 when no sentiment words are found */
+export const scoreText = (text: string) => {
+  const tokens = tokenize(text)
+  let total = 0
+
+  tokens.forEach((token, index) => {
+    const valence = LEXICON[token]
+    if (valence === undefined) return
+
+    let weighted = valence
+    tokens.slice(Math.max(0, index - MODIFIER_WINDOW), index).forEach(previous => {
+      if (NEGATIONS.has(previous)) weighted *= NEGATION_FACTOR
+      else if (INTENSIFIERS[previous]) weighted *= INTENSIFIERS[previous]
+    })
+    total += weighted
+  })
+
+  return total / Math.sqrt(total * total + NORMALIZATION_ALPHA)
+}
+
+/** A 1-5 rating on the -1 to 1 scale of text scores */
+export const ratingToScore = (rating: number) => Math.max(-1, Math.min(1, (rating - 3) / 2))
+
+type SentimentFeedback = Pick<Feedback, 'subject' | 'feedback_summary' | 'average_rating' | 'sentiment_score'>
+
+/** The text that is scored: subject and summary, like tagging and clustering */
+export const getSentimentText = (feedback: Pick<Feedback, 'subject' | 'feedback_summary'>) =>
+  [feedback.subject, feedback.feedback_summary].filter(part => part?.trim()).join('. ')
+
+/** Text score, or null when the feedback has no text */
+export const getTextScore = (feedback: Pick<Feedback, 'subject' | 'feedback_summary'>) => {
+  const text = getSentimentText(feedback)
+  return text ? scoreText(text) : null
+}
+
+/** The stored score, else scored now, else the rating; null when there is nothing to go on */
+export const getSentimentScore = (feedback: SentimentFeedback) => {
+  if (feedback.sentiment_score !== null && feedback.sentiment_score !== undefined) {
+    return Number(feedback.sentiment_score)
+  }
+  const textScore = getTextScore(feedback)
+  if (textScore !== null) return textScore
+  return feedback.average_rating === null ? null : ratingToScore(Number(feedback.average_rating))
+}
+
+export const classifyScore = (score: number | null, thresholds: SentimentThresholds): Sentiment => {
+  if (score === null) return 'unrated'
+  if (score >= thresholds.positive) return 'positive'
+  if (score <= thresholds.negative) return 'negative'
+  return 'neutral'
+}
+
+export const classifySentiment = (feedback: SentimentFeedback, thresholds: SentimentThresholds) =>
+  classifyScore(getSentimentScore(feedback), thresholds)
+
+/** An error message for thresholds the database would reject, or null */
+export const validateThresholds = ({ positive, negative }: SentimentThresholds): MessageKey | null => {
+  if ([positive, negative].some(value => Number.isNaN(value) || value < -1 || value > 1)) {
+    return 'validation.thresholdsOutOfRange'
+  }
+  if (negative >= positive) return 'validation.thresholdsOrder'
+  return null
+}
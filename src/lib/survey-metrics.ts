@@ -0,0 +1,106 @@
+import type { Translate } from '@/lib/i18n'
+import type { Json } from '@/lib/supabase'
+import type { Feedback } from '@/lib/repository/types'
+
+/**
+ * Structured survey answers carried in raw_json next to the 1-5 rating:
+ * NPS (0-10 likelihood to recommend), CSAT (1-5 satisfaction) and
+ * CES (1-7 ease of getting things done, higher is easier). The database
+ * extracts them on insert with the same keys and ranges (survey_metrics
+ * migration); keep the two in step.
+ */
+
+export type SurveyMetric = 'nps' | 'csat' | 'ces'
+
+interface SurveyField {
+  column: 'nps_score' | 'csat_score' | 'ces_score'
+  keys: string[]
+  min: number
+  max: number
+}
+
+export const SURVEY_FIELDS: Record<SurveyMetric, SurveyField> = {
+  nps: { column: 'nps_score', keys: ['nps', 'nps_score', 'net_promoter_score', 'likelihood_to_recommend'], min: 0, max: 10 },
+  csat: { column: 'csat_score', keys: ['csat', 'csat_score', 'satisfaction', 'satisfaction_score'], min: 1, max: 5 },
+  ces: { column: 'ces_score', keys: ['ces', 'ces_score', 'customer_effort_score', 'effort_score'], min: 1, max: 7 },
+}
+
+// Answers are looked up at the top level first, then in these nested objects
+const CONTAINERS = ['survey', 'metrics', 'scores']
+
+const isObject = (value: Json | undefined): value is { [key: string]: Json | undefined } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toNumber = (value: Json | undefined) => {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) return Number(value)
+  return null
+}
+
+/** The first in-range answer under any of the field's keys, like the database's survey_value() */
+export const findSurveyValue = (raw: Json, field: Pick<SurveyField, 'keys' | 'min' | 'max'>) => {
+  if (!isObject(raw)) return null
+  const containers = [raw, ...CONTAINERS.map(name => raw[name])].filter(isObject)
+
+  for (const container of containers) {
+    for (const key of field.keys) {
+      const value = toNumber(container[key])
+      if (value !== null && value >= field.min && value <= field.max) return value
+    }
+  }
+  return null
+}
+
+/** Survey columns for a feedback row, as the insert trigger sets them */
+export const extractSurveyScores = (raw: Json): Pick<Feedback, 'nps_score' | 'csat_score' | 'ces_score'> => {
+  const nps = findSurveyValue(raw, SURVEY_FIELDS.nps)
+  return {
+    nps_score: nps === null ? null : Math.round(nps),
+    csat_score: findSurveyValue(raw, SURVEY_FIELDS.csat),
+    ces_score: findSurveyValue(raw, SURVEY_FIELDS.ces),
+  }
+}
+
+/** Promoters minus detractors as a share of respondents, -100 to 100; null without responses */
+export const calculateNps = (promoters: number, detractors: number, responses: number) =>
+  responses ? Math.round(((promoters - detractors) / responses) * 100) : null
+
+/** Satisfied (4-5) respondents as a whole percentage; null without responses */
+export const calculateCsat = (satisfied: number, responses: number) =>
+  responses ? Math.round((satisfied / responses) * 100) : null
+
+/** Metrics the dashboard headline card can show */
+export type HeadlineMetric = 'rating' | SurveyMetric
+
+export const HEADLINE_METRICS: HeadlineMetric[] = ['rating', 'csat', 'nps', 'ces']
+
+export const DEFAULT_HEADLINE_METRIC: HeadlineMetric = 'rating'
+
+export const HEADLINE_METRIC_META: Record<HeadlineMetric, {
+  /** For the English digest; the dashboard shows the headlineMetric messages */
+  label: string
+  format: (value: number) => string
+  /** Unit of the change shown against the previous period */
+  formatChange: (change: number, t: Translate) => string
+}> = {
+  rating: {
+    label: 'Average Rating',
+    format: (value) => value.toFixed(1),
+    formatChange: (change) => change.toFixed(1),
+  },
+  csat: {
+    label: 'CSAT',
+    format: (value) => `${value}%`,
+    formatChange: (change, t) => t('analytics.points', { count: change }),
+  },
+  nps: {
+    label: 'Net Promoter Score',
+    format: (value) => (value > 0 ? `+${value}` : String(value)),
+    formatChange: (change, t) => t('analytics.points', { count: change }),
+  },
+  ces: {
+    label: 'Customer Effort Score',
+    format: (value) => `${value.toFixed(1)} / 7`,
+    formatChange: (change) => change.toFixed(1),
+  },
+}
@@ -0,0 +1,55 @@
+import type { Feedback, Tag } from '@/lib/repository/types'
+
+// Palette offered when creating a tag; any hex color is accepted
+export const TAG_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#6366f1',
+  '#a855f7',
+  '#ec4899',
+  '#64748b',
+]
+
+/** Comma separated input ("login, sign in") to a clean keyword list */
+export const parseKeywords = (input: string): string[] =>
+  Array.from(new Set(
+    input
+      .split(',')
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(Boolean)
+  ))
+
+// Keywords are matched as whole words or phrases, so "pay" does not match "display"
+const containsKeyword = (text: string, keyword: string) => {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(text)
+}
+
+/** Keywords of `tag` found in the feedback subject or summary */
+export const getMatchedKeywords = (feedback: Pick<Feedback, 'subject' | 'feedback_summary'>, tag: Tag) => {
+  const text = `${feedback.subject ?? ''} ${feedback.feedback_summary ?? ''}`
+  return tag.keywords.filter(keyword => containsKeyword(text, keyword))
+}
+
+/** Tags whose keyword rules match the feedback and that are not applied yet */
+export const suggestTags = (
+  feedback: Pick<Feedback, 'subject' | 'feedback_summary'>,
+  tags: Tag[],
+  appliedTagIds: string[] = []
+): Tag[] =>
+  tags.filter(tag => !appliedTagIds.includes(tag.id) && getMatchedKeywords(feedback, tag).length > 0)
+
+/** Readable text color for a tag background */
+export const getTagTextColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16)
+  if (Number.isNaN(value)) return '#ffffff'
+  const r = (value >> 16) & 255
+  const g = (value >> 8) & 255
+  const b = value & 255
+  // Perceived luminance (ITU-R BT.601)
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#111827' : '#ffffff'
+}
@@ -0,0 +1,135 @@
+import { z } from 'zod'
+import { isValidTimezone } from '@/lib/date-range'
+import type { MessageKey } from '@/lib/i18n'
+import type { Update, UserSettingsRow } from '@/lib/repository/types'
+
+/**
+ * The Settings page's stored values, one form schema per section. The allowed
+ * values match the checks in the user_settings migration. Validation messages
+ * are message keys, translated where the errors are shown.
+ */
+
+export const THEMES = ['light', 'dark', 'system', 'high-contrast'] as const
+export const LANGUAGES = ['en', 'es'] as const
+export const DATE_FORMATS = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'] as const
+export const DATA_RETENTION_PERIODS = ['3', '6', '12', '24', 'indefinite'] as const
+
+export type Theme = (typeof THEMES)[number]
+export type Language = (typeof LANGUAGES)[number]
+export type DateFormat = (typeof DATE_FORMATS)[number]
+export type DataRetentionPeriod = (typeof DATA_RETENTION_PERIODS)[number]
+
+/** Themes with colors of their own (classes in index.css); 'system' follows the OS between light and dark */
+export const COLOR_THEMES = THEMES.filter((theme): theme is Exclude<Theme, 'system'> => theme !== 'system')
+
+// Each language is listed by its own name, so it can be found whatever the current one is
+export const LANGUAGE_META: Record<Language, { label: string }> = {
+  en: { label: 'English' },
+  es: { label: 'Español' },
+}
+
+/** The browser's language when it is one of ours; used before settings load, like on sign in */
+export const getBrowserLanguage = (): Language => {
+  const browserLanguage = (typeof navigator === 'undefined' ? '' : navigator.language).slice(0, 2)
+  return LANGUAGES.find(language => language === browserLanguage) ?? 'en'
+}
+
+export const profileSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, 'validation.usernameTooShort' satisfies MessageKey)
+    .max(20, 'validation.usernameTooLong' satisfies MessageKey),
+  email: z.string().trim().email('validation.invalidEmail' satisfies MessageKey),
+  bio: z.string().max(500, 'validation.bioTooLong' satisfies MessageKey),
+})
+
+export const notificationSettingsSchema = z.object({
+  emailNotifications: z.boolean(),
+  pushNotifications: z.boolean(),
+  /** Stored with the digest subscription rather than in user_settings */
+  weeklyReports: z.boolean(),
+  instantAlerts: z.boolean(),
+})
+
+export const preferencesSchema = z.object({
+  theme: z.enum(THEMES),
+  language: z.enum(LANGUAGES),
+  timezone: z.string().refine(isValidTimezone, 'validation.unknownTimezone' satisfies MessageKey),
+  dateFormat: z.enum(DATE_FORMATS),
+})
+
+export const privacySettingsSchema = z.object({
+  dataRetention: z.enum(DATA_RETENTION_PERIODS),
+  shareAnalytics: z.boolean(),
+})
+
+export type ProfileFormData = z.infer<typeof profileSchema>
+export type NotificationSettingsFormData = z.infer<typeof notificationSettingsSchema>
+export type PreferencesFormData = z.infer<typeof preferencesSchema>
+export type PrivacySettingsFormData = z.infer<typeof privacySettingsSchema>
+
+export interface UserSettings {
+  bio: string
+  emailNotifications: boolean
+  pushNotifications: boolean
+  instantAlerts: boolean
+  theme: Theme
+  language: Language
+  /** Null until chosen, meaning the browser's timezone */
+  timezone: string | null
+  dateFormat: DateFormat
+  dataRetention: DataRetentionPeriod
+  shareAnalytics: boolean
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  bio: '',
+  emailNotifications: true,
+  pushNotifications: false,
+  instantAlerts: false,
+  theme: 'light',
+  language: 'en',
+  timezone: null,
+  dateFormat: 'MM/DD/YYYY',
+  dataRetention: '12',
+  shareAnalytics: false,
+}
+
+// Values written by an older version of the app fall back to the default
+const oneOf = <T extends string>(allowed: readonly T[], value: string, fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback
+
+export const toUserSettings = (row: UserSettingsRow): UserSettings => ({
+  bio: row.bio,
+  emailNotifications: row.email_notifications,
+  pushNotifications: row.push_notifications,
+  instantAlerts: row.instant_alerts,
+  theme: oneOf(THEMES, row.theme, DEFAULT_USER_SETTINGS.theme),
+  language: oneOf(LANGUAGES, row.language, DEFAULT_USER_SETTINGS.language),
+  timezone: row.timezone && isValidTimezone(row.timezone) ? row.timezone : null,
+  dateFormat: oneOf(DATE_FORMATS, row.date_format, DEFAULT_USER_SETTINGS.dateFormat),
+  dataRetention: oneOf(DATA_RETENTION_PERIODS, row.data_retention, DEFAULT_USER_SETTINGS.dataRetention),
+  shareAnalytics: row.share_analytics,
+})
+
+/** The columns for the fields given; the others are left out so they keep their stored values */
+export const toUserSettingsValues = (settings: Partial<UserSettings>): Update<'user_settings'> => {
+  const columns: Record<keyof UserSettings, keyof UserSettingsRow> = {
+    bio: 'bio',
+    emailNotifications: 'email_notifications',
+    pushNotifications: 'push_notifications',
+    instantAlerts: 'instant_alerts',
+    theme: 'theme',
+    language: 'language',
+    timezone: 'timezone',
+    dateFormat: 'date_format',
+    dataRetention: 'data_retention',
+    shareAnalytics: 'share_analytics',
+  }
+  return Object.fromEntries(
+    Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => [columns[field as keyof UserSettings], value])
+  )
+}
@@ -0,0 +1,78 @@
+import type { WorkspaceMember, WorkspaceRole } from '@/lib/repository/types'
+
+/**
+ * What each workspace role may do. The database enforces the same rules: RLS
+ * for feedback and issues, and the workspace member functions for role
+ * changes (see the workspaces migration). Keep the two in step.
+ */
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'admin', 'member', 'viewer']
+
+export type WorkspacePermission = 'manage_workspace' | 'manage_members' | 'manage_feedback' | 'view_analytics'
+
+export const WORKSPACE_PERMISSIONS: WorkspacePermission[] = ['manage_workspace', 'manage_members', 'manage_feedback', 'view_analytics']
+
+export const WORKSPACE_ROLE_META: Record<WorkspaceRole, {
+  label: string
+  description: string
+  permissions: WorkspacePermission[]
+  color: string
+}> = {
+  owner: {
+    label: 'Owner',
+    description: 'Full access to all features and settings',
+    permissions: ['manage_workspace', 'manage_members', 'manage_feedback', 'view_analytics'],
+    color: 'bg-purple-100 text-purple-800',
+  },
+  admin: {
+    label: 'Admin',
+    description: 'Manage team and most settings',
+    permissions: ['manage_members', 'manage_feedback', 'view_analytics'],
+    color: 'bg-blue-100 text-blue-800',
+  },
+  member: {
+    label: 'Member',
+    description: 'View and manage feedback',
+    permissions: ['manage_feedback', 'view_analytics'],
+    color: 'bg-green-100 text-green-800',
+  },
+  viewer: {
+    label: 'Viewer',
+    description: 'Read-only access to feedback and analytics',
+    permissions: ['view_analytics'],
+    color: 'bg-gray-100 text-gray-800',
+  },
+}
+
+export const hasPermission = (role: WorkspaceRole | null | undefined, permission: WorkspacePermission) =>
+  !!role && WORKSPACE_ROLE_META[role].permissions.includes(permission)
+
+/** Roles `actor` may give to a member; only owners make other owners */
+export const getAssignableRoles = (actor: WorkspaceRole): WorkspaceRole[] => {
+  if (actor === 'owner') return WORKSPACE_ROLES
+  if (actor === 'admin') return WORKSPACE_ROLES.filter(role => role !== 'owner')
+  return []
+}
+
+/**
+ * Why `actor` cannot change `member` to `role` (or remove them, when `role`
+ * is null), or null when they can. Anyone may leave, but a workspace always
+ * keeps at least one owner.
+ */
+export const getMemberChangeError = (
+  actor: Pick<WorkspaceMember, 'user_id' | 'role'>,
+  member: Pick<WorkspaceMember, 'user_id' | 'role'>,
+  role: WorkspaceRole | null,
+  ownerCount: number
+): string | null => {
+  const leaving = role === null && actor.user_id === member.user_id
+  if (!leaving) {
+    if (!hasPermission(actor.role, 'manage_members')) return 'Only owners and admins can manage members'
+    if (member.role === 'owner' && actor.role !== 'owner') return 'Only owners can change other owners'
+    if (role && !getAssignableRoles(actor.role).includes(role)) return 'Only owners can make someone an owner'
+  }
+  if (member.role === 'owner' && role !== 'owner' && ownerCount <= 1) {
+    return 'A workspace needs at least one owner'
+  }
+  return null
+}
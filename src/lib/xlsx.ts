@@ -0,0 +1,129 @@
+/**
+ * Just enough of Office Open XML to write a single-sheet workbook: cells are
+ * inline strings or numbers, and the package is an uncompressed zip. Excel,
+ * Numbers, LibreOffice and Google Sheets all open it.
+ */
+
+export type CellValue = string | number | null | undefined
+
+const encoder = new TextEncoder()
+
+// XML 1.0 allows no control characters other than tab and line breaks
+// eslint-disable-next-line no-control-regex
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g
+
+const escapeXml = (text: string) =>
+  text
+    .replace(INVALID_XML, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const toCell = (value: CellValue) => {
+  if (value === null || value === undefined || value === '') return '<c/>'
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c t="n"><v>${value}</v></c>`
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+const toRow = (cells: CellValue[]) => `<row>${cells.map(toCell).join('')}</row>`
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+
+// Sheet names are at most 31 characters, without []:*?/\
+const workbook = (sheetName: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+
+// Rows are encoded in chunks so large exports never become one giant string
+const ROWS_PER_CHUNK = 1000
+
+const worksheet = (rows: CellValue[][]) => {
+  const chunks = [encoder.encode(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Keep the header row in view while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    '<sheetData>'
+  )]
+  for (let start = 0; start < rows.length; start += ROWS_PER_CHUNK) {
+    chunks.push(encoder.encode(rows.slice(start, start + ROWS_PER_CHUNK).map(toRow).join('')))
+  }
+  chunks.push(encoder.encode('</sheetData></worksheet>'))
+  return chunks
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+const crc32 = (chunks: Uint8Array[]) => {
+  let crc = 0xffffffff
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const header = (size: number, fields: [number, 2 | 4][]) => {
+  const view = new DataView(new ArrayBuffer(size))
+  let offset = 0
+  for (const [value, bytes] of fields) {
+    if (bytes === 2) view.setUint16(offset, value, true)
+    else view.setUint32(offset, value, true)
+    offset += bytes
+  }
+  return new Uint8Array(view.buffer)
+}
+
+// DOS date of 1980-01-01; entries carry no meaningful timestamp
+const DOS_DATE = 0x21
+
+/** A zip archive of the files, stored without compression */
+const zip = (files: { name: string; chunks: Uint8Array[] }[]): BlobPart[] => {
+  const parts: BlobPart[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const size = file.chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+    const crc = crc32(file.chunks)
+    const common: [number, 2 | 4][] = [[20, 2], [0x0800, 2], [0, 2], [0, 2], [DOS_DATE, 2], [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2]]
+
+    const local = header(30, [[0x04034b50, 4], ...common])
+    parts.push(local, name, ...file.chunks)
+    central.push(
+      header(46, [[0x02014b50, 4], [20, 2], ...common, [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]]),
+      name
+    )
+    offset += local.length + name.length + size
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = header(22, [[0x06054b50, 4], [0, 2], [0, 2], [files.length, 2], [files.length, 2], [centralSize, 4], [offset, 4], [0, 2]])
+  return [...parts, ...central, end]
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+/** A workbook with one sheet; the first row is usually the header */
+export const toXlsx = (rows: CellValue[][], sheetName = 'Sheet1') =>
+  new Blob(
+    zip([
+      { name: '[Content_Types].xml', chunks: [encoder.encode(CONTENT_TYPES)] },
+      { name: '_rels/.rels', chunks: [encoder.encode(ROOT_RELS)] },
+      { name: 'xl/workbook.xml', chunks: [encoder.encode(workbook(sheetName))] },
+      { name: 'xl/_rels/workbook.xml.rels', chunks: [encoder.encode(WORKBOOK_RELS)] },
+      { name: 'xl/worksheets/sheet1.xml', chunks: worksheet(rows) },
+    ]),
+    { type: XLSX_MIME_TYPE }
+  )
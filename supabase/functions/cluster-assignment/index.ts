@@ -0,0 +1,39 @@
+// Links new feedback to the open issue it matches (see
+// src/lib/cluster-assignment-job.ts), whether or not anyone has the dashboard
+// open.
+//
+// Only the service role may call it. Schedule it every minute with pg_cron;
+// each run checks feedback received since the last one.
+//
+//   select cron.schedule('cluster-assignment', '* * * * *', $$
+//     select net.http_post(
+//       url := 'https://<project-ref>.supabase.co/functions/v1/cluster-assignment',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//     )
+//   $$);
+
+import { createSupabaseBackend } from '@/lib/backend/supabase'
+import { assignNewFeedback } from '@/lib/cluster-assignment-job'
+
+const env = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) throw new Error(`${name} is not set`)
+  return value
+}
+
+Deno.serve(async (request) => {
+  const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+  if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  try {
+    const results = await assignNewFeedback({
+      backend: createSupabaseBackend(env('SUPABASE_URL'), serviceRoleKey),
+    })
+    return Response.json({ results })
+  } catch (error) {
+    console.error('Error assigning feedback to issues:', error)
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 })
+  }
+})
@@ -0,0 +1,52 @@
+// Sends workspace invitation emails (see src/lib/invitation-job.ts) through
+// Resend.
+//
+// Needs the RESEND_API_KEY, INVITATION_FROM (a sender on a verified domain)
+// and APP_URL secrets. Only the service role may call it. Schedule it every
+// minute with pg_cron; each run mails invitations created or resent since the
+// last one.
+//
+//   select cron.schedule('invitation-emails', '* * * * *', $$
+//     select net.http_post(
+//       url := 'https://<project-ref>.supabase.co/functions/v1/invitation-emails',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//     )
+//   $$);
+
+import { createSupabaseBackend } from '@/lib/backend/supabase'
+import type { DigestEmail } from '@/lib/digest-job'
+import { sendInvitationEmails } from '@/lib/invitation-job'
+
+const env = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) throw new Error(`${name} is not set`)
+  return value
+}
+
+const sendWithResend = async ({ to, subject, html }: DigestEmail) => {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${env('RESEND_API_KEY')}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from: env('INVITATION_FROM'), to, subject, html }),
+  })
+  if (!response.ok) throw new Error(`Resend responded ${response.status}: ${await response.text()}`)
+}
+
+Deno.serve(async (request) => {
+  const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+  if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  try {
+    const results = await sendInvitationEmails({
+      backend: createSupabaseBackend(env('SUPABASE_URL'), serviceRoleKey),
+      send: sendWithResend,
+      appUrl: env('APP_URL').replace(/\/$/, ''),
+    })
+    return Response.json({ results })
+  } catch (error) {
+    console.error('Error sending invitation emails:', error)
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 })
+  }
+})
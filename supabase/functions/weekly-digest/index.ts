@@ -0,0 +1,50 @@
+// Sends the weekly digest emails (see src/lib/digest-job.ts) through Resend.
+//
+// Needs the RESEND_API_KEY, DIGEST_FROM (a sender on a verified domain) and
+// APP_URL secrets. Only the service role may call it. Schedule it hourly with
+// pg_cron: a user's digest goes out in the first run after their Monday
+// starts, and later runs skip weeks already delivered.
+//
+//   select cron.schedule('weekly-digest', '0 * * * *', $$
+//     select net.http_post(
+//       url := 'https://<project-ref>.supabase.co/functions/v1/weekly-digest',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//     )
+//   $$);
+
+import { createSupabaseBackend } from '@/lib/backend/supabase'
+import { runWeeklyDigest, type DigestEmail } from '@/lib/digest-job'
+
+const env = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) throw new Error(`${name} is not set`)
+  return value
+}
+
+const sendWithResend = async ({ to, subject, html }: DigestEmail) => {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${env('RESEND_API_KEY')}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from: env('DIGEST_FROM'), to, subject, html }),
+  })
+  if (!response.ok) throw new Error(`Resend responded ${response.status}: ${await response.text()}`)
+}
+
+Deno.serve(async (request) => {
+  const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+  if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  try {
+    const results = await runWeeklyDigest({
+      backend: createSupabaseBackend(env('SUPABASE_URL'), serviceRoleKey),
+      send: sendWithResend,
+      appUrl: env('APP_URL').replace(/\/$/, ''),
+    })
+    return Response.json({ results })
+  } catch (error) {
+    console.error('Error running the weekly digest:', error)
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 })
+  }
+})
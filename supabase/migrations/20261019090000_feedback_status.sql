@@ -0,0 +1,54 @@
+-- Triage lifecycle for feedback, replacing the single processed_at flag.
+-- processed_at is kept as the "read" marker; status tracks where the item is in the workflow.
+
+create type public.feedback_status as enum (
+  'new',
+  'triaged',
+  'in_progress',
+  'waiting',
+  'resolved',
+  'archived',
+  'spam'
+);
+
+alter table public.feedbacks
+  add column status public.feedback_status not null default 'new',
+  add column resolved_at timestamptz;
+
+-- Anything already read has at least been looked at
+update public.feedbacks set status = 'triaged' where processed_at is not null;
+
+create index idx_feedbacks_status on public.feedbacks (status);
+
+create table public.feedback_status_events (
+  id uuid primary key default gen_random_uuid(),
+  feedback_id uuid not null references public.feedbacks (id) on delete cascade,
+  from_status public.feedback_status,
+  to_status public.feedback_status not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_name text,
+  changed_at timestamptz not null default now()
+);
+
+create index idx_feedback_status_events_feedback on public.feedback_status_events (feedback_id, changed_at desc);
+
+alter table public.feedback_status_events enable row level security;
+
+create policy "Users can read status history of their feedback"
+  on public.feedback_status_events for select
+  using (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_status_events.feedback_id and f.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can record status changes on their feedback"
+  on public.feedback_status_events for insert
+  with check (
+    changed_by = auth.uid()
+    and exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_status_events.feedback_id and f.user_id = auth.uid()
+    )
+  );
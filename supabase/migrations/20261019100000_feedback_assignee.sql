@@ -0,0 +1,6 @@
+-- Ownership of feedback: each item can be assigned to one team member.
+
+alter table public.feedbacks
+  add column assignee_id uuid references public.users (id) on delete set null;
+
+create index idx_feedbacks_assignee_status on public.feedbacks (assignee_id, status);
@@ -0,0 +1,52 @@
+-- User-defined tags for categorising feedback.
+-- keywords drive automatic suggestions: a tag is suggested when any keyword
+-- appears in the feedback subject or summary.
+
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  color text not null default '#6366f1',
+  keywords text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create unique index idx_tags_user_name on public.tags (user_id, lower(name));
+
+create table public.feedback_tags (
+  id uuid primary key default gen_random_uuid(),
+  feedback_id uuid not null references public.feedbacks (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  tagged_by uuid references auth.users (id) on delete set null,
+  tagged_at timestamptz not null default now(),
+  unique (feedback_id, tag_id)
+);
+
+create index idx_feedback_tags_tag on public.feedback_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.feedback_tags enable row level security;
+
+create policy "Users manage their own tags"
+  on public.tags for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage tags on their feedback"
+  on public.feedback_tags for all
+  using (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_tags.feedback_id and f.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_tags.feedback_id and f.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.tags t
+      where t.id = feedback_tags.tag_id and t.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,30 @@
+-- Explicit links between feedback and the issues it reports.
+-- A feedback can relate to several issues and an issue gathers many feedbacks.
+
+create table public.feedback_issues (
+  id uuid primary key default gen_random_uuid(),
+  feedback_id uuid not null references public.feedbacks (id) on delete cascade,
+  issue_id uuid not null references public.current_issues (id) on delete cascade,
+  linked_by uuid references auth.users (id) on delete set null,
+  linked_at timestamptz not null default now(),
+  unique (feedback_id, issue_id)
+);
+
+create index idx_feedback_issues_issue on public.feedback_issues (issue_id);
+
+alter table public.feedback_issues enable row level security;
+
+create policy "Users manage issue links on their feedback"
+  on public.feedback_issues for all
+  using (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_issues.feedback_id and f.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_issues.feedback_id and f.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,10 @@
+-- Issues used to gather feedback whose summary mentioned the issue title.
+-- Turn those implicit matches into explicit links so existing counts carry over.
+
+insert into public.feedback_issues (feedback_id, issue_id)
+select f.id, i.id
+from public.feedbacks f
+join public.users u on u.id = f.user_id
+join public.current_issues i on i.username = u.username
+where f.feedback_summary ilike '%' || i.issue_title || '%'
+on conflict (feedback_id, issue_id) do nothing;
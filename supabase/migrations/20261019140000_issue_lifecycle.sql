@@ -0,0 +1,53 @@
+-- Issues become workable items: status, owner, priority override, description,
+-- due date and a history of every change.
+
+create type public.issue_status as enum ('open', 'investigating', 'fixed', 'wont_fix');
+create type public.issue_priority as enum ('low', 'medium', 'high');
+
+alter table public.current_issues
+  add column status public.issue_status not null default 'open',
+  -- null means the priority is derived from the linked feedback count
+  add column priority_override public.issue_priority,
+  add column assignee_id uuid references public.users (id) on delete set null,
+  add column description text,
+  add column due_date date,
+  add column resolved_at timestamptz,
+  add column updated_at timestamptz not null default now();
+
+create index idx_current_issues_status on public.current_issues (status);
+
+create table public.issue_events (
+  id uuid primary key default gen_random_uuid(),
+  issue_id uuid not null references public.current_issues (id) on delete cascade,
+  field text not null,
+  from_value text,
+  to_value text,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_name text,
+  changed_at timestamptz not null default now()
+);
+
+create index idx_issue_events_issue on public.issue_events (issue_id, changed_at desc);
+
+alter table public.issue_events enable row level security;
+
+create policy "Users can read history of their issues"
+  on public.issue_events for select
+  using (
+    exists (
+      select 1 from public.current_issues i
+      join public.users u on u.username = i.username
+      where i.id = issue_events.issue_id and u.id = auth.uid()
+    )
+  );
+
+create policy "Users can record changes to their issues"
+  on public.issue_events for insert
+  with check (
+    changed_by = auth.uid()
+    and exists (
+      select 1 from public.current_issues i
+      join public.users u on u.username = i.username
+      where i.id = issue_events.issue_id and u.id = auth.uid()
+    )
+  );
@@ -0,0 +1,31 @@
+-- Support for proposing issues from clusters of similar feedback.
+-- Clustering itself runs in the dashboard; the database only remembers its outcome.
+
+-- Links created by matching new feedback against an issue's cluster
+alter table public.feedback_issues
+  add column auto_linked boolean not null default false;
+
+-- Feedback whose cluster proposal was dismissed is not proposed again
+create table public.cluster_dismissals (
+  id uuid primary key default gen_random_uuid(),
+  feedback_id uuid not null unique references public.feedbacks (id) on delete cascade,
+  dismissed_by uuid references auth.users (id) on delete set null,
+  dismissed_at timestamptz not null default now()
+);
+
+alter table public.cluster_dismissals enable row level security;
+
+create policy "Users manage cluster dismissals of their feedback"
+  on public.cluster_dismissals for all
+  using (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = cluster_dismissals.feedback_id and f.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.feedbacks f
+      where f.id = cluster_dismissals.feedback_id and f.user_id = auth.uid()
+    )
+  );
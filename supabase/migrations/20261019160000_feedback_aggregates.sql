@@ -0,0 +1,111 @@
+-- Aggregates behind the analytics screens, so the dashboard requests counts and
+-- averages instead of downloading every feedback row (and its raw_json).
+-- The functions run as the caller, so RLS still limits them to the caller's feedback.
+-- Ranges are half-open [p_from, p_to); a null bound leaves that side open.
+
+-- Volume, rating and response metrics of the feedback received in the range.
+-- Spam never needs an answer, so it is left out of the response metrics.
+create or replace function public.feedback_summary(p_from timestamptz, p_to timestamptz)
+returns table (
+  feedback_count bigint,
+  avg_rating numeric,
+  answerable_count bigint,
+  processed_count bigint,
+  avg_response_hours numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    count(*),
+    avg(average_rating),
+    count(*) filter (where status <> 'spam'),
+    count(*) filter (where status <> 'spam' and processed_at is not null),
+    avg(extract(epoch from processed_at - received_at) / 3600)
+      filter (where status <> 'spam' and processed_at is not null)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+$$;
+
+-- One row per calendar day in the timezone that received feedback
+create or replace function public.feedback_daily_counts(p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (day date, feedback_count bigint, avg_rating numeric)
+language sql
+stable
+security invoker
+as $$
+  select (received_at at time zone p_timezone)::date, count(*), avg(average_rating)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+-- Day of week in the timezone, 0 for Sunday
+create or replace function public.feedback_weekday_counts(p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (weekday integer, feedback_count bigint, avg_rating numeric)
+language sql
+stable
+security invoker
+as $$
+  select extract(dow from received_at at time zone p_timezone)::integer, count(*), avg(average_rating)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+-- Hour of day in the timezone, 0-23
+create or replace function public.feedback_hourly_counts(p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (hour integer, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select extract(hour from received_at at time zone p_timezone)::integer, count(*)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+-- Rated feedback by whole star, 1-5; unrated feedback is not counted
+create or replace function public.feedback_rating_histogram(p_from timestamptz, p_to timestamptz)
+returns table (rating integer, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select least(floor(average_rating), 5)::integer, count(*)
+  from public.feedbacks
+  where average_rating >= 1
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+-- Positive from 4 stars, neutral from 2.5; unrated feedback counts as negative
+create or replace function public.feedback_sentiment_counts(p_from timestamptz, p_to timestamptz)
+returns table (sentiment text, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select
+    case
+      when coalesce(average_rating, 0) >= 4 then 'positive'
+      when coalesce(average_rating, 0) >= 2.5 then 'neutral'
+      else 'negative'
+    end,
+    count(*)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+$$;
@@ -0,0 +1,68 @@
+-- Sentiment scored from the feedback text instead of rating thresholds.
+-- The dashboard scores text with its lexicon analyzer (src/lib/sentiment.ts) and
+-- stores the result; feedback without text falls back to its rating here.
+
+-- -1 (negative) to 1 (positive); null until scored, and for feedback without text
+alter table public.feedbacks
+  add column sentiment_score numeric check (sentiment_score between -1 and 1);
+
+-- Thresholds splitting scores into positive, neutral and negative. Feedback
+-- belongs to the account that receives it, so the settings are kept per account.
+create table public.sentiment_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  positive_threshold numeric not null default 0.2,
+  negative_threshold numeric not null default -0.2,
+  updated_at timestamptz not null default now(),
+  check (negative_threshold < positive_threshold),
+  check (positive_threshold between -1 and 1),
+  check (negative_threshold between -1 and 1)
+);
+
+alter table public.sentiment_settings enable row level security;
+
+create policy "Users manage their own sentiment settings"
+  on public.sentiment_settings for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- A rating of 1-5 on the same -1 to 1 scale as text scores
+create or replace function public.rating_sentiment_score(p_rating numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select greatest(-1, least(1, (p_rating - 3) / 2))
+$$;
+
+-- Unrated feedback (no text score and no rating) is now its own bucket
+-- rather than counting as negative
+create or replace function public.feedback_sentiment_counts(p_from timestamptz, p_to timestamptz)
+returns table (sentiment text, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  with thresholds as (
+    select
+      coalesce(max(positive_threshold), 0.2) as positive,
+      coalesce(max(negative_threshold), -0.2) as negative
+    from public.sentiment_settings
+    where user_id = auth.uid()
+  ),
+  scored as (
+    select coalesce(sentiment_score, public.rating_sentiment_score(average_rating)) as score
+    from public.feedbacks
+    where (p_from is null or received_at >= p_from)
+      and (p_to is null or received_at < p_to)
+  )
+  select
+    case
+      when score is null then 'unrated'
+      when score >= thresholds.positive then 'positive'
+      when score <= thresholds.negative then 'negative'
+      else 'neutral'
+    end,
+    count(*)
+  from scored, thresholds
+  group by 1
+$$;
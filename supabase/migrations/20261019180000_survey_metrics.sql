@@ -0,0 +1,137 @@
+-- NPS, CSAT and CES survey answers pulled out of raw_json at ingestion, so
+-- analytics can aggregate them like average_rating.
+-- Keep the recognized keys in step with src/lib/survey-metrics.ts.
+
+alter table public.feedbacks
+  add column nps_score smallint check (nps_score between 0 and 10),
+  add column csat_score numeric check (csat_score between 1 and 5),
+  add column ces_score numeric check (ces_score between 1 and 7);
+
+-- First number under any of the keys, looked up at the top level and then in a
+-- survey, metrics or scores object; numeric strings count, values outside
+-- [p_min, p_max] are ignored
+create or replace function public.survey_value(p_raw jsonb, p_keys text[], p_min numeric, p_max numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select value
+  from (
+    select
+      case
+        when jsonb_typeof(picked) = 'number' then (picked #>> '{}')::numeric
+        when jsonb_typeof(picked) = 'string' and (picked #>> '{}') ~ '^\s*-?\d+(\.\d+)?\s*$'
+          then trim(picked #>> '{}')::numeric
+      end as value,
+      container_order,
+      key_order
+    from unnest(array[p_raw, p_raw -> 'survey', p_raw -> 'metrics', p_raw -> 'scores'])
+      with ordinality as containers (container, container_order)
+    cross join unnest(p_keys) with ordinality as keys (key, key_order)
+    cross join lateral (select containers.container -> keys.key as picked) lookup
+    where jsonb_typeof(containers.container) = 'object'
+  ) candidates
+  where value between p_min and p_max
+  order by container_order, key_order
+  limit 1
+$$;
+
+create or replace function public.set_survey_scores()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.nps_score := round(public.survey_value(
+    new.raw_json, array['nps', 'nps_score', 'net_promoter_score', 'likelihood_to_recommend'], 0, 10
+  ));
+  new.csat_score := public.survey_value(
+    new.raw_json, array['csat', 'csat_score', 'satisfaction', 'satisfaction_score'], 1, 5
+  );
+  new.ces_score := public.survey_value(
+    new.raw_json, array['ces', 'ces_score', 'customer_effort_score', 'effort_score'], 1, 7
+  );
+  return new;
+end;
+$$;
+
+create trigger feedbacks_survey_scores
+  before insert or update of raw_json on public.feedbacks
+  for each row execute function public.set_survey_scores();
+
+-- Extract the answers of feedback already received
+update public.feedbacks set raw_json = raw_json;
+
+-- CSAT falls back to average_rating, which is already a 1-5 satisfaction rating.
+-- NPS promoters answer 9-10 and detractors 0-6; CSAT counts 4-5 as satisfied.
+
+drop function public.feedback_summary(timestamptz, timestamptz);
+
+create function public.feedback_summary(p_from timestamptz, p_to timestamptz)
+returns table (
+  feedback_count bigint,
+  avg_rating numeric,
+  answerable_count bigint,
+  processed_count bigint,
+  avg_response_hours numeric,
+  nps_responses bigint,
+  promoters bigint,
+  detractors bigint,
+  csat_responses bigint,
+  csat_satisfied bigint,
+  ces_responses bigint,
+  avg_ces numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    count(*),
+    avg(average_rating),
+    count(*) filter (where status <> 'spam'),
+    count(*) filter (where status <> 'spam' and processed_at is not null),
+    avg(extract(epoch from processed_at - received_at) / 3600)
+      filter (where status <> 'spam' and processed_at is not null),
+    count(nps_score),
+    count(*) filter (where nps_score >= 9),
+    count(*) filter (where nps_score <= 6),
+    count(coalesce(csat_score, average_rating)),
+    count(*) filter (where coalesce(csat_score, average_rating) >= 4),
+    count(ces_score),
+    avg(ces_score)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+$$;
+
+-- Survey metrics per calendar day in the timezone, for charts over time
+create or replace function public.feedback_daily_survey_metrics(p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (
+  day date,
+  nps_responses bigint,
+  promoters bigint,
+  detractors bigint,
+  csat_responses bigint,
+  csat_satisfied bigint,
+  ces_responses bigint,
+  avg_ces numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    (received_at at time zone p_timezone)::date,
+    count(nps_score),
+    count(*) filter (where nps_score >= 9),
+    count(*) filter (where nps_score <= 6),
+    count(coalesce(csat_score, average_rating)),
+    count(*) filter (where coalesce(csat_score, average_rating) >= 4),
+    count(ces_score),
+    avg(ces_score)
+  from public.feedbacks
+  where (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
@@ -0,0 +1,34 @@
+-- Saved arrangements of overview widgets. Each user keeps their own layouts
+-- and can share one with the team, who can view it or save a copy of it.
+-- The widget list is validated by the dashboard (src/lib/dashboard-widgets.ts).
+
+create table public.dashboard_layouts (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  widgets jsonb not null default '[]' check (jsonb_typeof(widgets) = 'array'),
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index dashboard_layouts_owner_id_idx on public.dashboard_layouts (owner_id);
+
+alter table public.dashboard_layouts enable row level security;
+
+create policy "Users read their own and shared dashboard layouts"
+  on public.dashboard_layouts for select
+  using (owner_id = auth.uid() or shared);
+
+create policy "Users create their own dashboard layouts"
+  on public.dashboard_layouts for insert
+  with check (owner_id = auth.uid());
+
+create policy "Users update their own dashboard layouts"
+  on public.dashboard_layouts for update
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Users delete their own dashboard layouts"
+  on public.dashboard_layouts for delete
+  using (owner_id = auth.uid());
@@ -0,0 +1,16 @@
+-- Feedback linked to each issue, counting only feedback received in the
+-- range. Reports rank issues by this rather than by all-time links.
+create or replace function public.issue_feedback_counts(p_from timestamptz, p_to timestamptz)
+returns table (issue_id uuid, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select fi.issue_id, count(*)
+  from public.feedback_issues fi
+  join public.feedbacks f on f.id = fi.feedback_id
+  where (p_from is null or f.received_at >= p_from)
+    and (p_to is null or f.received_at < p_to)
+  group by fi.issue_id
+  order by 2 desc
+$$;
@@ -0,0 +1,48 @@
+-- Weekly digest emails. Every user gets one unless they turn it off in
+-- Settings; the digest covers the last full week (Monday to Sunday) in the
+-- timezone they chose. The weekly-digest edge function sends them and
+-- records each attempt, which Settings lists as the delivery history.
+
+create table public.digest_subscriptions (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  weekly_enabled boolean not null default true,
+  timezone text not null default 'UTC',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.digest_subscriptions enable row level security;
+
+create policy "Users manage their own digest subscription"
+  on public.digest_subscriptions for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table public.digest_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  recipient text not null,
+  period_start date not null,
+  period_end date not null,
+  subject text not null,
+  -- The email as sent, so it can be opened again from Settings
+  html text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  sent_at timestamptz not null default now(),
+  check (period_start <= period_end)
+);
+
+create index digest_deliveries_user_id_sent_at_idx on public.digest_deliveries (user_id, sent_at desc);
+
+-- A week is delivered at most once, however often the job runs; failed
+-- attempts are kept and retried on the next run
+create unique index digest_deliveries_sent_once_idx
+  on public.digest_deliveries (user_id, period_start)
+  where status = 'sent';
+
+alter table public.digest_deliveries enable row level security;
+
+-- Deliveries are written by the job with the service role, which bypasses RLS
+create policy "Users read their own digest deliveries"
+  on public.digest_deliveries for select
+  using (user_id = auth.uid());
@@ -0,0 +1,69 @@
+-- Everything on the Settings page that is not already stored elsewhere. The
+-- weekly report switch lives in digest_subscriptions, where the digest job
+-- reads it. Allowed values are validated by the app (src/lib/user-settings.ts)
+-- as well as here.
+
+create table public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  bio text not null default '' check (length(bio) <= 500),
+  email_notifications boolean not null default true,
+  push_notifications boolean not null default false,
+  instant_alerts boolean not null default false,
+  theme text not null default 'light' check (theme in ('light', 'dark', 'system')),
+  language text not null default 'en' check (language in ('en', 'es', 'fr', 'de')),
+  -- Null until chosen, meaning the browser's timezone
+  timezone text,
+  date_format text not null default 'MM/DD/YYYY' check (date_format in ('MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD')),
+  data_retention text not null default '12' check (data_retention in ('3', '6', '12', '24', 'indefinite')),
+  share_analytics boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "Users manage their own settings"
+  on public.user_settings for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Issues are visible to the user whose username they carry, so a rename has
+-- to move them along in the same transaction; RLS would hide them from the
+-- user halfway through if the app did it one table at a time.
+create or replace function public.update_user_profile(p_username text, p_email text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  p_username := trim(p_username);
+  p_email := trim(p_email);
+  if length(p_username) not between 3 and 20 then
+    raise exception 'Username must be 3 to 20 characters';
+  end if;
+
+  select username into v_previous from public.users where id = auth.uid() for update;
+  if not found then
+    raise exception 'User profile not found';
+  end if;
+
+  if exists (select 1 from public.users where username = p_username and id <> auth.uid()) then
+    raise exception 'Username is already taken';
+  end if;
+
+  update public.users
+  set username = p_username, email = p_email, updated_at = now()
+  where id = auth.uid();
+
+  if v_previous <> p_username then
+    update public.current_issues set username = p_username where username = v_previous;
+    update public.feedbacks set username = p_username where username = v_previous;
+  end if;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- A high-contrast theme alongside light, dark and following the system. The
+-- app applies the saved theme through next-themes (src/App.tsx).
+
+alter table public.user_settings
+  drop constraint user_settings_theme_check,
+  add constraint user_settings_theme_check check (theme in ('light', 'dark', 'system', 'high-contrast'));
@@ -0,0 +1,616 @@
+-- Team workspaces. Feedback, issues and tags belong to a workspace instead of
+-- a single user, and everyone with a membership sees them with the access of
+-- their role:
+--   owner   everything, including renaming the workspace and managing owners
+--   admin   manages members other than owners
+--   member  works on feedback, issues and tags
+--   viewer  read only
+-- The app mirrors these rules in src/lib/workspace-roles.ts.
+
+create type public.workspace_role as enum ('owner', 'admin', 'member', 'viewer');
+
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) between 1 and 60),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  role public.workspace_role not null default 'member',
+  joined_at timestamptz not null default now(),
+  unique (workspace_id, user_id)
+);
+
+create index idx_workspace_members_user on public.workspace_members (user_id);
+
+-- The caller's role in a workspace, or null when they are not a member.
+-- Security definer so policies on workspace_members can use it without recursing.
+create or replace function public.workspace_role_of(p_workspace_id uuid)
+returns public.workspace_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members
+  where workspace_id = p_workspace_id and user_id = auth.uid()
+$$;
+
+create or replace function public.can_edit_workspace(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(public.workspace_role_of(p_workspace_id) in ('owner', 'admin', 'member'), false)
+$$;
+
+-- Every existing user gets a workspace of their own holding their data
+insert into public.workspaces (name, created_by)
+select u.username || '''s workspace', u.id
+from public.users u;
+
+insert into public.workspace_members (workspace_id, user_id, role)
+select w.id, w.created_by, 'owner'
+from public.workspaces w;
+
+alter table public.feedbacks
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+alter table public.current_issues
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+alter table public.tags
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+
+update public.feedbacks f
+set workspace_id = w.id
+from public.workspaces w
+where w.created_by = f.user_id;
+
+update public.current_issues i
+set workspace_id = w.id
+from public.workspaces w
+join public.users u on u.id = w.created_by
+where u.username = i.username;
+
+update public.tags t
+set workspace_id = w.id
+from public.workspaces w
+where w.created_by = t.user_id;
+
+-- Feedback and issues whose owner has no profile (a user_id missing from
+-- public.users, or a username nobody has) go to a workspace without members
+-- rather than being lost; someone with database access can move them on or
+-- delete it. Tag names were only unique per owner, so such tags could clash
+-- there and are deleted instead, along with their links.
+do $$
+declare
+  fallback_id uuid;
+begin
+  delete from public.tags where workspace_id is null;
+
+  if exists (select 1 from public.feedbacks where workspace_id is null)
+    or exists (select 1 from public.current_issues where workspace_id is null) then
+    insert into public.workspaces (name) values ('Unclaimed data') returning id into fallback_id;
+    update public.feedbacks set workspace_id = fallback_id where workspace_id is null;
+    update public.current_issues set workspace_id = fallback_id where workspace_id is null;
+  end if;
+end;
+$$;
+
+alter table public.feedbacks alter column workspace_id set not null;
+alter table public.current_issues alter column workspace_id set not null;
+alter table public.tags alter column workspace_id set not null;
+
+create index idx_feedbacks_workspace_received_at on public.feedbacks (workspace_id, received_at desc);
+create index idx_current_issues_workspace on public.current_issues (workspace_id, created_at desc);
+
+-- Tag names are unique within a workspace rather than per user
+drop index public.idx_tags_user_name;
+create unique index idx_tags_workspace_name on public.tags (workspace_id, lower(name));
+
+-- Ingestion still writes feedback and issues for a user; without a workspace
+-- they go to the first workspace that user owns
+create or replace function public.set_feedback_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.workspace_id is null then
+    select workspace_id into new.workspace_id
+    from public.workspace_members
+    where user_id = new.user_id and role = 'owner'
+    order by joined_at
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.set_issue_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.workspace_id is null then
+    select m.workspace_id into new.workspace_id
+    from public.workspace_members m
+    join public.users u on u.id = m.user_id
+    where u.username = new.username and m.role = 'owner'
+    order by m.joined_at
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger feedbacks_default_workspace
+  before insert on public.feedbacks
+  for each row execute function public.set_feedback_workspace();
+
+create trigger current_issues_default_workspace
+  before insert on public.current_issues
+  for each row execute function public.set_issue_workspace();
+
+-- Access follows membership. The per-user policies on feedbacks and
+-- current_issues predate the migrations, so they are dropped by table.
+do $$
+declare
+  existing record;
+begin
+  for existing in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('feedbacks', 'current_issues')
+  loop
+    execute format('drop policy %I on public.%I', existing.policyname, existing.tablename);
+  end loop;
+end;
+$$;
+
+alter table public.feedbacks enable row level security;
+alter table public.current_issues enable row level security;
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members read their workspaces"
+  on public.workspaces for select
+  using (public.workspace_role_of(id) is not null);
+
+create policy "Owners rename their workspaces"
+  on public.workspaces for update
+  using (public.workspace_role_of(id) = 'owner')
+  with check (public.workspace_role_of(id) = 'owner');
+
+create policy "Members see who else is in their workspaces"
+  on public.workspace_members for select
+  using (public.workspace_role_of(workspace_id) is not null);
+
+create policy "Members read workspace feedback"
+  on public.feedbacks for select
+  using (public.workspace_role_of(workspace_id) is not null);
+
+create policy "Editors manage workspace feedback"
+  on public.feedbacks for all
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Members read workspace issues"
+  on public.current_issues for select
+  using (public.workspace_role_of(workspace_id) is not null);
+
+create policy "Editors manage workspace issues"
+  on public.current_issues for all
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+drop policy "Users manage their own tags" on public.tags;
+
+create policy "Members read workspace tags"
+  on public.tags for select
+  using (public.workspace_role_of(workspace_id) is not null);
+
+create policy "Editors manage workspace tags"
+  on public.tags for all
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+-- Tables hanging off feedback and issues follow the workspace of their parent
+drop policy "Users manage tags on their feedback" on public.feedback_tags;
+drop policy "Users manage issue links on their feedback" on public.feedback_issues;
+drop policy "Users manage cluster dismissals of their feedback" on public.cluster_dismissals;
+drop policy "Users can read status history of their feedback" on public.feedback_status_events;
+drop policy "Users can record status changes on their feedback" on public.feedback_status_events;
+drop policy "Users can read history of their issues" on public.issue_events;
+drop policy "Users can record changes to their issues" on public.issue_events;
+
+create policy "Members read tags on workspace feedback"
+  on public.feedback_tags for select
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = feedback_tags.feedback_id and public.workspace_role_of(f.workspace_id) is not null
+  ));
+
+create policy "Editors tag workspace feedback"
+  on public.feedback_tags for all
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = feedback_tags.feedback_id and public.can_edit_workspace(f.workspace_id)
+  ))
+  with check (exists (
+    select 1 from public.feedbacks f
+    join public.tags t on t.workspace_id = f.workspace_id
+    where f.id = feedback_tags.feedback_id and t.id = feedback_tags.tag_id
+      and public.can_edit_workspace(f.workspace_id)
+  ));
+
+create policy "Members read issue links of workspace feedback"
+  on public.feedback_issues for select
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = feedback_issues.feedback_id and public.workspace_role_of(f.workspace_id) is not null
+  ));
+
+create policy "Editors link workspace feedback to issues"
+  on public.feedback_issues for all
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = feedback_issues.feedback_id and public.can_edit_workspace(f.workspace_id)
+  ))
+  with check (exists (
+    select 1 from public.feedbacks f
+    join public.current_issues i on i.workspace_id = f.workspace_id
+    where f.id = feedback_issues.feedback_id and i.id = feedback_issues.issue_id
+      and public.can_edit_workspace(f.workspace_id)
+  ));
+
+create policy "Members read cluster dismissals of workspace feedback"
+  on public.cluster_dismissals for select
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = cluster_dismissals.feedback_id and public.workspace_role_of(f.workspace_id) is not null
+  ));
+
+create policy "Editors dismiss clusters of workspace feedback"
+  on public.cluster_dismissals for all
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = cluster_dismissals.feedback_id and public.can_edit_workspace(f.workspace_id)
+  ))
+  with check (exists (
+    select 1 from public.feedbacks f
+    where f.id = cluster_dismissals.feedback_id and public.can_edit_workspace(f.workspace_id)
+  ));
+
+create policy "Members read status history of workspace feedback"
+  on public.feedback_status_events for select
+  using (exists (
+    select 1 from public.feedbacks f
+    where f.id = feedback_status_events.feedback_id and public.workspace_role_of(f.workspace_id) is not null
+  ));
+
+create policy "Editors record status changes on workspace feedback"
+  on public.feedback_status_events for insert
+  with check (
+    changed_by = auth.uid()
+    and exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_status_events.feedback_id and public.can_edit_workspace(f.workspace_id)
+    )
+  );
+
+create policy "Members read history of workspace issues"
+  on public.issue_events for select
+  using (exists (
+    select 1 from public.current_issues i
+    where i.id = issue_events.issue_id and public.workspace_role_of(i.workspace_id) is not null
+  ));
+
+create policy "Editors record changes to workspace issues"
+  on public.issue_events for insert
+  with check (
+    changed_by = auth.uid()
+    and exists (
+      select 1 from public.current_issues i
+      where i.id = issue_events.issue_id and public.can_edit_workspace(i.workspace_id)
+    )
+  );
+
+-- Workspaces and memberships change only through these functions, which
+-- check the caller's role. The creator becomes the first owner.
+create or replace function public.create_workspace(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  workspace_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  insert into public.workspaces (name, created_by)
+  values (trim(p_name), auth.uid())
+  returning id into workspace_id;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (workspace_id, auth.uid(), 'owner');
+
+  return workspace_id;
+end;
+$$;
+
+-- Checks a role change (p_role) or removal (p_role null) of a member by the caller
+create or replace function public.check_member_change(p_member public.workspace_members, p_role public.workspace_role)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  actor_role public.workspace_role := public.workspace_role_of(p_member.workspace_id);
+  owner_count integer;
+begin
+  if actor_role is null then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  if not (p_role is null and p_member.user_id = auth.uid()) then
+    if actor_role not in ('owner', 'admin') then
+      raise exception 'Only owners and admins can manage members';
+    end if;
+    if p_member.role = 'owner' and actor_role <> 'owner' then
+      raise exception 'Only owners can change other owners';
+    end if;
+    if p_role = 'owner' and actor_role <> 'owner' then
+      raise exception 'Only owners can make someone an owner';
+    end if;
+  end if;
+
+  select count(*) into owner_count
+  from public.workspace_members
+  where workspace_id = p_member.workspace_id and role = 'owner';
+
+  if p_member.role = 'owner' and p_role is distinct from 'owner' and owner_count <= 1 then
+    raise exception 'A workspace needs at least one owner';
+  end if;
+end;
+$$;
+
+create or replace function public.set_workspace_member_role(p_member_id uuid, p_role public.workspace_role)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member public.workspace_members;
+begin
+  select * into member from public.workspace_members where id = p_member_id for update;
+  if not found then
+    raise exception 'Member not found';
+  end if;
+
+  perform public.check_member_change(member, p_role);
+  update public.workspace_members set role = p_role where id = p_member_id;
+end;
+$$;
+
+create or replace function public.remove_workspace_member(p_member_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member public.workspace_members;
+begin
+  select * into member from public.workspace_members where id = p_member_id for update;
+  if not found then
+    raise exception 'Member not found';
+  end if;
+
+  perform public.check_member_change(member, null);
+  delete from public.workspace_members where id = p_member_id;
+end;
+$$;
+
+-- The aggregates now cover one workspace. RLS still applies, so a workspace
+-- the caller is not a member of gives empty results.
+drop function public.feedback_summary(timestamptz, timestamptz);
+drop function public.feedback_daily_counts(timestamptz, timestamptz, text);
+drop function public.feedback_daily_survey_metrics(timestamptz, timestamptz, text);
+drop function public.feedback_weekday_counts(timestamptz, timestamptz, text);
+drop function public.feedback_hourly_counts(timestamptz, timestamptz, text);
+drop function public.feedback_rating_histogram(timestamptz, timestamptz);
+drop function public.feedback_sentiment_counts(timestamptz, timestamptz);
+drop function public.issue_feedback_counts(timestamptz, timestamptz);
+
+create function public.feedback_summary(p_workspace_id uuid, p_from timestamptz, p_to timestamptz)
+returns table (
+  feedback_count bigint,
+  avg_rating numeric,
+  answerable_count bigint,
+  processed_count bigint,
+  avg_response_hours numeric,
+  nps_responses bigint,
+  promoters bigint,
+  detractors bigint,
+  csat_responses bigint,
+  csat_satisfied bigint,
+  ces_responses bigint,
+  avg_ces numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    count(*),
+    avg(average_rating),
+    count(*) filter (where status <> 'spam'),
+    count(*) filter (where status <> 'spam' and processed_at is not null),
+    avg(extract(epoch from processed_at - received_at) / 3600)
+      filter (where status <> 'spam' and processed_at is not null),
+    count(nps_score),
+    count(*) filter (where nps_score >= 9),
+    count(*) filter (where nps_score <= 6),
+    count(coalesce(csat_score, average_rating)),
+    count(*) filter (where coalesce(csat_score, average_rating) >= 4),
+    count(ces_score),
+    avg(ces_score)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+$$;
+
+create function public.feedback_daily_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (day date, feedback_count bigint, avg_rating numeric)
+language sql
+stable
+security invoker
+as $$
+  select (received_at at time zone p_timezone)::date, count(*), avg(average_rating)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+create function public.feedback_daily_survey_metrics(p_workspace_id uuid, p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (
+  day date,
+  nps_responses bigint,
+  promoters bigint,
+  detractors bigint,
+  csat_responses bigint,
+  csat_satisfied bigint,
+  ces_responses bigint,
+  avg_ces numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    (received_at at time zone p_timezone)::date,
+    count(nps_score),
+    count(*) filter (where nps_score >= 9),
+    count(*) filter (where nps_score <= 6),
+    count(coalesce(csat_score, average_rating)),
+    count(*) filter (where coalesce(csat_score, average_rating) >= 4),
+    count(ces_score),
+    avg(ces_score)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+create function public.feedback_weekday_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (weekday integer, feedback_count bigint, avg_rating numeric)
+language sql
+stable
+security invoker
+as $$
+  select extract(dow from received_at at time zone p_timezone)::integer, count(*), avg(average_rating)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+create function public.feedback_hourly_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (hour integer, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select extract(hour from received_at at time zone p_timezone)::integer, count(*)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+create function public.feedback_rating_histogram(p_workspace_id uuid, p_from timestamptz, p_to timestamptz)
+returns table (rating integer, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select least(floor(average_rating), 5)::integer, count(*)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and average_rating >= 1
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
+
+-- Thresholds are still the caller's own
+create function public.feedback_sentiment_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz)
+returns table (sentiment text, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  with thresholds as (
+    select
+      coalesce(max(positive_threshold), 0.2) as positive,
+      coalesce(max(negative_threshold), -0.2) as negative
+    from public.sentiment_settings
+    where user_id = auth.uid()
+  ),
+  scored as (
+    select coalesce(sentiment_score, public.rating_sentiment_score(average_rating)) as score
+    from public.feedbacks
+    where workspace_id = p_workspace_id
+      and (p_from is null or received_at >= p_from)
+      and (p_to is null or received_at < p_to)
+  )
+  select
+    case
+      when score is null then 'unrated'
+      when score >= thresholds.positive then 'positive'
+      when score <= thresholds.negative then 'negative'
+      else 'neutral'
+    end,
+    count(*)
+  from scored, thresholds
+  group by 1
+$$;
+
+create function public.issue_feedback_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz)
+returns table (issue_id uuid, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select fi.issue_id, count(*)
+  from public.feedback_issues fi
+  join public.feedbacks f on f.id = fi.feedback_id
+  where f.workspace_id = p_workspace_id
+    and (p_from is null or f.received_at >= p_from)
+    and (p_to is null or f.received_at < p_to)
+  group by fi.issue_id
+  order by 2 desc
+$$;
@@ -0,0 +1,240 @@
+-- Invitations to join a workspace. Owners and admins invite an email address
+-- with a role; the invitation carries a one-time token that is mailed as a
+-- link (see supabase/functions/invitation-emails) and expires after a week.
+-- Whoever signs in with that address can accept it once.
+-- The app mirrors the status rules in src/lib/invitations.ts.
+
+create table public.workspace_invitations (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null check (email ~ '^[^@\s]+@[^@\s]+$'),
+  role public.workspace_role not null default 'member',
+  token text not null unique,
+  invited_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  -- Null until the email with the current token went out
+  sent_at timestamptz,
+  accepted_at timestamptz,
+  accepted_by uuid references public.users (id) on delete set null,
+  revoked_at timestamptz
+);
+
+create index idx_workspace_invitations_workspace on public.workspace_invitations (workspace_id, created_at desc);
+
+-- At most one open invitation per address and workspace
+create unique index idx_workspace_invitations_open_email
+  on public.workspace_invitations (workspace_id, lower(email))
+  where accepted_at is null and revoked_at is null;
+
+create index idx_workspace_invitations_unsent
+  on public.workspace_invitations (created_at)
+  where sent_at is null and accepted_at is null and revoked_at is null;
+
+alter table public.workspace_invitations enable row level security;
+
+-- Only people who manage members see invitations; everything else goes
+-- through the functions below
+create policy "Owners and admins read invitations"
+  on public.workspace_invitations for select
+  using (public.workspace_role_of(workspace_id) in ('owner', 'admin'));
+
+create or replace function public.new_invitation_token()
+returns text
+language sql
+volatile
+as $$
+  select replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+$$;
+
+-- Checks the caller may invite to the workspace with the role
+create or replace function public.check_invitation_role(p_workspace_id uuid, p_role public.workspace_role)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  actor_role public.workspace_role := public.workspace_role_of(p_workspace_id);
+begin
+  if actor_role is null or actor_role not in ('owner', 'admin') then
+    raise exception 'Only owners and admins can invite members';
+  end if;
+  if p_role = 'owner' and actor_role <> 'owner' then
+    raise exception 'Only owners can make someone an owner';
+  end if;
+end;
+$$;
+
+create or replace function public.invite_workspace_member(p_workspace_id uuid, p_email text, p_role public.workspace_role)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitee_email text := lower(trim(p_email));
+  invitation_id uuid;
+begin
+  perform public.check_invitation_role(p_workspace_id, p_role);
+
+  if exists (
+    select 1 from public.workspace_members m
+    join public.users u on u.id = m.user_id
+    where m.workspace_id = p_workspace_id and lower(u.email) = invitee_email
+  ) then
+    raise exception '% is already a member of this workspace', invitee_email;
+  end if;
+
+  if exists (
+    select 1 from public.workspace_invitations i
+    where i.workspace_id = p_workspace_id and lower(i.email) = invitee_email
+      and i.accepted_at is null and i.revoked_at is null and i.expires_at > now()
+  ) then
+    raise exception '% has already been invited', invitee_email;
+  end if;
+
+  -- An expired invitation to the same address makes way for the new one
+  update public.workspace_invitations
+  set revoked_at = now()
+  where workspace_id = p_workspace_id and lower(workspace_invitations.email) = invitee_email
+    and accepted_at is null and revoked_at is null;
+
+  insert into public.workspace_invitations (workspace_id, email, role, token, invited_by, expires_at)
+  values (p_workspace_id, invitee_email, p_role, public.new_invitation_token(), auth.uid(), now() + interval '7 days')
+  returning id into invitation_id;
+
+  return invitation_id;
+end;
+$$;
+
+-- A fresh token and a new week; the link mailed before stops working
+create or replace function public.resend_workspace_invitation(p_invitation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations;
+begin
+  select * into invitation from public.workspace_invitations where id = p_invitation_id for update;
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+  perform public.check_invitation_role(invitation.workspace_id, invitation.role);
+  if invitation.accepted_at is not null or invitation.revoked_at is not null then
+    raise exception 'This invitation is no longer open';
+  end if;
+
+  update public.workspace_invitations
+  set token = public.new_invitation_token(), expires_at = now() + interval '7 days', sent_at = null
+  where id = p_invitation_id;
+end;
+$$;
+
+create or replace function public.revoke_workspace_invitation(p_invitation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations;
+begin
+  select * into invitation from public.workspace_invitations where id = p_invitation_id for update;
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+  perform public.check_invitation_role(invitation.workspace_id, invitation.role);
+  if invitation.accepted_at is not null then
+    raise exception 'This invitation has already been accepted';
+  end if;
+
+  update public.workspace_invitations set revoked_at = now() where id = p_invitation_id and revoked_at is null;
+end;
+$$;
+
+-- What the acceptance page shows. Anyone holding the token may look, signed
+-- in or not, so it only reveals what the email already told them.
+create or replace function public.get_workspace_invitation(p_token text)
+returns table (
+  workspace_name text,
+  email text,
+  role public.workspace_role,
+  invited_by_name text,
+  expires_at timestamptz,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    w.name,
+    i.email,
+    i.role,
+    u.username,
+    i.expires_at,
+    case
+      when i.accepted_at is not null then 'accepted'
+      when i.revoked_at is not null then 'revoked'
+      when i.expires_at <= now() then 'expired'
+      else 'pending'
+    end
+  from public.workspace_invitations i
+  join public.workspaces w on w.id = i.workspace_id
+  left join public.users u on u.id = i.invited_by
+  where i.token = p_token
+$$;
+
+grant execute on function public.get_workspace_invitation(text) to anon, authenticated;
+
+-- Joins the caller to the workspace with the invited role; resolves to the workspace id
+create or replace function public.accept_workspace_invitation(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations;
+  caller_email text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  select * into invitation from public.workspace_invitations where token = p_token for update;
+  if not found then
+    raise exception 'This invitation link is not valid';
+  end if;
+  if invitation.accepted_at is not null then
+    raise exception 'This invitation has already been used';
+  end if;
+  if invitation.revoked_at is not null then
+    raise exception 'This invitation has been revoked';
+  end if;
+  if invitation.expires_at <= now() then
+    raise exception 'This invitation has expired';
+  end if;
+
+  select email into caller_email from public.users where id = auth.uid();
+  if lower(caller_email) is distinct from lower(invitation.email) then
+    raise exception 'This invitation was sent to %', invitation.email;
+  end if;
+
+  -- Someone who is already a member keeps their role
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (invitation.workspace_id, auth.uid(), invitation.role)
+  on conflict (workspace_id, user_id) do nothing;
+
+  update public.workspace_invitations
+  set accepted_at = now(), accepted_by = auth.uid()
+  where id = invitation.id;
+
+  return invitation.workspace_id;
+end;
+$$;
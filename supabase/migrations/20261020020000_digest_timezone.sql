@@ -0,0 +1,11 @@
+-- Digests follow the timezone chosen in Settings (user_settings.timezone)
+-- instead of a copy kept in digest_subscriptions, which the app had to keep
+-- in step by hand. Copies are carried over for users who never chose one.
+
+insert into public.user_settings (user_id, timezone)
+select user_id, timezone
+from public.digest_subscriptions
+on conflict (user_id) do update
+set timezone = coalesce(public.user_settings.timezone, excluded.timezone);
+
+alter table public.digest_subscriptions drop column timezone;
@@ -0,0 +1,79 @@
+-- The email in public.users follows the confirmed sign-in address. It used to
+-- be written by update_user_profile straight from the Settings form, before
+-- the address had been confirmed, so a profile could claim any address; it is
+-- now only ever copied from auth.users, which Supabase changes once the new
+-- address has been confirmed.
+
+drop function if exists public.update_user_profile(text, text);
+
+-- Issues are visible to the user whose username they carry, so a rename has
+-- to move them along in the same transaction; RLS would hide them from the
+-- user halfway through if the app did it one table at a time.
+create or replace function public.update_user_profile(p_username text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  p_username := trim(p_username);
+  if length(p_username) not between 3 and 20 then
+    raise exception 'Username must be 3 to 20 characters';
+  end if;
+
+  select username into v_previous from public.users where id = auth.uid() for update;
+  if not found then
+    raise exception 'User profile not found';
+  end if;
+
+  if exists (select 1 from public.users where username = p_username and id <> auth.uid()) then
+    raise exception 'Username is already taken';
+  end if;
+
+  update public.users
+  set username = p_username, updated_at = now()
+  where id = auth.uid();
+
+  if v_previous <> p_username then
+    update public.current_issues set username = p_username where username = v_previous;
+    update public.feedbacks set username = p_username where username = v_previous;
+  end if;
+end;
+$$;
+
+create or replace function public.sync_user_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.users
+  set email = new.email, updated_at = now()
+  where id = new.id;
+  return new;
+end;
+$$;
+
+create trigger sync_user_email
+  after update of email on auth.users
+  for each row
+  when (new.email is not null and old.email is distinct from new.email)
+  execute function public.sync_user_email();
+
+-- Undo any unconfirmed address already written by the old function
+update public.users
+set email = auth_users.email, updated_at = now()
+from auth.users as auth_users
+where auth_users.id = public.users.id
+  and auth_users.email is not null
+  and public.users.email is distinct from auth_users.email;
+
+-- Profiles change only through update_user_profile and the trigger above
+revoke update on public.users from anon, authenticated;
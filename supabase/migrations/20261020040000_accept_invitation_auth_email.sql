@@ -0,0 +1,51 @@
+-- Invitations are accepted by whoever signs in with the invited address. The
+-- address was read from public.users, which the profile form used to be able
+-- to set to anything, so it is now read from the confirmed sign-in account.
+
+create or replace function public.accept_workspace_invitation(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations;
+  caller_email text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  select * into invitation from public.workspace_invitations where token = p_token for update;
+  if not found then
+    raise exception 'This invitation link is not valid';
+  end if;
+  if invitation.accepted_at is not null then
+    raise exception 'This invitation has already been used';
+  end if;
+  if invitation.revoked_at is not null then
+    raise exception 'This invitation has been revoked';
+  end if;
+  if invitation.expires_at <= now() then
+    raise exception 'This invitation has expired';
+  end if;
+
+  select email into caller_email
+  from auth.users
+  where id = auth.uid() and email_confirmed_at is not null;
+  if lower(caller_email) is distinct from lower(invitation.email) then
+    raise exception 'This invitation was sent to %', invitation.email;
+  end if;
+
+  -- Someone who is already a member keeps their role
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (invitation.workspace_id, auth.uid(), invitation.role)
+  on conflict (workspace_id, user_id) do nothing;
+
+  update public.workspace_invitations
+  set accepted_at = now(), accepted_by = auth.uid()
+  where id = invitation.id;
+
+  return invitation.workspace_id;
+end;
+$$;
@@ -0,0 +1,106 @@
+-- Deleting feedback in bulk used to copy the rows to the browser and insert
+-- them back table by table on undo, so one failed insert left the feedback
+-- half restored. Deleted feedback now goes to a trash the database keeps, and
+-- comes back out of it in one transaction.
+
+create table public.feedback_deletions (
+  id uuid primary key default gen_random_uuid(),
+  deleted_by uuid not null references auth.users (id) on delete cascade,
+  deleted_at timestamptz not null default now(),
+  -- The deleted rows of feedbacks and of the tables that cascade from it
+  snapshot jsonb not null
+);
+
+create index idx_feedback_deletions_deleted_at on public.feedback_deletions (deleted_at);
+
+-- No policies: only the functions below read or write it
+alter table public.feedback_deletions enable row level security;
+
+create or replace function public.delete_feedbacks(p_feedback_ids uuid[])
+returns table (deletion_id uuid, deleted_count integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ids uuid[];
+  new_deletion_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Feedback the caller may not edit is left alone, as row-level security would
+  select coalesce(array_agg(f.id), '{}') into ids
+  from public.feedbacks f
+  where f.id = any(p_feedback_ids) and public.can_edit_workspace(f.workspace_id);
+
+  -- Undo is only offered right after deleting
+  delete from public.feedback_deletions d where d.deleted_at < now() - interval '1 day';
+
+  insert into public.feedback_deletions (deleted_by, snapshot)
+  values (auth.uid(), jsonb_build_object(
+    'feedbacks', (select coalesce(jsonb_agg(to_jsonb(f)), '[]') from public.feedbacks f where f.id = any(ids)),
+    'feedback_tags', (select coalesce(jsonb_agg(to_jsonb(t)), '[]') from public.feedback_tags t where t.feedback_id = any(ids)),
+    'feedback_issues', (select coalesce(jsonb_agg(to_jsonb(l)), '[]') from public.feedback_issues l where l.feedback_id = any(ids)),
+    'feedback_status_events', (select coalesce(jsonb_agg(to_jsonb(e)), '[]') from public.feedback_status_events e where e.feedback_id = any(ids)),
+    'cluster_dismissals', (select coalesce(jsonb_agg(to_jsonb(c)), '[]') from public.cluster_dismissals c where c.feedback_id = any(ids))
+  ))
+  returning id into new_deletion_id;
+
+  -- Tags, issue links, status history and dismissals go with it (on delete cascade)
+  delete from public.feedbacks f where f.id = any(ids);
+
+  return query select new_deletion_id, cardinality(ids);
+end;
+$$;
+
+create or replace function public.restore_feedbacks(p_deletion_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deletion public.feedback_deletions;
+  restored integer;
+begin
+  select * into deletion
+  from public.feedback_deletions d
+  where d.id = p_deletion_id and d.deleted_by = auth.uid()
+  for update;
+  if not found then
+    raise exception 'This deletion can no longer be undone';
+  end if;
+
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.feedbacks, deletion.snapshot -> 'feedbacks') f
+    where not public.can_edit_workspace(f.workspace_id)
+  ) then
+    raise exception 'You can no longer edit the workspace this feedback was deleted from';
+  end if;
+
+  insert into public.feedbacks
+  select * from jsonb_populate_recordset(null::public.feedbacks, deletion.snapshot -> 'feedbacks');
+  get diagnostics restored = row_count;
+
+  -- Tags and issues deleted since do not come back with the feedback
+  insert into public.feedback_tags
+  select t.* from jsonb_populate_recordset(null::public.feedback_tags, deletion.snapshot -> 'feedback_tags') t
+  where exists (select 1 from public.tags where id = t.tag_id);
+
+  insert into public.feedback_issues
+  select l.* from jsonb_populate_recordset(null::public.feedback_issues, deletion.snapshot -> 'feedback_issues') l
+  where exists (select 1 from public.current_issues where id = l.issue_id);
+
+  insert into public.feedback_status_events
+  select * from jsonb_populate_recordset(null::public.feedback_status_events, deletion.snapshot -> 'feedback_status_events');
+
+  insert into public.cluster_dismissals
+  select * from jsonb_populate_recordset(null::public.cluster_dismissals, deletion.snapshot -> 'cluster_dismissals');
+
+  delete from public.feedback_deletions d where d.id = deletion.id;
+
+  return restored;
+end;
+$$;
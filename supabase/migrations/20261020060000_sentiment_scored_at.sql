@@ -0,0 +1,28 @@
+-- Feedback without text keeps a null score, which could not be told apart
+-- from feedback not scored yet, so every dashboard load loaded and "scored"
+-- all of it again. Scoring now records when it happened, and the dashboard
+-- stores a batch of scores per call instead of one update per feedback.
+
+alter table public.feedbacks add column sentiment_scored_at timestamptz;
+
+update public.feedbacks set sentiment_scored_at = now() where sentiment_score is not null;
+
+create index idx_feedbacks_unscored on public.feedbacks (workspace_id, received_at desc)
+  where sentiment_scored_at is null;
+
+-- p_scores is a list of {id, score}; score is null for feedback without text.
+-- Runs as the caller, so feedback they may not edit is not changed.
+create or replace function public.set_sentiment_scores(p_scores jsonb)
+returns integer
+language sql
+security invoker
+as $$
+  with scored as (
+    update public.feedbacks f
+    set sentiment_score = s.score, sentiment_scored_at = now()
+    from jsonb_to_recordset(p_scores) as s (id uuid, score numeric)
+    where f.id = s.id
+    returning f.id
+  )
+  select count(*)::integer from scored
+$$;
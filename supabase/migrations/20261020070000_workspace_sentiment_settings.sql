@@ -0,0 +1,66 @@
+-- Sentiment thresholds were kept per account, so teammates looking at the
+-- same workspace saw its feedback split into different buckets. They now
+-- belong to the workspace: members read them and owners change them.
+
+alter table public.sentiment_settings rename to account_sentiment_settings;
+
+create table public.sentiment_settings (
+  workspace_id uuid primary key references public.workspaces (id) on delete cascade,
+  positive_threshold numeric not null default 0.2,
+  negative_threshold numeric not null default -0.2,
+  updated_at timestamptz not null default now(),
+  check (negative_threshold < positive_threshold),
+  check (positive_threshold between -1 and 1),
+  check (negative_threshold between -1 and 1)
+);
+
+-- Each workspace starts from the thresholds of the account that created it
+insert into public.sentiment_settings (workspace_id, positive_threshold, negative_threshold, updated_at)
+select w.id, s.positive_threshold, s.negative_threshold, s.updated_at
+from public.workspaces w
+join public.account_sentiment_settings s on s.user_id = w.created_by;
+
+drop table public.account_sentiment_settings;
+
+alter table public.sentiment_settings enable row level security;
+
+create policy "Members read their workspace's sentiment settings"
+  on public.sentiment_settings for select
+  using (public.workspace_role_of(workspace_id) is not null);
+
+create policy "Owners change their workspace's sentiment settings"
+  on public.sentiment_settings for all
+  using (public.workspace_role_of(workspace_id) = 'owner')
+  with check (public.workspace_role_of(workspace_id) = 'owner');
+
+create or replace function public.feedback_sentiment_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz)
+returns table (sentiment text, feedback_count bigint)
+language sql
+stable
+security invoker
+as $$
+  with thresholds as (
+    select
+      coalesce(max(positive_threshold), 0.2) as positive,
+      coalesce(max(negative_threshold), -0.2) as negative
+    from public.sentiment_settings
+    where workspace_id = p_workspace_id
+  ),
+  scored as (
+    select coalesce(sentiment_score, public.rating_sentiment_score(average_rating)) as score
+    from public.feedbacks
+    where workspace_id = p_workspace_id
+      and (p_from is null or received_at >= p_from)
+      and (p_to is null or received_at < p_to)
+  )
+  select
+    case
+      when score is null then 'unrated'
+      when score >= thresholds.positive then 'positive'
+      when score <= thresholds.negative then 'negative'
+      else 'neutral'
+    end,
+    count(*)
+  from scored, thresholds
+  group by 1
+$$;
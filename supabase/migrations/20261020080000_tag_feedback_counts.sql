@@ -0,0 +1,59 @@
+-- Tag management loaded every feedback and tag link of the workspace to
+-- count how often each tag is used and which feedback its keyword rules
+-- would tag. The database counts both now, and applies a rule itself.
+
+-- Same matching as getMatchedKeywords in src/lib/tagging.ts: any keyword as
+-- a whole word or phrase of the subject or summary, ignoring case
+create or replace function public.matches_tag_keywords(p_subject text, p_summary text, p_keywords text[])
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+    from unnest(p_keywords) as k (keyword)
+    where coalesce(p_subject, '') || ' ' || coalesce(p_summary, '')
+      ~* ('\m' || regexp_replace(k.keyword, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\M')
+  )
+$$;
+
+-- rule_match_count is feedback the keywords match that does not have the tag yet
+create or replace function public.tag_feedback_counts(p_workspace_id uuid)
+returns table (tag_id uuid, feedback_count bigint, rule_match_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select
+    t.id,
+    (select count(*) from public.feedback_tags ft where ft.tag_id = t.id),
+    (
+      select count(*)
+      from public.feedbacks f
+      where f.workspace_id = t.workspace_id
+        and public.matches_tag_keywords(f.subject, f.feedback_summary, t.keywords)
+        and not exists (select 1 from public.feedback_tags ft where ft.tag_id = t.id and ft.feedback_id = f.id)
+    )
+  from public.tags t
+  where t.workspace_id = p_workspace_id
+$$;
+
+-- Tags every feedback the tag's keywords match; returns how many were newly
+-- tagged. Runs as the caller, so roles that may not edit tags get an error.
+create or replace function public.apply_tag_rule(p_tag_id uuid)
+returns integer
+language sql
+security invoker
+as $$
+  with tagged as (
+    insert into public.feedback_tags (feedback_id, tag_id, tagged_by)
+    select f.id, t.id, auth.uid()
+    from public.tags t
+    join public.feedbacks f on f.workspace_id = t.workspace_id
+    where t.id = p_tag_id
+      and public.matches_tag_keywords(f.subject, f.feedback_summary, t.keywords)
+    on conflict (feedback_id, tag_id) do nothing
+    returning 1
+  )
+  select count(*)::integer from tagged
+$$;
@@ -0,0 +1,9 @@
+-- French and German were offered in Settings without a catalog, so choosing
+-- them left the interface in English. Only languages the app translates are
+-- offered now; accounts that picked another one go back to English.
+
+update public.user_settings set language = 'en' where language not in ('en', 'es');
+
+alter table public.user_settings
+  drop constraint user_settings_language_check,
+  add constraint user_settings_language_check check (language in ('en', 'es'));
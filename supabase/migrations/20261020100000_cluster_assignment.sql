@@ -0,0 +1,13 @@
+-- New feedback used to be linked to matching issues by whichever dashboard
+-- was open when it arrived, so nothing was linked while no one was signed in
+-- and every open dashboard tried at once. The cluster-assignment edge
+-- function does it now, on a schedule, and records which feedback it has
+-- checked so each one is considered once.
+
+alter table public.feedbacks add column cluster_checked_at timestamptz;
+
+-- Feedback from before the job only joined issues when it arrived
+update public.feedbacks set cluster_checked_at = received_at;
+
+create index idx_feedbacks_cluster_unchecked on public.feedbacks (received_at)
+  where cluster_checked_at is null;
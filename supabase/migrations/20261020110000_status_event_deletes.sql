@@ -0,0 +1,13 @@
+-- Undoing a bulk status change deletes the history entries it recorded, but
+-- no policy allowed deleting them: row-level security matched no rows, and
+-- the entries stayed behind. Editors may now delete the ones they recorded.
+
+create policy "Editors delete status changes they recorded"
+  on public.feedback_status_events for delete
+  using (
+    changed_by = auth.uid()
+    and exists (
+      select 1 from public.feedbacks f
+      where f.id = feedback_status_events.feedback_id and public.can_edit_workspace(f.workspace_id)
+    )
+  );
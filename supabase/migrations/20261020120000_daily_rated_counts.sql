@@ -0,0 +1,20 @@
+-- Rating anomalies judged a day by how much feedback it had, rated or not,
+-- so a day with one low rating among many unrated feedback could be flagged.
+-- The daily counts now say how many feedback were rated.
+
+drop function public.feedback_daily_counts(uuid, timestamptz, timestamptz, text);
+
+create function public.feedback_daily_counts(p_workspace_id uuid, p_from timestamptz, p_to timestamptz, p_timezone text)
+returns table (day date, feedback_count bigint, rated_count bigint, avg_rating numeric)
+language sql
+stable
+security invoker
+as $$
+  select (received_at at time zone p_timezone)::date, count(*), count(average_rating), avg(average_rating)
+  from public.feedbacks
+  where workspace_id = p_workspace_id
+    and (p_from is null or received_at >= p_from)
+    and (p_to is null or received_at < p_to)
+  group by 1
+  order by 1
+$$;
@@ -0,0 +1,40 @@
+-- Shared dashboard layouts were readable by every account, not only the
+-- team. Layouts now belong to a workspace, and shared ones are read by its
+-- members only.
+
+alter table public.dashboard_layouts
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+
+-- Existing layouts go to the workspace their owner joined first
+update public.dashboard_layouts l
+set workspace_id = (
+  select m.workspace_id
+  from public.workspace_members m
+  where m.user_id = l.owner_id
+  order by m.joined_at
+  limit 1
+);
+
+-- Owners in no workspace cannot open the dashboard, so their layouts are unused
+delete from public.dashboard_layouts where workspace_id is null;
+
+alter table public.dashboard_layouts alter column workspace_id set not null;
+
+create index dashboard_layouts_workspace_id_idx on public.dashboard_layouts (workspace_id, name);
+
+drop policy "Users read their own and shared dashboard layouts" on public.dashboard_layouts;
+drop policy "Users create their own dashboard layouts" on public.dashboard_layouts;
+drop policy "Users update their own dashboard layouts" on public.dashboard_layouts;
+
+create policy "Users read their own and their team's shared dashboard layouts"
+  on public.dashboard_layouts for select
+  using (owner_id = auth.uid() or (shared and public.workspace_role_of(workspace_id) is not null));
+
+create policy "Members create their own dashboard layouts"
+  on public.dashboard_layouts for insert
+  with check (owner_id = auth.uid() and public.workspace_role_of(workspace_id) is not null);
+
+create policy "Users update their own dashboard layouts in their workspaces"
+  on public.dashboard_layouts for update
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid() and public.workspace_role_of(workspace_id) is not null);